@@ -35,6 +35,36 @@ const ERROR_GUIDANCE: Record<CompareErrorCode, ErrorGuidance> = {
     guidance:
       "Certificate validation failed. Check that HTTPS is properly configured.",
   },
+  connection_refused: {
+    title: "Connection Refused",
+    guidance:
+      "The server refused the connection. Check that it is running and listening on the expected port, and that no firewall blocks it.",
+  },
+  connection_reset: {
+    title: "Connection Reset",
+    guidance:
+      "The server closed the connection mid-request. Check for crashing workers, proxy or load balancer timeouts, or a TLS/protocol mismatch.",
+  },
+  redirect_loop: {
+    title: "Redirect Loop",
+    guidance:
+      "The URL redirects back to a page already visited. Check redirect rules (e.g., HTTP↔HTTPS or trailing-slash rules that undo each other).",
+  },
+  too_many_redirects: {
+    title: "Too Many Redirects",
+    guidance:
+      "The redirect chain exceeded the limit. Shorten the chain or compare the final URL directly.",
+  },
+  redirect_missing_location: {
+    title: "Redirect Without Location",
+    guidance:
+      "The server sent a redirect status without a Location header. Check the redirect configuration on the server.",
+  },
+  har_too_large: {
+    title: "HAR Upload Too Large",
+    guidance:
+      "The upload exceeds the size limit. Export a smaller HAR (e.g., filter to the pages you want to compare).",
+  },
   fetch_error: {
     title: "Network Error",
     guidance: "A network error occurred. Check connectivity and try again.",
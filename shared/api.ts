@@ -1,6 +1,7 @@
-import type { SignalEnvelope } from "./signal";
-import type { EnvDiff } from "./diff";
+import type { SignalEnvelope, ProbeRequestOptions } from "./signal";
+import type { EnvDiff, HostMapping, UrlNormalizationRules } from "./diff";
 import type { LlmExplanation } from "./llm";
+import type { HarDocument } from "./har";
 
 export type CompareRequest = {
   leftUrl: string;
@@ -10,8 +11,97 @@ export type CompareRequest = {
   leftLabel?: string;
   rightLabel?: string;
 
-  // Reserved for future tuning (timeouts, redirect limit, etc.)
-  // options?: CompareOptions;
+  // Request tuning applied to both probes (method, headers, timeouts, redirect limit).
+  options?: CompareOptions;
+
+  // Named credential references per side (resolved server-side; values never returned).
+  credentials?: CompareCredentialRefs;
+};
+
+/**
+ * One side of a HAR comparison: an imported HAR capture, or a live URL probed as usual.
+ */
+export type HarCompareSide =
+  | {
+      har: HarDocument;
+      url?: string; // entry to import; defaults to the first entry's request URL
+    }
+  | {
+      url: string;
+    };
+
+/**
+ * POST /api/compare/har body. At least one side must be a HAR.
+ * options apply to a live side only; samples and variants are not supported.
+ */
+export type HarCompareRequest = {
+  left: HarCompareSide;
+  right: HarCompareSide;
+  leftLabel?: string;
+  rightLabel?: string;
+  options?: CompareOptions;
+};
+
+/**
+ * Credential references by name, one per side.
+ * Names map to Worker secrets; secret values are injected at fetch time only.
+ */
+export type CompareCredentialRefs = {
+  left?: string;
+  right?: string;
+};
+
+/**
+ * Per-comparison request options.
+ * Request fields are applied identically to left and right probes and recorded on each SignalEnvelope.
+ */
+export type CompareOptions = ProbeRequestOptions & {
+  /**
+   * Number of timing samples per side (default 1).
+   * Samples are taken interleaved left/right; the distribution is stored in SignalEnvelope.timing.
+   */
+  samples?: number;
+
+  /**
+   * Content negotiation matrix: each variant is probed on both sides with its headers
+   * layered over options.headers, producing one EnvDiff per variant (CompareResult.variants).
+   */
+  variants?: NegotiationVariant[];
+
+  /**
+   * Rules applied to both final URLs before comparison (analysis only; probes are unaffected).
+   */
+  urlNormalization?: UrlNormalizationRules;
+
+  /**
+   * Host equivalences applied to URLs, location and access-control-allow-origin before diffing
+   * (analysis only; probes and stored envelopes keep raw values).
+   */
+  hostMappings?: HostMapping[];
+};
+
+/**
+ * Request headers a negotiation variant may set.
+ */
+export type NegotiationHeader = "accept" | "accept-encoding" | "accept-language";
+
+/**
+ * One content negotiation variant.
+ */
+export type NegotiationVariant = {
+  name: string; // unique per comparison, e.g. "json" or "de"
+  headers: Partial<Record<NegotiationHeader, string>>;
+};
+
+/**
+ * Per-variant comparison output.
+ */
+export type VariantComparison = {
+  name: string;
+  headers: Partial<Record<NegotiationHeader, string>>;
+  left: SignalEnvelope;
+  right: SignalEnvelope;
+  diff: EnvDiff;
 };
 
 export type CompareStartResponse = {
@@ -34,6 +124,12 @@ export type CompareErrorCode =
   | "timeout"
   | "dns_error"
   | "tls_error"
+  | "connection_refused"
+  | "connection_reset"
+  | "redirect_loop"
+  | "too_many_redirects"
+  | "redirect_missing_location"
+  | "har_too_large"
   | "fetch_error"
   | "internal_error";
 
@@ -83,4 +179,10 @@ export type CompareResult = {
   right?: SignalEnvelope;
   diff?: EnvDiff;
   explanation?: LlmExplanation;
+
+  /**
+   * Content negotiation variants (present only when options.variants was set).
+   * The base comparison above is the implicit default variant.
+   */
+  variants?: VariantComparison[];
 };
@@ -1,6 +1,13 @@
 // shared/diff.ts
 
-import type { SignalEnvelope, RedirectHop } from "./signal";
+import type {
+  SignalEnvelope,
+  RedirectHop,
+  TimingDistribution,
+  SecurityHeaderKey,
+  SetCookieRecord,
+  ServerTimingMetric,
+} from "./signal";
 
 // Re-export for convenience
 export type { SignalEnvelope } from "./signal";
@@ -62,6 +69,84 @@ export type ContentDiff = {
   contentType?: Change<string>;
   contentLength?: Change<number>;
   bodyHash?: Change<string>;
+
+  /**
+   * Present only if either side's body capture was truncated.
+   * When set, contentLength/bodyHash compare captured prefixes, not full bodies.
+   */
+  bodyTruncated?: { left: boolean; right: boolean };
+};
+
+/**
+ * JSON structural diff over value-free fingerprints (paths use the JsonFingerprint syntax).
+ */
+export type JsonShapeDiff = {
+  added: string[]; // paths only on right (sorted)
+  removed: string[]; // paths only on left (sorted)
+  typeChanged: Record<string, Change<string>>;
+  arrayLengthChanged: Record<string, Change<number>>;
+
+  /**
+   * Present only if either side's fingerprint hit a size limit.
+   * Paths beyond the limit are then missing from that side, not removed.
+   */
+  truncated?: { left: boolean; right: boolean };
+};
+
+/**
+ * HTML build fingerprint diff. Only differing fields are present.
+ */
+export type HtmlFingerprintDiff = {
+  title?: Change<string>;
+  meta?: Record<string, Change<string>>; // version-like <meta> tags that differ
+  buildIds?: Record<string, Change<string>>; // inline build markers that differ
+  assets?: {
+    added: string[]; // script/stylesheet URLs only on right (sorted)
+    removed: string[]; // script/stylesheet URLs only on left (sorted)
+  };
+};
+
+/**
+ * Structural body diff (present only if a fingerprint differs).
+ */
+export type BodyDiff = {
+  json?: JsonShapeDiff;
+  html?: HtmlFingerprintDiff;
+};
+
+/**
+ * CORS preflight diff (present only when both sides ran a preflight).
+ * status is undefined on a side whose OPTIONS request failed (errorCode is then set).
+ */
+export type PreflightDiff = {
+  allowed: Change<boolean>; // would a browser accept the preflight for the configured origin/method/headers
+  status: Change<number>;
+  errorCode?: Change<string>; // present only if either side's preflight failed
+  headers: HeaderDiff<string>; // access-control-* and vary
+};
+
+/**
+ * Set-Cookie attribute names as used in evidence keys (lowercase).
+ */
+export type CookieAttributeKey =
+  | "domain"
+  | "expires"
+  | "httponly"
+  | "max-age"
+  | "partitioned"
+  | "path"
+  | "samesite"
+  | "secure";
+
+/**
+ * Set-Cookie diff, keyed by cookie name.
+ * If a name is set more than once on a side, the first record (sorted by domain, path) is compared.
+ */
+export type CookieDiff = {
+  added: Record<string, SetCookieRecord>; // set only on right
+  removed: Record<string, SetCookieRecord>; // set only on left
+  changed: Record<string, { left: SetCookieRecord; right: SetCookieRecord; attributes: CookieAttributeKey[] }>;
+  unchanged: string[]; // cookie names with identical attributes
 };
 
 export type TimingDiff = {
@@ -74,6 +159,48 @@ export type TimingDiff = {
    */
   ratio?: number;
   deltaMs?: number;
+
+  /**
+   * Start time gap between the probes: right.capturedAt - left.capturedAt (ms).
+   * Large values mean the sides were not measured at the same moment.
+   * Absent when either side is imported (e.g., a HAR's capturedAt is when the browser recorded it).
+   */
+  startSkewMs?: number;
+
+  /**
+   * Per-side distributions when multi-sample timing was captured on both sides.
+   * When present, ratio/deltaMs are derived from medians (p50) rather than durationMs.
+   */
+  samples?: {
+    left: TimingDistribution;
+    right: TimingDistribution;
+  };
+
+  /**
+   * Per-phase durations when both sides recorded a breakdown (result.phases).
+   * driftPhase is the phase with the largest absolute delta: ttfb points at the server,
+   * body at payload size or delivery, redirects at the redirect chain.
+   */
+  phases?: TimingPhasesDiff;
+  driftPhase?: TimingPhase;
+};
+
+export type TimingPhase = "redirects" | "ttfb" | "body";
+
+export type TimingPhasesDiff = {
+  redirectMs: Change<number>;
+  ttfbMs: Change<number>;
+  bodyMs: Change<number>;
+};
+
+/**
+ * Server-Timing diff of the final responses, keyed by metric name.
+ * changed holds metrics present on both sides whose duration or description differs.
+ */
+export type ServerTimingDiff = {
+  added: Record<string, ServerTimingMetric>; // right only
+  removed: Record<string, ServerTimingMetric>; // left only
+  changed: Record<string, { left: ServerTimingMetric; right: ServerTimingMetric }>;
 };
 
 export type CfContextDiff = {
@@ -85,6 +212,42 @@ export type CfContextDiff = {
   httpProtocol?: Change<string>;
 };
 
+/**
+ * Target platform diff. Only differing fields are present.
+ * age is compared by presence only (its value changes on every cached response).
+ */
+export type PlatformDiff = {
+  server?: Change<string>;
+  via?: Change<string>;
+  poweredBy?: Change<string>;
+  edgeColo?: Change<string>;
+  cacheStatus?: Change<string>;
+  age?: Change<number>;
+  xCache?: Change<string>;
+  altSvc?: Change<string>;
+};
+
+/**
+ * DNS diff for one host pair (left vs right). Only differing fields are present;
+ * hosts is always present (the hostnames normally differ between environments).
+ */
+export type DnsResolutionDiff = {
+  hosts: Change<string>;
+  cname?: Change<string[]>;
+  a?: Change<string[]>;
+  aaaa?: Change<string[]>;
+  error?: Change<string>;
+};
+
+/**
+ * DNS diff. final compares the final hosts (falling back to the requested host on a side
+ * without redirects to another host).
+ */
+export type DnsDiff = {
+  requested?: DnsResolutionDiff;
+  final?: DnsResolutionDiff;
+};
+
 /**
  * Findings are deterministic classifications produced by B2
  * (NOT the LLM explanation).
@@ -95,17 +258,28 @@ export type CfContextDiff = {
  */
 export const FINDING_CODES = [
   "PROBE_FAILURE",
+  "INTERMITTENT_FAILURE",
   "STATUS_MISMATCH",
   "FINAL_URL_MISMATCH",
   "REDIRECT_CHAIN_CHANGED",
+  "DNS_DRIFT",
   "AUTH_CHALLENGE_PRESENT",
   "CORS_HEADER_DRIFT",
+  "CORS_PREFLIGHT_DRIFT",
+  "SECURITY_HEADER_DRIFT",
+  "CUSTOM_HEADER_DRIFT",
+  "COOKIE_ATTRIBUTE_DRIFT",
   "CACHE_HEADER_DRIFT",
+  "VARY_MISMATCH",
   "CONTENT_TYPE_DRIFT",
   "BODY_HASH_DRIFT",
+  "JSON_SCHEMA_DRIFT",
+  "BUILD_FINGERPRINT_DRIFT",
   "CONTENT_LENGTH_DRIFT",
   "TIMING_DRIFT",
+  "SERVER_TIMING_DRIFT",
   "CF_CONTEXT_DRIFT",
+  "PLATFORM_DRIFT",
   "UNKNOWN_DRIFT",
 ] as const;
 
@@ -129,10 +303,17 @@ export type DiffEvidence = {
     | "status"
     | "finalUrl"
     | "headers"
+    | "cookies"
+    | "preflight"
+    | "variants"
     | "redirects"
+    | "dns"
     | "content"
+    | "body"
     | "timing"
+    | "serverTiming"
     | "cf"
+    | "platform"
     | "probe";
   keys?: string[];
   note?: string;
@@ -253,6 +434,25 @@ export type ProbeOutcomeDiff = {
    * when consuming ProbeOutcomeDiff in future code.
    */
   responsePresent: boolean;
+
+  /**
+   * Attempt history per retried side (present only if a side made more than one attempt).
+   */
+  retries?: RetryDiff;
+};
+
+/**
+ * Attempt history of one side whose probe was retried (SignalEnvelope.attempts).
+ */
+export type RetrySummary = {
+  attempts: number;
+  failedErrorCodes: string[]; // codes of the failed attempts, in attempt order
+  recovered: boolean; // the last attempt received an HTTP response
+};
+
+export type RetryDiff = {
+  left?: RetrySummary;
+  right?: RetrySummary;
 };
 
 export type EnvDiff = {
@@ -279,21 +479,63 @@ export type EnvDiff = {
    * Sections may be omitted if not available (e.g., probe failure).
    */
   status?: Change<number>;
-  finalUrl?: Change<string>;
+  finalUrl?: Change<string>; // raw final URLs
+
+  /**
+   * Present only if URL normalization rules were given and the raw final URLs differ.
+   * FINAL_URL_MISMATCH is decided on the normalized pair.
+   */
+  finalUrlNormalized?: NormalizedUrlDiff;
 
   headers?: {
     core: HeaderDiff<CoreHeaderKey>;
     accessControl?: HeaderDiff<string>;
+    security?: HeaderDiff<SecurityHeaderKey>;
+    custom?: HeaderDiff<string>; // caller-selected headers (options.captureHeaders)
   };
 
+  /**
+   * Present only if Set-Cookie names or attributes differ.
+   */
+  cookies?: CookieDiff;
+
+  preflight?: PreflightDiff;
+
   redirects?: RedirectDiff;
 
   content?: ContentDiff;
 
+  body?: BodyDiff;
+
   timing?: TimingDiff;
 
+  /**
+   * Present only if either final response carried Server-Timing metrics and they differ.
+   */
+  serverTiming?: ServerTimingDiff;
+
   cf?: CfContextDiff;
 
+  /**
+   * Present only if target platform markers differ.
+   */
+  platform?: PlatformDiff;
+
+  /**
+   * Present only if both sides captured DNS and the resolutions differ.
+   */
+  dns?: DnsDiff;
+
+  /**
+   * Present only if either envelope had values masked by redaction.
+   */
+  redactions?: RedactionDiff;
+
+  /**
+   * Present only if host mappings rewrote any value; sections above hold the mapped values.
+   */
+  hostMapping?: HostMappingDiff;
+
   /**
    * Deterministic findings derived from the above sections.
    * Output should be in stable order (e.g., by severity then code).
@@ -306,6 +548,61 @@ export type EnvDiff = {
   maxSeverity: Severity;
 };
 
+/**
+ * Rules applied to both final URLs before they are compared (CompareOptions.urlNormalization).
+ */
+export type UrlNormalizationRules = {
+  ignoreParams?: string[]; // query parameter names to drop; a trailing "*" matches a prefix (e.g., "utm_*")
+  sortParams?: boolean; // compare query parameters in name order
+  collapseSlashes?: boolean; // runs of "/" in the path become one "/"
+  removeDefaultPort?: boolean; // drop ":80" on http and ":443" on https
+  ignoreTrailingSlash?: boolean; // "/docs/" equals "/docs" (the root path is kept)
+};
+
+/**
+ * Final URLs after normalization, with the rules that produced them.
+ */
+export type NormalizedUrlDiff = Change<string> & {
+  rules: UrlNormalizationRules;
+};
+
+/**
+ * Declared host equivalence (CompareOptions.hostMappings): `left` is rewritten to `right` before diffing.
+ * Full hostnames ("staging.example.com" ≈ "www.example.com") match the whole host;
+ * single labels ("api-staging" ≈ "api") match the first label of a host.
+ */
+export type HostMapping = {
+  left: string;
+  right: string;
+};
+
+/**
+ * One value rewritten by a host mapping (field path as in RedactionRecord.field).
+ */
+export type HostRewrite = {
+  field: string;
+  raw: string;
+  mapped: string;
+};
+
+/**
+ * Host mappings applied to a comparison and the values they rewrote on each side.
+ */
+export type HostMappingDiff = {
+  mappings: HostMapping[];
+  left: HostRewrite[];
+  right: HostRewrite[];
+};
+
+/**
+ * Envelope fields masked by redaction on each side (SignalEnvelope.redactions[].field).
+ * Masked values compare equal: a match there means "masked on both sides", not "same value".
+ */
+export type RedactionDiff = {
+  left: string[];
+  right: string[];
+};
+
 /**
  * Optional type: the canonical deterministic compare artifact.
  * (You can also define this in shared/api.ts and import EnvDiff there.)
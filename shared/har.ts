@@ -0,0 +1,51 @@
+/**
+ * HAR 1.2 subset read by the HAR import provider.
+ * Only fields used to build a SignalEnvelope are typed; everything else is ignored.
+ * Spec: http://www.softwareishard.com/blog/har-12-spec/
+ */
+
+export type HarHeader = {
+  name: string;
+  value: string;
+};
+
+export type HarRequest = {
+  method: string;
+  url: string;
+  headers?: HarHeader[];
+};
+
+export type HarContent = {
+  size?: number; // decoded body size in bytes (-1 or absent if unknown)
+  mimeType?: string;
+  text?: string; // body, possibly omitted by the exporter
+  encoding?: string; // "base64" when text is base64-encoded
+};
+
+export type HarResponse = {
+  status: number; // 0 when the browser got no response (see entry._error)
+  headers?: HarHeader[];
+  content?: HarContent;
+  redirectURL?: string;
+};
+
+export type HarEntry = {
+  startedDateTime: string; // ISO 8601
+  time: number; // total elapsed ms for the request
+  request: HarRequest;
+  response: HarResponse;
+
+  /**
+   * Chromium-specific network error (e.g., "net::ERR_NAME_NOT_RESOLVED") when status is 0.
+   */
+  _error?: string;
+};
+
+export type HarLog = {
+  version?: string;
+  entries: HarEntry[];
+};
+
+export type HarDocument = {
+  log: HarLog;
+};
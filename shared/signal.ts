@@ -10,6 +10,7 @@ export type ProbeSide = "left" | "right";
 /**
  * Stable, narrow error taxonomy.
  * Expand cautiously.
+ * There is no body-size code: bodies over MAX_BODY_BYTES are truncated (bodyTruncated), not failed.
  */
 export type ProbeErrorCode =
   | "invalid_url"
@@ -17,6 +18,11 @@ export type ProbeErrorCode =
   | "timeout"
   | "tls_error"
   | "ssrf_blocked"
+  | "connection_refused"
+  | "connection_reset"
+  | "redirect_loop"
+  | "too_many_redirects"
+  | "redirect_missing_location"
   | "fetch_error"
   | "unknown_error";
 
@@ -31,6 +37,110 @@ export type ProbeError = {
   details?: Record<string, unknown>;
 };
 
+/**
+ * HTTP methods a probe may use.
+ */
+export type ProbeHttpMethod = "GET" | "HEAD" | "POST" | "PUT" | "PATCH" | "DELETE" | "OPTIONS";
+
+/**
+ * CORS preflight parameters.
+ * The preflight is a separate OPTIONS request to the requested URL (no credentials, no redirects).
+ */
+export type CorsPreflightOptions = {
+  origin: string; // e.g. "https://app.example.com"
+  requestMethod: string; // Access-Control-Request-Method
+  requestHeaders?: string[]; // Access-Control-Request-Headers (lowercase, sorted)
+};
+
+/**
+ * Extra response headers to capture beyond the built-in allowlist.
+ * Names and prefixes are lowercase; sensitive names (authorization, cookie, ...) are never captured.
+ */
+export type HeaderCaptureOptions = {
+  names?: string[]; // exact names, e.g. ["x-api-version", "x-region"]
+  prefixes?: string[]; // e.g. ["x-feature-"]
+};
+
+/**
+ * Retry policy for network-level failures (HTTP error responses are never retried).
+ * Delay before attempt n+1 is backoffMs * backoffMultiplier^(n-1); total delay is capped at timeoutMs
+ * (a retry whose delay would exceed the remaining budget is not attempted).
+ */
+export type RetryPolicy = {
+  maxAttempts: number; // total attempts, including the first
+  backoffMs?: number;
+  backoffMultiplier?: number;
+  retryOn?: ProbeErrorCode[]; // retryable codes (sorted); defaults to transient connection failures
+};
+
+/**
+ * Outcome of one attempt of a retried probe.
+ */
+export type ProbeAttempt = {
+  capturedAt: string; // ISO 8601
+  ok: boolean;
+  status?: number; // present if an HTTP response was received
+  errorCode?: ProbeErrorCode; // present on network failure
+  durationMs?: number;
+};
+
+/**
+ * Caller-supplied request options for a probe.
+ * All fields optional; the provider applies defaults.
+ */
+export type ProbeRequestOptions = {
+  method?: ProbeHttpMethod;
+
+  /**
+   * Extra request headers. Keys are normalized to lowercase.
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Optional request body (sent only for methods that allow one).
+   */
+  body?: string;
+
+  timeoutMs?: number;
+  maxRedirects?: number;
+
+  /**
+   * Optional CORS preflight sent alongside the main request.
+   */
+  preflight?: CorsPreflightOptions;
+
+  /**
+   * Custom response headers to capture into ResponseHeadersSnapshot.custom.
+   */
+  captureHeaders?: HeaderCaptureOptions;
+
+  /**
+   * Retry network-level failures (absent = single attempt).
+   */
+  retry?: RetryPolicy;
+};
+
+/**
+ * Effective request parameters used by a probe (defaults resolved).
+ * Recorded on the envelope so a result can be reproduced.
+ */
+export type ProbeRequestSnapshot = {
+  method: ProbeHttpMethod;
+  headers: Record<string, string>;
+  body?: string;
+  timeoutMs: number;
+  maxRedirects: number;
+  preflight?: CorsPreflightOptions;
+  captureHeaders?: HeaderCaptureOptions;
+  retry?: Required<RetryPolicy>;
+
+  /**
+   * Name of the credential reference used, if any.
+   * Never the credential value.
+   */
+  credentialRef?: string;
+};
+
 /**
  * One redirect hop in a manual redirect chain.
  */
@@ -38,6 +148,21 @@ export type RedirectHop = {
   fromUrl: string;
   toUrl: string;
   status: number;
+
+  /**
+   * Curated headers of the redirect response (same allowlist as the final response).
+   */
+  headers?: ResponseHeadersSnapshot;
+
+  /**
+   * Time for this hop's request/response, in milliseconds.
+   */
+  durationMs?: number;
+
+  /**
+   * Time from sending this hop's request to receiving its response headers, in milliseconds.
+   */
+  ttfbMs?: number;
 };
 
 /**
@@ -46,6 +171,7 @@ export type RedirectHop = {
  */
 export type CoreResponseHeaders = Partial<{
   "cache-control": string;
+  "content-language": string;
   "content-type": string;
   "vary": string;
   "www-authenticate": string;
@@ -58,12 +184,99 @@ export type CoreResponseHeaders = Partial<{
  */
 export type AccessControlHeaders = Record<string, string>;
 
+/**
+ * Security response headers captured for protection drift.
+ * Keys MUST be lowercase.
+ */
+export type SecurityHeaderKey =
+  | "permissions-policy"
+  | "referrer-policy"
+  | "strict-transport-security"
+  | "x-content-type-options"
+  | "x-frame-options";
+
+export type SecurityResponseHeaders = Partial<Record<SecurityHeaderKey, string>>;
+
+/**
+ * Caller-selected custom headers (see HeaderCaptureOptions).
+ * Keys MUST be lowercase.
+ */
+export type CustomResponseHeaders = Record<string, string>;
+
+/**
+ * Value-free record of one Set-Cookie header.
+ * The cookie value and the Expires date are never captured.
+ */
+export type SetCookieRecord = {
+  name: string;
+  domain?: string; // lowercase, leading "." stripped; undefined = host-only
+  path?: string;
+  secure: boolean;
+  httpOnly: boolean;
+  sameSite?: "strict" | "lax" | "none"; // undefined = not set (browsers default to lax)
+  maxAge?: number; // seconds
+  expires: boolean; // true if an Expires attribute was present
+  partitioned: boolean;
+};
+
+/**
+ * One Server-Timing metric (e.g., `db;dur=53.2;desc="Primary DB"`).
+ */
+export type ServerTimingMetric = {
+  name: string;
+  dur?: number; // milliseconds
+  desc?: string;
+};
+
 /**
  * Curated response header snapshot.
  */
 export type ResponseHeadersSnapshot = {
   core: CoreResponseHeaders;
   accessControl?: AccessControlHeaders;
+  security?: SecurityResponseHeaders;
+  custom?: CustomResponseHeaders;
+
+  /**
+   * Parsed Set-Cookie headers, sorted by name (values never captured).
+   */
+  cookies?: SetCookieRecord[];
+
+  /**
+   * Parsed Server-Timing metrics, sorted by name (first metric per name).
+   */
+  serverTiming?: ServerTimingMetric[];
+};
+
+/**
+ * Value-free structural fingerprint of a JSON body.
+ * Paths: "$" root, "$.key", '$["odd key"]', "$.items[]" (all array elements share one path).
+ */
+export type JsonFingerprint = {
+  paths: Record<string, string>; // path -> JSON type, or sorted "|"-joined union (e.g., "null|string")
+  arrayLengths: Record<string, number>; // arrays not nested inside other arrays only
+  truncated?: boolean; // true if the path/node/depth limit was hit
+};
+
+/**
+ * Deploy-identifying markers of an HTML page.
+ * Same-origin asset URLs are stored as path+query; cross-origin assets keep the full URL.
+ */
+export type HtmlFingerprint = {
+  title?: string;
+  meta: Record<string, string>; // version-like <meta> tags by lowercase name (generator, version, build, ...)
+  scripts: string[]; // <script src> URLs, sorted
+  stylesheets: string[]; // <link rel=stylesheet> URLs, sorted
+  buildIds: Record<string, string>; // inline build markers (e.g., "buildId", "data-build-id")
+  truncated?: boolean; // true if the asset limit was hit
+};
+
+/**
+ * Structural body fingerprints (extracted only from complete, untruncated bodies).
+ */
+export type BodyFingerprint = {
+  json?: JsonFingerprint;
+  html?: HtmlFingerprint;
 };
 
 /**
@@ -75,8 +288,59 @@ export type ResponseMetadata = {
 
   headers: ResponseHeadersSnapshot;
 
-  contentLength?: number;
+  contentLength?: number; // bytes actually read from the body stream
   bodyHash?: string; // e.g. sha256, hex-encoded
+
+  /**
+   * True if body reading stopped early (size cap or time budget hit).
+   * contentLength and bodyHash then describe the captured prefix only.
+   */
+  bodyTruncated?: boolean;
+
+  bodyFingerprint?: BodyFingerprint;
+};
+
+/**
+ * Outcome of a CORS preflight request.
+ * - status + headers: the OPTIONS request completed (any status, including 3xx which fails CORS)
+ * - error: the OPTIONS request failed before a response
+ */
+export type CorsPreflightResult =
+  | {
+      status: number;
+      headers: AccessControlHeaders; // access-control-* plus vary, sorted
+      durationMs: number;
+    }
+  | {
+      error: ProbeError;
+      durationMs: number;
+    };
+
+/**
+ * Where a probe's durationMs went (live probes only).
+ * redirectMs + ttfbMs + bodyMs ≈ durationMs (the remainder is local processing).
+ */
+export type TimingPhases = {
+  redirectMs: number; // probe start → final request sent (redirect hops and their SSRF checks)
+  ttfbMs: number; // final request sent → final response headers (server time + network round trip)
+  bodyMs: number; // final response headers → body read complete (or stopped at the size cap)
+};
+
+/**
+ * Multi-sample timing distribution for one side.
+ * samplesMs is in capture order; percentiles use the nearest-rank method.
+ */
+export type TimingDistribution = {
+  samplesMs: number[];
+  minMs: number;
+  p50Ms: number;
+  p95Ms: number;
+  maxMs: number;
+
+  /**
+   * Samples that ended in a network failure (excluded from samplesMs).
+   */
+  failedSamples: number;
 };
 
 /**
@@ -91,6 +355,21 @@ export type CfContextSnapshot = Partial<{
   httpProtocol: string;
 }>;
 
+/**
+ * Target-side platform markers from the final response (origin stack, CDN, edge location).
+ * Unlike CfContextSnapshot, this describes the probed server, not the runner.
+ */
+export type PlatformSnapshot = Partial<{
+  server: string;
+  via: string;
+  poweredBy: string; // x-powered-by
+  edgeColo: string; // cf-ray colo suffix (ray ID discarded)
+  cacheStatus: string; // cf-cache-status
+  age: number; // seconds
+  xCache: string; // x-cache
+  altSvc: string; // alt-svc
+}>;
+
 /**
  * Successful probe result.
  *
@@ -105,6 +384,11 @@ export type ProbeSuccess = {
   redirects?: RedirectHop[];
 
   durationMs: number;
+
+  /**
+   * Breakdown of durationMs by phase (absent for imported envelopes).
+   */
+  phases?: TimingPhases;
 };
 
 /**
@@ -127,6 +411,11 @@ export type ProbeResponseError = {
   redirects?: RedirectHop[];
 
   durationMs: number;
+
+  /**
+   * Breakdown of durationMs by phase (absent for imported envelopes).
+   */
+  phases?: TimingPhases;
 };
 
 /**
@@ -147,6 +436,12 @@ export type ProbeNetworkFailure = {
 
   error: ProbeError;
 
+  /**
+   * Redirect hops completed before the failure (e.g., the chain that led to an
+   * ssrf_blocked hop, including the hop whose Location was blocked).
+   */
+  redirects?: RedirectHop[];
+
   durationMs?: number;
 };
 
@@ -155,6 +450,59 @@ export type ProbeNetworkFailure = {
  */
 export type ProbeResult = ProbeSuccess | ProbeResponseError | ProbeNetworkFailure;
 
+/**
+ * DNS answers for one host, as seen by the probe's resolver.
+ * Address lists are sorted; empty record sets are omitted.
+ */
+export type DnsResolution = {
+  host: string; // lowercase
+  cname?: string[]; // CNAME chain in resolution order, without trailing dots
+  a?: string[];
+  aaaa?: string[];
+  error?: string; // resolver failure: DNS RCODE name (e.g., "NXDOMAIN", "SERVFAIL") or "timeout" / "resolver_error"
+};
+
+/**
+ * DNS captured for a probe (live probes with a resolver only).
+ */
+export type DnsSnapshot = {
+  requested: DnsResolution;
+  final?: DnsResolution; // present only if the final URL host differs from the requested host
+};
+
+/**
+ * Placeholder that replaces a masked value (or the masked part of a URL).
+ */
+export const REDACTED_VALUE = "[REDACTED]";
+
+/**
+ * Why a value was masked:
+ * - query-param: sensitive parameter name (token, code, signature, ...)
+ * - jwt: JWT-shaped string
+ * - high-entropy: long random-looking token
+ * - userinfo: credentials in a URL authority (user:password@)
+ */
+export type RedactionReason = "query-param" | "jwt" | "high-entropy" | "userinfo";
+
+/**
+ * One envelope field that was masked before the envelope left the provider.
+ * field is a path into the envelope, e.g. "result.response.finalUrl", "result.redirects[0].toUrl".
+ */
+export type RedactionRecord = {
+  field: string;
+  reasons: RedactionReason[]; // sorted
+};
+
+/**
+ * Origin of an envelope that was not probed live.
+ * - har: imported from a HAR capture (entryIndex = index of the requested entry in log.entries,
+ *   absent if no entry matched)
+ */
+export type SignalSource = {
+  kind: "har";
+  entryIndex?: number;
+};
+
 /**
  * The canonical signal envelope.
  * This is the primary persisted artifact.
@@ -173,7 +521,8 @@ export type SignalEnvelope = {
   requestedUrl: string;
 
   /**
-   * When the probe was executed.
+   * When the probe started (before SSRF checks and the first request).
+   * Left and right probes start together; EnvDiff.timing.startSkewMs reports the gap.
    */
   capturedAt: string; // ISO 8601
 
@@ -182,10 +531,53 @@ export type SignalEnvelope = {
    */
   cf?: CfContextSnapshot;
 
+  /**
+   * Target platform markers (present only when the final response carried any).
+   */
+  platform?: PlatformSnapshot;
+
+  /**
+   * Request parameters the probe was executed with.
+   */
+  request?: ProbeRequestSnapshot;
+
   /**
    * Outcome of the probe.
    */
   result: ProbeResult;
+
+  /**
+   * CORS preflight outcome (present only when request.preflight was set).
+   */
+  preflight?: CorsPreflightResult;
+
+  /**
+   * DNS resolution of the requested and final hosts (absent if not resolved, e.g., IP literal hosts).
+   */
+  dns?: DnsSnapshot;
+
+  /**
+   * Where the signal came from (absent = live probe).
+   */
+  source?: SignalSource;
+
+  /**
+   * Fields masked by redaction, sorted by field (absent = nothing masked).
+   * Masked values hold REDACTED_VALUE, so two masked values compare equal.
+   */
+  redactions?: RedactionRecord[];
+
+  /**
+   * Every attempt in order (present only when request.retry was set).
+   * All other captured fields describe the last attempt, except capturedAt (the first attempt's start).
+   */
+  attempts?: ProbeAttempt[];
+
+  /**
+   * Timing distribution across repeated samples (multi-sample mode only).
+   * result.durationMs remains the first sample's duration.
+   */
+  timing?: TimingDistribution;
 };
 
 /**
@@ -0,0 +1,57 @@
+import type { HtmlFingerprint } from "@shared/signal";
+import { classifyBuildFingerprintDrift, computeHtmlFingerprintDiff } from "../buildFingerprintUtils";
+
+const fingerprint = (overrides: Partial<HtmlFingerprint> = {}): HtmlFingerprint => ({
+  title: "Home",
+  meta: { generator: "Hugo 0.125" },
+  scripts: ["/js/app.111.js"],
+  stylesheets: ["/css/site.aaa.css"],
+  buildIds: {},
+  ...overrides,
+});
+
+describe("buildFingerprintUtils", () => {
+  describe("computeHtmlFingerprintDiff", () => {
+    it("returns undefined for identical fingerprints", () => {
+      expect(computeHtmlFingerprintDiff(fingerprint(), fingerprint())).toBeUndefined();
+    });
+
+    it("lists added and removed assets across scripts and stylesheets", () => {
+      const diff = computeHtmlFingerprintDiff(
+        fingerprint(),
+        fingerprint({ scripts: ["/js/app.222.js"], stylesheets: ["/css/site.aaa.css", "/css/extra.css"] })
+      );
+
+      expect(diff).toEqual({
+        assets: { added: ["/css/extra.css", "/js/app.222.js"], removed: ["/js/app.111.js"] },
+      });
+    });
+
+    it("reports differing meta tags, build ids and titles only", () => {
+      const diff = computeHtmlFingerprintDiff(
+        fingerprint({ buildIds: { buildId: "a1" } }),
+        fingerprint({ title: "Home (staging)", meta: { generator: "Hugo 0.126" }, buildIds: { buildId: "b2" } })
+      );
+
+      expect(diff).toEqual({
+        title: { left: "Home", right: "Home (staging)", changed: true },
+        meta: { generator: { left: "Hugo 0.125", right: "Hugo 0.126", changed: true } },
+        buildIds: { buildId: { left: "a1", right: "b2", changed: true } },
+      });
+    });
+  });
+
+  describe("classifyBuildFingerprintDrift", () => {
+    it("is warn when assets, build ids or meta differ", () => {
+      expect(classifyBuildFingerprintDrift({ assets: { added: ["/a.js"], removed: [] } })).toBe("warn");
+      expect(classifyBuildFingerprintDrift({ buildIds: { buildId: { left: "a", right: "b", changed: true } } })).toBe(
+        "warn"
+      );
+      expect(classifyBuildFingerprintDrift({ meta: { version: { left: "1", right: "2", changed: true } } })).toBe("warn");
+    });
+
+    it("is info when only the title differs", () => {
+      expect(classifyBuildFingerprintDrift({ title: { left: "A", right: "B", changed: true } })).toBe("info");
+    });
+  });
+});
@@ -69,6 +69,32 @@ describe("classify", () => {
       expect(findings[0].message).toContain("network-level");
     });
 
+    it("should name the specific failure in the PROBE_FAILURE message", () => {
+      const both = classify(
+        createBaseDiff({
+          probe: {
+            leftOk: false,
+            rightOk: false,
+            leftErrorCode: "redirect_loop",
+            rightErrorCode: "connection_refused",
+            outcomeChanged: false,
+          },
+        })
+      );
+      expect(both[0].message).toBe(
+        "Both probes failed (network-level): left redirect loop, right connection refused"
+      );
+
+      const left = classify(
+        createBaseDiff({
+          probe: { leftOk: false, rightOk: true, leftErrorCode: "too_many_redirects", outcomeChanged: true },
+          status: change(undefined, 200),
+        })
+      );
+      expect(left[0].message).toBe("Left probe failed (network-level): too many redirects; right succeeded");
+      expect(left[0].left_value).toBe("too_many_redirects");
+    });
+
     it("should emit PROBE_FAILURE when left probe had network failure, right succeeded", () => {
       const diff = createBaseDiff({
         probe: {
@@ -358,6 +384,366 @@ describe("classify", () => {
     });
   });
 
+  describe("CORS Preflight Drift", () => {
+    const emptyHeaders = { added: {}, removed: {}, changed: {}, unchanged: {} };
+
+    it("should emit critical when the preflight is allowed on one side only", () => {
+      const diff = createBaseDiff({
+        preflight: {
+          allowed: change(true, false),
+          status: unchanged(204),
+          headers: { ...emptyHeaders, removed: { "access-control-allow-origin": "https://app.example.com" } },
+        },
+      });
+      const findings = classify(diff);
+      expect(findings).toHaveLength(1);
+      expect(findings[0].code).toBe("CORS_PREFLIGHT_DRIFT");
+      expect(findings[0].severity).toBe("critical");
+      expect(findings[0].message).toBe("CORS preflight allowed on left only");
+      expect(findings[0].evidence).toEqual([
+        { section: "preflight", keys: ["allowed", "headers"] },
+        { section: "headers", keys: ["access-control-allow-origin"] },
+      ]);
+    });
+
+    it("should emit warn when the preflight differs but both sides agree on allowed", () => {
+      const diff = createBaseDiff({
+        preflight: {
+          allowed: unchanged(true),
+          status: change(200, 204),
+          headers: emptyHeaders,
+        },
+      });
+      const findings = classify(diff);
+      expect(findings[0].severity).toBe("warn");
+      expect(findings[0].evidence?.[0].keys).toEqual(["status"]);
+    });
+
+    it("should not emit when preflights match", () => {
+      const diff = createBaseDiff({
+        preflight: { allowed: unchanged(true), status: unchanged(204), headers: emptyHeaders },
+      });
+      expect(classify(diff)).toHaveLength(0);
+    });
+  });
+
+  describe("Security Header Drift", () => {
+    const withSecurity = (security: any) =>
+      createBaseDiff({
+        headers: {
+          core: { added: {}, removed: {}, changed: {}, unchanged: {} },
+          security: { added: {}, removed: {}, changed: {}, unchanged: {}, ...security },
+        },
+      });
+
+    it("should emit critical when a protection is missing on one side", () => {
+      const findings = classify(withSecurity({ removed: { "x-frame-options": "DENY" } }));
+      expect(findings).toHaveLength(1);
+      expect(findings[0].code).toBe("SECURITY_HEADER_DRIFT");
+      expect(findings[0].category).toBe("security");
+      expect(findings[0].severity).toBe("critical");
+      expect(findings[0].evidence?.[0]).toEqual({ section: "headers", keys: ["x-frame-options"] });
+    });
+
+    it("should emit critical when HSTS is disabled with max-age=0", () => {
+      const findings = classify(withSecurity({
+        changed: { "strict-transport-security": change("max-age=31536000", "max-age=0") },
+      }));
+      expect(findings[0].severity).toBe("critical");
+    });
+
+    it("should emit warn when a protection is weakened", () => {
+      const findings = classify(withSecurity({
+        changed: { "referrer-policy": change("no-referrer", "unsafe-url") },
+      }));
+      expect(findings[0].severity).toBe("warn");
+      expect(findings[0].message).toBe("referrer-policy protection weaker on one side");
+    });
+
+    it("should emit info when a value changes without a protection change", () => {
+      const findings = classify(withSecurity({
+        changed: { "x-content-type-options": change("nosniff", "NOSNIFF") },
+      }));
+      expect(findings[0].severity).toBe("info");
+    });
+
+    it("should emit one finding per differing header", () => {
+      const findings = classify(withSecurity({
+        added: { "permissions-policy": "camera=()" },
+        removed: { "x-frame-options": "SAMEORIGIN" },
+      }));
+      expect(findings.map((f) => f.id).sort()).toEqual([
+        "SECURITY_HEADER_DRIFT:headers:permissions-policy",
+        "SECURITY_HEADER_DRIFT:headers:x-frame-options",
+      ]);
+    });
+  });
+
+  describe("Custom Header Drift", () => {
+    const withCustom = (custom: any) =>
+      createBaseDiff({
+        headers: {
+          core: { added: {}, removed: {}, changed: {}, unchanged: {} },
+          custom: { added: {}, removed: {}, changed: {}, unchanged: {}, ...custom },
+        },
+      });
+
+    it("should emit warn naming the changed header", () => {
+      const findings = classify(withCustom({ changed: { "x-api-version": change("2024-01", "2024-06") } }));
+      expect(findings).toHaveLength(1);
+      expect(findings[0].code).toBe("CUSTOM_HEADER_DRIFT");
+      expect(findings[0].severity).toBe("warn");
+      expect(findings[0].message).toBe("x-api-version differs");
+      expect(findings[0].evidence?.[0]).toEqual({ section: "headers", keys: ["x-api-version"] });
+      expect(findings[0].left_value).toBe("2024-01");
+      expect(findings[0].right_value).toBe("2024-06");
+    });
+
+    it("should say which side has a one-sided header", () => {
+      const findings = classify(withCustom({
+        added: { "x-feature-flags": "beta" },
+        removed: { "x-region": "eu-west" },
+      }));
+      expect(findings.map((f) => [f.id, f.message]).sort()).toEqual([
+        ["CUSTOM_HEADER_DRIFT:headers:x-feature-flags", "x-feature-flags present on right only"],
+        ["CUSTOM_HEADER_DRIFT:headers:x-region", "x-region present on left only"],
+      ]);
+    });
+
+    it("should accept captured header names with token characters such as _ and .", () => {
+      const findings = classify(withCustom({ changed: { "x_region": change("eu", "us"), "x.trace": change("a", "b") } }));
+      expect(findings.map((f) => f.evidence?.[0].keys).sort()).toEqual([["x.trace"], ["x_region"]]);
+    });
+  });
+
+  describe("DNS Drift", () => {
+    it("should emit DNS_DRIFT alongside PROBE_FAILURE when both probes failed", () => {
+      const diff = createBaseDiff({
+        probe: {
+          leftOk: false,
+          rightOk: false,
+          leftErrorCode: "dns_error",
+          rightErrorCode: "fetch_error",
+          outcomeChanged: false,
+          responsePresent: false,
+        },
+        dns: {
+          requested: {
+            hosts: change("staging.example.com", "www.example.com"),
+            error: { left: "NXDOMAIN", right: undefined, changed: true },
+            a: { left: undefined, right: ["203.0.113.1"], changed: true },
+          },
+        },
+      });
+
+      const findings = classify(diff);
+      const dnsFinding = findings.find((f) => f.code === "DNS_DRIFT");
+
+      expect(findings.map((f) => f.code)).toContain("PROBE_FAILURE");
+      expect(dnsFinding?.severity).toBe("warn");
+      expect(dnsFinding?.category).toBe("routing");
+      expect(dnsFinding?.evidence?.[0]).toEqual({
+        section: "dns",
+        keys: ["a", "error"],
+        note: "requested (staging.example.com vs www.example.com): resolver error NXDOMAIN vs none, A on right only",
+      });
+      expect(dnsFinding?.left_value).toEqual({
+        requested: { hosts: "staging.example.com", error: "NXDOMAIN", a: null },
+      });
+    });
+
+    it("should not emit DNS_DRIFT when only address pools differ", () => {
+      const diff = createBaseDiff({
+        dns: {
+          requested: {
+            hosts: change("staging.example.com", "www.example.com"),
+            a: change(["203.0.113.1"], ["198.51.100.7"]),
+          },
+        },
+      });
+
+      expect(classify(diff).some((f) => f.code === "DNS_DRIFT")).toBe(false);
+    });
+  });
+
+  describe("Intermittent Failure", () => {
+    it("should emit INTERMITTENT_FAILURE when a side recovered after failed attempts", () => {
+      const diff = createBaseDiff({
+        probe: {
+          leftOk: true,
+          rightOk: true,
+          outcomeChanged: false,
+          responsePresent: true,
+          retries: { right: { attempts: 2, failedErrorCodes: ["connection_reset"], recovered: true } },
+        },
+      });
+
+      const finding = classify(diff).find((f) => f.code === "INTERMITTENT_FAILURE");
+
+      expect(finding).toMatchObject({
+        severity: "warn",
+        message: "Right probe recovered after 1 failed attempt",
+        evidence: [
+          { section: "probe", keys: ["right"], note: "right: 1 failed attempt (connection reset), then a response" },
+        ],
+      });
+    });
+
+    it("should report a side that failed every attempt as PROBE_FAILURE only", () => {
+      const diff = createBaseDiff({
+        probe: {
+          leftOk: false,
+          rightOk: true,
+          leftErrorCode: "timeout",
+          outcomeChanged: true,
+          retries: { left: { attempts: 3, failedErrorCodes: ["timeout", "timeout", "timeout"], recovered: false } },
+        },
+        status: change(undefined, 200),
+      });
+
+      const findings = classify(diff);
+
+      expect(findings.map((f) => f.code)).toEqual(["PROBE_FAILURE"]);
+      expect(findings[0].evidence?.[0].note).toBe("left: 3 failed attempts (timed out, timed out, timed out), no response");
+    });
+  });
+
+  describe("Server-Timing Drift", () => {
+    it("should point at the metric with the largest significant duration drift", () => {
+      const diff = createBaseDiff({
+        serverTiming: {
+          added: { queue: { name: "queue", dur: 3 } },
+          removed: {},
+          changed: {
+            app: { left: { name: "app", dur: 40 }, right: { name: "app", dur: 42 } },
+            db: { left: { name: "db", dur: 12 }, right: { name: "db", dur: 480 } },
+          },
+        },
+      });
+
+      const finding = classify(diff).find((f) => f.code === "SERVER_TIMING_DRIFT");
+
+      expect(finding).toMatchObject({
+        id: "SERVER_TIMING_DRIFT:serverTiming:dur,presence",
+        category: "timing",
+        severity: "critical",
+        message: "Server-Timing metric db differs: 12ms vs 480ms",
+        evidence: [{ section: "serverTiming", keys: ["dur", "presence"], note: "db 12ms vs 480ms; queue on right only" }],
+        left_value: { db: { name: "db", dur: 12 }, queue: null },
+        right_value: { db: { name: "db", dur: 480 }, queue: { name: "queue", dur: 3 } },
+      });
+    });
+
+    it("should report description changes as info and ignore duration jitter", () => {
+      const diff = createBaseDiff({
+        serverTiming: {
+          added: {},
+          removed: {},
+          changed: {
+            cache: { left: { name: "cache", desc: "HIT" }, right: { name: "cache", desc: "MISS" } },
+            db: { left: { name: "db", dur: 12 }, right: { name: "db", dur: 14 } },
+          },
+        },
+      });
+
+      const finding = classify(diff).find((f) => f.code === "SERVER_TIMING_DRIFT");
+
+      expect(finding).toMatchObject({
+        severity: "info",
+        message: "Server-Timing metrics differ: cache",
+        evidence: [{ section: "serverTiming", keys: ["desc"], note: "cache desc HIT vs MISS" }],
+      });
+    });
+
+    it("should not emit a finding when only jitter differs", () => {
+      const diff = createBaseDiff({
+        serverTiming: {
+          added: {},
+          removed: {},
+          changed: { db: { left: { name: "db", dur: 12 }, right: { name: "db", dur: 14 } } },
+        },
+      });
+
+      expect(classify(diff).some((f) => f.code === "SERVER_TIMING_DRIFT")).toBe(false);
+    });
+  });
+
+  describe("Redaction Notes", () => {
+    it("should note redacted redirect hops on REDIRECT_CHAIN_CHANGED", () => {
+      const diff = {
+        ...createEnvDiffWithRedirects({
+          leftRedirects: [{ fromUrl: "http://example.com", toUrl: "http://left.example.com/?token=[REDACTED]", status: 302 }],
+          rightRedirects: [{ fromUrl: "http://example.com", toUrl: "http://right.example.com/?token=[REDACTED]", status: 302 }],
+        }),
+        redactions: { left: ["result.redirects[0].toUrl"], right: ["result.redirects[0].toUrl"] },
+      };
+
+      const finding = classify(diff).find((f) => f.code === "REDIRECT_CHAIN_CHANGED");
+
+      expect(finding?.evidence?.[0].note).toBe(
+        "Values redacted before comparison (left, right); masked parts compare equal"
+      );
+    });
+
+    it("should not note redactions of unrelated fields", () => {
+      const diff = createBaseDiff({
+        finalUrl: change("http://example.com/a", "http://example.com/b"),
+        redactions: { left: ["result.redirects[0].toUrl"], right: [] },
+      });
+
+      const finding = classify(diff).find((f) => f.code === "FINAL_URL_MISMATCH");
+
+      expect(finding?.evidence?.[0].note).toBeUndefined();
+    });
+  });
+
+  describe("Cookie Attribute Drift", () => {
+    const record = (overrides: any = {}) => ({
+      name: "sid",
+      secure: true,
+      httpOnly: true,
+      sameSite: "lax",
+      expires: false,
+      partitioned: false,
+      ...overrides,
+    });
+
+    it("should emit one critical finding for a Secure downgrade", () => {
+      const diff = createBaseDiff({
+        cookies: {
+          added: {},
+          removed: {},
+          changed: { sid: { left: record(), right: record({ secure: false }), attributes: ["secure"] } },
+          unchanged: [],
+        },
+      });
+      const findings = classify(diff);
+      expect(findings).toHaveLength(1);
+      expect(findings[0].code).toBe("COOKIE_ATTRIBUTE_DRIFT");
+      expect(findings[0].severity).toBe("critical");
+      expect(findings[0].evidence).toEqual([{ section: "cookies", keys: ["secure"], note: "cookies: sid" }]);
+    });
+
+    it("should aggregate cookies and use the worst severity", () => {
+      const diff = createBaseDiff({
+        cookies: {
+          added: { fresh: record({ name: "fresh" }) },
+          removed: {},
+          changed: {
+            sid: { left: record({ maxAge: 3600 }), right: record({ maxAge: 60 }), attributes: ["max-age"] },
+          },
+          unchanged: [],
+        },
+      });
+      const findings = classify(diff);
+      expect(findings).toHaveLength(1);
+      expect(findings[0].severity).toBe("warn");
+      expect(findings[0].evidence?.[0].keys).toEqual(["max-age", "presence"]);
+      expect(findings[0].message).toBe("Set-Cookie attributes differ for fresh, sid");
+      expect(findings[0].left_value).toEqual({ fresh: null, sid: record({ maxAge: 3600 }) });
+    });
+  });
+
   describe("Cache Header Drift", () => {
     it("should emit with warn severity (cache-control changed)", () => {
       const diff = createBaseDiff({
@@ -497,6 +883,84 @@ describe("classify", () => {
     });
   });
 
+  describe("JSON Schema Drift", () => {
+    it("should emit critical with sorted keys and listed paths", () => {
+      const diff = createBaseDiff({
+        body: {
+          json: {
+            added: ["$.extra"],
+            removed: ["$.legacy"],
+            typeChanged: { "$.id": change("number", "string") },
+            arrayLengthChanged: {},
+          },
+        },
+      });
+      const findings = classify(diff);
+      expect(findings).toHaveLength(1);
+      expect(findings[0].code).toBe("JSON_SCHEMA_DRIFT");
+      expect(findings[0].severity).toBe("critical");
+      expect(findings[0].id).toBe("JSON_SCHEMA_DRIFT:body:added,removed,type-changed");
+      expect(findings[0].evidence?.[0]).toEqual({
+        section: "body",
+        keys: ["added", "removed", "type-changed"],
+        note: "added: $.extra; removed: $.legacy; type changed: $.id (number → string)",
+      });
+      expect(findings[0].left_value).toEqual({ "$.legacy": "present", "$.id": "number" });
+      expect(findings[0].right_value).toEqual({ "$.extra": "present", "$.id": "string" });
+    });
+
+    it("should emit warn when paths are only added", () => {
+      const diff = createBaseDiff({
+        body: { json: { added: ["$.extra"], removed: [], typeChanged: {}, arrayLengthChanged: {} } },
+      });
+      const findings = classify(diff);
+      expect(findings[0].severity).toBe("warn");
+      expect(findings[0].evidence?.[0].keys).toEqual(["added"]);
+    });
+
+    it("should not emit for array length changes alone", () => {
+      const diff = createBaseDiff({
+        body: {
+          json: { added: [], removed: [], typeChanged: {}, arrayLengthChanged: { "$.items": change(2, 3) } },
+        },
+      });
+      expect(classify(diff).find((f) => f.code === "JSON_SCHEMA_DRIFT")).toBeUndefined();
+    });
+  });
+
+  describe("Build Fingerprint Drift", () => {
+    it("should emit warn listing changed asset URLs", () => {
+      const diff = createBaseDiff({
+        body: {
+          html: {
+            assets: { added: ["/js/app.222.js"], removed: ["/js/app.111.js"] },
+            buildIds: { buildId: change("a1", "b2") },
+          },
+        },
+      });
+      const findings = classify(diff);
+      expect(findings).toHaveLength(1);
+      expect(findings[0].code).toBe("BUILD_FINGERPRINT_DRIFT");
+      expect(findings[0].severity).toBe("warn");
+      expect(findings[0].message).toBe("Deployed build differs");
+      expect(findings[0].evidence?.[0]).toEqual({
+        section: "body",
+        keys: ["assets", "build-id"],
+        note: "assets added: /js/app.222.js; assets removed: /js/app.111.js; build ids: buildId",
+      });
+    });
+
+    it("should emit info when only the title differs", () => {
+      const diff = createBaseDiff({
+        body: { html: { title: change("Home", "Home (staging)") } },
+      });
+      const findings = classify(diff);
+      expect(findings[0].severity).toBe("info");
+      expect(findings[0].message).toBe("Page title differs");
+      expect(findings[0].evidence?.[0].keys).toEqual(["title"]);
+    });
+  });
+
   describe("Content-Length Drift", () => {
     it("should emit with info severity (delta < 200B)", () => {
       const diff = createBaseDiff({
@@ -564,6 +1028,76 @@ describe("classify", () => {
       const findings = classify(diff);
       expect(findings).toHaveLength(0);
     });
+
+    it("should compare medians when samples are present", () => {
+      const diff = createBaseDiff({
+        timing: {
+          durationMs: change(900, 100),
+          samples: {
+            left: { samplesMs: [900, 100, 110], minMs: 100, p50Ms: 110, p95Ms: 900, maxMs: 900, failedSamples: 0 },
+            right: { samplesMs: [100, 120, 115], minMs: 100, p50Ms: 115, p95Ms: 120, maxMs: 120, failedSamples: 0 },
+          },
+        },
+      });
+      const findings = classify(diff);
+      expect(findings).toHaveLength(1);
+      expect(findings[0].code).toBe("TIMING_DRIFT");
+      expect(findings[0].severity).toBe("info");
+      expect(findings[0].evidence?.[0].keys).toEqual(["p50_ms", "p95_ms"]);
+    });
+
+    it("should escalate when the median delta exceeds the noise band", () => {
+      const diff = createBaseDiff({
+        timing: {
+          durationMs: change(100, 400),
+          samples: {
+            left: { samplesMs: [100, 105, 110], minMs: 100, p50Ms: 105, p95Ms: 110, maxMs: 110, failedSamples: 0 },
+            right: { samplesMs: [400, 390, 420], minMs: 390, p50Ms: 400, p95Ms: 420, maxMs: 420, failedSamples: 0 },
+          },
+        },
+      });
+      const findings = classify(diff);
+      expect(findings).toHaveLength(1);
+      expect(findings[0].severity).toBe("critical");
+      expect(findings[0].message).toBe("Median response duration differs: 105ms vs 400ms");
+    });
+
+    it("should attribute drift to server time when TTFB dominates", () => {
+      const diff = createBaseDiff({
+        timing: {
+          durationMs: change(160, 960),
+          phases: {
+            redirectMs: change(0, 0),
+            ttfbMs: change(120, 900),
+            bodyMs: change(40, 60),
+          },
+          driftPhase: "ttfb",
+        },
+      });
+      const findings = classify(diff);
+      expect(findings[0].message).toBe("Response duration differs: 160ms vs 960ms (mostly server time (TTFB))");
+      expect(findings[0].evidence?.[1]).toEqual({
+        section: "timing",
+        keys: ["ttfb_ms"],
+        note: "Mostly server time (TTFB): 120ms vs 900ms",
+      });
+    });
+
+    it("should attribute body drift to payload size or delivery", () => {
+      const timing = {
+        durationMs: change(200, 900),
+        phases: { redirectMs: change(0, 0), ttfbMs: change(100, 110), bodyMs: change(100, 790) },
+        driftPhase: "body",
+      };
+
+      const larger = classify(createBaseDiff({ timing, content: { contentLength: change(2000, 900000) } }));
+      expect(larger.find((f) => f.code === "TIMING_DRIFT")?.evidence?.[1].note).toBe(
+        "Mostly body transfer: 100ms vs 790ms; payload size differs (2000 vs 900000 bytes)"
+      );
+
+      const sameSize = classify(createBaseDiff({ timing }));
+      expect(sameSize[0].evidence?.[1].note).toBe("Mostly body transfer: 100ms vs 790ms; same payload size, slower delivery");
+    });
   });
 
   describe("CF Context Drift", () => {
@@ -594,6 +1128,34 @@ describe("classify", () => {
     });
   });
 
+  describe("Platform Drift", () => {
+    it("should emit warn when the origin stack differs", () => {
+      const diff = createBaseDiff({
+        platform: {
+          server: change("nginx", "cloudflare"),
+          edgeColo: change(undefined, "SJC"),
+        },
+      });
+      const findings = classify(diff);
+      expect(findings).toHaveLength(1);
+      expect(findings[0].code).toBe("PLATFORM_DRIFT");
+      expect(findings[0].category).toBe("platform");
+      expect(findings[0].severity).toBe("warn");
+      expect(findings[0].evidence?.[0]).toEqual({ section: "platform", keys: ["cf-ray", "server"] });
+      expect(findings[0].left_value).toEqual({ server: "nginx", edgeColo: null });
+      expect(findings[0].right_value).toEqual({ server: "cloudflare", edgeColo: "SJC" });
+    });
+
+    it("should emit info when only the edge location differs", () => {
+      const diff = createBaseDiff({
+        platform: { edgeColo: change("SJC", "LHR") },
+      });
+      const findings = classify(diff);
+      expect(findings[0].severity).toBe("info");
+      expect(findings[0].message).toBe("Target edge location or cache state differs");
+    });
+  });
+
   describe("Post-Processing & Determinism", () => {
     it("should be deterministic (same input produces same output)", () => {
       const baseOverrides = {
@@ -650,6 +1212,62 @@ describe("classify", () => {
   });
 
   describe("Redirect Chain Drift", () => {
+    it("should attach hop-level header differences as evidence", () => {
+      const diff = createEnvDiffWithRedirects({
+        leftRedirects: [
+          {
+            fromUrl: "http://example.com",
+            toUrl: "https://example.com/a",
+            status: 301,
+            headers: { core: {}, security: { "strict-transport-security": "max-age=600" } },
+          },
+        ],
+        rightRedirects: [
+          {
+            fromUrl: "http://example.com",
+            toUrl: "https://example.com/b",
+            status: 301,
+            headers: { core: {} },
+          },
+        ],
+      });
+
+      const redirectFinding = classify(diff).find((f) => f.code === "REDIRECT_CHAIN_CHANGED");
+
+      expect(redirectFinding?.evidence).toContainEqual({
+        section: "headers",
+        keys: ["strict-transport-security"],
+        note: "redirect hop 1",
+      });
+    });
+
+    it("should report hop header drift when the chains match", () => {
+      const hop = { fromUrl: "http://example.com", toUrl: "https://example.com/", status: 301 };
+      const diff = createEnvDiffWithRedirects({
+        leftRedirects: [{ ...hop, headers: { core: {}, security: { "strict-transport-security": "max-age=600" } } }],
+        rightRedirects: [{ ...hop, headers: { core: {} } }],
+      });
+
+      const redirectFinding = classify(diff).find((f) => f.code === "REDIRECT_CHAIN_CHANGED");
+
+      expect(redirectFinding).toMatchObject({
+        severity: "warn",
+        message: "Redirect hop headers differ",
+      });
+      expect(redirectFinding?.evidence).toContainEqual({
+        section: "headers",
+        keys: ["strict-transport-security"],
+        note: "redirect hop 1",
+      });
+    });
+
+    it("should not emit REDIRECT_CHAIN_CHANGED when chains and hop headers match", () => {
+      const hop = { fromUrl: "http://example.com", toUrl: "https://example.com/", status: 301, headers: { core: {} } };
+      const diff = createEnvDiffWithRedirects({ leftRedirects: [hop], rightRedirects: [hop] });
+
+      expect(classify(diff).some((f) => f.code === "REDIRECT_CHAIN_CHANGED")).toBe(false);
+    });
+
     it("should emit REDIRECT_CHAIN_CHANGED with warn severity when hopCount differs by 1", () => {
       const diff = createEnvDiffWithRedirects({
         leftRedirects: [
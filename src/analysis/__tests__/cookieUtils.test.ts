@@ -0,0 +1,93 @@
+import type { SetCookieRecord } from "@shared/signal";
+import {
+  changedCookieAttributes,
+  computeCookieDiff,
+  classifyCookieAttributeDrift,
+} from "../cookieUtils";
+
+const cookie = (overrides: Partial<SetCookieRecord> = {}): SetCookieRecord => ({
+  name: "sid",
+  path: "/",
+  secure: true,
+  httpOnly: true,
+  sameSite: "lax",
+  expires: false,
+  partitioned: false,
+  ...overrides,
+});
+
+describe("cookieUtils", () => {
+  describe("changedCookieAttributes", () => {
+    it("Returns sorted attribute keys that differ", () => {
+      expect(changedCookieAttributes(cookie(), cookie({ secure: false, path: "/app", maxAge: 60 }))).toEqual([
+        "max-age",
+        "path",
+        "secure",
+      ]);
+    });
+
+    it("Returns empty array for identical records", () => {
+      expect(changedCookieAttributes(cookie(), cookie())).toEqual([]);
+    });
+  });
+
+  describe("computeCookieDiff", () => {
+    it("Returns undefined when nothing differs", () => {
+      expect(computeCookieDiff([cookie()], [cookie()])).toBeUndefined();
+      expect(computeCookieDiff(undefined, undefined)).toBeUndefined();
+    });
+
+    it("Classifies cookies as added, removed, changed and unchanged", () => {
+      const diff = computeCookieDiff(
+        [cookie(), cookie({ name: "legacy" }), cookie({ name: "theme" })],
+        [cookie({ sameSite: "none" }), cookie({ name: "fresh" }), cookie({ name: "theme" })]
+      );
+
+      expect(Object.keys(diff!.added)).toEqual(["fresh"]);
+      expect(Object.keys(diff!.removed)).toEqual(["legacy"]);
+      expect(diff!.changed.sid.attributes).toEqual(["samesite"]);
+      expect(diff!.unchanged).toEqual(["theme"]);
+    });
+
+    it("Compares the first record when a name is set more than once", () => {
+      const diff = computeCookieDiff(
+        [cookie({ path: "/" }), cookie({ path: "/app", secure: false })],
+        [cookie({ path: "/" })]
+      );
+      expect(diff).toBeUndefined();
+    });
+  });
+
+  describe("classifyCookieAttributeDrift", () => {
+    it("Returns critical when Secure or HttpOnly is dropped on either side", () => {
+      expect(classifyCookieAttributeDrift(cookie(), cookie({ secure: false }))).toBe("critical");
+      expect(classifyCookieAttributeDrift(cookie({ httpOnly: false }), cookie())).toBe("critical");
+    });
+
+    it("Returns critical when SameSite is weakened (missing counts as lax)", () => {
+      expect(classifyCookieAttributeDrift(cookie({ sameSite: "strict" }), cookie({ sameSite: undefined }))).toBe(
+        "critical"
+      );
+      expect(classifyCookieAttributeDrift(cookie({ sameSite: "lax" }), cookie({ sameSite: undefined }))).toBe("info");
+    });
+
+    it("Returns critical when Domain scope is broadened", () => {
+      expect(classifyCookieAttributeDrift(cookie(), cookie({ domain: "example.com" }))).toBe("critical");
+      expect(
+        classifyCookieAttributeDrift(cookie({ domain: "app.example.com" }), cookie({ domain: "example.com" }))
+      ).toBe("critical");
+    });
+
+    it("Returns warn for unrelated domains, path or lifetime changes", () => {
+      expect(
+        classifyCookieAttributeDrift(cookie({ domain: "staging.example.com" }), cookie({ domain: "www.example.com" }))
+      ).toBe("warn");
+      expect(classifyCookieAttributeDrift(cookie({ maxAge: 3600 }), cookie({ maxAge: 60 }))).toBe("warn");
+      expect(classifyCookieAttributeDrift(cookie(), cookie({ path: "/app" }))).toBe("warn");
+    });
+
+    it("Returns info for Partitioned-only changes", () => {
+      expect(classifyCookieAttributeDrift(cookie(), cookie({ partitioned: true }))).toBe("info");
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import type { CorsPreflightOptions, CorsPreflightResult, FrozenSignalEnvelope } from "@shared/signal";
+import { isPreflightAllowed, computePreflightDiff } from "../corsUtils";
+
+const options: CorsPreflightOptions = {
+  origin: "https://app.example.com",
+  requestMethod: "PUT",
+  requestHeaders: ["content-type", "x-trace-id"],
+};
+
+const response = (status: number, headers: Record<string, string>): CorsPreflightResult => ({
+  status,
+  headers,
+  durationMs: 10,
+});
+
+const allowAll = {
+  "access-control-allow-headers": "Content-Type, X-Trace-Id",
+  "access-control-allow-methods": "GET, PUT",
+  "access-control-allow-origin": "https://app.example.com",
+};
+
+const envelope = (side: "left" | "right", preflight?: CorsPreflightResult): FrozenSignalEnvelope =>
+  ({
+    schemaVersion: 1,
+    comparisonId: "cmp",
+    probeId: `cmp:${side}`,
+    side,
+    requestedUrl: "https://example.com",
+    capturedAt: "2024-01-01T00:00:00.000Z",
+    request: { method: "GET", headers: {}, timeoutMs: 9000, maxRedirects: 10, preflight: options },
+    result: { ok: true, response: { status: 200, finalUrl: "https://example.com", headers: { core: {} } }, durationMs: 10 },
+    preflight,
+  }) as FrozenSignalEnvelope;
+
+describe("corsUtils", () => {
+  describe("isPreflightAllowed", () => {
+    it("Allows a matching origin, method and headers", () => {
+      expect(isPreflightAllowed(response(204, allowAll), options)).toBe(true);
+    });
+
+    it("Accepts wildcards", () => {
+      const wildcard = {
+        "access-control-allow-headers": "*",
+        "access-control-allow-methods": "*",
+        "access-control-allow-origin": "*",
+      };
+      expect(isPreflightAllowed(response(200, wildcard), options)).toBe(true);
+    });
+
+    it("Rejects non-2xx status, including redirects", () => {
+      expect(isPreflightAllowed(response(302, allowAll), options)).toBe(false);
+      expect(isPreflightAllowed(response(403, allowAll), options)).toBe(false);
+    });
+
+    it("Rejects a missing or different origin", () => {
+      const { ["access-control-allow-origin"]: _omit, ...noOrigin } = allowAll;
+      expect(isPreflightAllowed(response(204, noOrigin), options)).toBe(false);
+      expect(
+        isPreflightAllowed(response(204, { ...allowAll, "access-control-allow-origin": "https://other.com" }), options)
+      ).toBe(false);
+    });
+
+    it("Rejects an unlisted method unless safelisted", () => {
+      const getOnly = { ...allowAll, "access-control-allow-methods": "GET" };
+      expect(isPreflightAllowed(response(204, getOnly), options)).toBe(false);
+      expect(isPreflightAllowed(response(204, getOnly), { ...options, requestMethod: "POST" })).toBe(true);
+    });
+
+    it("Rejects when a requested header is not allowed", () => {
+      const partial = { ...allowAll, "access-control-allow-headers": "content-type" };
+      expect(isPreflightAllowed(response(204, partial), options)).toBe(false);
+    });
+
+    it("Rejects a failed preflight", () => {
+      const failed: CorsPreflightResult = { error: { code: "timeout", message: "timeout" }, durationMs: 9000 };
+      expect(isPreflightAllowed(failed, options)).toBe(false);
+    });
+  });
+
+  describe("computePreflightDiff", () => {
+    it("Returns undefined unless both sides ran a preflight", () => {
+      expect(computePreflightDiff(envelope("left", response(204, allowAll)), envelope("right"))).toBeUndefined();
+    });
+
+    it("Diffs allowed verdict, status and headers", () => {
+      const diff = computePreflightDiff(
+        envelope("left", response(204, allowAll)),
+        envelope("right", response(200, { ...allowAll, "access-control-allow-methods": "GET" }))
+      );
+
+      expect(diff?.allowed).toEqual({ left: true, right: false, changed: true });
+      expect(diff?.status).toEqual({ left: 204, right: 200, changed: true });
+      expect(diff?.errorCode).toBeUndefined();
+      expect(Object.keys(diff!.headers.changed)).toEqual(["access-control-allow-methods"]);
+    });
+
+    it("Records error codes when a preflight failed", () => {
+      const diff = computePreflightDiff(
+        envelope("left", response(204, allowAll)),
+        envelope("right", { error: { code: "timeout", message: "timeout" }, durationMs: 9000 })
+      );
+
+      expect(diff?.status).toEqual({ left: 204, right: undefined, changed: true });
+      expect(diff?.errorCode).toEqual({ left: undefined, right: "timeout", changed: true });
+      expect(Object.keys(diff!.headers.removed)).toHaveLength(3);
+    });
+  });
+});
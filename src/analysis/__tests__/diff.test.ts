@@ -606,4 +606,544 @@ describe("computeDiff", () => {
       expect(diff.headers?.core.added?.["cache-control"]).toBe("public,max-age=86400");
     });
   });
+
+  describe("Content Diff Computation (Body Hash / Content-Length)", () => {
+    const withBody = (probeId: string, side: string, body: Record<string, unknown>) =>
+      createSuccessEnvelope({
+        probeId,
+        side,
+        result: {
+          ok: true,
+          response: {
+            status: 200,
+            finalUrl: "https://example.com",
+            headers: { core: { "content-type": "text/html" } },
+            ...body,
+          },
+          durationMs: 100,
+        },
+      });
+
+    it("should emit BODY_HASH_DRIFT when hashes differ with same status and content-type", () => {
+      const left = withBody("left-probe", "left", { contentLength: 1000, bodyHash: "aaa" });
+      const right = withBody("right-probe", "right", { contentLength: 1000, bodyHash: "bbb" });
+
+      const diff = computeDiff(left, right);
+
+      expect(diff.content?.bodyHash?.changed).toBe(true);
+      expect(diff.content?.contentType?.changed).toBe(false);
+      expect(diff.content?.contentLength?.changed).toBe(false);
+      expect(diff.findings.some((f) => f.code === "BODY_HASH_DRIFT")).toBe(true);
+      expect(diff.findings.some((f) => f.code === "CONTENT_LENGTH_DRIFT")).toBe(false);
+    });
+
+    it("should emit CONTENT_LENGTH_DRIFT when byte lengths differ", () => {
+      const left = withBody("left-probe", "left", { contentLength: 1000, bodyHash: "aaa" });
+      const right = withBody("right-probe", "right", { contentLength: 5000, bodyHash: "bbb" });
+
+      const diff = computeDiff(left, right);
+
+      const finding = diff.findings.find((f) => f.code === "CONTENT_LENGTH_DRIFT");
+      expect(finding).toBeDefined();
+      expect(finding?.severity).toBe("critical");
+    });
+
+    it("should omit length/hash comparisons when neither side captured a body", () => {
+      const left = createSuccessEnvelope({ probeId: "left-probe", side: "left" });
+      const right = createSuccessEnvelope({ probeId: "right-probe", side: "right" });
+
+      const diff = computeDiff(left, right);
+
+      expect(diff.content?.contentType?.changed).toBe(false);
+      expect(diff.content?.contentLength).toBeUndefined();
+      expect(diff.content?.bodyHash).toBeUndefined();
+      expect(diff.content?.bodyTruncated).toBeUndefined();
+    });
+
+    it("should record truncation and annotate evidence", () => {
+      const left = withBody("left-probe", "left", { contentLength: 1048576, bodyHash: "aaa", bodyTruncated: true });
+      const right = withBody("right-probe", "right", { contentLength: 1048576, bodyHash: "bbb" });
+
+      const diff = computeDiff(left, right);
+
+      expect(diff.content?.bodyTruncated).toEqual({ left: true, right: false });
+      const finding = diff.findings.find((f) => f.code === "BODY_HASH_DRIFT");
+      expect(finding?.evidence?.[0].note).toContain("truncated");
+    });
+  });
+
+  describe("Timing Diff Computation", () => {
+    const withTiming = (probeId: string, side: string, durationMs: number, samplesMs?: number[]) =>
+      createSuccessEnvelope({
+        probeId,
+        side,
+        result: {
+          ok: true,
+          response: { status: 200, finalUrl: "https://example.com", headers: { core: {} } },
+          durationMs,
+        },
+        timing: samplesMs
+          ? {
+              samplesMs,
+              minMs: Math.min(...samplesMs),
+              p50Ms: [...samplesMs].sort((a, b) => a - b)[Math.ceil(samplesMs.length / 2) - 1],
+              p95Ms: Math.max(...samplesMs),
+              maxMs: Math.max(...samplesMs),
+              failedSamples: 0,
+            }
+          : undefined,
+      });
+
+    it("should derive ratio and delta from single durations", () => {
+      const diff = computeDiff(withTiming("left-probe", "left", 100), withTiming("right-probe", "right", 250));
+
+      expect(diff.timing?.durationMs?.changed).toBe(true);
+      expect(diff.timing?.ratio).toBe(2.5);
+      expect(diff.timing?.deltaMs).toBe(150);
+      expect(diff.timing?.samples).toBeUndefined();
+    });
+
+    it("should derive ratio and delta from medians when both sides carry samples", () => {
+      const left = withTiming("left-probe", "left", 900, [900, 100, 110]);
+      const right = withTiming("right-probe", "right", 100, [100, 120, 115]);
+
+      const diff = computeDiff(left, right);
+
+      expect(diff.timing?.samples?.left.p50Ms).toBe(110);
+      expect(diff.timing?.deltaMs).toBe(5);
+      const timingFinding = diff.findings.find((f) => f.code === "TIMING_DRIFT");
+      expect(timingFinding?.severity).toBe("info");
+    });
+
+    it("should compare phase breakdowns and name the dominant phase", () => {
+      const withPhases = (probeId: string, side: string, phases: { redirectMs: number; ttfbMs: number; bodyMs: number }) =>
+        createSuccessEnvelope({
+          probeId,
+          side,
+          result: {
+            ok: true,
+            response: { status: 200, finalUrl: "https://example.com", headers: { core: {} } },
+            durationMs: phases.redirectMs + phases.ttfbMs + phases.bodyMs,
+            phases,
+          },
+        });
+
+      const diff = computeDiff(
+        withPhases("left-probe", "left", { redirectMs: 0, ttfbMs: 120, bodyMs: 40 }),
+        withPhases("right-probe", "right", { redirectMs: 0, ttfbMs: 900, bodyMs: 60 })
+      );
+
+      expect(diff.timing?.phases?.ttfbMs).toEqual({ left: 120, right: 900, changed: true });
+      expect(diff.timing?.driftPhase).toBe("ttfb");
+      expect(diff.findings.find((f) => f.code === "TIMING_DRIFT")?.message).toContain("mostly server time (TTFB)");
+    });
+  });
+
+  describe("Security Header Diff Computation", () => {
+    const withSecurity = (probeId: string, side: string, security?: Record<string, string>) =>
+      createSuccessEnvelope({
+        probeId,
+        side,
+        result: {
+          ok: true,
+          response: {
+            status: 200,
+            finalUrl: "http://example.com",
+            headers: { core: { "content-type": "text/html" }, security },
+          },
+          durationMs: 100,
+        },
+      });
+
+    it("should diff security headers and emit SECURITY_HEADER_DRIFT", () => {
+      const left = withSecurity("left-probe", "left", {
+        "strict-transport-security": "max-age=31536000; includeSubDomains",
+        "x-content-type-options": "nosniff",
+      });
+      const right = withSecurity("right-probe", "right", {
+        "strict-transport-security": "max-age=31536000",
+      });
+
+      const diff = computeDiff(left, right);
+
+      expect(diff.headers?.security?.removed).toEqual({ "x-content-type-options": "nosniff" });
+      expect(diff.headers?.security?.changed["strict-transport-security"]?.changed).toBe(true);
+
+      const drift = diff.findings.filter((f) => f.code === "SECURITY_HEADER_DRIFT");
+      expect(drift.map((f) => [f.evidence?.[0].keys?.[0], f.severity])).toEqual([
+        ["x-content-type-options", "critical"],
+        ["strict-transport-security", "warn"],
+      ]);
+    });
+
+    it("should omit the security group when nothing differs", () => {
+      const security = { "x-frame-options": "DENY" };
+      const diff = computeDiff(
+        withSecurity("left-probe", "left", security),
+        withSecurity("right-probe", "right", security)
+      );
+
+      expect(diff.headers?.security).toBeUndefined();
+      expect(diff.findings.some((f) => f.code === "SECURITY_HEADER_DRIFT")).toBe(false);
+    });
+  });
+
+  describe("Custom Header Diff Computation", () => {
+    const withCustom = (probeId: string, side: string, custom?: Record<string, string>) =>
+      createSuccessEnvelope({
+        probeId,
+        side,
+        result: {
+          ok: true,
+          response: {
+            status: 200,
+            finalUrl: "http://example.com",
+            headers: { core: { "content-type": "text/html" }, custom },
+          },
+          durationMs: 100,
+        },
+      });
+
+    it("should diff custom headers and emit CUSTOM_HEADER_DRIFT per header", () => {
+      const diff = computeDiff(
+        withCustom("left-probe", "left", { "x-api-version": "1", "x-region": "eu-west" }),
+        withCustom("right-probe", "right", { "x-api-version": "2", "x-feature-flags": "beta" })
+      );
+
+      expect(diff.headers?.custom?.changed["x-api-version"]).toEqual({ left: "1", right: "2", changed: true });
+      expect(diff.headers?.custom?.added).toEqual({ "x-feature-flags": "beta" });
+      expect(diff.headers?.custom?.removed).toEqual({ "x-region": "eu-west" });
+
+      const drift = diff.findings.filter((f) => f.code === "CUSTOM_HEADER_DRIFT");
+      expect(drift.map((f) => f.evidence?.[0].keys?.[0]).sort()).toEqual([
+        "x-api-version",
+        "x-feature-flags",
+        "x-region",
+      ]);
+    });
+
+    it("should omit the custom group when nothing differs", () => {
+      const custom = { "x-api-version": "1" };
+      const diff = computeDiff(withCustom("left-probe", "left", custom), withCustom("right-probe", "right", custom));
+
+      expect(diff.headers).toBeUndefined();
+      expect(diff.findings.some((f) => f.code === "CUSTOM_HEADER_DRIFT")).toBe(false);
+    });
+  });
+
+  describe("Cookie Diff Computation", () => {
+    const withCookies = (probeId: string, side: string, cookies?: unknown[]) =>
+      createSuccessEnvelope({
+        probeId,
+        side,
+        result: {
+          ok: true,
+          response: {
+            status: 200,
+            finalUrl: "http://example.com",
+            headers: { core: { "content-type": "text/html" }, cookies },
+          },
+          durationMs: 100,
+        },
+      });
+
+    const sid = { name: "sid", path: "/", secure: true, httpOnly: true, sameSite: "lax", expires: false, partitioned: false };
+
+    it("should emit COOKIE_ATTRIBUTE_DRIFT when an attribute is downgraded", () => {
+      const diff = computeDiff(
+        withCookies("left-probe", "left", [sid]),
+        withCookies("right-probe", "right", [{ ...sid, httpOnly: false }])
+      );
+
+      expect(diff.cookies?.changed.sid.attributes).toEqual(["httponly"]);
+      const finding = diff.findings.find((f) => f.code === "COOKIE_ATTRIBUTE_DRIFT");
+      expect(finding?.severity).toBe("critical");
+    });
+
+    it("should omit the cookie section when cookies match", () => {
+      const diff = computeDiff(withCookies("left-probe", "left", [sid]), withCookies("right-probe", "right", [sid]));
+
+      expect(diff.cookies).toBeUndefined();
+      expect(diff.findings.some((f) => f.code === "COOKIE_ATTRIBUTE_DRIFT")).toBe(false);
+    });
+  });
+
+  describe("JSON Body Diff Computation", () => {
+    const withJson = (probeId: string, side: string, paths?: Record<string, string>) =>
+      createSuccessEnvelope({
+        probeId,
+        side,
+        result: {
+          ok: true,
+          response: {
+            status: 200,
+            finalUrl: "http://example.com",
+            headers: { core: { "content-type": "application/json" } },
+            bodyFingerprint: paths ? { json: { paths, arrayLengths: {} } } : undefined,
+          },
+          durationMs: 100,
+        },
+      });
+
+    it("should emit JSON_SCHEMA_DRIFT when a path is removed", () => {
+      const diff = computeDiff(
+        withJson("left-probe", "left", { $: "object", "$.id": "number", "$.name": "string" }),
+        withJson("right-probe", "right", { $: "object", "$.id": "number" })
+      );
+
+      expect(diff.body?.json?.removed).toEqual(["$.name"]);
+      const finding = diff.findings.find((f) => f.code === "JSON_SCHEMA_DRIFT");
+      expect(finding?.severity).toBe("critical");
+    });
+
+    it("should omit the body section when shapes match or a side has no fingerprint", () => {
+      const shape = { $: "object", "$.id": "number" };
+
+      expect(computeDiff(withJson("left-probe", "left", shape), withJson("right-probe", "right", shape)).body).toBeUndefined();
+      expect(computeDiff(withJson("left-probe", "left", shape), withJson("right-probe", "right")).body).toBeUndefined();
+    });
+  });
+
+  describe("HTML Build Fingerprint Diff Computation", () => {
+    const withHtml = (probeId: string, side: string, scripts: string[]) =>
+      createSuccessEnvelope({
+        probeId,
+        side,
+        result: {
+          ok: true,
+          response: {
+            status: 200,
+            finalUrl: "http://example.com",
+            headers: { core: { "content-type": "text/html" } },
+            bodyHash: `hash-${side}`,
+            bodyFingerprint: { html: { meta: {}, scripts, stylesheets: [], buildIds: {} } },
+          },
+          durationMs: 100,
+        },
+      });
+
+    it("should emit BUILD_FINGERPRINT_DRIFT alongside BODY_HASH_DRIFT when assets change", () => {
+      const diff = computeDiff(
+        withHtml("left-probe", "left", ["/app.111.js"]),
+        withHtml("right-probe", "right", ["/app.222.js"])
+      );
+
+      expect(diff.body?.html?.assets).toEqual({ added: ["/app.222.js"], removed: ["/app.111.js"] });
+      const codes = diff.findings.map((f) => f.code);
+      expect(codes).toContain("BUILD_FINGERPRINT_DRIFT");
+      expect(codes).toContain("BODY_HASH_DRIFT");
+    });
+
+    it("should omit the body section when builds match", () => {
+      const diff = computeDiff(withHtml("left-probe", "left", ["/app.js"]), withHtml("right-probe", "right", ["/app.js"]));
+
+      expect(diff.body).toBeUndefined();
+      expect(diff.findings.some((f) => f.code === "BUILD_FINGERPRINT_DRIFT")).toBe(false);
+    });
+  });
+
+  describe("Platform Diff Computation", () => {
+    it("should emit PLATFORM_DRIFT when the target server differs", () => {
+      const diff = computeDiff(
+        createSuccessEnvelope({ probeId: "left-probe", side: "left", platform: { server: "nginx" } }),
+        createSuccessEnvelope({ probeId: "right-probe", side: "right", platform: { server: "cloudflare", edgeColo: "SJC" } })
+      );
+
+      expect(diff.platform).toEqual({
+        server: { left: "nginx", right: "cloudflare", changed: true },
+        edgeColo: { left: undefined, right: "SJC", changed: true },
+      });
+      expect(diff.findings.find((f) => f.code === "PLATFORM_DRIFT")?.severity).toBe("warn");
+    });
+
+    it("should omit the platform section when platforms match", () => {
+      const diff = computeDiff(
+        createSuccessEnvelope({ probeId: "left-probe", side: "left", platform: { server: "nginx", age: 5 } }),
+        createSuccessEnvelope({ probeId: "right-probe", side: "right", platform: { server: "nginx", age: 90 } })
+      );
+
+      expect(diff.platform).toBeUndefined();
+    });
+  });
+
+  describe("Probe Start Skew", () => {
+    it("should report the gap between probe start times", () => {
+      const diff = computeDiff(
+        createSuccessEnvelope({ probeId: "left-probe", side: "left", capturedAt: "2024-01-01T00:00:00.000Z" }),
+        createSuccessEnvelope({ probeId: "right-probe", side: "right", capturedAt: "2024-01-01T00:00:00.042Z" })
+      );
+
+      expect(diff.timing?.startSkewMs).toBe(42);
+    });
+
+    it("should omit the skew when a start time is unparseable", () => {
+      const diff = computeDiff(
+        createSuccessEnvelope({ probeId: "left-probe", side: "left", capturedAt: "" }),
+        createSuccessEnvelope({ probeId: "right-probe", side: "right" })
+      );
+
+      expect(diff.timing?.startSkewMs).toBeUndefined();
+    });
+
+    it("should omit the skew when a side is imported", () => {
+      const diff = computeDiff(
+        createSuccessEnvelope({
+          probeId: "left-probe",
+          side: "left",
+          capturedAt: "2023-06-01T00:00:00.000Z",
+          source: { kind: "har" },
+        }),
+        createSuccessEnvelope({ probeId: "right-probe", side: "right" })
+      );
+
+      expect(diff.timing?.startSkewMs).toBeUndefined();
+    });
+  });
+
+  describe("Redactions", () => {
+    it("should list redacted fields per side and flag them on the final URL finding", () => {
+      const redacted = (probeId: string, side: string, finalUrl: string, fields: string[]) =>
+        createSuccessEnvelope({
+          probeId,
+          side,
+          result: {
+            ok: true,
+            response: { status: 200, finalUrl, headers: { core: { "content-type": "text/html" } } },
+            durationMs: 100,
+          },
+          redactions: fields.map((field) => ({ field, reasons: ["query-param"] })),
+        });
+
+      const diff = computeDiff(
+        redacted("left-probe", "left", "https://a.example.com/cb?code=[REDACTED]", ["result.response.finalUrl"]),
+        redacted("right-probe", "right", "https://b.example.com/cb", [])
+      );
+
+      expect(diff.redactions).toEqual({ left: ["result.response.finalUrl"], right: [] });
+      const finding = diff.findings.find((f) => f.code === "FINAL_URL_MISMATCH");
+      expect(finding?.evidence?.[0].note).toBe("Values redacted before comparison (left); masked parts compare equal");
+    });
+
+    it("should omit redactions when neither side was masked", () => {
+      const diff = computeDiff(
+        createSuccessEnvelope({ probeId: "left-probe", side: "left" }),
+        createSuccessEnvelope({ probeId: "right-probe", side: "right" })
+      );
+
+      expect(diff.redactions).toBeUndefined();
+    });
+  });
+
+  describe("Final URL Normalization", () => {
+    const withFinalUrl = (probeId: string, side: string, finalUrl: string) =>
+      createSuccessEnvelope({
+        probeId,
+        side,
+        result: {
+          ok: true,
+          response: { status: 200, finalUrl, headers: { core: { "content-type": "text/html" } } },
+          durationMs: 100,
+        },
+      });
+    const rules = { ignoreParams: ["utm_*"], sortParams: true };
+
+    it("should not report URLs that are equal after normalization", () => {
+      const diff = computeDiff(
+        withFinalUrl("left-probe", "left", "https://example.com/p?b=2&a=1&utm_source=x"),
+        withFinalUrl("right-probe", "right", "https://example.com/p?a=1&b=2"),
+        { urlNormalization: rules }
+      );
+
+      expect(diff.finalUrl?.changed).toBe(true);
+      expect(diff.finalUrlNormalized).toEqual({
+        left: "https://example.com/p?a=1&b=2",
+        right: "https://example.com/p?a=1&b=2",
+        changed: false,
+        rules,
+      });
+      expect(diff.findings.find((f) => f.code === "FINAL_URL_MISMATCH")).toBeUndefined();
+    });
+
+    it("should keep raw values and report the normalized pair and rules", () => {
+      const diff = computeDiff(
+        withFinalUrl("left-probe", "left", "https://example.com/p?utm_source=x&a=1"),
+        withFinalUrl("right-probe", "right", "https://example.com/p?a=2"),
+        { urlNormalization: rules }
+      );
+
+      const finding = diff.findings.find((f) => f.code === "FINAL_URL_MISMATCH");
+      expect(finding?.left_value).toBe("https://example.com/p?utm_source=x&a=1");
+      expect(finding?.right_value).toBe("https://example.com/p?a=2");
+      expect(finding?.evidence).toEqual([
+        { section: "finalUrl", keys: ["query"] },
+        {
+          section: "finalUrl",
+          keys: ["finalUrl"],
+          note: "normalized (ignoreParams(utm_*), sortParams): https://example.com/p?a=1 vs https://example.com/p?a=2",
+        },
+      ]);
+    });
+
+    it("should omit the normalized pair without rules", () => {
+      const diff = computeDiff(
+        withFinalUrl("left-probe", "left", "https://example.com/a"),
+        withFinalUrl("right-probe", "right", "https://example.com/b")
+      );
+
+      expect(diff.finalUrlNormalized).toBeUndefined();
+    });
+  });
+
+  describe("Host Mappings", () => {
+    const withHost = (probeId: string, side: string, host: string) =>
+      createSuccessEnvelope({
+        probeId,
+        side,
+        result: {
+          ok: true,
+          response: {
+            status: 200,
+            finalUrl: `https://${host}/home`,
+            headers: {
+              core: { "content-type": "text/html" },
+              accessControl: { "access-control-allow-origin": `https://${host}` },
+            },
+          },
+          redirects: [{ fromUrl: `https://${host}/`, toUrl: `https://${host}/home`, status: 302 }],
+          durationMs: 100,
+        },
+      });
+
+    it("should not report drift caused only by mapped hosts", () => {
+      const diff = computeDiff(
+        withHost("left-probe", "left", "staging.example.com"),
+        withHost("right-probe", "right", "www.example.com"),
+        { hostMappings: [{ left: "staging.example.com", right: "www.example.com" }] }
+      );
+
+      expect(diff.finalUrl?.changed).toBe(false);
+      expect(diff.findings.map((f) => f.code)).not.toEqual(
+        expect.arrayContaining(["FINAL_URL_MISMATCH", "REDIRECT_CHAIN_CHANGED", "CORS_HEADER_DRIFT"])
+      );
+      expect(diff.hostMapping?.left).toHaveLength(4);
+      expect(diff.hostMapping?.right).toEqual([]);
+    });
+
+    it("should show raw and mapped values on remaining findings", () => {
+      const left = withHost("left-probe", "left", "staging.example.com");
+      (left.result as any).response.finalUrl = "https://staging.example.com/welcome";
+
+      const diff = computeDiff(left, withHost("right-probe", "right", "www.example.com"), {
+        hostMappings: [{ left: "staging.example.com", right: "www.example.com" }],
+      });
+
+      const finding = diff.findings.find((f) => f.code === "FINAL_URL_MISMATCH");
+      expect(finding?.left_value).toBe("https://www.example.com/welcome");
+      expect(finding?.evidence?.[1]).toEqual({
+        section: "finalUrl",
+        keys: ["finalUrl"],
+        note: "hosts mapped before comparison: left https://staging.example.com/welcome → https://www.example.com/welcome",
+      });
+    });
+  });
 });
\ No newline at end of file
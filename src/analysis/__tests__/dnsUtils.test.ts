@@ -0,0 +1,85 @@
+import type { DnsSnapshot } from "@shared/signal";
+import { classifyDnsDrift, computeDnsDiff, describeDnsDrift, dnsDiffKeys, hasSignificantDnsDrift } from "../dnsUtils";
+
+const staging: DnsSnapshot = {
+  requested: { host: "staging.example.com", cname: ["lb-1.example.net"], a: ["203.0.113.1"] },
+};
+const production: DnsSnapshot = {
+  requested: { host: "www.example.com", cname: ["cdn.example.net"], a: ["198.51.100.7"], aaaa: ["2001:db8::7"] },
+};
+
+describe("dnsUtils", () => {
+  describe("computeDnsDiff", () => {
+    it("should diff record sets and keep both hostnames", () => {
+      expect(computeDnsDiff(staging, production)).toEqual({
+        requested: {
+          hosts: { left: "staging.example.com", right: "www.example.com", changed: true },
+          cname: { left: ["lb-1.example.net"], right: ["cdn.example.net"], changed: true },
+          a: { left: ["203.0.113.1"], right: ["198.51.100.7"], changed: true },
+          aaaa: { left: undefined, right: ["2001:db8::7"], changed: true },
+        },
+      });
+    });
+
+    it("should be undefined when records match or a side has no capture", () => {
+      const sameRecords: DnsSnapshot = { requested: { ...staging.requested, host: "www.example.com" } };
+      expect(computeDnsDiff(staging, sameRecords)).toBeUndefined();
+      expect(computeDnsDiff(staging, undefined)).toBeUndefined();
+    });
+
+    it("should compare final hosts, falling back to the requested resolution", () => {
+      const redirected: DnsSnapshot = {
+        requested: staging.requested,
+        final: { host: "login.example.com", a: ["192.0.2.1"] },
+      };
+
+      const diff = computeDnsDiff(redirected, staging);
+
+      expect(diff?.requested).toBeUndefined();
+      expect(diff?.final?.hosts).toEqual({ left: "login.example.com", right: "staging.example.com", changed: true });
+    });
+  });
+
+  describe("classifyDnsDrift", () => {
+    it("should warn on CNAME, presence and resolver outcome differences", () => {
+      expect(classifyDnsDrift(computeDnsDiff(staging, production)!)).toBe("warn");
+      expect(
+        classifyDnsDrift(
+          computeDnsDiff(staging, { requested: { host: "www.example.com", error: "NXDOMAIN" } })!
+        )
+      ).toBe("warn");
+    });
+
+    it("should be info when only addresses differ", () => {
+      const moved: DnsSnapshot = { requested: { ...staging.requested, a: ["203.0.113.2"] } };
+      expect(classifyDnsDrift(computeDnsDiff(staging, moved)!)).toBe("info");
+    });
+  });
+
+  describe("hasSignificantDnsDrift", () => {
+    it("should ignore address pool membership and CNAME hops before the same target", () => {
+      const pool: DnsSnapshot = { requested: { ...staging.requested, a: ["203.0.113.2", "203.0.113.3"] } };
+      const viaEdge: DnsSnapshot = {
+        requested: { ...staging.requested, cname: ["edge.example.net", "lb-1.example.net"] },
+      };
+
+      expect(hasSignificantDnsDrift(computeDnsDiff(staging, pool)!)).toBe(false);
+      expect(hasSignificantDnsDrift(computeDnsDiff(staging, viaEdge)!)).toBe(false);
+    });
+
+    it("should flag a different CNAME target or an address family on one side only", () => {
+      expect(hasSignificantDnsDrift(computeDnsDiff(staging, production)!)).toBe(true);
+      const ipv6: DnsSnapshot = { requested: { ...staging.requested, aaaa: ["2001:db8::1"] } };
+      expect(hasSignificantDnsDrift(computeDnsDiff(staging, ipv6)!)).toBe(true);
+    });
+  });
+
+  it("should list keys and describe the differences", () => {
+    const diff = computeDnsDiff(staging, production)!;
+
+    expect(dnsDiffKeys(diff)).toEqual(["a", "aaaa", "cname"]);
+    expect(describeDnsDrift(diff)).toBe(
+      "requested (staging.example.com vs www.example.com): CNAME lb-1.example.net vs cdn.example.net, A records differ, AAAA on right only"
+    );
+  });
+});
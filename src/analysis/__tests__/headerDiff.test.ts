@@ -8,11 +8,13 @@
  * 4. Correct classification of headers as added/removed/changed/unchanged
  * 5. Deterministic ordering (alphabetical sorting of keys)
  * 6. Helper functions (isWhitelistedHeader, getChangedHeaders)
+ * 7. Custom header capture (names/prefixes, blocked names)
  */
 
 import {
   computeHeaderDiff,
   isWhitelistedHeader,
+  isCustomCaptureHeader,
   getChangedHeaders,
 } from "../headerDiff";
 
@@ -481,4 +483,44 @@ describe("headerDiff", () => {
       expect(diff.core.unchanged).toHaveProperty("www-authenticate");
     });
   });
+
+  describe("Custom Header Capture", () => {
+    const capture = { names: ["x-api-version"], prefixes: ["x-feature-"] };
+
+    it("diffs requested headers as a separate custom group", () => {
+      const diff = computeHeaderDiff(
+        { "X-API-Version": "1", "x-feature-a": "on", "x-other": "1", "cache-control": "no-cache" },
+        { "x-api-version": "2", "x-feature-b": "on", "x-other": "2", "cache-control": "no-cache" },
+        capture
+      );
+
+      expect(diff.custom).toEqual({
+        added: { "x-feature-b": "on" },
+        removed: { "x-feature-a": "on" },
+        changed: { "x-api-version": { left: "1", right: "2", changed: true } },
+        unchanged: {},
+      });
+      expect(diff.core.unchanged).toEqual({ "cache-control": "no-cache" });
+    });
+
+    it("omits the custom group without a capture option", () => {
+      expect(computeHeaderDiff({ "x-api-version": "1" }, { "x-api-version": "2" }).custom).toBeUndefined();
+    });
+
+    it("never matches blocked names", () => {
+      expect(isCustomCaptureHeader("authorization", { names: ["authorization"] })).toBe(false);
+      expect(isCustomCaptureHeader("x-api-key", { prefixes: ["x-api-"] })).toBe(false);
+      expect(isCustomCaptureHeader("Cookie", { prefixes: ["co"] })).toBe(false);
+      expect(isCustomCaptureHeader("x-api-version", { prefixes: ["x-api-"] })).toBe(true);
+      expect(isCustomCaptureHeader("x-api-version")).toBe(false);
+    });
+
+    it("includes custom headers in whitelist checks and changed-header lists", () => {
+      expect(isWhitelistedHeader("x-feature-a", capture)).toBe(true);
+      expect(isWhitelistedHeader("x-feature-a")).toBe(false);
+      expect(getChangedHeaders({ "x-api-version": "1" }, { "x-api-version": "2" }, capture)).toEqual([
+        "x-api-version",
+      ]);
+    });
+  });
 });
\ No newline at end of file
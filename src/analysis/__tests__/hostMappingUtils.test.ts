@@ -0,0 +1,115 @@
+import type { FrozenSignalEnvelope } from "@shared/signal";
+import type { HostMapping } from "@shared/diff";
+import { applyHostMappings, mapHost, mapUrlHost } from "../hostMappingUtils";
+
+const MAPPINGS: HostMapping[] = [
+  { left: "staging.example.com", right: "www.example.com" },
+  { left: "api-staging", right: "api" },
+];
+
+function createEnvelope(overrides: any = {}): FrozenSignalEnvelope {
+  return {
+    schemaVersion: 1,
+    comparisonId: "test-comparison",
+    probeId: "left-probe",
+    side: "left",
+    requestedUrl: "https://staging.example.com/",
+    capturedAt: "2026-03-01T12:00:00.000Z",
+    result: {
+      ok: true,
+      response: {
+        status: 200,
+        finalUrl: "https://staging.example.com/home",
+        headers: {
+          core: { "content-type": "text/html" },
+          accessControl: { "access-control-allow-origin": "https://api-staging.example.com" },
+        },
+      },
+      redirects: [
+        {
+          fromUrl: "https://staging.example.com/",
+          toUrl: "https://staging.example.com/home",
+          status: 302,
+          headers: { core: { location: "https://staging.example.com/home" } },
+        },
+      ],
+      durationMs: 100,
+    },
+    ...overrides,
+  } as FrozenSignalEnvelope;
+}
+
+describe("hostMappingUtils", () => {
+  describe("mapHost", () => {
+    it("should map full hostnames and first labels", () => {
+      expect(mapHost("Staging.Example.com", MAPPINGS)).toBe("www.example.com");
+      expect(mapHost("api-staging.example.com", MAPPINGS)).toBe("api.example.com");
+      expect(mapHost("cdn.staging.example.com", MAPPINGS)).toBeUndefined();
+      expect(mapHost("www.example.com", MAPPINGS)).toBeUndefined();
+    });
+  });
+
+  describe("mapUrlHost", () => {
+    it("should keep scheme, userinfo, port, path and query", () => {
+      expect(mapUrlHost("https://user@staging.example.com:8443/a?b=1#c", MAPPINGS)).toBe(
+        "https://user@www.example.com:8443/a?b=1#c"
+      );
+    });
+
+    it("should leave relative URLs, wildcards and unmapped hosts as-is", () => {
+      for (const value of ["/home", "*", "null", "https://other.example.com/", "https://[::1]/"]) {
+        expect(mapUrlHost(value, MAPPINGS)).toBe(value);
+      }
+    });
+  });
+
+  describe("applyHostMappings", () => {
+    it("should rewrite host-bearing values and record raw and mapped values", () => {
+      const { envelope, rewrites } = applyHostMappings(createEnvelope(), MAPPINGS);
+
+      if (!("response" in envelope.result)) throw new Error("expected a response");
+      expect(envelope.result.response.finalUrl).toBe("https://www.example.com/home");
+      expect(envelope.result.response.headers.accessControl).toEqual({
+        "access-control-allow-origin": "https://api.example.com",
+      });
+      expect(envelope.result.redirects?.[0].headers?.core.location).toBe("https://www.example.com/home");
+      expect(rewrites.map((r) => r.field)).toEqual([
+        "result.response.finalUrl",
+        "result.response.headers.accessControl.access-control-allow-origin",
+        "result.redirects[0].fromUrl",
+        "result.redirects[0].toUrl",
+        "result.redirects[0].headers.core.location",
+      ]);
+      expect(rewrites[0]).toEqual({
+        field: "result.response.finalUrl",
+        raw: "https://staging.example.com/home",
+        mapped: "https://www.example.com/home",
+      });
+    });
+
+    it("should rewrite the preflight allow-origin", () => {
+      const { envelope } = applyHostMappings(
+        createEnvelope({
+          preflight: {
+            status: 204,
+            headers: { "access-control-allow-origin": "https://staging.example.com" },
+            durationMs: 10,
+          },
+        }),
+        MAPPINGS
+      );
+
+      expect(envelope.preflight).toEqual({
+        status: 204,
+        headers: { "access-control-allow-origin": "https://www.example.com" },
+        durationMs: 10,
+      });
+    });
+
+    it("should return the same envelope when nothing is rewritten", () => {
+      const input = createEnvelope();
+      expect(applyHostMappings(input, []).envelope).toBe(input);
+      expect(applyHostMappings(input, [{ left: "qa.example.com", right: "www.example.com" }]).envelope).toBe(input);
+    });
+  });
+});
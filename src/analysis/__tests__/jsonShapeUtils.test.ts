@@ -0,0 +1,82 @@
+import type { JsonFingerprint, ResponseMetadata } from "@shared/signal";
+import { classifyJsonSchemaDrift, computeBodyDiff, computeJsonShapeDiff } from "../jsonShapeUtils";
+
+const fingerprint = (
+  paths: Record<string, string>,
+  arrayLengths: Record<string, number> = {},
+  truncated?: boolean
+): JsonFingerprint => ({ paths, arrayLengths, truncated });
+
+describe("jsonShapeUtils", () => {
+  describe("computeJsonShapeDiff", () => {
+    it("returns undefined for identical shapes", () => {
+      const shape = fingerprint({ $: "object", "$.id": "number" });
+      expect(computeJsonShapeDiff(shape, shape)).toBeUndefined();
+    });
+
+    it("lists added, removed and type-changed paths", () => {
+      const left = fingerprint({ $: "object", "$.id": "number", "$.legacy": "string" });
+      const right = fingerprint({ $: "object", "$.id": "string", "$.extra": "boolean" });
+
+      expect(computeJsonShapeDiff(left, right)).toEqual({
+        added: ["$.extra"],
+        removed: ["$.legacy"],
+        typeChanged: { "$.id": { left: "number", right: "string", changed: true } },
+        arrayLengthChanged: {},
+      });
+    });
+
+    it("tracks array length changes and truncation", () => {
+      const left = fingerprint({ $: "array", "$[]": "number" }, { $: 2 });
+      const right = fingerprint({ $: "array", "$[]": "number" }, { $: 5 }, true);
+
+      const diff = computeJsonShapeDiff(left, right);
+
+      expect(diff?.arrayLengthChanged).toEqual({ $: { left: 2, right: 5, changed: true } });
+      expect(diff?.truncated).toEqual({ left: false, right: true });
+    });
+  });
+
+  describe("computeBodyDiff", () => {
+    const response = (json?: JsonFingerprint): ResponseMetadata => ({
+      status: 200,
+      finalUrl: "https://example.com/api",
+      headers: { core: {} },
+      bodyFingerprint: json ? { json } : undefined,
+    });
+
+    it("requires a JSON fingerprint on both sides", () => {
+      expect(computeBodyDiff(response(fingerprint({ $: "object" })), response())).toBeUndefined();
+    });
+
+    it("wraps the JSON shape diff", () => {
+      const diff = computeBodyDiff(response(fingerprint({ $: "object" })), response(fingerprint({ $: "array" })));
+      expect(diff?.json?.typeChanged.$).toEqual({ left: "object", right: "array", changed: true });
+    });
+  });
+
+  describe("classifyJsonSchemaDrift", () => {
+    const base = { added: [], removed: [], typeChanged: {}, arrayLengthChanged: {} };
+
+    it("is critical for removed or type-changed paths", () => {
+      expect(classifyJsonSchemaDrift({ ...base, removed: ["$.id"] })).toBe("critical");
+      expect(
+        classifyJsonSchemaDrift({ ...base, typeChanged: { "$.id": { left: "number", right: "string", changed: true } } })
+      ).toBe("critical");
+    });
+
+    it("is warn for added paths only", () => {
+      expect(classifyJsonSchemaDrift({ ...base, added: ["$.extra"] })).toBe("warn");
+    });
+
+    it("caps at warn when a fingerprint was truncated", () => {
+      expect(classifyJsonSchemaDrift({ ...base, removed: ["$.id"], truncated: { left: false, right: true } })).toBe("warn");
+    });
+
+    it("ignores array length changes alone", () => {
+      expect(
+        classifyJsonSchemaDrift({ ...base, arrayLengthChanged: { $: { left: 1, right: 2, changed: true } } })
+      ).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import type { FrozenSignalEnvelope } from "@shared/signal";
+import type { EnvDiff } from "@shared/diff";
+import {
+  negotiationHeaders,
+  varyTokens,
+  findVaryMismatches,
+  classifyVaryMismatch,
+  applyVaryFindings,
+} from "../negotiationUtils";
+
+const envelope = (language: string, vary?: string, bodyHash = "hash"): FrozenSignalEnvelope =>
+  ({
+    schemaVersion: 1,
+    comparisonId: "cmp",
+    probeId: "cmp:left",
+    side: "left",
+    requestedUrl: "https://example.com",
+    capturedAt: "2024-01-01T00:00:00.000Z",
+    result: {
+      ok: true,
+      response: {
+        status: 200,
+        finalUrl: "https://example.com",
+        headers: { core: { "content-language": language, "content-type": "text/html", ...(vary ? { vary } : {}) } },
+        contentLength: 100,
+        bodyHash,
+      },
+      durationMs: 10,
+    },
+  }) as FrozenSignalEnvelope;
+
+const probe = (headers: Record<string, string>, language: string, vary?: string, bodyHash?: string) => ({
+  headers,
+  envelope: envelope(language, vary, bodyHash),
+});
+
+describe("negotiationUtils", () => {
+  describe("negotiationHeaders", () => {
+    it("Layers variant headers over base headers and drops non-negotiation headers", () => {
+      expect(
+        negotiationHeaders(
+          { accept: "text/html", "x-trace": "1" },
+          { name: "de", headers: { "accept-language": "de" } }
+        )
+      ).toEqual({ accept: "text/html", "accept-language": "de" });
+    });
+  });
+
+  describe("varyTokens", () => {
+    it("Parses a comma-separated Vary header", () => {
+      expect(varyTokens("Accept-Encoding, Accept-Language")).toEqual(new Set(["accept-encoding", "accept-language"]));
+      expect(varyTokens(undefined)).toEqual(new Set());
+    });
+  });
+
+  describe("findVaryMismatches", () => {
+    it("Flags a response that varies without declaring it", () => {
+      expect(
+        findVaryMismatches([probe({}, "en"), probe({ "accept-language": "de" }, "de")])
+      ).toEqual({ "accept-language": "undeclared" });
+    });
+
+    it("Does not treat a dynamic body as a different representation", () => {
+      expect(
+        findVaryMismatches([
+          probe({}, "en", undefined, "nonce-1"),
+          probe({ "accept-language": "de" }, "en", undefined, "nonce-2"),
+        ])
+      ).toEqual({});
+    });
+
+    it("Flags a declared Vary whose response never changes", () => {
+      expect(
+        findVaryMismatches([probe({}, "same", "Accept-Language"), probe({ "accept-language": "de" }, "same")])
+      ).toEqual({ "accept-language": "ignored" });
+    });
+
+    it("Accepts consistent behavior, including Vary: *", () => {
+      expect(
+        findVaryMismatches([probe({}, "en", "Accept-Language"), probe({ "accept-language": "de" }, "de")])
+      ).toEqual({});
+      expect(findVaryMismatches([probe({}, "en", "*"), probe({ accept: "application/json" }, "json")])).toEqual({});
+    });
+
+    it("Does not flag an unchanged response for accept-encoding", () => {
+      expect(
+        findVaryMismatches([probe({}, "same", "Accept-Encoding"), probe({ "accept-encoding": "br" }, "same")])
+      ).toEqual({});
+    });
+
+    it("Ignores pairs that differ in more than one header", () => {
+      expect(
+        findVaryMismatches([probe({}, "a"), probe({ accept: "application/json", "accept-language": "de" }, "b")])
+      ).toEqual({});
+    });
+  });
+
+  describe("classifyVaryMismatch", () => {
+    it("Returns undefined when both sides are consistent", () => {
+      const side = [probe({}, "en", "Accept-Language"), probe({ "accept-language": "de" }, "de")];
+      expect(classifyVaryMismatch(side, side)).toBeUndefined();
+    });
+
+    it("Aggregates both sides into one finding with the worst severity", () => {
+      const left = [probe({}, "en", "Accept-Language"), probe({ "accept-language": "de" }, "de")];
+      const right = [probe({}, "en", "Accept-Language"), probe({ "accept-language": "de" }, "en")];
+
+      const finding = classifyVaryMismatch(left, right);
+
+      expect(finding?.code).toBe("VARY_MISMATCH");
+      expect(finding?.severity).toBe("warn");
+      expect(finding?.evidence?.[0]).toEqual({
+        section: "variants",
+        keys: ["accept-language"],
+        note: "right: Vary lists accept-language but response does not change",
+      });
+    });
+  });
+
+  describe("applyVaryFindings", () => {
+    const baseDiff = {
+      schemaVersion: 1,
+      comparisonId: "cmp",
+      leftProbeId: "cmp:left",
+      rightProbeId: "cmp:right",
+      probe: { leftOk: true, rightOk: true, outcomeChanged: false },
+      findings: [],
+      maxSeverity: "info",
+    } as unknown as EnvDiff;
+
+    it("Adds the finding and recomputes maxSeverity", () => {
+      const left = [probe({}, "en"), probe({ "accept-language": "de" }, "de")];
+      const right = [probe({}, "en", "Accept-Language"), probe({ "accept-language": "de" }, "de")];
+
+      const diff = applyVaryFindings(baseDiff, left, right);
+
+      expect(diff.findings.map((f) => f.code)).toEqual(["VARY_MISMATCH"]);
+      expect(diff.maxSeverity).toBe("critical");
+      expect(baseDiff.findings).toHaveLength(0);
+    });
+
+    it("Returns the same diff when nothing mismatches", () => {
+      const side = [probe({}, "en", "Accept-Language"), probe({ "accept-language": "de" }, "de")];
+      expect(applyVaryFindings(baseDiff, side, side)).toBe(baseDiff);
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { classifyPlatformDrift, computePlatformDiff, platformDiffKeys } from "../platformUtils";
+
+describe("platformUtils", () => {
+  describe("computePlatformDiff", () => {
+    it("returns undefined for matching platforms", () => {
+      const platform = { server: "cloudflare", edgeColo: "SJC" };
+      expect(computePlatformDiff(platform, { ...platform })).toBeUndefined();
+      expect(computePlatformDiff(undefined, undefined)).toBeUndefined();
+    });
+
+    it("includes only differing fields", () => {
+      expect(computePlatformDiff({ server: "nginx", via: "1.1 varnish" }, { server: "cloudflare", via: "1.1 varnish" })).toEqual({
+        server: { left: "nginx", right: "cloudflare", changed: true },
+      });
+    });
+
+    it("compares age by presence only", () => {
+      expect(computePlatformDiff({ age: 10 }, { age: 300 })).toBeUndefined();
+      expect(computePlatformDiff({ age: 10 }, {})).toEqual({ age: { left: 10, right: undefined, changed: true } });
+    });
+  });
+
+  describe("platformDiffKeys", () => {
+    it("maps fields to sorted header names", () => {
+      const diff = computePlatformDiff(
+        { edgeColo: "SJC", cacheStatus: "HIT", poweredBy: "PHP/8.2" },
+        { edgeColo: "LHR", cacheStatus: "MISS" }
+      )!;
+      expect(platformDiffKeys(diff)).toEqual(["cf-cache-status", "cf-ray", "x-powered-by"]);
+    });
+  });
+
+  describe("classifyPlatformDrift", () => {
+    it("is warn when the origin stack differs", () => {
+      expect(classifyPlatformDrift(computePlatformDiff({ server: "nginx" }, { server: "Apache" })!)).toBe("warn");
+      expect(classifyPlatformDrift(computePlatformDiff({ via: "1.1 varnish" }, {})!)).toBe("warn");
+    });
+
+    it("is warn when only one side is behind Cloudflare", () => {
+      expect(classifyPlatformDrift(computePlatformDiff({ edgeColo: "SJC" }, {})!)).toBe("warn");
+    });
+
+    it("is info for edge location or cache state differences", () => {
+      expect(classifyPlatformDrift(computePlatformDiff({ edgeColo: "SJC" }, { edgeColo: "LHR" })!)).toBe("info");
+      expect(classifyPlatformDrift(computePlatformDiff({ cacheStatus: "HIT" }, { cacheStatus: "MISS" })!)).toBe("info");
+    });
+  });
+});
@@ -1,5 +1,5 @@
 // src/analysis/__tests__/probeUtils.test.ts
-import { compileProbeOutcomeDiff, isNetworkFailure } from "../probeUtils";
+import { compileProbeOutcomeDiff, describeProbeError, isNetworkFailure } from "../probeUtils";
 import type { SignalEnvelope } from "@shared/diff";
 import { SIGNAL_SCHEMA_VERSION } from "@shared/signal";
 
@@ -255,4 +255,46 @@ describe("isNetworkFailure", () => {
     expect(isNetworkFailure(probe, "left")).toBe(true);
     expect(isNetworkFailure(probe, "right")).toBe(true);
   });
+
+  it("summarizes attempt history of retried sides", () => {
+    const base = {
+      schemaVersion: SIGNAL_SCHEMA_VERSION,
+      comparisonId: "comp-1",
+      requestedUrl: "https://example.com",
+      capturedAt: "2024-01-01T00:00:00Z",
+    } as const;
+    const left: SignalEnvelope = {
+      ...base,
+      probeId: "probe-left",
+      side: "left",
+      result: {
+        ok: true,
+        response: { status: 200, finalUrl: "https://example.com/", headers: { core: {} } },
+        durationMs: 50,
+      },
+      attempts: [
+        { capturedAt: "2024-01-01T00:00:00Z", ok: false, errorCode: "connection_reset", durationMs: 10 },
+        { capturedAt: "2024-01-01T00:00:01Z", ok: true, status: 200, durationMs: 50 },
+      ],
+    };
+    const right: SignalEnvelope = {
+      ...base,
+      probeId: "probe-right",
+      side: "right",
+      result: left.result,
+      attempts: [{ capturedAt: "2024-01-01T00:00:00Z", ok: true, status: 200, durationMs: 50 }],
+    };
+
+    expect(compileProbeOutcomeDiff(left, right).retries).toEqual({
+      left: { attempts: 2, failedErrorCodes: ["connection_reset"], recovered: true },
+    });
+    expect(compileProbeOutcomeDiff(right, right).retries).toBeUndefined();
+  });
+
+  it("describes probe error codes for finding messages", () => {
+    expect(describeProbeError("connection_refused")).toBe("connection refused");
+    expect(describeProbeError("redirect_missing_location")).toBe("redirect without Location header");
+    expect(describeProbeError("legacy_code")).toBe("legacy_code");
+    expect(describeProbeError(undefined)).toBe("unknown error");
+  });
 });
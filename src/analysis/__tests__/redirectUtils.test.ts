@@ -1,7 +1,11 @@
+import type { RedirectHop } from "@shared/signal";
 import {
   classifyRedirectChainDrift,
   extractFinalHost,
   chainsAreEqual,
+  flattenHopHeaders,
+  diffHopHeaders,
+  classifyHopHeaderDrift,
 } from "../redirectUtils";
 
 describe("redirectUtils", () => {
@@ -201,4 +205,63 @@ describe("redirectUtils", () => {
       expect(chainsAreEqual(left, right)).toBe(true);
     });
   });
+
+  describe("flattenHopHeaders", () => {
+    it("should merge header groups, drop location and collapse cookies", () => {
+      const flat = flattenHopHeaders({
+        core: { location: "/next", "cache-control": "no-store" },
+        security: { "strict-transport-security": "max-age=600" },
+        cookies: [{ name: "sid", secure: true, httpOnly: true, expires: false, partitioned: false }],
+      });
+
+      expect(Object.keys(flat).sort()).toEqual(["cache-control", "set-cookie", "strict-transport-security"]);
+    });
+
+    it("should return an empty map when headers were not captured", () => {
+      expect(flattenHopHeaders(undefined)).toEqual({});
+    });
+  });
+
+  describe("diffHopHeaders", () => {
+    const hop = (headers?: RedirectHop["headers"]): RedirectHop => ({
+      fromUrl: "http://example.com",
+      toUrl: "https://example.com",
+      status: 301,
+      headers,
+    });
+
+    it("should report differing headers per hop index", () => {
+      const left = [hop({ core: {}, security: { "strict-transport-security": "max-age=600" } }), hop({ core: {} })];
+      const right = [hop({ core: {} }), hop({ core: {} })];
+
+      expect(diffHopHeaders(left, right)).toEqual([{ hop: 0, headers: ["strict-transport-security"] }]);
+    });
+
+    it("should ignore location and hops without captured headers", () => {
+      const left = [hop({ core: { location: "https://a.example.com/" } }), hop(undefined)];
+      const right = [hop({ core: { location: "https://b.example.com/" } }), hop({ core: { vary: "Accept" } })];
+
+      expect(diffHopHeaders(left, right)).toEqual([]);
+    });
+
+    it("should be included in classifyRedirectChainDrift without changing severity", () => {
+      const left = [hop({ core: { "cache-control": "max-age=60" } })];
+      const right = [hop({ core: {} })];
+      const result = classifyRedirectChainDrift(["https://example.com"], ["https://example.com"], left, right);
+
+      expect(result.severity).toBe("info");
+      expect(result.hopHeaderDiffs).toEqual([{ hop: 0, headers: ["cache-control"] }]);
+    });
+  });
+
+  describe("classifyHopHeaderDrift", () => {
+    it("should warn when a security header or cookie differs at a hop", () => {
+      expect(classifyHopHeaderDrift([{ hop: 0, headers: ["strict-transport-security"] }])).toBe("warn");
+      expect(classifyHopHeaderDrift([{ hop: 1, headers: ["set-cookie"] }])).toBe("warn");
+    });
+
+    it("should be info for other curated headers", () => {
+      expect(classifyHopHeaderDrift([{ hop: 0, headers: ["cache-control", "vary"] }])).toBe("info");
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,77 @@
+import {
+  parsePermissionsPolicy,
+  securityHeaderDriftKind,
+  classifySecurityHeaderDrift,
+} from "../securityHeaderUtils";
+
+describe("securityHeaderUtils", () => {
+  describe("parsePermissionsPolicy", () => {
+    it("Parses features and allowlists", () => {
+      expect(parsePermissionsPolicy("camera=(), geolocation=(self)")).toEqual({
+        camera: "()",
+        geolocation: "(self)",
+      });
+    });
+
+    it("Returns empty map for undefined or malformed input", () => {
+      expect(parsePermissionsPolicy(undefined)).toEqual({});
+      expect(parsePermissionsPolicy("garbage")).toEqual({});
+    });
+  });
+
+  describe("securityHeaderDriftKind", () => {
+    it("Returns undefined for identical values", () => {
+      expect(securityHeaderDriftKind("x-frame-options", "DENY", "DENY")).toBeUndefined();
+    });
+
+    it("Treats a missing header as removed", () => {
+      expect(securityHeaderDriftKind("x-frame-options", "DENY", undefined)).toBe("removed");
+      expect(securityHeaderDriftKind("x-frame-options", undefined, "SAMEORIGIN")).toBe("removed");
+    });
+
+    it("Treats an ineffective value as removed", () => {
+      expect(securityHeaderDriftKind("x-content-type-options", "nosniff", "sniff")).toBe("removed");
+      expect(securityHeaderDriftKind("strict-transport-security", "max-age=600", "max-age=0")).toBe("removed");
+    });
+
+    it("Detects weaker HSTS on any dimension", () => {
+      expect(
+        securityHeaderDriftKind("strict-transport-security", "max-age=31536000", "max-age=300")
+      ).toBe("weakened");
+      expect(
+        securityHeaderDriftKind(
+          "strict-transport-security",
+          "max-age=31536000; includeSubDomains; preload",
+          "max-age=31536000; preload"
+        )
+      ).toBe("weakened");
+    });
+
+    it("Ranks x-frame-options DENY above SAMEORIGIN", () => {
+      expect(securityHeaderDriftKind("x-frame-options", "DENY", "SAMEORIGIN")).toBe("weakened");
+      expect(securityHeaderDriftKind("x-frame-options", "deny", "DENY")).toBe("changed");
+    });
+
+    it("Uses the last recognized referrer-policy token", () => {
+      expect(
+        securityHeaderDriftKind("referrer-policy", "no-referrer, strict-origin-when-cross-origin", "strict-origin-when-cross-origin")
+      ).toBe("changed");
+      expect(securityHeaderDriftKind("referrer-policy", "same-origin", "origin")).toBe("weakened");
+    });
+
+    it("Detects permissions-policy features that are no longer restricted", () => {
+      expect(securityHeaderDriftKind("permissions-policy", "camera=(), microphone=()", "camera=()")).toBe("weakened");
+      expect(securityHeaderDriftKind("permissions-policy", "camera=()", "camera=*")).toBe("weakened");
+      expect(securityHeaderDriftKind("permissions-policy", "camera=(), usb=()", "usb=(), camera=()")).toBe("changed");
+      expect(securityHeaderDriftKind("permissions-policy", "camera=()", undefined)).toBe("removed");
+    });
+  });
+
+  describe("classifySecurityHeaderDrift", () => {
+    it("Maps removed → critical, weakened → warn, changed → info", () => {
+      expect(classifySecurityHeaderDrift("x-frame-options", "DENY", undefined)).toBe("critical");
+      expect(classifySecurityHeaderDrift("x-frame-options", "DENY", "SAMEORIGIN")).toBe("warn");
+      expect(classifySecurityHeaderDrift("x-frame-options", "DENY", "deny")).toBe("info");
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import type { ServerTimingMetric } from "@shared/signal";
+import {
+  classifyServerTimingDrift,
+  computeServerTimingDiff,
+  describeServerTimingDrift,
+  serverTimingDiffKeys,
+} from "../serverTimingUtils";
+
+const staging: ServerTimingMetric[] = [
+  { name: "app", dur: 40 },
+  { name: "cache", desc: "HIT" },
+  { name: "db", dur: 12 },
+];
+const production: ServerTimingMetric[] = [
+  { name: "app", dur: 44 },
+  { name: "cache", desc: "MISS" },
+  { name: "db", dur: 480 },
+  { name: "queue", dur: 3 },
+];
+
+describe("serverTimingUtils", () => {
+  describe("computeServerTimingDiff", () => {
+    it("should key metrics by name and record every difference", () => {
+      expect(computeServerTimingDiff(staging, production)).toEqual({
+        added: { queue: { name: "queue", dur: 3 } },
+        removed: {},
+        changed: {
+          app: { left: { name: "app", dur: 40 }, right: { name: "app", dur: 44 } },
+          cache: { left: { name: "cache", desc: "HIT" }, right: { name: "cache", desc: "MISS" } },
+          db: { left: { name: "db", dur: 12 }, right: { name: "db", dur: 480 } },
+        },
+      });
+    });
+
+    it("should be undefined when metrics match or neither side sent the header", () => {
+      expect(computeServerTimingDiff(staging, [...staging])).toBeUndefined();
+      expect(computeServerTimingDiff(undefined, undefined)).toBeUndefined();
+    });
+
+    it("should treat a missing header as every metric on one side only", () => {
+      expect(computeServerTimingDiff(staging, undefined)?.removed).toEqual({
+        app: staging[0],
+        cache: staging[1],
+        db: staging[2],
+      });
+    });
+  });
+
+  describe("classifyServerTimingDrift", () => {
+    it("should use the worst significant duration drift", () => {
+      expect(classifyServerTimingDrift(computeServerTimingDiff(staging, production)!)).toBe("critical");
+    });
+
+    it("should be info for description and presence changes", () => {
+      const diff = computeServerTimingDiff(staging, [staging[0], { name: "cache", desc: "MISS" }])!;
+      expect(classifyServerTimingDrift(diff)).toBe("info");
+    });
+  });
+
+  it("should list keys and describe only significant differences", () => {
+    const diff = computeServerTimingDiff(staging, production)!;
+
+    expect(serverTimingDiffKeys(diff)).toEqual(["desc", "dur", "presence"]);
+    expect(describeServerTimingDrift(diff)).toBe("db 12ms vs 480ms; cache desc HIT vs MISS; queue on right only");
+  });
+
+  it("should have no keys when only small durations jitter", () => {
+    const diff = computeServerTimingDiff([{ name: "db", dur: 12 }], [{ name: "db", dur: 30 }])!;
+    expect(serverTimingDiffKeys(diff)).toEqual([]);
+  });
+});
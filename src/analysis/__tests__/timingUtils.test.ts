@@ -0,0 +1,73 @@
+import { compareTimingPhases, dominantTimingPhase, summarizeTimingSamples, timingNoiseMs } from "../timingUtils";
+
+describe("timingUtils", () => {
+  describe("summarizeTimingSamples", () => {
+    it("Returns undefined when there are no successful samples", () => {
+      expect(summarizeTimingSamples([], 3)).toBeUndefined();
+    });
+
+    it("Computes nearest-rank percentiles and keeps capture order", () => {
+      const result = summarizeTimingSamples([120, 100, 900]);
+      expect(result).toEqual({
+        samplesMs: [120, 100, 900],
+        minMs: 100,
+        p50Ms: 120,
+        p95Ms: 900,
+        maxMs: 900,
+        failedSamples: 0,
+      });
+    });
+
+    it("Handles a single sample", () => {
+      const result = summarizeTimingSamples([250], 1);
+      expect(result).toMatchObject({ minMs: 250, p50Ms: 250, p95Ms: 250, maxMs: 250, failedSamples: 1 });
+    });
+
+    it("Uses the lower middle value as median for even sample counts", () => {
+      const result = summarizeTimingSamples([10, 20, 30, 40]);
+      expect(result?.p50Ms).toBe(20);
+      expect(result?.p95Ms).toBe(40);
+    });
+  });
+
+  describe("timingNoiseMs", () => {
+    it("Returns the wider p95 - p50 spread", () => {
+      const left = summarizeTimingSamples([100, 110, 120, 800])!;
+      const right = summarizeTimingSamples([200, 210, 230, 250])!;
+      expect(timingNoiseMs(left, right)).toBe(690);
+    });
+
+    it("Returns 0 for tight distributions", () => {
+      const left = summarizeTimingSamples([100, 100])!;
+      const right = summarizeTimingSamples([300, 300])!;
+      expect(timingNoiseMs(left, right)).toBe(0);
+    });
+  });
+
+  describe("compareTimingPhases", () => {
+    it("Compares each phase when both sides have a breakdown", () => {
+      expect(
+        compareTimingPhases({ redirectMs: 0, ttfbMs: 120, bodyMs: 30 }, { redirectMs: 0, ttfbMs: 900, bodyMs: 60 })
+      ).toEqual({
+        redirectMs: { left: 0, right: 0, changed: false },
+        ttfbMs: { left: 120, right: 900, changed: true },
+        bodyMs: { left: 30, right: 60, changed: true },
+      });
+      expect(compareTimingPhases(undefined, { redirectMs: 0, ttfbMs: 900, bodyMs: 60 })).toBeUndefined();
+    });
+  });
+
+  describe("dominantTimingPhase", () => {
+    it("Picks the phase with the largest absolute delta", () => {
+      const ttfb = compareTimingPhases({ redirectMs: 0, ttfbMs: 120, bodyMs: 30 }, { redirectMs: 0, ttfbMs: 900, bodyMs: 60 })!;
+      const body = compareTimingPhases({ redirectMs: 50, ttfbMs: 100, bodyMs: 800 }, { redirectMs: 0, ttfbMs: 110, bodyMs: 90 })!;
+      expect(dominantTimingPhase(ttfb)).toBe("ttfb");
+      expect(dominantTimingPhase(body)).toBe("body");
+    });
+
+    it("Returns undefined when no phase differs", () => {
+      const same = compareTimingPhases({ redirectMs: 0, ttfbMs: 100, bodyMs: 10 }, { redirectMs: 0, ttfbMs: 100, bodyMs: 10 })!;
+      expect(dominantTimingPhase(same)).toBeUndefined();
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { parseUrlComponents, classifyUrlDrift } from "../urlUtils";
+import { parseUrlComponents, classifyUrlDrift, normalizeUrl, describeUrlNormalization } from "../urlUtils";
 
 describe("urlUtils", () => {
   describe("parseUrlComponents", () => {
@@ -214,4 +214,52 @@ describe("urlUtils", () => {
       expect(result.diffTypes).toContain("host");
     });
   });
+
+  describe("normalizeUrl", () => {
+    it("should drop ignored params, including prefix wildcards", () => {
+      const rules = { ignoreParams: ["cb", "utm_*"] };
+      expect(normalizeUrl("https://example.com/a?utm_source=x&id=1&cb=123&utm_medium=y", rules)).toBe(
+        "https://example.com/a?id=1"
+      );
+      expect(normalizeUrl("https://example.com/a?cb=1", rules)).toBe("https://example.com/a");
+    });
+
+    it("should sort params by name, keeping repeated params in order", () => {
+      expect(normalizeUrl("https://example.com/?b=2&a=1&b=1", { sortParams: true })).toBe(
+        "https://example.com/?a=1&b=2&b=1"
+      );
+    });
+
+    it("should collapse duplicate slashes in the path only", () => {
+      expect(normalizeUrl("https://example.com//docs///guide?next=//x", { collapseSlashes: true })).toBe(
+        "https://example.com/docs/guide?next=//x"
+      );
+    });
+
+    it("should remove default ports per scheme", () => {
+      const rules = { removeDefaultPort: true };
+      expect(normalizeUrl("https://example.com:443/a", rules)).toBe("https://example.com/a");
+      expect(normalizeUrl("http://example.com:80/a", rules)).toBe("http://example.com/a");
+      expect(normalizeUrl("https://example.com:80/a", rules)).toBe("https://example.com:80/a");
+    });
+
+    it("should treat a trailing slash as equivalent, keeping the root", () => {
+      const rules = { ignoreTrailingSlash: true };
+      expect(normalizeUrl("https://example.com/docs/?q=1", rules)).toBe("https://example.com/docs?q=1");
+      expect(normalizeUrl("https://example.com", rules)).toBe("https://example.com/");
+    });
+
+    it("should leave the URL unchanged without rules", () => {
+      const url = "https://example.com:443//a/?b=2&a=1#frag";
+      expect(normalizeUrl(url, {})).toBe(url);
+    });
+  });
+
+  describe("describeUrlNormalization", () => {
+    it("should list active rules in a fixed order", () => {
+      expect(
+        describeUrlNormalization({ ignoreTrailingSlash: true, ignoreParams: ["utm_*", "cb"], sortParams: true })
+      ).toBe("ignoreParams(utm_*, cb), sortParams, ignoreTrailingSlash");
+    });
+  });
 });
\ No newline at end of file
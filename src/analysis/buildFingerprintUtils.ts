@@ -0,0 +1,73 @@
+/**
+ * Build Fingerprint Utilities
+ *
+ * Responsibility: Diff HTML build fingerprints and classify deployed-build drift severity.
+ *
+ * Design:
+ * 1. Computed only when both sides carry an HTML fingerprint
+ * 2. Script and stylesheet URLs are compared as one asset set (hashed bundle names change per build)
+ * 3. classifyBuildFingerprintDrift:
+ *    - warn: assets, build IDs or version-like meta tags differ (different builds deployed)
+ *    - info: only the title differs
+ *
+ * Reference: Phase-B2.md §4.D
+ */
+
+import type { Change, HtmlFingerprintDiff, Severity } from "@shared/diff";
+import { changed } from "@shared/diff";
+import type { HtmlFingerprint } from "@shared/signal";
+
+/**
+ * Diff two string records, keeping only keys whose values differ (sorted).
+ */
+function diffRecords(
+  left: Record<string, string>,
+  right: Record<string, string>
+): Record<string, Change<string>> | undefined {
+  const keys = Array.from(new Set([...Object.keys(left), ...Object.keys(right)])).sort();
+  const changes: Record<string, Change<string>> = {};
+  for (const key of keys) {
+    if (left[key] !== right[key]) changes[key] = changed(left[key], right[key]);
+  }
+  return Object.keys(changes).length > 0 ? changes : undefined;
+}
+
+/**
+ * Compute the build fingerprint diff between two HTML pages.
+ *
+ * @param left - Left fingerprint
+ * @param right - Right fingerprint
+ * @returns HtmlFingerprintDiff, or undefined if the fingerprints match
+ */
+export function computeHtmlFingerprintDiff(
+  left: HtmlFingerprint,
+  right: HtmlFingerprint
+): HtmlFingerprintDiff | undefined {
+  const diff: HtmlFingerprintDiff = {};
+
+  if (left.title !== right.title) diff.title = changed(left.title, right.title);
+
+  const meta = diffRecords(left.meta, right.meta);
+  if (meta) diff.meta = meta;
+
+  const buildIds = diffRecords(left.buildIds, right.buildIds);
+  if (buildIds) diff.buildIds = buildIds;
+
+  const leftAssets = new Set([...left.scripts, ...left.stylesheets]);
+  const rightAssets = new Set([...right.scripts, ...right.stylesheets]);
+  const added = Array.from(rightAssets).filter((url) => !leftAssets.has(url)).sort();
+  const removed = Array.from(leftAssets).filter((url) => !rightAssets.has(url)).sort();
+  if (added.length > 0 || removed.length > 0) diff.assets = { added, removed };
+
+  return Object.keys(diff).length > 0 ? diff : undefined;
+}
+
+/**
+ * Classify build fingerprint drift severity.
+ *
+ * @param diff - HTML fingerprint diff
+ * @returns Severity
+ */
+export function classifyBuildFingerprintDrift(diff: HtmlFingerprintDiff): Severity {
+  return diff.assets || diff.buildIds || diff.meta ? "warn" : "info";
+}
@@ -6,16 +6,31 @@
  * Reference: Phase-B2.md §5, CHUNK_5_DESIGN.md
  */
 
-import type { EnvDiff, DiffFinding, DiffEvidence, Severity } from "@shared/diff";
+import type { Change, EnvDiff, DiffFinding, DiffEvidence, Severity, TimingPhase } from "@shared/diff";
+import type { SecurityHeaderKey } from "@shared/signal";
 import { deduplicateFindings, sortFindings } from "@shared/diff";
 import { validateEvidenceKeys } from "./validators";
-import { isNetworkFailure } from "./probeUtils";
+import { describeProbeError, describeRetries, isNetworkFailure } from "./probeUtils";
 import { classifyCacheControlDrift } from "./cacheUtils";
 import { classifyContentTypeDrift, classifyBodyHashDrift, classifyContentLengthDrift } from "./contentUtils";
-import { classifyUrlDrift } from "./urlUtils";
-import { classifyRedirectChainDrift } from "./redirectUtils";
+import { classifyUrlDrift, describeUrlNormalization } from "./urlUtils";
+import { classifyHopHeaderDrift, classifyRedirectChainDrift } from "./redirectUtils";
 import { classifyStatusDrift } from "./classifiers";
-import { TIMING_CONSTANTS } from "./constants";
+import { classifyTimingDrift, timingNoiseMs } from "./timingUtils";
+import { classifySecurityHeaderDrift, securityHeaderDriftKind } from "./securityHeaderUtils";
+import { classifyCookieAttributeDrift } from "./cookieUtils";
+import { classifyJsonSchemaDrift } from "./jsonShapeUtils";
+import { classifyBuildFingerprintDrift } from "./buildFingerprintUtils";
+import { classifyPlatformDrift, platformDiffKeys } from "./platformUtils";
+import { classifyDnsDrift, describeDnsDrift, dnsDiffKeys, hasSignificantDnsDrift } from "./dnsUtils";
+import {
+  classifyServerTimingDrift,
+  describeServerTimingDrift,
+  serverTimingDiffKeys,
+  serverTimingDriftNames,
+  serverTimingDurationDrifts,
+} from "./serverTimingUtils";
+import { TIMING_CONSTANTS, SEVERITY_ORDER } from "./constants";
 
 /**
  * Helper: Generate deterministic finding ID from code, section, and keys.
@@ -59,24 +74,117 @@ function normalizedContentType(value?: string): string {
 
 
 /**
- * Helper: Classify timing drift severity.
- * critical = ratio >= 2.5 or delta >= 1000ms
- * warn = ratio >= 1.5 or delta >= 300ms
- * info = otherwise
+ * Helper: Build evidence note when body capture was truncated on either side.
+ * Signals that content-length/body-hash compare captured prefixes only.
  */
-function classifyTimingDrift(left: number, right: number): Severity {
-  const maxDuration = Math.max(left, right);
-  const minDuration = Math.min(left, right);
+function getBodyTruncationNote(diff: EnvDiff): string | undefined {
+  const truncated = diff.content?.bodyTruncated;
+  if (!truncated) return undefined;
 
-  if (minDuration === 0) return "info";
+  const sides = [truncated.left ? "left" : undefined, truncated.right ? "right" : undefined].filter(Boolean);
+  return `Body capture truncated (${sides.join(", ")}); comparison covers captured bytes only`;
+}
+
+/**
+ * Helper: Whether an envelope field path (e.g., "result.redirects[0].toUrl") is at or below a prefix.
+ */
+function isFieldUnder(field: string, fieldPrefix: string): boolean {
+  return field === fieldPrefix || field.startsWith(`${fieldPrefix}.`) || field.startsWith(`${fieldPrefix}[`);
+}
+
+/**
+ * Helper: Build evidence showing raw and mapped values when host mappings rewrote values under a field path.
+ */
+function getHostMappingEvidence(
+  diff: EnvDiff,
+  section: DiffEvidence["section"],
+  fieldPrefix: string,
+  keys?: string[]
+): DiffEvidence | undefined {
+  const hostMapping = diff.hostMapping;
+  if (!hostMapping) return undefined;
+
+  const rewrites = [
+    ...hostMapping.left.filter((r) => isFieldUnder(r.field, fieldPrefix)).map((r) => `left ${r.raw} → ${r.mapped}`),
+    ...hostMapping.right.filter((r) => isFieldUnder(r.field, fieldPrefix)).map((r) => `right ${r.raw} → ${r.mapped}`),
+  ];
+  if (rewrites.length === 0) return undefined;
+  return { section, keys, note: `hosts mapped before comparison: ${formatList(rewrites, 5)}` };
+}
+
+/**
+ * Helper: Build evidence note when values under a field path were redacted on either side.
+ * Signals that masked parts compare equal regardless of their real values.
+ */
+function getRedactionNote(diff: EnvDiff, fieldPrefix: string): string | undefined {
+  const redactions = diff.redactions;
+  if (!redactions) return undefined;
+
+  const sides = [
+    redactions.left.some((field) => isFieldUnder(field, fieldPrefix)) ? "left" : undefined,
+    redactions.right.some((field) => isFieldUnder(field, fieldPrefix)) ? "right" : undefined,
+  ].filter(Boolean);
+  if (sides.length === 0) return undefined;
+  return `Values redacted before comparison (${sides.join(", ")}); masked parts compare equal`;
+}
+
+/**
+ * Helper: Build evidence note for failed sides that were retried (down on every attempt, not flaky).
+ */
+function getRetryNote(diff: EnvDiff, sides: Array<"left" | "right">): string | undefined {
+  const retries = diff.probe.retries;
+  if (!retries) return undefined;
 
-  const ratio = maxDuration / minDuration;
-  const delta = maxDuration - minDuration;
+  const notes = sides.flatMap((side) => (retries[side] ? [describeRetries(side, retries[side]!)] : []));
+  return notes.length > 0 ? notes.join("; ") : undefined;
+}
+
+/**
+ * Helper: List paths or URLs for an evidence note, capped so huge lists stay readable.
+ */
+function formatList(items: string[], limit: number = 10): string {
+  const shown = items.slice(0, limit).join(", ");
+  return items.length > limit ? `${shown} (+${items.length - limit} more)` : shown;
+}
+
+const TIMING_PHASE_LABELS: Record<TimingPhase, string> = {
+  redirects: "redirect hops",
+  ttfb: "server time (TTFB)",
+  body: "body transfer",
+};
+
+/**
+ * Helper: Build evidence naming the phase the timing drift comes from (phase breakdown on both sides).
+ * TTFB drift points at the server; body drift at payload size (content length differs) or delivery
+ * (same size, slower transfer); redirect drift at the redirect chain.
+ */
+function getTimingPhaseEvidence(diff: EnvDiff): DiffEvidence | undefined {
+  const phases = diff.timing?.phases;
+  const phase = diff.timing?.driftPhase;
+  if (!phases || !phase) return undefined;
+
+  const format = (change: Change<number>) => `${change.left}ms vs ${change.right}ms`;
+  const label = `Mostly ${TIMING_PHASE_LABELS[phase]}`;
+  if (phase === "ttfb") {
+    return { section: "timing", keys: ["ttfb_ms"], note: `${label}: ${format(phases.ttfbMs)}` };
+  }
+  if (phase === "redirects") {
+    return { section: "timing", keys: ["redirect_ms"], note: `${label}: ${format(phases.redirectMs)}` };
+  }
 
-  if (ratio >= TIMING_CONSTANTS.RATIO_CRIT || delta >= TIMING_CONSTANTS.ABS_DELTA_CRIT_MS) return "critical";
-  if (ratio >= TIMING_CONSTANTS.RATIO_WARN || delta >= TIMING_CONSTANTS.ABS_DELTA_WARN_MS) return "warn";
+  const contentLength = diff.content?.contentLength;
+  const cause = contentLength?.changed
+    ? `payload size differs (${contentLength.left ?? "unknown"} vs ${contentLength.right ?? "unknown"} bytes)`
+    : "same payload size, slower delivery";
+  return { section: "timing", keys: ["body_ms"], note: `${label}: ${format(phases.bodyMs)}; ${cause}` };
+}
 
-  return "info";
+/**
+ * Helper: Suffix naming the dominant timing phase for TIMING_DRIFT messages.
+ */
+function timingPhaseSuffix(diff: EnvDiff): string {
+  const phase = diff.timing?.phases ? diff.timing.driftPhase : undefined;
+  return phase ? ` (mostly ${TIMING_PHASE_LABELS[phase]})` : "";
 }
 
 /**
@@ -187,6 +295,65 @@ function getUnclaimedHeaderDiffs(diff: EnvDiff): string[] {
 export function classify(diff: EnvDiff): DiffFinding[] {
   const findings: DiffFinding[] = [];
 
+  // ========== DNS RULE ==========
+  // DNS is resolved before any request, so it is classified ahead of the
+  // network-failure short-circuit (NXDOMAIN on one side is the likely cause of that failure)
+
+  const dns = diff.dns;
+  if (dns && hasSignificantDnsDrift(dns)) {
+    const keys = dnsDiffKeys(dns);
+    const side = (s: "left" | "right") =>
+      Object.fromEntries(
+        (["requested", "final"] as const)
+          .filter((name) => dns[name])
+          .map((name) => [
+            name,
+            Object.fromEntries(Object.entries(dns[name]!).map(([field, change]) => [field, change?.[s] ?? null])),
+          ])
+      );
+
+    findings.push({
+      id: generateFindingId("DNS_DRIFT", "dns", keys),
+      code: "DNS_DRIFT",
+      category: "routing",
+      severity: classifyDnsDrift(dns),
+      message: "DNS resolution differs",
+      evidence: [{ section: "dns", keys, note: describeDnsDrift(dns) }],
+      left_value: side("left"),
+      right_value: side("right"),
+    });
+  }
+
+  // ========== RETRY RULE ==========
+  // A side that got a response only after failed attempts is flaky, not down (INTERMITTENT_FAILURE).
+  // A side that failed every attempt is reported by PROBE_FAILURE below, with its attempts as evidence.
+
+  const retries = diff.probe.retries;
+  const recoveredSides = (["left", "right"] as const).filter((s) => retries?.[s]?.recovered);
+  if (retries && recoveredSides.length > 0) {
+    const failedAttempts = (s: "left" | "right") => retries[s]!.failedErrorCodes.length;
+    const label = recoveredSides.length === 2 ? "Both probes" : recoveredSides[0] === "left" ? "Left probe" : "Right probe";
+    const count = recoveredSides.length === 1 ? ` ${failedAttempts(recoveredSides[0])}` : "";
+    const plural = recoveredSides.length === 1 && failedAttempts(recoveredSides[0]) === 1 ? "" : "s";
+
+    findings.push({
+      id: generateFindingId("INTERMITTENT_FAILURE", "probe", [...recoveredSides]),
+      code: "INTERMITTENT_FAILURE",
+      category: "unknown",
+      severity: "warn",
+      message: `${label} recovered after${count} failed attempt${plural}`,
+      evidence: [
+        {
+          section: "probe",
+          keys: [...recoveredSides],
+          note: recoveredSides.map((s) => describeRetries(s, retries[s]!)).join("; "),
+        },
+      ],
+      left_value: retries.left,
+      right_value: retries.right,
+    });
+  }
+
   // ========== RULE GROUP A: PROBE OUTCOME RULES ==========
   // CRITICAL DISTINCTION:
   // - ProbeSuccess: ok=true, has response (2xx/3xx)
@@ -206,13 +373,16 @@ export function classify(diff: EnvDiff): DiffFinding[] {
     const rightIsNetworkFailure = isNetworkFailure(diff.probe, "right");
 
     if (leftIsNetworkFailure && rightIsNetworkFailure) {
-      const evidence: DiffEvidence[] = [{ section: "probe" }];
+      const evidence: DiffEvidence[] = [{ section: "probe", note: getRetryNote(diff, ["left", "right"]) }];
       findings.push({
         id: generateFindingId("PROBE_FAILURE", "probe"),
         code: "PROBE_FAILURE",
         category: "unknown",
         severity: "critical",
-        message: "Both probes failed (network-level)",
+        message:
+          diff.probe.leftErrorCode === diff.probe.rightErrorCode
+            ? `Both probes failed (network-level): ${describeProbeError(diff.probe.leftErrorCode)}`
+            : `Both probes failed (network-level): left ${describeProbeError(diff.probe.leftErrorCode)}, right ${describeProbeError(diff.probe.rightErrorCode)}`,
         evidence,
         left_value: diff.probe.leftErrorCode || "Unknown error",
         right_value: diff.probe.rightErrorCode || "Unknown error",
@@ -226,13 +396,13 @@ export function classify(diff: EnvDiff): DiffFinding[] {
     // One succeeded, one reported ok=false
     // Only emit PROBE_FAILURE if the failed side is a network failure
     if (!diff.probe.leftOk && isNetworkFailure(diff.probe, "left")) {
-      const evidence: DiffEvidence[] = [{ section: "probe", keys: ["left"] }];
+      const evidence: DiffEvidence[] = [{ section: "probe", keys: ["left"], note: getRetryNote(diff, ["left"]) }];
       findings.push({
         id: generateFindingId("PROBE_FAILURE", "probe", ["left"]),
         code: "PROBE_FAILURE",
         category: "unknown",
         severity: "critical",
-        message: "Left probe failed (network-level); right succeeded",
+        message: `Left probe failed (network-level): ${describeProbeError(diff.probe.leftErrorCode)}; right succeeded`,
         evidence,
         left_value: diff.probe.leftErrorCode || "Unknown error",
         right_value: diff.status?.right,
@@ -240,13 +410,13 @@ export function classify(diff: EnvDiff): DiffFinding[] {
       // Short-circuit: left is network failure
       return postProcess(findings);
     } else if (!diff.probe.rightOk && isNetworkFailure(diff.probe, "right")) {
-      const evidence: DiffEvidence[] = [{ section: "probe", keys: ["right"] }];
+      const evidence: DiffEvidence[] = [{ section: "probe", keys: ["right"], note: getRetryNote(diff, ["right"]) }];
       findings.push({
         id: generateFindingId("PROBE_FAILURE", "probe", ["right"]),
         code: "PROBE_FAILURE",
         category: "unknown",
         severity: "critical",
-        message: "Right probe failed (network-level); left succeeded",
+        message: `Right probe failed (network-level): ${describeProbeError(diff.probe.rightErrorCode)}; left succeeded`,
         evidence,
         left_value: diff.status?.left,
         right_value: diff.probe.rightErrorCode || "Unknown error",
@@ -277,11 +447,31 @@ export function classify(diff: EnvDiff): DiffFinding[] {
     });
   }
 
-  if (diff.finalUrl?.changed) {
+  // Final URL: decided on the normalized pair when normalization rules were given
+  // (URLs equal after normalization are not drift); raw URLs stay the finding values
+  const normalizedUrl = diff.finalUrlNormalized;
+  if (diff.finalUrl?.changed && (!normalizedUrl || normalizedUrl.changed)) {
     const leftUrl = diff.finalUrl.left!;
     const rightUrl = diff.finalUrl.right!;
-    const urlDrift = classifyUrlDrift(leftUrl, rightUrl);
-    const evidence: DiffEvidence[] = [{ section: "finalUrl", keys: urlDrift.diffTypes.length > 0 ? urlDrift.diffTypes : undefined }];
+    const urlDrift = normalizedUrl
+      ? classifyUrlDrift(normalizedUrl.left, normalizedUrl.right)
+      : classifyUrlDrift(leftUrl, rightUrl);
+    const evidence: DiffEvidence[] = [
+      {
+        section: "finalUrl",
+        keys: urlDrift.diffTypes.length > 0 ? urlDrift.diffTypes : undefined,
+        note: getRedactionNote(diff, "result.response.finalUrl"),
+      },
+    ];
+    const mappedUrl = getHostMappingEvidence(diff, "finalUrl", "result.response.finalUrl", ["finalUrl"]);
+    if (mappedUrl) evidence.push(mappedUrl);
+    if (normalizedUrl) {
+      evidence.push({
+        section: "finalUrl",
+        keys: ["finalUrl"],
+        note: `normalized (${describeUrlNormalization(normalizedUrl.rules)}): ${normalizedUrl.left} vs ${normalizedUrl.right}`,
+      });
+    }
 
     findings.push({
       id: generateFindingId("FINAL_URL_MISMATCH", "finalUrl", urlDrift.diffTypes),
@@ -295,19 +485,38 @@ export function classify(diff: EnvDiff): DiffFinding[] {
     });
   }
 
-  if (diff.redirects && (diff.redirects.chainChanged || diff.redirects.hopCount.changed)) {
-    const leftChain = diff.redirects.left.map((hop) => hop.toUrl);
-    const rightChain = diff.redirects.right.map((hop) => hop.toUrl);
-    const chainDrift = classifyRedirectChainDrift(leftChain, rightChain);
+  // Hop header drift is reported even when the chains match (e.g., after host mapping,
+  // a hop that drops HSTS or sets a cookie on one side only)
+  const chainDrift = diff.redirects
+    ? classifyRedirectChainDrift(
+        diff.redirects.left.map((hop) => hop.toUrl),
+        diff.redirects.right.map((hop) => hop.toUrl),
+        diff.redirects.left,
+        diff.redirects.right
+      )
+    : undefined;
+  const chainDiffers = Boolean(diff.redirects?.chainChanged || diff.redirects?.hopCount.changed);
+  if (diff.redirects && chainDrift && (chainDiffers || chainDrift.hopHeaderDiffs.length > 0)) {
     const diffComponents = getRedirectDiffComponents(diff);
-    const evidence: DiffEvidence[] = [{ section: "redirects", keys: diffComponents.length > 0 ? diffComponents : undefined }];
+    const evidence: DiffEvidence[] = [
+      {
+        section: "redirects",
+        keys: diffComponents.length > 0 ? diffComponents : undefined,
+        note: getRedactionNote(diff, "result.redirects"),
+      },
+    ];
+    for (const hopDiff of chainDrift.hopHeaderDiffs) {
+      evidence.push({ section: "headers", keys: hopDiff.headers, note: `redirect hop ${hopDiff.hop + 1}` });
+    }
+    const mappedHops = getHostMappingEvidence(diff, "redirects", "result.redirects", ["chain"]);
+    if (mappedHops) evidence.push(mappedHops);
 
     findings.push({
       id: generateFindingId("REDIRECT_CHAIN_CHANGED", "redirects", diffComponents),
       code: "REDIRECT_CHAIN_CHANGED",
       category: "routing",
-      severity: chainDrift.severity,
-      message: "Redirect chain differs",
+      severity: chainDiffers ? chainDrift.severity : classifyHopHeaderDrift(chainDrift.hopHeaderDiffs),
+      message: chainDiffers ? "Redirect chain differs" : "Redirect hop headers differ",
       evidence,
       left_value: diff.redirects.left,
       right_value: diff.redirects.right,
@@ -362,6 +571,13 @@ export function classify(diff: EnvDiff): DiffFinding[] {
     // Evidence preserves header names so LLM can still prioritize
     const severity: Severity = "warn";
     const evidence: DiffEvidence[] = [{ section: "headers", keys: corsHeaders }];
+    const mappedOrigin = getHostMappingEvidence(
+      diff,
+      "headers",
+      "result.response.headers.accessControl",
+      ["access-control-allow-origin"]
+    );
+    if (mappedOrigin) evidence.push(mappedOrigin);
 
     console.log(`[classify] C2: CORS_HEADER_DRIFT emitted - severity=${severity}, headers=${corsHeaders.join(",")}`);
 
@@ -379,6 +595,151 @@ export function classify(diff: EnvDiff): DiffFinding[] {
     console.log(`[classify] C2: No CORS headers found`);
   }
 
+  // CORS preflight: allowed verdict flip is critical; any other status/error/header drift is warn
+  const preflight = diff.preflight;
+  if (preflight) {
+    const headerKeys = [
+      ...Object.keys(preflight.headers.added),
+      ...Object.keys(preflight.headers.removed),
+      ...Object.keys(preflight.headers.changed),
+    ].sort();
+
+    const keys: string[] = [];
+    if (preflight.allowed.changed) keys.push("allowed");
+    if (preflight.errorCode?.changed) keys.push("error");
+    if (headerKeys.length > 0) keys.push("headers");
+    if (preflight.status.changed) keys.push("status");
+
+    if (keys.length > 0) {
+      const severity: Severity = preflight.allowed.changed ? "critical" : "warn";
+      const evidence: DiffEvidence[] = [{ section: "preflight", keys }];
+      if (headerKeys.length > 0) {
+        evidence.push({ section: "headers", keys: headerKeys });
+      }
+
+      findings.push({
+        id: generateFindingId("CORS_PREFLIGHT_DRIFT", "preflight", keys),
+        code: "CORS_PREFLIGHT_DRIFT",
+        category: "security",
+        severity,
+        message: preflight.allowed.changed
+          ? `CORS preflight allowed on ${preflight.allowed.left ? "left" : "right"} only`
+          : "CORS preflight response differs",
+        evidence,
+        left_value: { allowed: preflight.allowed.left, status: preflight.status.left ?? null },
+        right_value: { allowed: preflight.allowed.right, status: preflight.status.right ?? null },
+      });
+    }
+  }
+
+  // Security headers: one finding per differing header; severity reflects protection change
+  const securityHeaders = diff.headers?.security;
+  if (securityHeaders) {
+    const differing = new Set<SecurityHeaderKey>();
+    (Object.keys(securityHeaders.added || {}) as SecurityHeaderKey[]).forEach((k) => differing.add(k));
+    (Object.keys(securityHeaders.removed || {}) as SecurityHeaderKey[]).forEach((k) => differing.add(k));
+    (Object.keys(securityHeaders.changed || {}) as SecurityHeaderKey[]).forEach((k) => differing.add(k));
+
+    for (const header of Array.from(differing).sort()) {
+      const leftValue = securityHeaders.changed?.[header]?.left ?? securityHeaders.removed?.[header];
+      const rightValue = securityHeaders.changed?.[header]?.right ?? securityHeaders.added?.[header];
+      const kind = securityHeaderDriftKind(header, leftValue, rightValue);
+      const severity = classifySecurityHeaderDrift(header, leftValue, rightValue);
+      const evidence: DiffEvidence[] = [{ section: "headers", keys: [header] }];
+
+      findings.push({
+        id: generateFindingId("SECURITY_HEADER_DRIFT", "headers", [header]),
+        code: "SECURITY_HEADER_DRIFT",
+        category: "security",
+        severity,
+        message: kind === "removed"
+          ? `${header} protection missing on one side`
+          : kind === "weakened"
+            ? `${header} protection weaker on one side`
+            : `${header} header differs`,
+        evidence,
+        left_value: leftValue,
+        right_value: rightValue,
+      });
+    }
+  }
+
+  // Custom headers (options.captureHeaders): one finding per differing header.
+  // The caller picked these because they track deploys/config, so any difference is a warning.
+  const customHeaders = diff.headers?.custom;
+  if (customHeaders) {
+    const differing = new Set<string>([
+      ...Object.keys(customHeaders.added || {}),
+      ...Object.keys(customHeaders.removed || {}),
+      ...Object.keys(customHeaders.changed || {}),
+    ]);
+
+    for (const header of Array.from(differing).sort()) {
+      const leftValue = customHeaders.changed?.[header]?.left ?? customHeaders.removed?.[header];
+      const rightValue = customHeaders.changed?.[header]?.right ?? customHeaders.added?.[header];
+
+      findings.push({
+        id: generateFindingId("CUSTOM_HEADER_DRIFT", "headers", [header]),
+        code: "CUSTOM_HEADER_DRIFT",
+        category: "platform",
+        severity: "warn",
+        message: leftValue === undefined || rightValue === undefined
+          ? `${header} present on ${leftValue === undefined ? "right" : "left"} only`
+          : `${header} differs`,
+        evidence: [
+          { section: "headers", keys: [header], note: getRedactionNote(diff, `result.response.headers.custom.${header}`) },
+        ],
+        left_value: leftValue,
+        right_value: rightValue,
+      });
+    }
+  }
+
+  // Set-Cookie: one aggregate finding; severity is the worst per-cookie severity
+  const cookies = diff.cookies;
+  if (cookies) {
+    const keys = new Set<string>();
+    const names: string[] = [];
+    let severity: Severity = "info";
+    const raise = (next: Severity) => {
+      if (SEVERITY_ORDER[next] < SEVERITY_ORDER[severity]) severity = next;
+    };
+
+    for (const name of [...Object.keys(cookies.added), ...Object.keys(cookies.removed)].sort()) {
+      keys.add("presence");
+      names.push(name);
+      raise("warn");
+    }
+    for (const [name, change] of Object.entries(cookies.changed)) {
+      change.attributes.forEach((a) => keys.add(a));
+      names.push(name);
+      raise(classifyCookieAttributeDrift(change.left, change.right));
+    }
+
+    const sortedKeys = Array.from(keys).sort();
+    const sortedNames = [...names].sort();
+    const evidence: DiffEvidence[] = [{
+      section: "cookies",
+      keys: sortedKeys,
+      note: `cookies: ${sortedNames.join(", ")}`,
+    }];
+
+    findings.push({
+      id: generateFindingId("COOKIE_ATTRIBUTE_DRIFT", "cookies", sortedKeys),
+      code: "COOKIE_ATTRIBUTE_DRIFT",
+      category: "security",
+      severity,
+      message: `Set-Cookie attributes differ for ${sortedNames.join(", ")}`,
+      evidence,
+      left_value: Object.fromEntries(
+        sortedNames.map((n) => [n, cookies.changed[n]?.left ?? cookies.removed[n] ?? null])
+      ),
+      right_value: Object.fromEntries(
+        sortedNames.map((n) => [n, cookies.changed[n]?.right ?? cookies.added[n] ?? null])
+      ),
+    });
+  }
+
   // ========== RULE GROUP D: CACHE & CONTENT RULES ==========
 
   const leftCacheControl = diff.headers?.core.changed?.["cache-control"]?.left ||
@@ -451,7 +812,7 @@ export function classify(diff: EnvDiff): DiffFinding[] {
 
   if (diff.content?.bodyHash?.changed && diff.status && !diff.status.changed && diff.content.contentType && !diff.content.contentType.changed) {
     const severity = classifyBodyHashDrift();
-    const evidence: DiffEvidence[] = [{ section: "content", keys: ["body-hash"] }];
+    const evidence: DiffEvidence[] = [{ section: "content", keys: ["body-hash"], note: getBodyTruncationNote(diff) }];
 
     findings.push({
       id: generateFindingId("BODY_HASH_DRIFT", "content", ["body-hash"]),
@@ -465,6 +826,98 @@ export function classify(diff: EnvDiff): DiffFinding[] {
     });
   }
 
+  const jsonShape = diff.body?.json;
+  const jsonSeverity = jsonShape ? classifyJsonSchemaDrift(jsonShape) : undefined;
+  if (jsonShape && jsonSeverity) {
+    const typeChangedPaths = Object.keys(jsonShape.typeChanged);
+    const keys: string[] = [];
+    const notes: string[] = [];
+    if (jsonShape.added.length > 0) {
+      keys.push("added");
+      notes.push(`added: ${formatList(jsonShape.added)}`);
+    }
+    if (jsonShape.removed.length > 0) {
+      keys.push("removed");
+      notes.push(`removed: ${formatList(jsonShape.removed)}`);
+    }
+    if (typeChangedPaths.length > 0) {
+      keys.push("type-changed");
+      notes.push(
+        `type changed: ${formatList(
+          typeChangedPaths.map((p) => `${p} (${jsonShape.typeChanged[p].left} → ${jsonShape.typeChanged[p].right})`)
+        )}`
+      );
+    }
+    if (jsonShape.truncated) {
+      notes.push("fingerprint truncated; paths beyond the size limit were not compared");
+    }
+
+    findings.push({
+      id: generateFindingId("JSON_SCHEMA_DRIFT", "body", keys),
+      code: "JSON_SCHEMA_DRIFT",
+      category: "content",
+      severity: jsonSeverity,
+      message: "JSON response structure differs",
+      evidence: [{ section: "body", keys, note: notes.join("; ") }],
+      left_value: Object.fromEntries([
+        ...jsonShape.removed.map((p) => [p, "present"]),
+        ...typeChangedPaths.map((p) => [p, jsonShape.typeChanged[p].left]),
+      ]),
+      right_value: Object.fromEntries([
+        ...jsonShape.added.map((p) => [p, "present"]),
+        ...typeChangedPaths.map((p) => [p, jsonShape.typeChanged[p].right]),
+      ]),
+    });
+  }
+
+  const buildFingerprint = diff.body?.html;
+  if (buildFingerprint) {
+    const keys: string[] = [];
+    const notes: string[] = [];
+    if (buildFingerprint.assets) {
+      keys.push("assets");
+      if (buildFingerprint.assets.added.length > 0) {
+        notes.push(`assets added: ${formatList(buildFingerprint.assets.added)}`);
+      }
+      if (buildFingerprint.assets.removed.length > 0) {
+        notes.push(`assets removed: ${formatList(buildFingerprint.assets.removed)}`);
+      }
+    }
+    if (buildFingerprint.buildIds) {
+      keys.push("build-id");
+      notes.push(`build ids: ${Object.keys(buildFingerprint.buildIds).join(", ")}`);
+    }
+    if (buildFingerprint.meta) {
+      keys.push("meta");
+      notes.push(`meta: ${Object.keys(buildFingerprint.meta).join(", ")}`);
+    }
+    if (buildFingerprint.title) {
+      keys.push("title");
+    }
+
+    const sides = (side: "left" | "right") => ({
+      title: buildFingerprint.title?.[side],
+      meta: buildFingerprint.meta
+        ? Object.fromEntries(Object.entries(buildFingerprint.meta).map(([k, c]) => [k, c[side] ?? null]))
+        : undefined,
+      buildIds: buildFingerprint.buildIds
+        ? Object.fromEntries(Object.entries(buildFingerprint.buildIds).map(([k, c]) => [k, c[side] ?? null]))
+        : undefined,
+      assets: side === "left" ? buildFingerprint.assets?.removed : buildFingerprint.assets?.added,
+    });
+
+    findings.push({
+      id: generateFindingId("BUILD_FINGERPRINT_DRIFT", "body", keys),
+      code: "BUILD_FINGERPRINT_DRIFT",
+      category: "content",
+      severity: classifyBuildFingerprintDrift(buildFingerprint),
+      message: keys.length === 1 && keys[0] === "title" ? "Page title differs" : "Deployed build differs",
+      evidence: [{ section: "body", keys, note: notes.length > 0 ? notes.join("; ") : undefined }],
+      left_value: sides("left"),
+      right_value: sides("right"),
+    });
+  }
+
   if (diff.content?.contentLength?.changed) {
     const severity = classifyContentLengthDrift(
       diff.content.contentLength.left,
@@ -472,7 +925,7 @@ export function classify(diff: EnvDiff): DiffFinding[] {
       diff.status?.changed || false
     );
     const delta = Math.abs((diff.content.contentLength.right || 0) - (diff.content.contentLength.left || 0));
-    const evidence: DiffEvidence[] = [{ section: "content", keys: ["content-length"] }];
+    const evidence: DiffEvidence[] = [{ section: "content", keys: ["content-length"], note: getBodyTruncationNote(diff) }];
 
     findings.push({
       id: generateFindingId("CONTENT_LENGTH_DRIFT", "content", ["content-length"]),
@@ -488,7 +941,36 @@ export function classify(diff: EnvDiff): DiffFinding[] {
 
   // ========== RULE GROUP E: TIMING RULES ==========
 
-  if (diff.timing?.durationMs?.changed) {
+  const timingSamples = diff.timing?.samples;
+  if (timingSamples) {
+    const leftMedian = timingSamples.left.p50Ms;
+    const rightMedian = timingSamples.right.p50Ms;
+    const maxMedian = Math.max(leftMedian, rightMedian);
+
+    if (leftMedian !== rightMedian && maxMedian >= TIMING_CONSTANTS.MIN_TIMING_LEFT_MS) {
+      const noiseMs = timingNoiseMs(timingSamples.left, timingSamples.right);
+      const severity = classifyTimingDrift(leftMedian, rightMedian, noiseMs);
+      const sampleCount = Math.min(timingSamples.left.samplesMs.length, timingSamples.right.samplesMs.length);
+      const evidence: DiffEvidence[] = [{
+        section: "timing",
+        keys: ["p50_ms", "p95_ms"],
+        note: `${sampleCount} samples per side; noise band ${noiseMs}ms (max p95-p50 spread)`,
+      }];
+      const phaseEvidence = getTimingPhaseEvidence(diff);
+      if (phaseEvidence) evidence.push(phaseEvidence);
+
+      findings.push({
+        id: generateFindingId("TIMING_DRIFT", "timing", ["p50_ms", "p95_ms"]),
+        code: "TIMING_DRIFT",
+        category: "timing",
+        severity,
+        message: `Median response duration differs: ${leftMedian}ms vs ${rightMedian}ms${timingPhaseSuffix(diff)}`,
+        evidence,
+        left_value: { p50Ms: leftMedian, p95Ms: timingSamples.left.p95Ms },
+        right_value: { p50Ms: rightMedian, p95Ms: timingSamples.right.p95Ms },
+      });
+    }
+  } else if (diff.timing?.durationMs?.changed) {
     const leftDuration = diff.timing.durationMs.left || 0;
     const rightDuration = diff.timing.durationMs.right || 0;
     const maxDuration = Math.max(leftDuration, rightDuration);
@@ -496,13 +978,15 @@ export function classify(diff: EnvDiff): DiffFinding[] {
     if (maxDuration >= TIMING_CONSTANTS.MIN_TIMING_LEFT_MS) {
       const severity = classifyTimingDrift(leftDuration, rightDuration);
       const evidence: DiffEvidence[] = [{ section: "timing", keys: ["duration_ms"] }];
+      const phaseEvidence = getTimingPhaseEvidence(diff);
+      if (phaseEvidence) evidence.push(phaseEvidence);
 
       findings.push({
         id: generateFindingId("TIMING_DRIFT", "timing", ["duration_ms"]),
         code: "TIMING_DRIFT",
         category: "timing",
         severity,
-        message: `Response duration differs: ${leftDuration}ms vs ${rightDuration}ms`,
+        message: `Response duration differs: ${leftDuration}ms vs ${rightDuration}ms${timingPhaseSuffix(diff)}`,
         evidence,
         left_value: leftDuration,
         right_value: rightDuration,
@@ -510,6 +994,36 @@ export function classify(diff: EnvDiff): DiffFinding[] {
     }
   }
 
+  // Server-Timing points at the backend phase (db, cache, app) behind the drift
+  const serverTiming = diff.serverTiming;
+  const serverTimingKeys = serverTiming ? serverTimingDiffKeys(serverTiming) : [];
+  if (serverTiming && serverTimingKeys.length > 0) {
+    const names = serverTimingDriftNames(serverTiming);
+    const [largest] = serverTimingDurationDrifts(serverTiming);
+    const side = (s: "left" | "right") =>
+      Object.fromEntries(
+        names.map((name) => [
+          name,
+          (s === "left"
+            ? serverTiming.changed[name]?.left ?? serverTiming.removed[name]
+            : serverTiming.changed[name]?.right ?? serverTiming.added[name]) ?? null,
+        ])
+      );
+
+    findings.push({
+      id: generateFindingId("SERVER_TIMING_DRIFT", "serverTiming", serverTimingKeys),
+      code: "SERVER_TIMING_DRIFT",
+      category: "timing",
+      severity: classifyServerTimingDrift(serverTiming),
+      message: largest
+        ? `Server-Timing metric ${largest.name} differs: ${largest.left}ms vs ${largest.right}ms`
+        : `Server-Timing metrics differ: ${names.join(", ")}`,
+      evidence: [{ section: "serverTiming", keys: serverTimingKeys, note: describeServerTimingDrift(serverTiming) }],
+      left_value: side("left"),
+      right_value: side("right"),
+    });
+  }
+
   // ========== RULE GROUP F: PLATFORM RULES ==========
 
   const cfDiffComponents = getCfContextDiffComponents(diff);
@@ -530,6 +1044,29 @@ export function classify(diff: EnvDiff): DiffFinding[] {
     });
   }
 
+  const platform = diff.platform;
+  if (platform) {
+    const keys = platformDiffKeys(platform);
+    const severity = classifyPlatformDrift(platform);
+    const evidence: DiffEvidence[] = [{ section: "platform", keys }];
+    const side = (s: "left" | "right") =>
+      Object.fromEntries(Object.entries(platform).map(([field, change]) => [field, change?.[s] ?? null]));
+
+    findings.push({
+      id: generateFindingId("PLATFORM_DRIFT", "platform", keys),
+      code: "PLATFORM_DRIFT",
+      category: "platform",
+      severity,
+      message:
+        severity === "warn"
+          ? "Target served by a different platform stack or CDN"
+          : "Target edge location or cache state differs",
+      evidence,
+      left_value: side("left"),
+      right_value: side("right"),
+    });
+  }
+
   // ========== RULE GROUP G: CATCH-ALL HEADER RULE ==========
 
   const unclaimedHeaders = getUnclaimedHeaderDiffs(diff);
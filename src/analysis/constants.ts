@@ -25,6 +25,7 @@ export const CACHE_CRITICAL_KEYWORDS = ["no-store", "private"] as const;
 // Header whitelist (only these captured)
 export const HEADER_WHITELIST = new Set([
   "cache-control",
+  "content-language",
   "content-type",
   "vary",
   "www-authenticate",
@@ -32,6 +33,29 @@ export const HEADER_WHITELIST = new Set([
   // access-control-* handled separately
 ] as const);
 
+// Never captured as custom headers, whatever the caller requests (credentials and cookie values)
+export const BLOCKED_CAPTURE_HEADERS = new Set([
+  "authorization",
+  "cookie",
+  "proxy-authorization",
+  "set-cookie",
+  "x-api-key",
+  "x-auth-token",
+  "x-csrf-token",
+]);
+
+// Lowercase header name (RFC 7230 token); shared by request validation and evidence validation
+export const HEADER_NAME_PATTERN = /^[a-z0-9!#$%&'*+.^_`|~-]+$/;
+
+// Security header group (captured separately from core)
+export const SECURITY_HEADER_WHITELIST = new Set([
+  "permissions-policy",
+  "referrer-policy",
+  "strict-transport-security",
+  "x-content-type-options",
+  "x-frame-options",
+] as const);
+
 // Severity ordering for sorting
 export const SEVERITY_ORDER = { critical: 0, warn: 1, info: 2 } as const;
 
@@ -41,10 +65,17 @@ export const VALID_EVIDENCE_KEYS = {
   status: [],
   finalUrl: ["scheme", "host", "path", "query", "finalUrl"],
   redirects: ["hopCount", "chain", "finalHost"],
+  dns: ["a", "aaaa", "cname", "error"],
   headers: [
     // Any lowercase header name
   ],
+  cookies: ["domain", "expires", "httponly", "max-age", "partitioned", "path", "presence", "samesite", "secure"],
+  preflight: ["allowed", "error", "headers", "status"],
   content: ["content-type", "content-length", "body-hash"],
-  timing: ["duration_ms"],
+  body: ["added", "assets", "build-id", "meta", "removed", "title", "type-changed"],
+  variants: ["accept", "accept-encoding", "accept-language"],
+  timing: ["body_ms", "duration_ms", "p50_ms", "p95_ms", "redirect_ms", "ttfb_ms"],
+  serverTiming: ["desc", "dur", "presence"],
   cf: ["colo", "asn", "country"],
+  platform: ["age", "alt-svc", "cf-cache-status", "cf-ray", "server", "via", "x-cache", "x-powered-by"],
 } as const;
@@ -0,0 +1,143 @@
+/**
+ * Set-Cookie Drift Utilities
+ *
+ * Responsibility: Diff value-free Set-Cookie records and classify attribute drift severity.
+ *
+ * Design:
+ * 1. computeCookieDiff keys records by cookie name (first record per name wins)
+ * 2. changedCookieAttributes lists differing attributes as sorted evidence keys
+ * 3. classifyCookieAttributeDrift is symmetric (like cache-control drift):
+ *    - critical: security downgrade on one side (Secure/HttpOnly lost, SameSite weakened,
+ *      Domain scope broadened)
+ *    - warn: scope or lifetime changed (Path, Domain, Max-Age/Expires), or cookie set on one side only
+ *    - info: otherwise (e.g., Partitioned)
+ */
+
+import type { CookieAttributeKey, CookieDiff, Severity } from "@shared/diff";
+import type { SetCookieRecord } from "@shared/signal";
+
+/**
+ * SameSite strength, weakest first. A missing attribute behaves as "lax" in current browsers.
+ */
+const SAME_SITE_RANK = { none: 0, lax: 1, strict: 2 } as const;
+
+function sameSiteRank(record: SetCookieRecord): number {
+  return SAME_SITE_RANK[record.sameSite ?? "lax"];
+}
+
+/**
+ * True if `candidate` domain scope is broader than `baseline`.
+ * Host-only (no Domain) is the narrowest scope; a parent domain is broader than its subdomain.
+ */
+function domainBroadened(baseline: SetCookieRecord, candidate: SetCookieRecord): boolean {
+  if (candidate.domain === undefined) return false;
+  if (baseline.domain === undefined) return true;
+  return candidate.domain !== baseline.domain && baseline.domain.endsWith(`.${candidate.domain}`);
+}
+
+/**
+ * True if `candidate` is a security downgrade of `baseline`.
+ */
+function isSecurityDowngrade(baseline: SetCookieRecord, candidate: SetCookieRecord): boolean {
+  return (
+    (baseline.secure && !candidate.secure) ||
+    (baseline.httpOnly && !candidate.httpOnly) ||
+    sameSiteRank(candidate) < sameSiteRank(baseline) ||
+    domainBroadened(baseline, candidate)
+  );
+}
+
+/**
+ * List attributes that differ between two records of the same cookie.
+ *
+ * @returns Sorted attribute keys (evidence vocabulary)
+ */
+export function changedCookieAttributes(left: SetCookieRecord, right: SetCookieRecord): CookieAttributeKey[] {
+  const attributes: CookieAttributeKey[] = [];
+
+  if (left.domain !== right.domain) attributes.push("domain");
+  if (left.expires !== right.expires) attributes.push("expires");
+  if (left.httpOnly !== right.httpOnly) attributes.push("httponly");
+  if (left.maxAge !== right.maxAge) attributes.push("max-age");
+  if (left.partitioned !== right.partitioned) attributes.push("partitioned");
+  if (left.path !== right.path) attributes.push("path");
+  if (left.sameSite !== right.sameSite) attributes.push("samesite");
+  if (left.secure !== right.secure) attributes.push("secure");
+
+  return attributes;
+}
+
+/**
+ * Compute the Set-Cookie diff between two sides.
+ *
+ * @param left - Left cookie records (undefined if none were set)
+ * @param right - Right cookie records (undefined if none were set)
+ * @returns CookieDiff, or undefined if names and attributes are identical
+ */
+export function computeCookieDiff(
+  left: SetCookieRecord[] = [],
+  right: SetCookieRecord[] = []
+): CookieDiff | undefined {
+  const byName = (records: SetCookieRecord[]) => {
+    const map = new Map<string, SetCookieRecord>();
+    for (const record of records) {
+      if (!map.has(record.name)) map.set(record.name, record);
+    }
+    return map;
+  };
+
+  const leftByName = byName(left);
+  const rightByName = byName(right);
+  const names = Array.from(new Set([...leftByName.keys(), ...rightByName.keys()])).sort();
+
+  const diff: CookieDiff = { added: {}, removed: {}, changed: {}, unchanged: [] };
+
+  for (const name of names) {
+    const leftRecord = leftByName.get(name);
+    const rightRecord = rightByName.get(name);
+
+    if (!leftRecord) {
+      diff.added[name] = rightRecord!;
+    } else if (!rightRecord) {
+      diff.removed[name] = leftRecord;
+    } else {
+      const attributes = changedCookieAttributes(leftRecord, rightRecord);
+      if (attributes.length > 0) {
+        diff.changed[name] = { left: leftRecord, right: rightRecord, attributes };
+      } else {
+        diff.unchanged.push(name);
+      }
+    }
+  }
+
+  const hasChanges =
+    Object.keys(diff.added).length > 0 ||
+    Object.keys(diff.removed).length > 0 ||
+    Object.keys(diff.changed).length > 0;
+
+  return hasChanges ? diff : undefined;
+}
+
+/**
+ * Classify attribute drift severity for one cookie set on both sides.
+ *
+ * critical = Secure/HttpOnly dropped, SameSite weakened, or Domain broadened on either side
+ * warn = Domain, Path, Max-Age or Expires differ
+ * info = otherwise
+ *
+ * @param left - Left record
+ * @param right - Right record
+ * @returns Severity
+ */
+export function classifyCookieAttributeDrift(left: SetCookieRecord, right: SetCookieRecord): Severity {
+  if (isSecurityDowngrade(left, right) || isSecurityDowngrade(right, left)) {
+    return "critical";
+  }
+
+  const attributes = changedCookieAttributes(left, right);
+  if (attributes.some((a) => a === "domain" || a === "path" || a === "max-age" || a === "expires")) {
+    return "warn";
+  }
+
+  return "info";
+}
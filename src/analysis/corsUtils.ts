@@ -0,0 +1,114 @@
+/**
+ * CORS Preflight Utilities
+ *
+ * Responsibility: Evaluate preflight outcomes the way a browser would and diff them across sides.
+ *
+ * Design:
+ * 1. isPreflightAllowed applies the CORS preflight checks for the configured origin/method/headers:
+ *    - 2xx status (redirects fail preflight)
+ *    - access-control-allow-origin is "*" or exactly the origin
+ *    - method is CORS-safelisted (GET/HEAD/POST) or listed in access-control-allow-methods (or "*")
+ *    - every requested header is listed in access-control-allow-headers (or "*")
+ * 2. computePreflightDiff diffs status, allowed verdict, error code and captured headers
+ */
+
+import type { CorsPreflightOptions, CorsPreflightResult, FrozenSignalEnvelope } from "@shared/signal";
+import type { PreflightDiff, HeaderDiff, Change } from "@shared/diff";
+import { changed } from "@shared/diff";
+
+const SAFELISTED_METHODS = ["GET", "HEAD", "POST"];
+
+/**
+ * Split a comma-separated header list into lowercase tokens.
+ */
+function tokenList(value?: string): string[] {
+  if (!value) return [];
+  return value
+    .split(",")
+    .map((token) => token.trim().toLowerCase())
+    .filter((token) => token.length > 0);
+}
+
+/**
+ * Would a browser accept this preflight response?
+ *
+ * @param result - Preflight outcome
+ * @param options - Origin/method/headers the preflight was sent with
+ * @returns true if the actual request would be allowed
+ */
+export function isPreflightAllowed(result: CorsPreflightResult, options: CorsPreflightOptions): boolean {
+  if (!("status" in result)) return false;
+  if (result.status < 200 || result.status > 299) return false;
+
+  const allowOrigin = result.headers["access-control-allow-origin"]?.trim();
+  if (allowOrigin !== "*" && allowOrigin !== options.origin) return false;
+
+  const method = options.requestMethod.toUpperCase();
+  const allowMethods = tokenList(result.headers["access-control-allow-methods"]);
+  if (
+    !SAFELISTED_METHODS.includes(method) &&
+    !allowMethods.includes("*") &&
+    !allowMethods.includes(method.toLowerCase())
+  ) {
+    return false;
+  }
+
+  const allowHeaders = tokenList(result.headers["access-control-allow-headers"]);
+  if (!allowHeaders.includes("*")) {
+    for (const header of options.requestHeaders ?? []) {
+      if (!allowHeaders.includes(header.toLowerCase())) return false;
+    }
+  }
+
+  return true;
+}
+
+function diffHeaderRecords(
+  left: Record<string, string>,
+  right: Record<string, string>
+): HeaderDiff<string> {
+  const diff: HeaderDiff<string> = { added: {}, removed: {}, changed: {}, unchanged: {} };
+  const keys = Array.from(new Set([...Object.keys(left), ...Object.keys(right)])).sort();
+
+  for (const key of keys) {
+    const leftVal = left[key];
+    const rightVal = right[key];
+    if (leftVal === undefined) diff.added[key] = rightVal;
+    else if (rightVal === undefined) diff.removed[key] = leftVal;
+    else if (leftVal !== rightVal) diff.changed[key] = changed(leftVal, rightVal);
+    else diff.unchanged[key] = leftVal;
+  }
+
+  return diff;
+}
+
+const compare = <T>(left: T | undefined, right: T | undefined): Change<T> =>
+  left === right ? { left, right, changed: false } : changed(left, right);
+
+/**
+ * Compute the preflight diff between two envelopes.
+ *
+ * @returns PreflightDiff, or undefined unless both sides carry a preflight result and its options
+ */
+export function computePreflightDiff(
+  leftEnvelope: FrozenSignalEnvelope,
+  rightEnvelope: FrozenSignalEnvelope
+): PreflightDiff | undefined {
+  const left = leftEnvelope.preflight;
+  const right = rightEnvelope.preflight;
+  const leftOptions = leftEnvelope.request?.preflight;
+  const rightOptions = rightEnvelope.request?.preflight;
+  if (!left || !right || !leftOptions || !rightOptions) return undefined;
+
+  const leftStatus = "status" in left ? left.status : undefined;
+  const rightStatus = "status" in right ? right.status : undefined;
+  const leftError = "error" in left ? left.error.code : undefined;
+  const rightError = "error" in right ? right.error.code : undefined;
+
+  return {
+    allowed: compare(isPreflightAllowed(left, leftOptions), isPreflightAllowed(right, rightOptions)),
+    status: compare(leftStatus, rightStatus),
+    errorCode: leftError || rightError ? compare(leftError, rightError) : undefined,
+    headers: diffHeaderRecords("headers" in left ? left.headers : {}, "headers" in right ? right.headers : {}),
+  };
+}
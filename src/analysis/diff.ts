@@ -12,12 +12,44 @@
  * - No AI/LLM calls
  * - Output conforms to EnvDiff schema exactly
  */
-import type { FrozenSignalEnvelope, ProbeSuccess, ProbeResponseError } from "@shared/signal";
-import type { EnvDiff, Change, RedirectDiff, HeaderDiff } from "@shared/diff";
+import type { FrozenSignalEnvelope, ProbeSuccess, ProbeResponseError, SecurityHeaderKey } from "@shared/signal";
+import type {
+  EnvDiff,
+  Change,
+  RedirectDiff,
+  HeaderDiff,
+  ContentDiff,
+  BodyDiff,
+  TimingDiff,
+  RedactionDiff,
+  NormalizedUrlDiff,
+  UrlNormalizationRules,
+  HostMapping,
+  HostMappingDiff,
+} from "@shared/diff";
 import { DIFF_SCHEMA_VERSION, computeMaxSeverity, unchanged, changed } from "@shared/diff";
 import { classify } from "./classify";
+import { computeCookieDiff } from "./cookieUtils";
+import { computePreflightDiff } from "./corsUtils";
+import { computeBodyDiff } from "./jsonShapeUtils";
+import { computeHtmlFingerprintDiff } from "./buildFingerprintUtils";
+import { computePlatformDiff } from "./platformUtils";
+import { diffHeaderGroups } from "./headerDiff";
 import { compileProbeOutcomeDiff } from "./probeUtils";
 import { chainsAreEqual } from "./redirectUtils";
+import { normalizeUrl } from "./urlUtils";
+import { applyHostMappings } from "./hostMappingUtils";
+import { computeDnsDiff } from "./dnsUtils";
+import { compareTimingPhases, dominantTimingPhase } from "./timingUtils";
+import { computeServerTimingDiff } from "./serverTimingUtils";
+
+/**
+ * Per-comparison analysis options (taken from CompareOptions).
+ */
+export type DiffOptions = {
+  urlNormalization?: UrlNormalizationRules;
+  hostMappings?: HostMapping[];
+};
 
 /**
  * Compute diff from two SignalEnvelopes.
@@ -33,12 +65,26 @@ import { chainsAreEqual } from "./redirectUtils";
  *
  * @param leftEnvelope - Left side probe result (or failure), potentially from Workflow serialization
  * @param rightEnvelope - Right side probe result (or failure), potentially from Workflow serialization
+ * @param options - Analysis options (URL normalization rules, host mappings)
  * @returns EnvDiff with deterministic findings
  */
-export function computeDiff(leftEnvelope: FrozenSignalEnvelope, rightEnvelope: FrozenSignalEnvelope): EnvDiff {
+export function computeDiff(
+  leftEnvelope: FrozenSignalEnvelope,
+  rightEnvelope: FrozenSignalEnvelope,
+  options: DiffOptions = {}
+): EnvDiff {
   // Compile probe outcome diff using shared utility
   const probeOutcomeDiff = compileProbeOutcomeDiff(leftEnvelope as any, rightEnvelope as any);
 
+  // Masked fields per side, so classification can tell masked values from real matches
+  const leftRedacted = (leftEnvelope.redactions ?? []).map((record) => record.field);
+  const rightRedacted = (rightEnvelope.redactions ?? []).map((record) => record.field);
+  const redactions: RedactionDiff | undefined =
+    leftRedacted.length > 0 || rightRedacted.length > 0 ? { left: leftRedacted, right: rightRedacted } : undefined;
+
+  // DNS is captured before any request, so it is compared even when a probe failed
+  const dnsDiff = computeDnsDiff(leftEnvelope.dns, rightEnvelope.dns);
+
   // If either probe encountered a network failure (no response), return early with minimal diff
   if (!probeOutcomeDiff.responsePresent) {
     const findings = classify({
@@ -47,6 +93,8 @@ export function computeDiff(leftEnvelope: FrozenSignalEnvelope, rightEnvelope: F
       leftProbeId: leftEnvelope.probeId,
       rightProbeId: rightEnvelope.probeId,
       probe: probeOutcomeDiff,
+      dns: dnsDiff,
+      redactions,
       findings: [],
       maxSeverity: "info",
     });
@@ -57,11 +105,24 @@ export function computeDiff(leftEnvelope: FrozenSignalEnvelope, rightEnvelope: F
       leftProbeId: leftEnvelope.probeId,
       rightProbeId: rightEnvelope.probeId,
       probe: probeOutcomeDiff,
+      dns: dnsDiff,
+      redactions,
       findings,
       maxSeverity: computeMaxSeverity(findings),
     };
   }
 
+  // Host mappings: everything below diffs the mapped envelopes; rewrites keep the raw values
+  const hostMappings = options.hostMappings ?? [];
+  const leftMapped = applyHostMappings(leftEnvelope, hostMappings);
+  const rightMapped = applyHostMappings(rightEnvelope, hostMappings);
+  const hostMapping: HostMappingDiff | undefined =
+    leftMapped.rewrites.length > 0 || rightMapped.rewrites.length > 0
+      ? { mappings: hostMappings, left: leftMapped.rewrites, right: rightMapped.rewrites }
+      : undefined;
+  leftEnvelope = leftMapped.envelope;
+  rightEnvelope = rightMapped.envelope;
+
   // Both probes completed (have response field); extract responses
   // This includes both ProbeSuccess (ok=true) and ProbeResponseError (ok=false)
   // TypeScript now knows from the check above that both have response fields
@@ -80,6 +141,15 @@ export function computeDiff(leftEnvelope: FrozenSignalEnvelope, rightEnvelope: F
       ? unchanged(leftResponse.finalUrl)
       : changed(leftResponse.finalUrl, rightResponse.finalUrl);
 
+  // Normalized pair (raw pair kept in finalUrl) when rules are given and the raw URLs differ
+  let finalUrlNormalized: NormalizedUrlDiff | undefined;
+  const urlRules = options.urlNormalization;
+  if (urlRules && finalUrlDiff.changed) {
+    const left = normalizeUrl(leftResponse.finalUrl, urlRules);
+    const right = normalizeUrl(rightResponse.finalUrl, urlRules);
+    finalUrlNormalized = { left, right, changed: left !== right, rules: urlRules };
+  }
+
   // Build redirect diff
   const leftRedirects = (leftEnvelope.result as ProbeSuccess | ProbeResponseError).redirects || [];
   const rightRedirects = (rightEnvelope.result as ProbeSuccess | ProbeResponseError).redirects || [];
@@ -201,9 +271,37 @@ export function computeDiff(leftEnvelope: FrozenSignalEnvelope, rightEnvelope: F
       : undefined;
   };
 
-  // Compute both core and accessControl diffs
+  /**
+   * Compute diff for security headers only (same add/remove/change logic as custom headers).
+   * Returns undefined if neither side has security headers or nothing changed.
+   */
+  const computeSecurityHeaderDiff = (): HeaderDiff<SecurityHeaderKey> | undefined => {
+    if (!leftHeaders.security && !rightHeaders.security) {
+      return undefined;
+    }
+
+    const securityDiff = diffHeaderGroups(leftHeaders.security ?? {}, rightHeaders.security ?? {});
+    const hasChanges =
+      Object.keys(securityDiff.added).length > 0 ||
+      Object.keys(securityDiff.removed).length > 0 ||
+      Object.keys(securityDiff.changed).length > 0;
+
+    return hasChanges ? securityDiff : undefined;
+  };
+
+  // Compute core, accessControl and security diffs
   const coreHeaderDiff = computeCoreHeaderDiff();
   const accessControlHeaderDiff = computeAccessControlHeaderDiff();
+  const securityHeaderDiff = computeSecurityHeaderDiff();
+
+  // Custom headers (captureHeaders option): already filtered at capture time, so diff as-is
+  const allCustomHeaderDiff = diffHeaderGroups(leftHeaders.custom ?? {}, rightHeaders.custom ?? {});
+  const customHeaderDiff =
+    Object.keys(allCustomHeaderDiff.added).length > 0 ||
+    Object.keys(allCustomHeaderDiff.removed).length > 0 ||
+    Object.keys(allCustomHeaderDiff.changed).length > 0
+      ? allCustomHeaderDiff
+      : undefined;
 
   // Debug logging
   console.log(`[computeDiff] LEFT headers.accessControl:`, JSON.stringify(leftHeaders.accessControl));
@@ -216,15 +314,78 @@ export function computeDiff(leftEnvelope: FrozenSignalEnvelope, rightEnvelope: F
     Object.keys(coreHeaderDiff.added).length > 0 ||
     Object.keys(coreHeaderDiff.removed).length > 0 ||
     Object.keys(coreHeaderDiff.changed).length > 0 ||
-    accessControlHeaderDiff
+    accessControlHeaderDiff ||
+    securityHeaderDiff ||
+    customHeaderDiff
       ? {
           core: coreHeaderDiff,
           accessControl: accessControlHeaderDiff,
+          security: securityHeaderDiff,
+          custom: customHeaderDiff,
         }
       : undefined;
 
   console.log(`[computeDiff] Final headerDiff:`, JSON.stringify(headerDiff));
 
+  // Build content diff (content-type always; length/hash only when captured on either side)
+  const compareValues = <T>(left: T | undefined, right: T | undefined): Change<T> =>
+    left === right ? { left, right, changed: false } : changed(left, right);
+
+  const contentDiff: ContentDiff = {
+    contentType: compareValues(leftHeaders.core?.["content-type"], rightHeaders.core?.["content-type"]),
+  };
+  if (leftResponse.contentLength !== undefined || rightResponse.contentLength !== undefined) {
+    contentDiff.contentLength = compareValues(leftResponse.contentLength, rightResponse.contentLength);
+  }
+  if (leftResponse.bodyHash !== undefined || rightResponse.bodyHash !== undefined) {
+    contentDiff.bodyHash = compareValues(leftResponse.bodyHash, rightResponse.bodyHash);
+  }
+  if (leftResponse.bodyTruncated || rightResponse.bodyTruncated) {
+    contentDiff.bodyTruncated = {
+      left: leftResponse.bodyTruncated ?? false,
+      right: rightResponse.bodyTruncated ?? false,
+    };
+  }
+
+  // Build body diff (structural fingerprints; present only if a pair captured on both sides differs)
+  const leftFingerprint = leftResponse.bodyFingerprint;
+  const rightFingerprint = rightResponse.bodyFingerprint;
+  const bodyDiff: BodyDiff = { ...computeBodyDiff(leftResponse, rightResponse) };
+  if (leftFingerprint?.html && rightFingerprint?.html) {
+    bodyDiff.html = computeHtmlFingerprintDiff(leftFingerprint.html, rightFingerprint.html);
+  }
+
+  // Build timing diff (medians when both sides carry multi-sample distributions)
+  const leftDuration = (leftEnvelope.result as ProbeSuccess | ProbeResponseError).durationMs;
+  const rightDuration = (rightEnvelope.result as ProbeSuccess | ProbeResponseError).durationMs;
+  const timingSamples =
+    leftEnvelope.timing && rightEnvelope.timing
+      ? { left: leftEnvelope.timing, right: rightEnvelope.timing }
+      : undefined;
+  const leftBasis = timingSamples ? timingSamples.left.p50Ms : leftDuration;
+  const rightBasis = timingSamples ? timingSamples.right.p50Ms : rightDuration;
+
+  // Imported sides were captured at another time and place, so their start time is not comparable
+  const hasImportedSide = Boolean(leftEnvelope.source || rightEnvelope.source);
+  const leftStart = hasImportedSide ? NaN : Date.parse(leftEnvelope.capturedAt);
+  const rightStart = hasImportedSide ? NaN : Date.parse(rightEnvelope.capturedAt);
+
+  const timingDiff: TimingDiff = {
+    durationMs: compareValues(leftDuration, rightDuration),
+    ratio: leftBasis > 0 ? Math.round((rightBasis / leftBasis) * 100) / 100 : undefined,
+    deltaMs: rightBasis - leftBasis,
+    startSkewMs: Number.isFinite(leftStart) && Number.isFinite(rightStart) ? rightStart - leftStart : undefined,
+    samples: timingSamples,
+  };
+  const timingPhases = compareTimingPhases(
+    (leftEnvelope.result as ProbeSuccess | ProbeResponseError).phases,
+    (rightEnvelope.result as ProbeSuccess | ProbeResponseError).phases
+  );
+  if (timingPhases) {
+    timingDiff.phases = timingPhases;
+    timingDiff.driftPhase = dominantTimingPhase(timingPhases);
+  }
+
   // Build partial EnvDiff (omit findings initially)
   const partialEnvDiff: Omit<EnvDiff, "findings" | "maxSeverity"> = {
     schemaVersion: DIFF_SCHEMA_VERSION,
@@ -234,8 +395,19 @@ export function computeDiff(leftEnvelope: FrozenSignalEnvelope, rightEnvelope: F
     probe: probeOutcomeDiff,
     status: statusDiff,
     finalUrl: finalUrlDiff,
+    finalUrlNormalized,
     redirects: redirectDiff,
     headers: headerDiff,
+    cookies: computeCookieDiff(leftHeaders.cookies, rightHeaders.cookies),
+    preflight: computePreflightDiff(leftEnvelope, rightEnvelope),
+    content: contentDiff,
+    body: bodyDiff.json || bodyDiff.html ? bodyDiff : undefined,
+    timing: timingDiff,
+    serverTiming: computeServerTimingDiff(leftHeaders.serverTiming, rightHeaders.serverTiming),
+    platform: computePlatformDiff(leftEnvelope.platform, rightEnvelope.platform),
+    dns: dnsDiff,
+    redactions,
+    hostMapping,
   };
 
   // Classify and generate findings
@@ -0,0 +1,147 @@
+/**
+ * DNS Drift Utilities
+ *
+ * Responsibility: Diff DNS snapshots and classify DNS_DRIFT severity.
+ *
+ * Design:
+ * 1. Compared only when both sides captured DNS (an absent capture is not drift)
+ * 2. Two host pairs: requested hosts, and final hosts (each side's final resolution,
+ *    falling back to its requested resolution when the final host is the same)
+ * 3. CNAME chains are compared in order; A/AAAA sets are compared as sorted lists
+ * 4. Significant drift (hasSignificantDnsDrift, the DNS_DRIFT trigger): resolver outcome differs
+ *    (e.g., NXDOMAIN on one side), CNAME targets differ, or A/AAAA records are present on one
+ *    side only (e.g., IPv6 on one side only). Address pool membership alone is not significant:
+ *    distinct hosts, CDNs and anycast pools resolve to different addresses on almost every run
+ * 5. classifyDnsDrift: warn for significant drift, otherwise info
+ */
+
+import type { Change, DnsDiff, DnsResolutionDiff, Severity } from "@shared/diff";
+import { changed, unchanged } from "@shared/diff";
+import type { DnsResolution, DnsSnapshot } from "@shared/signal";
+
+type DnsField = "cname" | "a" | "aaaa" | "error";
+
+const DNS_FIELDS: DnsField[] = ["cname", "a", "aaaa", "error"];
+
+function sameValue(left: string | string[] | undefined, right: string | string[] | undefined): boolean {
+  return JSON.stringify(left ?? null) === JSON.stringify(right ?? null);
+}
+
+function diffResolutions(left: DnsResolution, right: DnsResolution): DnsResolutionDiff | undefined {
+  const diff: DnsResolutionDiff = {
+    hosts: left.host === right.host ? unchanged(left.host) : changed(left.host, right.host),
+  };
+
+  let differs = false;
+  for (const field of DNS_FIELDS) {
+    if (!sameValue(left[field], right[field])) {
+      (diff as Record<string, Change<string | string[]>>)[field] = changed(left[field], right[field]);
+      differs = true;
+    }
+  }
+  return differs ? diff : undefined;
+}
+
+/**
+ * Compute the DNS diff between two sides.
+ *
+ * @returns DnsDiff, or undefined if either side has no DNS capture or the resolutions match
+ */
+export function computeDnsDiff(left?: DnsSnapshot, right?: DnsSnapshot): DnsDiff | undefined {
+  if (!left || !right) return undefined;
+
+  const diff: DnsDiff = {};
+  const requested = diffResolutions(left.requested, right.requested);
+  if (requested) diff.requested = requested;
+
+  if (left.final || right.final) {
+    const final = diffResolutions(left.final ?? left.requested, right.final ?? right.requested);
+    if (final) diff.final = final;
+  }
+
+  return diff.requested || diff.final ? diff : undefined;
+}
+
+function sections(diff: DnsDiff): Array<["requested" | "final", DnsResolutionDiff]> {
+  return (["requested", "final"] as const)
+    .filter((name) => diff[name] !== undefined)
+    .map((name) => [name, diff[name]!]);
+}
+
+function presentOnOneSide(change?: Change<string[]>): boolean {
+  return change !== undefined && (change.left === undefined) !== (change.right === undefined);
+}
+
+function cnameTarget(chain?: string[]): string | undefined {
+  return chain ? chain[chain.length - 1] : undefined;
+}
+
+function cnameTargetChanged(change?: Change<string[]>): boolean {
+  return change !== undefined && cnameTarget(change.left) !== cnameTarget(change.right);
+}
+
+/**
+ * Check a DNS diff is worth a finding (see Design 4).
+ */
+export function hasSignificantDnsDrift(diff: DnsDiff): boolean {
+  return sections(diff).some(
+    ([, section]) =>
+      section.error !== undefined ||
+      cnameTargetChanged(section.cname) ||
+      presentOnOneSide(section.a) ||
+      presentOnOneSide(section.aaaa)
+  );
+}
+
+/**
+ * List evidence keys (differing record kinds) for a DNS diff.
+ *
+ * @returns Sorted keys
+ */
+export function dnsDiffKeys(diff: DnsDiff): string[] {
+  const keys = new Set<string>();
+  for (const [, section] of sections(diff)) {
+    for (const field of DNS_FIELDS) {
+      if (section[field]) keys.add(field);
+    }
+  }
+  return Array.from(keys).sort();
+}
+
+/**
+ * Classify DNS drift severity.
+ *
+ * @param diff - DNS diff
+ * @returns Severity
+ */
+export function classifyDnsDrift(diff: DnsDiff): Severity {
+  return hasSignificantDnsDrift(diff) ? "warn" : "info";
+}
+
+/**
+ * Describe a DNS diff for finding evidence.
+ * Example: "requested (staging.example.com vs www.example.com): CNAME lb-1.example.net vs cdn.example.net, AAAA on right only"
+ */
+export function describeDnsDrift(diff: DnsDiff): string {
+  return sections(diff)
+    .map(([name, section]) => {
+      const parts: string[] = [];
+      if (section.error) {
+        parts.push(`resolver error ${section.error.left ?? "none"} vs ${section.error.right ?? "none"}`);
+      }
+      if (section.cname) {
+        parts.push(`CNAME ${cnameTarget(section.cname.left) ?? "none"} vs ${cnameTarget(section.cname.right) ?? "none"}`);
+      }
+      for (const [field, label] of [["a", "A"], ["aaaa", "AAAA"]] as const) {
+        const change = section[field];
+        if (!change) continue;
+        parts.push(
+          presentOnOneSide(change)
+            ? `${label} on ${change.left === undefined ? "right" : "left"} only`
+            : `${label} records differ`
+        );
+      }
+      return `${name} (${section.hosts.left} vs ${section.hosts.right}): ${parts.join(", ")}`;
+    })
+    .join("; ");
+}
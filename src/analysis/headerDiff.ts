@@ -8,9 +8,11 @@
  * 2. Only whitelisted headers are captured:
  *    - Core headers: cache-control, content-type, vary, www-authenticate, location
  *    - Access-Control headers: any header starting with "access-control-"
- * 3. Headers are separated into two groups for independent diffing:
+ * 3. Headers are separated into groups for independent diffing:
  *    - Core headers (curated list)
  *    - Access-Control headers (flexible, prefix-based)
+ *    - Custom headers (per-comparison names/prefixes, see HeaderCaptureOptions);
+ *      BLOCKED_CAPTURE_HEADERS are never captured, whatever the caller asks for
  * 4. For each group, classify headers as: added, removed, changed, unchanged
  * 5. All keys are sorted alphabetically for determinism
  *
@@ -19,7 +21,8 @@
 
 import type { HeaderDiff } from "@shared/diff";
 import { changed } from "@shared/diff";
-import { HEADER_WHITELIST } from "./constants";
+import type { HeaderCaptureOptions } from "@shared/signal";
+import { BLOCKED_CAPTURE_HEADERS, HEADER_WHITELIST } from "./constants";
 
 /**
  * Result of computing header diff for both core and access-control groups.
@@ -29,6 +32,8 @@ export interface ComputedHeaderDiff {
   core: HeaderDiff;
   /** Diff for access-control-* headers (flexible matching) */
   accessControl: HeaderDiff;
+  /** Diff for custom headers (only when a capture option is given) */
+  custom?: HeaderDiff;
 }
 
 /**
@@ -36,13 +41,14 @@ export interface ComputedHeaderDiff {
  *
  * Process:
  * 1. Normalize both header sets (lowercase keys, filter by whitelist)
- * 2. Separate each into core headers and access-control headers
+ * 2. Separate each into core, access-control and (if requested) custom headers
  * 3. Compute diff for each group independently
- * 4. Return ComputedHeaderDiff with both groups
+ * 4. Return ComputedHeaderDiff with all groups
  *
  * @param leftHeaders - Headers from left probe (or empty if unavailable)
  * @param rightHeaders - Headers from right probe (or empty if unavailable)
- * @returns ComputedHeaderDiff with core and accessControl diffs
+ * @param capture - Optional custom header names/prefixes to diff as a third group
+ * @returns ComputedHeaderDiff with core, accessControl and optional custom diffs
  *
  * Invariants:
  * - All header keys in output are lowercase
@@ -52,10 +58,11 @@ export interface ComputedHeaderDiff {
  */
 export function computeHeaderDiff(
   leftHeaders: Record<string, string> = {},
-  rightHeaders: Record<string, string> = {}
+  rightHeaders: Record<string, string> = {},
+  capture?: HeaderCaptureOptions
 ): ComputedHeaderDiff {
-  const normalizedLeft = normalizeHeaders(leftHeaders);
-  const normalizedRight = normalizeHeaders(rightHeaders);
+  const normalizedLeft = normalizeHeaders(leftHeaders, capture);
+  const normalizedRight = normalizeHeaders(rightHeaders, capture);
 
   const core = diffHeaderGroups(normalizedLeft.core, normalizedRight.core);
   const accessControl = diffHeaderGroups(
@@ -63,7 +70,10 @@ export function computeHeaderDiff(
     normalizedRight.accessControl
   );
 
-  return { core, accessControl };
+  if (!capture) {
+    return { core, accessControl };
+  }
+  return { core, accessControl, custom: diffHeaderGroups(normalizedLeft.custom, normalizedRight.custom) };
 }
 
 /**
@@ -71,26 +81,30 @@ export function computeHeaderDiff(
  *
  * - core: Only whitelisted core headers (cache-control, content-type, vary, www-authenticate, location)
  * - accessControl: Only headers starting with "access-control-"
+ * - custom: Headers matching the capture option (outside the two groups above)
  */
 interface NormalizedHeaders {
   core: Record<string, string>;
   accessControl: Record<string, string>;
+  custom: Record<string, string>;
 }
 
 /**
  * Normalize headers by:
  * 1. Converting all keys to lowercase
- * 2. Filtering by whitelist (core + access-control-*)
- * 3. Separating into two groups for independent diffing
+ * 2. Filtering by whitelist (core + access-control-* + requested custom headers)
+ * 3. Separating into groups for independent diffing
  *
  * Non-whitelisted headers are silently ignored (per Phase-B2.md §2).
  *
  * @param headers - Raw headers from HTTP response
- * @returns NormalizedHeaders with core and accessControl groups
+ * @param capture - Optional custom header names/prefixes
+ * @returns NormalizedHeaders with core, accessControl and custom groups
  */
-function normalizeHeaders(headers: Record<string, string>): NormalizedHeaders {
+function normalizeHeaders(headers: Record<string, string>, capture?: HeaderCaptureOptions): NormalizedHeaders {
   const core: Record<string, string> = {};
   const accessControl: Record<string, string> = {};
+  const custom: Record<string, string> = {};
 
   for (const [key, value] of Object.entries(headers)) {
     const lowerKey = key.toLowerCase();
@@ -102,11 +116,14 @@ function normalizeHeaders(headers: Record<string, string>): NormalizedHeaders {
     } else if (HEADER_WHITELIST.has(lowerKey as any)) {
       // Core headers: only whitelisted names
       core[lowerKey] = value;
+    } else if (isCustomCaptureHeader(lowerKey, capture)) {
+      // Custom headers: caller-selected names/prefixes, never sensitive ones
+      custom[lowerKey] = value;
     }
     // Non-whitelisted headers are silently ignored
   }
 
-  return { core, accessControl };
+  return { core, accessControl, custom };
 }
 
 /**
@@ -124,7 +141,7 @@ function normalizeHeaders(headers: Record<string, string>): NormalizedHeaders {
  * @param right - Right header group (normalized keys, lowercase)
  * @returns HeaderDiff with added, removed, changed, unchanged classifications
  */
-function diffHeaderGroups(
+export function diffHeaderGroups(
   left: Record<string, string>,
   right: Record<string, string>
 ): HeaderDiff {
@@ -169,17 +186,37 @@ function diffHeaderGroups(
 }
 
 /**
- * Check if a header key is whitelisted (core or access-control-*).
+ * Check if a header key is whitelisted (core, access-control-*, or requested custom).
  *
  * Used by validators or classification functions.
  *
  * @param key - Header key to check
+ * @param capture - Optional custom header names/prefixes
  * @returns true if whitelisted
  */
-export function isWhitelistedHeader(key: string): boolean {
+export function isWhitelistedHeader(key: string, capture?: HeaderCaptureOptions): boolean {
   const lowerKey = key.toLowerCase();
   return HEADER_WHITELIST.has(lowerKey as any) ||
-    lowerKey.startsWith("access-control-");
+    lowerKey.startsWith("access-control-") ||
+    isCustomCaptureHeader(lowerKey, capture);
+}
+
+/**
+ * Check if a header is selected by a custom capture option.
+ * Blocked names (credentials, cookies) never match, whatever names/prefixes say.
+ *
+ * @param key - Header key to check
+ * @param capture - Custom header names/prefixes (undefined = none)
+ * @returns true if the header should be captured as custom
+ */
+export function isCustomCaptureHeader(key: string, capture?: HeaderCaptureOptions): boolean {
+  if (!capture) return false;
+  const lowerKey = key.toLowerCase();
+  if (BLOCKED_CAPTURE_HEADERS.has(lowerKey)) return false;
+  return (
+    (capture.names ?? []).some((name) => name.toLowerCase() === lowerKey) ||
+    (capture.prefixes ?? []).some((prefix) => lowerKey.startsWith(prefix.toLowerCase()))
+  );
 }
 
 /**
@@ -189,13 +226,15 @@ export function isWhitelistedHeader(key: string): boolean {
  *
  * @param leftHeaders - Left headers (raw)
  * @param rightHeaders - Right headers (raw)
+ * @param capture - Optional custom header names/prefixes
  * @returns Array of header keys that differ (sorted, lowercase)
  */
 export function getChangedHeaders(
   leftHeaders: Record<string, string> = {},
-  rightHeaders: Record<string, string> = {}
+  rightHeaders: Record<string, string> = {},
+  capture?: HeaderCaptureOptions
 ): string[] {
-  const diff = computeHeaderDiff(leftHeaders, rightHeaders);
+  const diff = computeHeaderDiff(leftHeaders, rightHeaders, capture);
   const changedSet = new Set<string>();
 
   // Add all changed headers from core
@@ -208,5 +247,12 @@ export function getChangedHeaders(
   Object.keys(diff.accessControl.removed).forEach(h => changedSet.add(h));
   Object.keys(diff.accessControl.changed).forEach(h => changedSet.add(h));
 
+  // Add all changed headers from custom
+  if (diff.custom) {
+    Object.keys(diff.custom.added).forEach(h => changedSet.add(h));
+    Object.keys(diff.custom.removed).forEach(h => changedSet.add(h));
+    Object.keys(diff.custom.changed).forEach(h => changedSet.add(h));
+  }
+
   return Array.from(changedSet).sort();
 }
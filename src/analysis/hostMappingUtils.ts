@@ -0,0 +1,132 @@
+/**
+ * Host Mapping Utilities
+ *
+ * Responsibility: Rewrite declared host equivalences (CompareOptions.hostMappings) into one
+ * canonical form before diffing, so expected hostname differences between environments are not drift.
+ *
+ * Design:
+ * 1. A mapping rewrites its `left` host to its `right` host, on both envelopes;
+ *    the first matching mapping wins
+ * 2. Full hostnames match the whole host; single labels match the first label only
+ *    ("api-staging" ≈ "api" maps api-staging.example.com → api.example.com)
+ * 3. Rewritten values: final URL, redirect from/to URLs, location and access-control-allow-origin
+ *    (response, redirect hops, preflight). Scheme, userinfo, port, path and query are kept;
+ *    relative URLs, "*" and "null" are left as-is
+ * 4. Every rewritten value is recorded (field path, raw, mapped) so findings can show both
+ */
+
+import type { HostMapping, HostRewrite } from "@shared/diff";
+import type { FrozenSignalEnvelope, RedirectHop, ResponseHeadersSnapshot, SignalEnvelope } from "@shared/signal";
+
+const ALLOW_ORIGIN = "access-control-allow-origin";
+
+/**
+ * Map one hostname (compared lowercase).
+ *
+ * @returns Mapped hostname, or undefined if no mapping matches
+ */
+export function mapHost(host: string, mappings: HostMapping[]): string | undefined {
+  const lower = host.toLowerCase();
+  for (const mapping of mappings) {
+    if (mapping.left.includes(".")) {
+      if (lower === mapping.left) return mapping.right;
+      continue;
+    }
+    const [first, ...rest] = lower.split(".");
+    if (first === mapping.left) return [mapping.right, ...rest].join(".");
+  }
+  return undefined;
+}
+
+/**
+ * Rewrite the host of an absolute URL (or origin).
+ *
+ * @returns Rewritten URL, or the input unchanged if it is relative or no mapping matches
+ */
+export function mapUrlHost(url: string, mappings: HostMapping[]): string {
+  const match = url.match(/^([a-z][a-z0-9+.-]*:\/\/)([^/?#]*)/i);
+  if (!match) return url;
+
+  const authority = match[2];
+  const at = authority.lastIndexOf("@");
+  const userinfo = at >= 0 ? authority.slice(0, at + 1) : "";
+  const hostPort = authority.slice(at + 1);
+  if (hostPort.startsWith("[")) return url; // IPv6 literal
+
+  const colon = hostPort.indexOf(":");
+  const host = colon >= 0 ? hostPort.slice(0, colon) : hostPort;
+  const port = colon >= 0 ? hostPort.slice(colon) : "";
+  const mapped = mapHost(host, mappings);
+  if (mapped === undefined) return url;
+
+  return `${match[1]}${userinfo}${mapped}${port}${url.slice(match[0].length)}`;
+}
+
+/**
+ * Apply host mappings to every host-bearing value of an envelope.
+ *
+ * @returns Envelope with mapped values (the input itself if nothing was rewritten) and the rewrites
+ */
+export function applyHostMappings(
+  envelope: FrozenSignalEnvelope,
+  mappings: HostMapping[]
+): { envelope: FrozenSignalEnvelope; rewrites: HostRewrite[] } {
+  const rewrites: HostRewrite[] = [];
+  if (mappings.length === 0) return { envelope, rewrites };
+
+  const rewrite = (field: string, value: string): string => {
+    const mapped = mapUrlHost(value, mappings);
+    if (mapped !== value) rewrites.push({ field, raw: value, mapped });
+    return mapped;
+  };
+
+  const rewriteAccessControl = (field: string, headers: Record<string, string>): Record<string, string> =>
+    headers[ALLOW_ORIGIN] === undefined
+      ? headers
+      : { ...headers, [ALLOW_ORIGIN]: rewrite(`${field}.${ALLOW_ORIGIN}`, headers[ALLOW_ORIGIN]) };
+
+  const rewriteHeaders = (field: string, headers: ResponseHeadersSnapshot): ResponseHeadersSnapshot => ({
+    ...headers,
+    core:
+      headers.core.location === undefined
+        ? headers.core
+        : { ...headers.core, location: rewrite(`${field}.core.location`, headers.core.location) },
+    accessControl: headers.accessControl
+      ? rewriteAccessControl(`${field}.accessControl`, headers.accessControl)
+      : headers.accessControl,
+  });
+
+  const rewriteHops = (hops: RedirectHop[] | undefined): RedirectHop[] | undefined =>
+    hops?.map((hop, i) => ({
+      ...hop,
+      fromUrl: rewrite(`result.redirects[${i}].fromUrl`, hop.fromUrl),
+      toUrl: rewrite(`result.redirects[${i}].toUrl`, hop.toUrl),
+      headers: hop.headers ? rewriteHeaders(`result.redirects[${i}].headers`, hop.headers) : hop.headers,
+    }));
+
+  const result = envelope.result;
+  const mappedResult =
+    "response" in result
+      ? {
+          ...result,
+          response: {
+            ...result.response,
+            finalUrl: rewrite("result.response.finalUrl", result.response.finalUrl),
+            headers: rewriteHeaders("result.response.headers", result.response.headers),
+          },
+          redirects: rewriteHops(result.redirects),
+        }
+      : { ...result, redirects: rewriteHops(result.redirects) };
+
+  const preflight = envelope.preflight;
+  const mappedPreflight =
+    preflight && "headers" in preflight
+      ? { ...preflight, headers: rewriteAccessControl("preflight.headers", preflight.headers) }
+      : preflight;
+
+  if (rewrites.length === 0) return { envelope, rewrites };
+  return {
+    envelope: { ...(envelope as SignalEnvelope), result: mappedResult, preflight: mappedPreflight } as FrozenSignalEnvelope,
+    rewrites,
+  };
+}
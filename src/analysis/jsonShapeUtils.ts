@@ -0,0 +1,92 @@
+/**
+ * JSON Shape Utilities
+ *
+ * Responsibility: Diff value-free JSON fingerprints and classify schema drift severity.
+ *
+ * Design:
+ * 1. Computed only when both sides carry a JSON fingerprint (content-type drift is reported separately)
+ * 2. Paths are added, removed or type-changed; array lengths are tracked but are data, not contract
+ * 3. classifyJsonSchemaDrift:
+ *    - critical: a path was removed or changed type (clients reading it break)
+ *    - warn: paths only added, or either fingerprint was truncated (missing paths may be cut off)
+ *    - undefined: array lengths only (no finding)
+ *
+ * Reference: Phase-B2.md §4.D
+ */
+
+import type { BodyDiff, JsonShapeDiff, Severity } from "@shared/diff";
+import { changed } from "@shared/diff";
+import type { JsonFingerprint, ResponseMetadata } from "@shared/signal";
+
+/**
+ * Compute the structural diff between two JSON fingerprints.
+ *
+ * @param left - Left fingerprint
+ * @param right - Right fingerprint
+ * @returns JsonShapeDiff, or undefined if shapes and array lengths are identical
+ */
+export function computeJsonShapeDiff(left: JsonFingerprint, right: JsonFingerprint): JsonShapeDiff | undefined {
+  const diff: JsonShapeDiff = { added: [], removed: [], typeChanged: {}, arrayLengthChanged: {} };
+
+  const paths = Array.from(new Set([...Object.keys(left.paths), ...Object.keys(right.paths)])).sort();
+  for (const path of paths) {
+    const leftType = left.paths[path];
+    const rightType = right.paths[path];
+    if (leftType === undefined) {
+      diff.added.push(path);
+    } else if (rightType === undefined) {
+      diff.removed.push(path);
+    } else if (leftType !== rightType) {
+      diff.typeChanged[path] = changed(leftType, rightType);
+    }
+  }
+
+  const arrays = Array.from(new Set([...Object.keys(left.arrayLengths), ...Object.keys(right.arrayLengths)])).sort();
+  for (const path of arrays) {
+    const leftLength = left.arrayLengths[path];
+    const rightLength = right.arrayLengths[path];
+    if (leftLength !== undefined && rightLength !== undefined && leftLength !== rightLength) {
+      diff.arrayLengthChanged[path] = changed(leftLength, rightLength);
+    }
+  }
+
+  if (left.truncated || right.truncated) {
+    diff.truncated = { left: left.truncated ?? false, right: right.truncated ?? false };
+  }
+
+  const hasChanges =
+    diff.added.length > 0 ||
+    diff.removed.length > 0 ||
+    Object.keys(diff.typeChanged).length > 0 ||
+    Object.keys(diff.arrayLengthChanged).length > 0;
+
+  return hasChanges ? diff : undefined;
+}
+
+/**
+ * Compute the structural body diff between two responses.
+ *
+ * @returns BodyDiff, or undefined if no fingerprint pair differs
+ */
+export function computeBodyDiff(left: ResponseMetadata, right: ResponseMetadata): BodyDiff | undefined {
+  const leftJson = left.bodyFingerprint?.json;
+  const rightJson = right.bodyFingerprint?.json;
+  if (!leftJson || !rightJson) return undefined;
+
+  const json = computeJsonShapeDiff(leftJson, rightJson);
+  return json ? { json } : undefined;
+}
+
+/**
+ * Classify JSON schema drift severity.
+ *
+ * @param diff - JSON shape diff
+ * @returns Severity, or undefined if only array lengths differ
+ */
+export function classifyJsonSchemaDrift(diff: JsonShapeDiff): Severity | undefined {
+  const breaking = diff.removed.length > 0 || Object.keys(diff.typeChanged).length > 0;
+  if (!breaking && diff.added.length === 0) return undefined;
+
+  if (breaking && !diff.truncated) return "critical";
+  return "warn";
+}
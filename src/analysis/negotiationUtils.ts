@@ -0,0 +1,187 @@
+/**
+ * Content Negotiation Utilities
+ *
+ * Responsibility: Check that each side's declared Vary matches how its response actually
+ * changes across the negotiation matrix, and fold the result into the base EnvDiff.
+ *
+ * Design:
+ * 1. Each probe (base + variants) has effective negotiation headers: options.headers with
+ *    the variant's headers layered on top
+ * 2. For each negotiation header, compare probe pairs that differ ONLY in that header:
+ *    the response "changes" if any pair has a different representation
+ *    (status, content-type, content-language). Body bytes and length are not compared:
+ *    dynamic pages (CSRF tokens, timestamps, nonces) differ on every request
+ * 3. Per side, per header:
+ *    - "undeclared": response changes but Vary does not list the header (caches may serve
+ *      the wrong representation) → critical
+ *    - "ignored": Vary lists the header but the response never changes (e.g., a CDN
+ *      ignoring Vary) → warn. Not checked for accept-encoding: fetch decodes bodies, so
+ *      encodings are indistinguishable after capture
+ * 4. One aggregate VARY_MISMATCH finding on the base diff (evidence keys = header names)
+ */
+
+import type { FrozenSignalEnvelope, SignalEnvelope } from "@shared/signal";
+import type { EnvDiff, DiffFinding, Severity } from "@shared/diff";
+import { computeMaxSeverity, deduplicateFindings, sortFindings } from "@shared/diff";
+import type { NegotiationHeader, NegotiationVariant } from "@shared/api";
+import { SEVERITY_ORDER } from "./constants";
+
+export const NEGOTIATION_HEADERS: NegotiationHeader[] = ["accept", "accept-encoding", "accept-language"];
+
+type VaryMismatch = "undeclared" | "ignored";
+
+/**
+ * One probe of the matrix on one side.
+ */
+type MatrixProbe = {
+  headers: Partial<Record<NegotiationHeader, string>>;
+  envelope: SignalEnvelope | FrozenSignalEnvelope;
+};
+
+/**
+ * Effective negotiation headers for a probe.
+ *
+ * @param baseHeaders - options.headers (lowercase keys)
+ * @param variant - Variant (undefined for the base probe)
+ */
+export function negotiationHeaders(
+  baseHeaders: Record<string, string> = {},
+  variant?: NegotiationVariant
+): Partial<Record<NegotiationHeader, string>> {
+  const headers: Partial<Record<NegotiationHeader, string>> = {};
+  for (const name of NEGOTIATION_HEADERS) {
+    const value = variant?.headers[name] ?? baseHeaders[name];
+    if (value !== undefined) headers[name] = value;
+  }
+  return headers;
+}
+
+/**
+ * Parse a Vary header into lowercase field names.
+ */
+export function varyTokens(vary?: string): Set<string> {
+  if (!vary) return new Set();
+  return new Set(
+    vary
+      .split(",")
+      .map((token) => token.trim().toLowerCase())
+      .filter((token) => token.length > 0)
+  );
+}
+
+/**
+ * Representation signature of a probe, or undefined if it has no response.
+ */
+function representation(envelope: SignalEnvelope | FrozenSignalEnvelope): string | undefined {
+  if (!("response" in envelope.result)) return undefined;
+  const { status, headers } = envelope.result.response;
+  return [status, headers.core["content-type"] ?? "", headers.core["content-language"] ?? ""].join("|");
+}
+
+/**
+ * Find Vary mismatches on one side of the matrix.
+ *
+ * @param probes - Base probe first, then variant probes
+ * @returns Mismatch per negotiation header (absent = consistent or not testable)
+ */
+export function findVaryMismatches(probes: MatrixProbe[]): Partial<Record<NegotiationHeader, VaryMismatch>> {
+  const mismatches: Partial<Record<NegotiationHeader, VaryMismatch>> = {};
+  const base = probes[0];
+  if (!base || !("response" in base.envelope.result)) return mismatches;
+
+  const declared = varyTokens(base.envelope.result.response.headers.core.vary);
+
+  for (const name of NEGOTIATION_HEADERS) {
+    let comparable = false;
+    let changes = false;
+
+    for (let i = 0; i < probes.length; i++) {
+      for (let j = i + 1; j < probes.length; j++) {
+        const a = probes[i];
+        const b = probes[j];
+        const onlyThisDiffers = NEGOTIATION_HEADERS.every((other) =>
+          other === name ? a.headers[other] !== b.headers[other] : a.headers[other] === b.headers[other]
+        );
+        if (!onlyThisDiffers) continue;
+
+        const repA = representation(a.envelope);
+        const repB = representation(b.envelope);
+        if (repA === undefined || repB === undefined) continue;
+
+        comparable = true;
+        if (repA !== repB) changes = true;
+      }
+    }
+
+    if (!comparable) continue;
+
+    const isDeclared = declared.has(name) || declared.has("*");
+    if (changes && !isDeclared) {
+      mismatches[name] = "undeclared";
+    } else if (!changes && isDeclared && name !== "accept-encoding") {
+      mismatches[name] = "ignored";
+    }
+  }
+
+  return mismatches;
+}
+
+/**
+ * Build the aggregate VARY_MISMATCH finding for a comparison.
+ *
+ * @param left - Left matrix probes (base first)
+ * @param right - Right matrix probes (base first)
+ * @returns Finding, or undefined if Vary is consistent on both sides
+ */
+export function classifyVaryMismatch(left: MatrixProbe[], right: MatrixProbe[]): DiffFinding | undefined {
+  const sides = { left: findVaryMismatches(left), right: findVaryMismatches(right) };
+
+  const keys = NEGOTIATION_HEADERS.filter((name) => sides.left[name] || sides.right[name]);
+  if (keys.length === 0) return undefined;
+
+  let severity: Severity = "info";
+  const notes: string[] = [];
+  for (const side of ["left", "right"] as const) {
+    for (const name of keys) {
+      const mismatch = sides[side][name];
+      if (!mismatch) continue;
+      const next: Severity = mismatch === "undeclared" ? "critical" : "warn";
+      if (SEVERITY_ORDER[next] < SEVERITY_ORDER[severity]) severity = next;
+      notes.push(
+        mismatch === "undeclared"
+          ? `${side}: response varies by ${name} but Vary omits it`
+          : `${side}: Vary lists ${name} but response does not change`
+      );
+    }
+  }
+
+  return {
+    id: `VARY_MISMATCH:variants:${keys.join(",")}`,
+    code: "VARY_MISMATCH",
+    category: "cache",
+    severity,
+    message: "Vary header does not match negotiated responses",
+    evidence: [
+      { section: "variants", keys, note: notes.join("; ") },
+      { section: "headers", keys: ["vary"] },
+    ],
+    left_value: sides.left,
+    right_value: sides.right,
+  };
+}
+
+/**
+ * Fold the aggregate Vary finding into the base diff (re-sorting findings and maxSeverity).
+ *
+ * @param diff - Base EnvDiff
+ * @param left - Left matrix probes (base first)
+ * @param right - Right matrix probes (base first)
+ * @returns New EnvDiff (input is not mutated)
+ */
+export function applyVaryFindings(diff: EnvDiff, left: MatrixProbe[], right: MatrixProbe[]): EnvDiff {
+  const finding = classifyVaryMismatch(left, right);
+  if (!finding) return diff;
+
+  const findings = sortFindings(deduplicateFindings([...diff.findings, finding]));
+  return { ...diff, findings, maxSeverity: computeMaxSeverity(findings) };
+}
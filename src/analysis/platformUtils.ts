@@ -0,0 +1,83 @@
+/**
+ * Platform Drift Utilities
+ *
+ * Responsibility: Diff target platform snapshots and classify PLATFORM_DRIFT severity.
+ *
+ * Design:
+ * 1. Fields are compared by value, except age which is compared by presence
+ *    (cached on one side only); its value changes on every cached response
+ * 2. Evidence keys are the source header names (edgeColo → "cf-ray", cacheStatus → "cf-cache-status")
+ * 3. classifyPlatformDrift:
+ *    - warn: different origin stack or CDN (server, via, x-powered-by differ, or cf-ray present on one side only)
+ *    - info: edge location, cache state or alt-svc differ
+ *
+ * Reference: Phase-B2.md §4.F
+ */
+
+import type { Change, PlatformDiff, Severity } from "@shared/diff";
+import { changed } from "@shared/diff";
+import type { PlatformSnapshot } from "@shared/signal";
+
+/**
+ * Snapshot field → evidence key (source header name).
+ */
+const PLATFORM_EVIDENCE_KEYS: Record<keyof PlatformSnapshot, string> = {
+  server: "server",
+  via: "via",
+  poweredBy: "x-powered-by",
+  edgeColo: "cf-ray",
+  cacheStatus: "cf-cache-status",
+  age: "age",
+  xCache: "x-cache",
+  altSvc: "alt-svc",
+};
+
+/**
+ * Compute the platform diff between two sides.
+ *
+ * @param left - Left platform snapshot (undefined if none captured)
+ * @param right - Right platform snapshot (undefined if none captured)
+ * @returns PlatformDiff, or undefined if the platforms match
+ */
+export function computePlatformDiff(
+  left: PlatformSnapshot = {},
+  right: PlatformSnapshot = {}
+): PlatformDiff | undefined {
+  const diff: PlatformDiff = {};
+
+  for (const field of Object.keys(PLATFORM_EVIDENCE_KEYS) as Array<keyof PlatformSnapshot>) {
+    const leftValue = left[field];
+    const rightValue = right[field];
+    const differs =
+      field === "age" ? (leftValue === undefined) !== (rightValue === undefined) : leftValue !== rightValue;
+    if (differs) {
+      (diff as Record<string, Change<string | number>>)[field] = changed(leftValue, rightValue);
+    }
+  }
+
+  return Object.keys(diff).length > 0 ? diff : undefined;
+}
+
+/**
+ * List evidence keys (source header names) for a platform diff.
+ *
+ * @returns Sorted keys
+ */
+export function platformDiffKeys(diff: PlatformDiff): string[] {
+  return (Object.keys(diff) as Array<keyof PlatformDiff>).map((field) => PLATFORM_EVIDENCE_KEYS[field]).sort();
+}
+
+/**
+ * Classify platform drift severity.
+ *
+ * @param diff - Platform diff
+ * @returns Severity
+ */
+export function classifyPlatformDrift(diff: PlatformDiff): Severity {
+  const cdnChanged =
+    diff.edgeColo !== undefined && (diff.edgeColo.left === undefined || diff.edgeColo.right === undefined);
+  if (diff.server || diff.via || diff.poweredBy || cdnChanged) {
+    return "warn";
+  }
+  return "info";
+}
@@ -1,5 +1,24 @@
 // src/analysis/probeUtils.ts
-import type { SignalEnvelope, ProbeOutcomeDiff } from "@shared/diff";
+import type { SignalEnvelope, ProbeOutcomeDiff, RetryDiff, RetrySummary } from "@shared/diff";
+import type { ProbeErrorCode } from "@shared/signal";
+
+/**
+ * Short, human-readable phrase per probe error code (used in PROBE_FAILURE messages).
+ */
+const PROBE_ERROR_LABELS: Record<ProbeErrorCode, string> = {
+  invalid_url: "invalid URL",
+  dns_error: "DNS resolution failed",
+  timeout: "timed out",
+  tls_error: "TLS handshake failed",
+  ssrf_blocked: "blocked private/local address",
+  connection_refused: "connection refused",
+  connection_reset: "connection reset",
+  redirect_loop: "redirect loop",
+  too_many_redirects: "too many redirects",
+  redirect_missing_location: "redirect without Location header",
+  fetch_error: "network error",
+  unknown_error: "unknown error",
+};
 
 export function compileProbeOutcomeDiff(
   left: SignalEnvelope,
@@ -10,7 +29,7 @@ export function compileProbeOutcomeDiff(
   const leftHasResponse = "response" in left.result;
   const rightHasResponse = "response" in right.result;
 
-  return {
+  const outcome: ProbeOutcomeDiff = {
     leftOk,
     rightOk,
     leftErrorCode: !leftOk ? (left.result as any).error?.code : undefined,
@@ -18,6 +37,30 @@ export function compileProbeOutcomeDiff(
     outcomeChanged: leftOk !== rightOk,
     responsePresent: leftHasResponse && rightHasResponse,
   };
+
+  const retries: RetryDiff = {};
+  const leftRetries = summarizeAttempts(left);
+  const rightRetries = summarizeAttempts(right);
+  if (leftRetries) retries.left = leftRetries;
+  if (rightRetries) retries.right = rightRetries;
+  if (leftRetries || rightRetries) outcome.retries = retries;
+
+  return outcome;
+}
+
+/**
+ * Summarize a side's attempt history.
+ *
+ * @returns RetrySummary, or undefined if the side was not retried (one attempt or none recorded)
+ */
+function summarizeAttempts(envelope: SignalEnvelope): RetrySummary | undefined {
+  const attempts = envelope.attempts ?? [];
+  if (attempts.length <= 1) return undefined;
+  return {
+    attempts: attempts.length,
+    failedErrorCodes: attempts.flatMap((attempt) => (attempt.errorCode ? [attempt.errorCode] : [])),
+    recovered: "response" in envelope.result,
+  };
 }
 
 /**
@@ -51,3 +94,25 @@ export function isNetworkFailure(probe: ProbeOutcomeDiff, side: "left" | "right"
     return probe.rightErrorCode !== undefined && !probe.responsePresent;
   }
 }
+
+/**
+ * Describe a probe error code for finding messages.
+ *
+ * @param code - Probe error code (may be undefined or an unrecognized value from older envelopes)
+ * @returns Phrase, e.g. "connection refused"; unrecognized codes are returned as-is
+ */
+export function describeProbeError(code?: string): string {
+  if (!code) return "unknown error";
+  return PROBE_ERROR_LABELS[code as ProbeErrorCode] ?? code;
+}
+
+/**
+ * Describe a retried side's attempt history for finding evidence.
+ * Example: "left: 2 failed attempts (connection reset, timed out), then a response"
+ */
+export function describeRetries(side: "left" | "right", summary: RetrySummary): string {
+  const failures = summary.failedErrorCodes.length;
+  const codes = summary.failedErrorCodes.map((code) => describeProbeError(code)).join(", ");
+  const outcome = summary.recovered ? "then a response" : "no response";
+  return `${side}: ${failures} failed attempt${failures === 1 ? "" : "s"} (${codes}), ${outcome}`;
+}
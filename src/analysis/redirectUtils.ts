@@ -1,11 +1,94 @@
 // src/analysis/redirectUtils.ts
 import type { Severity } from "@shared/diff";
+import type { RedirectHop, ResponseHeadersSnapshot } from "@shared/signal";
+import { SECURITY_HEADER_WHITELIST } from "./constants";
 
 export interface RedirectChainDiffResult {
   hopCountChanged: boolean;
   hopCountDiff: number;
   finalHostChanged: boolean;
   severity: Severity;
+  /** Hop-level header differences (only when hop details were supplied) */
+  hopHeaderDiffs: HopHeaderDiff[];
+}
+
+/**
+ * Header differences at one hop index of two redirect chains.
+ */
+export interface HopHeaderDiff {
+  /** Zero-based hop index */
+  hop: number;
+  /** Differing header names (lowercase, sorted); "set-cookie" stands for any cookie attribute change */
+  headers: string[];
+}
+
+/**
+ * Flatten a curated header snapshot into name → value.
+ *
+ * - location is excluded: hop targets are already compared via the chain URLs
+ * - cookies collapse into one "set-cookie" entry (value-free records, serialized)
+ *
+ * @param snapshot - Curated headers of one hop (undefined if not captured)
+ * @returns Flat header map
+ */
+export function flattenHopHeaders(snapshot?: ResponseHeadersSnapshot): Record<string, string> {
+  const flat: Record<string, string> = {};
+  if (!snapshot) return flat;
+
+  for (const [key, value] of Object.entries({ ...snapshot.core, ...snapshot.accessControl, ...snapshot.security })) {
+    if (key !== "location" && value !== undefined) flat[key] = value;
+  }
+  if (snapshot.cookies && snapshot.cookies.length > 0) {
+    flat["set-cookie"] = JSON.stringify(snapshot.cookies);
+  }
+
+  return flat;
+}
+
+/**
+ * Compare hop headers index by index (hop 0 vs hop 0, ...).
+ * Hops present on only one side are skipped (hop count drift covers them).
+ * Hops without captured headers are skipped (e.g., envelopes recorded before hop capture).
+ *
+ * @param leftHops - Left redirect hops
+ * @param rightHops - Right redirect hops
+ * @returns One entry per hop index with differing headers
+ */
+export function diffHopHeaders(leftHops: RedirectHop[] = [], rightHops: RedirectHop[] = []): HopHeaderDiff[] {
+  const diffs: HopHeaderDiff[] = [];
+  const hopCount = Math.min(leftHops.length, rightHops.length);
+
+  for (let hop = 0; hop < hopCount; hop++) {
+    if (!leftHops[hop].headers || !rightHops[hop].headers) continue;
+
+    const left = flattenHopHeaders(leftHops[hop].headers);
+    const right = flattenHopHeaders(rightHops[hop].headers);
+    const headers = Array.from(new Set([...Object.keys(left), ...Object.keys(right)]))
+      .filter((key) => left[key] !== right[key])
+      .sort();
+
+    if (headers.length > 0) {
+      diffs.push({ hop, headers });
+    }
+  }
+
+  return diffs;
+}
+
+/**
+ * Classify hop header drift when the chains themselves match (same hops, same targets).
+ *
+ * - warn: a security header or cookie differs at some hop (e.g., the hop that drops HSTS)
+ * - info: other curated headers differ
+ *
+ * @param diffs - Hop header differences (from diffHopHeaders)
+ * @returns Severity
+ */
+export function classifyHopHeaderDrift(diffs: HopHeaderDiff[]): Severity {
+  const securityRelevant = diffs.some((diff) =>
+    diff.headers.some((header) => header === "set-cookie" || SECURITY_HEADER_WHITELIST.has(header as any))
+  );
+  return securityRelevant ? "warn" : "info";
 }
 
 /**
@@ -47,13 +130,20 @@ function extractHostname(url?: string): string | undefined {
  * scheme or port differs. E.g., http://final.com and https://final.com have
  * the same hostname (final.com) and should NOT trigger finalHostChanged.
  *
+ * Hop-level header differences do not change severity; they are reported as evidence
+ * so the drift can be attributed to a specific hop (e.g., the hop that dropped HSTS).
+ *
  * @param leftChain - Left redirect chain (array of full URLs)
  * @param rightChain - Right redirect chain (array of full URLs)
+ * @param leftHops - Left redirect hops with captured headers (optional)
+ * @param rightHops - Right redirect hops with captured headers (optional)
  * @returns RedirectChainDiffResult with severity classification
  */
 export function classifyRedirectChainDrift(
   leftChain: string[] = [],
-  rightChain: string[] = []
+  rightChain: string[] = [],
+  leftHops: RedirectHop[] = [],
+  rightHops: RedirectHop[] = []
 ): RedirectChainDiffResult {
   const leftHopCount = leftChain.length;
   const rightHopCount = rightChain.length;
@@ -87,6 +177,7 @@ export function classifyRedirectChainDrift(
     hopCountDiff,
     finalHostChanged,
     severity,
+    hopHeaderDiffs: diffHopHeaders(leftHops, rightHops),
   };
 }
 
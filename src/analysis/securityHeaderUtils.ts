@@ -0,0 +1,227 @@
+/**
+ * Security Header Drift Utilities
+ *
+ * Responsibility: Rank security header values by protection strength and classify drift severity.
+ *
+ * Design:
+ * 1. Each captured security header is parsed into a comparable protection profile
+ * 2. A side "weakens" protection if it is strictly weaker on any dimension the other side enforces
+ * 3. Severity (symmetric, like cache-control drift):
+ *    - critical: protection present on one side, absent or disabled on the other
+ *    - warn: present on both, one side weaker
+ *    - info: values differ without a change in protection (e.g., reordered directives)
+ *
+ * Reference: Phase-B2.md §4.C3
+ */
+
+import type { Severity } from "@shared/diff";
+import type { SecurityHeaderKey } from "@shared/signal";
+
+/**
+ * Referrer-Policy tokens, weakest first.
+ * Unknown tokens are ignored by browsers, so they carry no protection.
+ */
+const REFERRER_POLICY_ORDER = [
+  "unsafe-url",
+  "no-referrer-when-downgrade",
+  "origin-when-cross-origin",
+  "origin",
+  "strict-origin-when-cross-origin",
+  "strict-origin",
+  "same-origin",
+  "no-referrer",
+];
+
+/**
+ * Protection profile: each dimension is a number where higher = stronger.
+ * 0 on every dimension means "no effective protection".
+ */
+type ProtectionProfile = number[];
+
+/**
+ * Strict-Transport-Security → [max-age, includeSubDomains, preload].
+ * max-age=0 (or missing/invalid) disables HSTS entirely.
+ */
+function hstsProfile(value: string): ProtectionProfile {
+  const directives = value.split(";").map((d) => d.trim().toLowerCase());
+  const maxAgeDirective = directives.find((d) => d.startsWith("max-age="));
+  const maxAge = maxAgeDirective ? parseInt(maxAgeDirective.slice("max-age=".length).replace(/"/g, ""), 10) : 0;
+
+  if (!Number.isFinite(maxAge) || maxAge <= 0) return [0, 0, 0];
+
+  return [
+    maxAge,
+    directives.includes("includesubdomains") ? 1 : 0,
+    directives.includes("preload") ? 1 : 0,
+  ];
+}
+
+/**
+ * X-Frame-Options → [DENY=2 | SAMEORIGIN=1 | other=0].
+ * ALLOW-FROM is obsolete and ignored by modern browsers.
+ */
+function frameOptionsProfile(value: string): ProtectionProfile {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === "deny") return [2];
+  if (normalized === "sameorigin") return [1];
+  return [0];
+}
+
+/**
+ * X-Content-Type-Options → [nosniff=1 | other=0].
+ */
+function contentTypeOptionsProfile(value: string): ProtectionProfile {
+  return [value.trim().toLowerCase() === "nosniff" ? 1 : 0];
+}
+
+/**
+ * Referrer-Policy → [rank of the effective token].
+ * With a comma-separated list, the last recognized token wins (fallback semantics).
+ */
+function referrerPolicyProfile(value: string): ProtectionProfile {
+  const ranks = value
+    .split(",")
+    .map((token) => REFERRER_POLICY_ORDER.indexOf(token.trim().toLowerCase()))
+    .filter((rank) => rank >= 0);
+
+  // unsafe-url has rank 0 in the list; shift by 1 so "unrecognized" stays distinct
+  return [ranks.length > 0 ? ranks[ranks.length - 1] + 1 : 0];
+}
+
+/**
+ * Parse Permissions-Policy into feature → allowlist.
+ *
+ * Example:
+ * - "camera=(), geolocation=(self)" → { camera: "()", geolocation: "(self)" }
+ */
+export function parsePermissionsPolicy(value?: string): Record<string, string> {
+  const features: Record<string, string> = {};
+  if (!value) return features;
+
+  for (const entry of value.split(",")) {
+    const eq = entry.indexOf("=");
+    if (eq <= 0) continue;
+    const feature = entry.slice(0, eq).trim().toLowerCase();
+    const allowlist = entry.slice(eq + 1).trim().toLowerCase().replace(/\s+/g, " ");
+    if (feature) features[feature] = allowlist;
+  }
+
+  return features;
+}
+
+/**
+ * Check whether `candidate` permits anything `baseline` restricts.
+ * A feature restricted on baseline is weakened if candidate omits it
+ * (browser default applies) or allows all origins ("*").
+ */
+function permissionsPolicyWeaker(baseline: string, candidate: string): boolean {
+  const base = parsePermissionsPolicy(baseline);
+  const cand = parsePermissionsPolicy(candidate);
+
+  for (const [feature, allowlist] of Object.entries(base)) {
+    if (allowlist === "*") continue;
+    const candAllowlist = cand[feature];
+    if (candAllowlist === undefined || candAllowlist === "*") return true;
+    if (allowlist === "()" && candAllowlist !== "()") return true;
+  }
+
+  return false;
+}
+
+function protectionProfile(header: SecurityHeaderKey, value: string): ProtectionProfile | undefined {
+  switch (header) {
+    case "strict-transport-security":
+      return hstsProfile(value);
+    case "x-frame-options":
+      return frameOptionsProfile(value);
+    case "x-content-type-options":
+      return contentTypeOptionsProfile(value);
+    case "referrer-policy":
+      return referrerPolicyProfile(value);
+    case "permissions-policy":
+      return undefined; // feature map; compared by permissionsPolicyWeaker
+  }
+}
+
+function isDisabled(profile: ProtectionProfile): boolean {
+  return profile.every((dimension) => dimension === 0);
+}
+
+/**
+ * True if `candidate` is strictly weaker than `baseline` on any dimension.
+ */
+function isWeaker(baseline: ProtectionProfile, candidate: ProtectionProfile): boolean {
+  return baseline.some((dimension, i) => candidate[i] < dimension);
+}
+
+/**
+ * Describe how protection moved between two values of a security header.
+ *
+ * - "removed": enforced on one side, missing or disabled on the other
+ * - "weakened": enforced on both, one side weaker on at least one dimension
+ * - "changed": values differ without a protection change
+ *
+ * @param header - Security header name (lowercase)
+ * @param left - Left value (undefined if absent)
+ * @param right - Right value (undefined if absent)
+ * @returns Drift kind, or undefined if values are identical
+ */
+export function securityHeaderDriftKind(
+  header: SecurityHeaderKey,
+  left?: string,
+  right?: string
+): "removed" | "weakened" | "changed" | undefined {
+  if (left === right) return undefined;
+
+  if (header === "permissions-policy") {
+    const leftEmpty = Object.keys(parsePermissionsPolicy(left)).length === 0;
+    const rightEmpty = Object.keys(parsePermissionsPolicy(right)).length === 0;
+    if (leftEmpty !== rightEmpty) return "removed";
+    if (permissionsPolicyWeaker(left ?? "", right ?? "") || permissionsPolicyWeaker(right ?? "", left ?? "")) {
+      return "weakened";
+    }
+    return "changed";
+  }
+
+  const leftProfile = left === undefined ? undefined : protectionProfile(header, left);
+  const rightProfile = right === undefined ? undefined : protectionProfile(header, right);
+
+  const leftOff = !leftProfile || isDisabled(leftProfile);
+  const rightOff = !rightProfile || isDisabled(rightProfile);
+
+  if (leftOff && rightOff) return "changed";
+  if (leftOff !== rightOff) return "removed";
+
+  if (isWeaker(leftProfile!, rightProfile!) || isWeaker(rightProfile!, leftProfile!)) {
+    return "weakened";
+  }
+
+  return "changed";
+}
+
+/**
+ * Classify security header drift severity.
+ *
+ * critical = protection removed/disabled on one side
+ * warn = protection weakened on one side
+ * info = value changed without a protection change
+ *
+ * @param header - Security header name (lowercase)
+ * @param left - Left value (undefined if absent)
+ * @param right - Right value (undefined if absent)
+ * @returns Severity (info if values are identical)
+ */
+export function classifySecurityHeaderDrift(
+  header: SecurityHeaderKey,
+  left?: string,
+  right?: string
+): Severity {
+  switch (securityHeaderDriftKind(header, left, right)) {
+    case "removed":
+      return "critical";
+    case "weakened":
+      return "warn";
+    default:
+      return "info";
+  }
+}
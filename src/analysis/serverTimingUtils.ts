@@ -0,0 +1,146 @@
+/**
+ * Server-Timing Drift Utilities
+ *
+ * Responsibility: Diff Server-Timing metrics of the final responses and classify SERVER_TIMING_DRIFT.
+ *
+ * Design:
+ * 1. computeServerTimingDiff keys metrics by name; any dur or desc difference is recorded
+ * 2. A duration difference counts as drift only if it is significant by the TIMING_DRIFT thresholds
+ *    (larger duration >= MIN_TIMING_LEFT_MS and classifyTimingDrift at warn or above), since
+ *    metric durations jitter on every request
+ * 3. Severity: the worst significant duration drift; metrics on one side only and description
+ *    changes (e.g., cache "HIT" vs "MISS") are info
+ * 4. The metric with the largest significant duration delta is the one a finding points at
+ */
+
+import type { ServerTimingDiff, Severity } from "@shared/diff";
+import type { ServerTimingMetric } from "@shared/signal";
+import { SEVERITY_ORDER, TIMING_CONSTANTS } from "./constants";
+import { classifyTimingDrift } from "./timingUtils";
+
+/**
+ * A metric whose duration drifted significantly.
+ */
+export type ServerTimingDurationDrift = {
+  name: string;
+  left: number;
+  right: number;
+  severity: Severity;
+};
+
+/**
+ * Compute the Server-Timing diff between two final responses.
+ *
+ * @param left - Left metrics (undefined if the header was absent)
+ * @param right - Right metrics (undefined if the header was absent)
+ * @returns ServerTimingDiff, or undefined if the metrics are identical
+ */
+export function computeServerTimingDiff(
+  left: ServerTimingMetric[] = [],
+  right: ServerTimingMetric[] = []
+): ServerTimingDiff | undefined {
+  const leftByName = new Map(left.map((metric) => [metric.name, metric]));
+  const rightByName = new Map(right.map((metric) => [metric.name, metric]));
+  const names = Array.from(new Set([...leftByName.keys(), ...rightByName.keys()])).sort();
+
+  const diff: ServerTimingDiff = { added: {}, removed: {}, changed: {} };
+  for (const name of names) {
+    const leftMetric = leftByName.get(name);
+    const rightMetric = rightByName.get(name);
+
+    if (!leftMetric) {
+      diff.added[name] = rightMetric!;
+    } else if (!rightMetric) {
+      diff.removed[name] = leftMetric;
+    } else if (leftMetric.dur !== rightMetric.dur || leftMetric.desc !== rightMetric.desc) {
+      diff.changed[name] = { left: leftMetric, right: rightMetric };
+    }
+  }
+
+  const hasChanges =
+    Object.keys(diff.added).length > 0 ||
+    Object.keys(diff.removed).length > 0 ||
+    Object.keys(diff.changed).length > 0;
+
+  return hasChanges ? diff : undefined;
+}
+
+/**
+ * List metrics whose duration drifted significantly, largest delta first.
+ */
+export function serverTimingDurationDrifts(diff: ServerTimingDiff): ServerTimingDurationDrift[] {
+  const drifts: ServerTimingDurationDrift[] = [];
+  for (const [name, { left, right }] of Object.entries(diff.changed)) {
+    if (left.dur === undefined || right.dur === undefined || left.dur === right.dur) continue;
+    if (Math.max(left.dur, right.dur) < TIMING_CONSTANTS.MIN_TIMING_LEFT_MS) continue;
+
+    const severity = classifyTimingDrift(left.dur, right.dur);
+    if (severity !== "info") {
+      drifts.push({ name, left: left.dur, right: right.dur, severity });
+    }
+  }
+
+  const delta = (drift: ServerTimingDurationDrift) => Math.abs(drift.right - drift.left);
+  return drifts.sort((a, b) => delta(b) - delta(a) || (a.name < b.name ? -1 : 1));
+}
+
+/**
+ * Metrics with a description change, sorted by name.
+ */
+function descriptionChanges(diff: ServerTimingDiff): string[] {
+  return Object.keys(diff.changed)
+    .filter((name) => diff.changed[name].left.desc !== diff.changed[name].right.desc)
+    .sort();
+}
+
+/**
+ * List evidence keys (kinds of drift) for a Server-Timing diff; empty if nothing is significant.
+ *
+ * @returns Sorted keys: "desc", "dur", "presence"
+ */
+export function serverTimingDiffKeys(diff: ServerTimingDiff): string[] {
+  const keys: string[] = [];
+  if (descriptionChanges(diff).length > 0) keys.push("desc");
+  if (serverTimingDurationDrifts(diff).length > 0) keys.push("dur");
+  if (Object.keys(diff.added).length > 0 || Object.keys(diff.removed).length > 0) keys.push("presence");
+  return keys;
+}
+
+/**
+ * Classify Server-Timing drift severity (worst significant duration drift, otherwise info).
+ */
+export function classifyServerTimingDrift(diff: ServerTimingDiff): Severity {
+  let severity: Severity = "info";
+  for (const drift of serverTimingDurationDrifts(diff)) {
+    if (SEVERITY_ORDER[drift.severity] < SEVERITY_ORDER[severity]) severity = drift.severity;
+  }
+  return severity;
+}
+
+/**
+ * Describe the significant parts of a Server-Timing diff for finding evidence.
+ * Example: "db 12ms vs 480ms; cache desc HIT vs MISS; queue on right only"
+ */
+export function describeServerTimingDrift(diff: ServerTimingDiff): string {
+  const parts = serverTimingDurationDrifts(diff).map((drift) => `${drift.name} ${drift.left}ms vs ${drift.right}ms`);
+  for (const name of descriptionChanges(diff)) {
+    const { left, right } = diff.changed[name];
+    parts.push(`${name} desc ${left.desc ?? "none"} vs ${right.desc ?? "none"}`);
+  }
+  for (const name of Object.keys(diff.removed)) parts.push(`${name} on left only`);
+  for (const name of Object.keys(diff.added)) parts.push(`${name} on right only`);
+  return parts.join("; ");
+}
+
+/**
+ * Metric names involved in the significant parts of a Server-Timing diff, sorted.
+ */
+export function serverTimingDriftNames(diff: ServerTimingDiff): string[] {
+  const names = new Set([
+    ...serverTimingDurationDrifts(diff).map((drift) => drift.name),
+    ...descriptionChanges(diff),
+    ...Object.keys(diff.added),
+    ...Object.keys(diff.removed),
+  ]);
+  return Array.from(names).sort();
+}
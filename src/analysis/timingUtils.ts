@@ -0,0 +1,135 @@
+/**
+ * Timing Distribution Utilities
+ *
+ * Responsibility: Summarize multi-sample probe durations into a TimingDistribution
+ * and derive the noise band used by timing drift classification.
+ *
+ * Design:
+ * 1. summarizeTimingSamples computes min/p50/p95/max using the nearest-rank method
+ * 2. Failed samples (network failures) are counted but excluded from percentiles
+ * 3. timingNoiseMs is the wider of the two sides' p95 - p50 spreads; classifyTimingDrift treats deltas
+ *    within it as noise
+ * 4. Phase breakdowns (redirects / TTFB / body) are compared only when both sides recorded one;
+ *    the phase with the largest absolute delta is where the drift comes from
+ *
+ * Reference: Phase-B2.md §4.E1
+ */
+
+import type { Change, Severity, TimingPhase, TimingPhasesDiff } from "@shared/diff";
+import { changed, unchanged } from "@shared/diff";
+import type { TimingDistribution, TimingPhases } from "@shared/signal";
+import { TIMING_CONSTANTS } from "./constants";
+
+/**
+ * Nearest-rank percentile over an ascending-sorted array.
+ *
+ * @param sorted - Durations sorted ascending (must be non-empty)
+ * @param percentile - Percentile in (0, 100]
+ * @returns Value at the nearest rank
+ */
+function nearestRank(sorted: number[], percentile: number): number {
+  const rank = Math.ceil((percentile / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+/**
+ * Summarize timing samples into a distribution.
+ *
+ * Example:
+ * - [120, 100, 900] → { minMs: 100, p50Ms: 120, p95Ms: 900, maxMs: 900 }
+ *
+ * @param samplesMs - Durations of successful samples, in capture order
+ * @param failedSamples - Number of samples that ended in a network failure
+ * @returns TimingDistribution, or undefined if there are no successful samples
+ */
+export function summarizeTimingSamples(
+  samplesMs: number[],
+  failedSamples: number = 0
+): TimingDistribution | undefined {
+  if (samplesMs.length === 0) return undefined;
+
+  const sorted = [...samplesMs].sort((a, b) => a - b);
+
+  return {
+    samplesMs: [...samplesMs],
+    minMs: sorted[0],
+    p50Ms: nearestRank(sorted, 50),
+    p95Ms: nearestRank(sorted, 95),
+    maxMs: sorted[sorted.length - 1],
+    failedSamples,
+  };
+}
+
+/**
+ * Noise band for comparing two distributions.
+ *
+ * A median delta within the wider p95 - p50 spread is indistinguishable from
+ * per-request jitter (e.g., one slow cold start), so it should not be escalated.
+ *
+ * @param left - Left distribution
+ * @param right - Right distribution
+ * @returns Noise band in milliseconds (>= 0)
+ */
+export function timingNoiseMs(left: TimingDistribution, right: TimingDistribution): number {
+  return Math.max(left.p95Ms - left.p50Ms, right.p95Ms - right.p50Ms, 0);
+}
+
+/**
+ * Classify timing drift severity.
+ * Inputs are single durations, medians (p50) in multi-sample mode, or Server-Timing metric durations.
+ * info = delta within noiseMs (sample spread), or min duration is 0
+ * critical = ratio >= 2.5 or delta >= 1000ms
+ * warn = ratio >= 1.5 or delta >= 300ms
+ * info = otherwise
+ */
+export function classifyTimingDrift(left: number, right: number, noiseMs: number = 0): Severity {
+  const maxDuration = Math.max(left, right);
+  const minDuration = Math.min(left, right);
+
+  if (minDuration === 0) return "info";
+
+  const ratio = maxDuration / minDuration;
+  const delta = maxDuration - minDuration;
+
+  if (delta <= noiseMs) return "info";
+
+  if (ratio >= TIMING_CONSTANTS.RATIO_CRIT || delta >= TIMING_CONSTANTS.ABS_DELTA_CRIT_MS) return "critical";
+  if (ratio >= TIMING_CONSTANTS.RATIO_WARN || delta >= TIMING_CONSTANTS.ABS_DELTA_WARN_MS) return "warn";
+
+  return "info";
+}
+
+/**
+ * Compare per-phase durations.
+ *
+ * @returns TimingPhasesDiff, or undefined if either side has no breakdown (e.g., imported)
+ */
+export function compareTimingPhases(left?: TimingPhases, right?: TimingPhases): TimingPhasesDiff | undefined {
+  if (!left || !right) return undefined;
+
+  const change = (key: keyof TimingPhases): Change<number> =>
+    left[key] === right[key] ? unchanged(left[key]) : changed(left[key], right[key]);
+  return { redirectMs: change("redirectMs"), ttfbMs: change("ttfbMs"), bodyMs: change("bodyMs") };
+}
+
+/**
+ * Phase with the largest absolute delta (ties go to the earlier phase).
+ *
+ * Example:
+ * - redirects 0 vs 0, ttfb 120 vs 900, body 30 vs 60 → "ttfb"
+ *
+ * @returns Phase, or undefined if no phase differs
+ */
+export function dominantTimingPhase(phases: TimingPhasesDiff): TimingPhase | undefined {
+  const deltas: Array<[TimingPhase, number]> = [
+    ["redirects", Math.abs((phases.redirectMs.right ?? 0) - (phases.redirectMs.left ?? 0))],
+    ["ttfb", Math.abs((phases.ttfbMs.right ?? 0) - (phases.ttfbMs.left ?? 0))],
+    ["body", Math.abs((phases.bodyMs.right ?? 0) - (phases.bodyMs.left ?? 0))],
+  ];
+
+  let dominant: [TimingPhase, number] | undefined;
+  for (const entry of deltas) {
+    if (entry[1] > 0 && (!dominant || entry[1] > dominant[1])) dominant = entry;
+  }
+  return dominant?.[0];
+}
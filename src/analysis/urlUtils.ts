@@ -1,5 +1,5 @@
 // src/analysis/urlUtils.ts
-import type { Severity } from "@shared/diff";
+import type { Severity, UrlNormalizationRules } from "@shared/diff";
 
 export interface UrlComponents {
   scheme?: string;
@@ -67,4 +67,86 @@ export function classifyUrlDrift(
   }
 
   return { severity, diffTypes };
-}
\ No newline at end of file
+}
+
+function isIgnoredParam(name: string, ignoreParams: string[]): boolean {
+  let decoded = name;
+  try {
+    decoded = decodeURIComponent(name.replace(/\+/g, " "));
+  } catch {
+    // Keep the raw name
+  }
+  return ignoreParams.some((pattern) =>
+    pattern.endsWith("*") ? decoded.startsWith(pattern.slice(0, -1)) : decoded === pattern
+  );
+}
+
+/**
+ * Apply normalization rules to a URL string.
+ * Works on the raw string (not URL serialization), so only the requested rules change it;
+ * scheme, host and fragment are kept as-is.
+ */
+export function normalizeUrl(url: string, rules: UrlNormalizationRules): string {
+  const hashIndex = url.indexOf("#");
+  const fragment = hashIndex >= 0 ? url.slice(hashIndex) : "";
+  const beforeHash = hashIndex >= 0 ? url.slice(0, hashIndex) : url;
+  const queryIndex = beforeHash.indexOf("?");
+  let base = queryIndex >= 0 ? beforeHash.slice(0, queryIndex) : beforeHash;
+  const query = queryIndex >= 0 ? beforeHash.slice(queryIndex + 1) : undefined;
+
+  const authorityMatch = base.match(/^([a-z][a-z0-9+.-]*):\/\/([^/]*)/i);
+  let prefix = "";
+  if (authorityMatch) {
+    const scheme = authorityMatch[1].toLowerCase();
+    let authority = authorityMatch[2];
+    if (rules.removeDefaultPort) {
+      const defaultPort = scheme === "http" ? ":80" : scheme === "https" ? ":443" : undefined;
+      if (defaultPort && authority.endsWith(defaultPort)) {
+        authority = authority.slice(0, -defaultPort.length);
+      }
+    }
+    prefix = `${authorityMatch[1]}://${authority}`;
+    base = base.slice(authorityMatch[0].length);
+  }
+
+  let path = base;
+  if (rules.collapseSlashes) path = path.replace(/\/{2,}/g, "/");
+  if (rules.ignoreTrailingSlash) {
+    // "https://host" and "https://host/" are the same root
+    path = path.replace(/\/+$/, "");
+    if (prefix && path === "") path = "/";
+  }
+
+  let normalizedQuery = "";
+  if (query !== undefined) {
+    let params = query.split("&").filter((pair) => pair !== "");
+    if (rules.ignoreParams && rules.ignoreParams.length > 0) {
+      const ignore = rules.ignoreParams;
+      params = params.filter((pair) => !isIgnoredParam(pair.split("=")[0], ignore));
+    }
+    if (rules.sortParams) {
+      // Stable sort by name keeps the relative order of repeated parameters
+      params = params
+        .map((pair, index) => ({ pair, name: pair.split("=")[0], index }))
+        .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : a.index - b.index))
+        .map((entry) => entry.pair);
+    }
+    normalizedQuery = params.length > 0 ? `?${params.join("&")}` : "";
+  }
+
+  return prefix + path + normalizedQuery + fragment;
+}
+
+/**
+ * Human-readable list of active normalization rules, for finding evidence.
+ * Example: "ignoreParams(utm_*, cb), sortParams, ignoreTrailingSlash"
+ */
+export function describeUrlNormalization(rules: UrlNormalizationRules): string {
+  const parts: string[] = [];
+  if (rules.ignoreParams && rules.ignoreParams.length > 0) parts.push(`ignoreParams(${rules.ignoreParams.join(", ")})`);
+  if (rules.sortParams) parts.push("sortParams");
+  if (rules.collapseSlashes) parts.push("collapseSlashes");
+  if (rules.removeDefaultPort) parts.push("removeDefaultPort");
+  if (rules.ignoreTrailingSlash) parts.push("ignoreTrailingSlash");
+  return parts.join(", ");
+}
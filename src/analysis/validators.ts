@@ -11,7 +11,7 @@
  */
 
 import type { DiffEvidence } from "@shared/diff";
-import { VALID_EVIDENCE_KEYS } from "./constants";
+import { HEADER_NAME_PATTERN, VALID_EVIDENCE_KEYS } from "./constants";
 
 export type ValidEvidenceSection = keyof typeof VALID_EVIDENCE_KEYS;
 
@@ -31,17 +31,17 @@ function isSorted(keys: string[]): boolean {
 }
 
 /**
- * Check if header name is valid (lowercase, alphanumeric and hyphens only).
+ * Check if header name is valid (lowercase RFC 7230 token).
  *
- * Valid format: lowercase letters, digits, hyphens (e.g., "cache-control", "x-custom-header")
- * Invalid: uppercase letters, spaces, other special characters
+ * Valid format: lowercase token characters (e.g., "cache-control", "x-custom-header", "x_region")
+ * Invalid: uppercase letters, spaces, separators such as ":" or "/"
  *
  * @param name - Header name to validate
  * @returns true if valid header name, false otherwise
  */
 function isValidHeaderName(name: string): boolean {
-  // Must be lowercase and contain only alphanumeric characters and hyphens
-  return name === name.toLowerCase() && /^[a-z0-9\-]+$/.test(name);
+  // Must be lowercase and accepted by request validation (captureHeaders names may contain "_" or ".")
+  return name === name.toLowerCase() && HEADER_NAME_PATTERN.test(name);
 }
 
 /**
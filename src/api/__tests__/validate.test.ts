@@ -3,7 +3,7 @@
  * Per CLAUDE.md section 5.2.
  */
 
-import { validateProbeUrl } from '../validate';
+import { validateProbeUrl, validateCompareOptions, validateHarDocument } from '../validate';
 
 describe('validateProbeUrl', () => {
   describe('Valid URLs', () => {
@@ -159,3 +159,346 @@ describe('validateProbeUrl', () => {
     });
   });
 });
+
+describe('validateCompareOptions', () => {
+  it('should accept missing options', () => {
+    expect(validateCompareOptions(undefined)).toEqual({ valid: true });
+  });
+
+  it('should accept and normalize a full option set', () => {
+    const result = validateCompareOptions({
+      method: 'post',
+      headers: { Accept: 'application/json' },
+      body: '{"q":1}',
+      timeoutMs: 5000,
+      maxRedirects: 3,
+    });
+    expect(result).toEqual({
+      valid: true,
+      options: {
+        method: 'POST',
+        headers: { accept: 'application/json' },
+        body: '{"q":1}',
+        timeoutMs: 5000,
+        maxRedirects: 3,
+      },
+    });
+  });
+
+  it('should reject non-object options', () => {
+    expect(validateCompareOptions('GET').valid).toBe(false);
+    expect(validateCompareOptions([]).valid).toBe(false);
+  });
+
+  it('should reject unknown methods', () => {
+    expect(validateCompareOptions({ method: 'TRACE' }).valid).toBe(false);
+  });
+
+  it('should reject credential headers', () => {
+    expect(validateCompareOptions({ headers: { Authorization: 'Bearer x' } }).valid).toBe(false);
+    expect(validateCompareOptions({ headers: { cookie: 'a=b' } }).valid).toBe(false);
+  });
+
+  it('should reject non-string header values', () => {
+    expect(validateCompareOptions({ headers: { accept: 1 } }).valid).toBe(false);
+  });
+
+  it('should reject a body with GET or no method', () => {
+    expect(validateCompareOptions({ body: 'x' }).valid).toBe(false);
+    expect(validateCompareOptions({ method: 'GET', body: 'x' }).valid).toBe(false);
+  });
+
+  it('should reject out-of-range timeouts and redirect limits', () => {
+    expect(validateCompareOptions({ timeoutMs: 10 }).valid).toBe(false);
+    expect(validateCompareOptions({ timeoutMs: 60000 }).valid).toBe(false);
+    expect(validateCompareOptions({ maxRedirects: -1 }).valid).toBe(false);
+    expect(validateCompareOptions({ maxRedirects: 1.5 }).valid).toBe(false);
+  });
+
+  it('should allow maxRedirects of 0', () => {
+    expect(validateCompareOptions({ maxRedirects: 0 })).toEqual({
+      valid: true,
+      options: { maxRedirects: 0 },
+    });
+  });
+
+  it('should accept samples within range', () => {
+    expect(validateCompareOptions({ samples: 5 })).toEqual({
+      valid: true,
+      options: { samples: 5 },
+    });
+  });
+
+  it('should reject out-of-range or non-integer samples', () => {
+    expect(validateCompareOptions({ samples: 0 }).valid).toBe(false);
+    expect(validateCompareOptions({ samples: 11 }).valid).toBe(false);
+    expect(validateCompareOptions({ samples: 2.5 }).valid).toBe(false);
+  });
+
+  it('should accept a preflight and default requestMethod to the request method', () => {
+    expect(
+      validateCompareOptions({
+        method: 'post',
+        body: '{}',
+        preflight: { origin: 'https://app.example.com', requestHeaders: ['X-Trace-Id', 'content-type', 'x-trace-id'] },
+      })
+    ).toEqual({
+      valid: true,
+      options: {
+        method: 'POST',
+        body: '{}',
+        preflight: {
+          origin: 'https://app.example.com',
+          requestMethod: 'POST',
+          requestHeaders: ['content-type', 'x-trace-id'],
+        },
+      },
+    });
+  });
+
+  it('should uppercase an explicit preflight requestMethod', () => {
+    const result = validateCompareOptions({ preflight: { origin: 'http://localhost:3000', requestMethod: 'delete' } });
+    expect(result).toEqual({
+      valid: true,
+      options: { preflight: { origin: 'http://localhost:3000', requestMethod: 'DELETE' } },
+    });
+  });
+
+  it('should reject invalid preflight origins', () => {
+    expect(validateCompareOptions({ preflight: {} }).valid).toBe(false);
+    expect(validateCompareOptions({ preflight: { origin: 'app.example.com' } }).valid).toBe(false);
+    expect(validateCompareOptions({ preflight: { origin: 'https://app.example.com/path' } }).valid).toBe(false);
+    expect(validateCompareOptions({ preflight: { origin: 'ftp://app.example.com' } }).valid).toBe(false);
+  });
+
+  it('should reject invalid preflight methods and header names', () => {
+    const origin = 'https://app.example.com';
+    expect(validateCompareOptions({ preflight: { origin, requestMethod: 'PU T' } }).valid).toBe(false);
+    expect(validateCompareOptions({ preflight: { origin, requestHeaders: 'x-a' } }).valid).toBe(false);
+    expect(validateCompareOptions({ preflight: { origin, requestHeaders: ['bad header'] } }).valid).toBe(false);
+  });
+
+  it('should accept negotiation variants and lowercase header names', () => {
+    expect(
+      validateCompareOptions({
+        variants: [
+          { name: 'json', headers: { Accept: 'application/json' } },
+          { name: 'de', headers: { 'accept-language': 'de-DE' } },
+        ],
+      })
+    ).toEqual({
+      valid: true,
+      options: {
+        variants: [
+          { name: 'json', headers: { accept: 'application/json' } },
+          { name: 'de', headers: { 'accept-language': 'de-DE' } },
+        ],
+      },
+    });
+  });
+
+  it('should reject invalid negotiation variants', () => {
+    expect(validateCompareOptions({ variants: [] }).valid).toBe(false);
+    expect(validateCompareOptions({ variants: [{ name: 'bad name', headers: { accept: '*/*' } }] }).valid).toBe(false);
+    expect(
+      validateCompareOptions({
+        variants: [
+          { name: 'a', headers: { accept: '*/*' } },
+          { name: 'a', headers: { accept: 'text/html' } },
+        ],
+      }).valid
+    ).toBe(false);
+    expect(validateCompareOptions({ variants: [{ name: 'a', headers: { 'x-custom': '1' } }] }).valid).toBe(false);
+    expect(validateCompareOptions({ variants: [{ name: 'a', headers: {} }] }).valid).toBe(false);
+    expect(
+      validateCompareOptions({ variants: Array.from({ length: 6 }, (_, i) => ({ name: `v${i}`, headers: { accept: '*/*' } })) })
+        .valid
+    ).toBe(false);
+  });
+});
+
+describe('validateCompareOptions captureHeaders', () => {
+  it('should normalize names and prefixes', () => {
+    expect(
+      validateCompareOptions({
+        captureHeaders: { names: ['X-Region', 'x-api-version', 'x-region'], prefixes: ['X-Feature-'] },
+      })
+    ).toEqual({
+      valid: true,
+      options: { captureHeaders: { names: ['x-api-version', 'x-region'], prefixes: ['x-feature-'] } },
+    });
+  });
+
+  it('should reject blocked names', () => {
+    for (const name of ['authorization', 'Cookie', 'set-cookie', 'proxy-authorization']) {
+      expect(validateCompareOptions({ captureHeaders: { names: [name] } })).toEqual({
+        valid: false,
+        reason: `Header cannot be captured: ${name.toLowerCase()}`,
+      });
+    }
+  });
+
+  it('should reject malformed capture options', () => {
+    expect(validateCompareOptions({ captureHeaders: [] }).valid).toBe(false);
+    expect(validateCompareOptions({ captureHeaders: {} }).valid).toBe(false);
+    expect(validateCompareOptions({ captureHeaders: { names: 'x-region' } }).valid).toBe(false);
+    expect(validateCompareOptions({ captureHeaders: { names: ['bad header'] } }).valid).toBe(false);
+    expect(validateCompareOptions({ captureHeaders: { prefixes: ['x'] } }).valid).toBe(false);
+    expect(
+      validateCompareOptions({ captureHeaders: { names: Array.from({ length: 21 }, (_, i) => `x-h${i}`) } }).valid
+    ).toBe(false);
+    expect(
+      validateCompareOptions({ captureHeaders: { prefixes: Array.from({ length: 6 }, (_, i) => `x-p${i}-`) } }).valid
+    ).toBe(false);
+  });
+});
+
+describe('validateCompareOptions urlNormalization', () => {
+  it('should keep active rules and sort ignored params', () => {
+    expect(
+      validateCompareOptions({
+        urlNormalization: { ignoreParams: ['utm_*', 'cb', 'utm_*'], sortParams: true, collapseSlashes: false },
+      })
+    ).toEqual({
+      valid: true,
+      options: { urlNormalization: { ignoreParams: ['cb', 'utm_*'], sortParams: true } },
+    });
+  });
+
+  it('should reject malformed rules', () => {
+    expect(validateCompareOptions({ urlNormalization: [] }).valid).toBe(false);
+    expect(validateCompareOptions({ urlNormalization: {} }).valid).toBe(false);
+    expect(validateCompareOptions({ urlNormalization: { sortParams: false } }).valid).toBe(false);
+    expect(validateCompareOptions({ urlNormalization: { sortParams: 'yes' } }).valid).toBe(false);
+    expect(validateCompareOptions({ urlNormalization: { ignoreParams: 'cb' } }).valid).toBe(false);
+    for (const name of ['', 'a b', 'a=b', '*utm', 'u*m']) {
+      expect(validateCompareOptions({ urlNormalization: { ignoreParams: [name] } }).valid).toBe(false);
+    }
+    expect(
+      validateCompareOptions({ urlNormalization: { ignoreParams: Array.from({ length: 21 }, (_, i) => `p${i}`) } })
+        .valid
+    ).toBe(false);
+  });
+});
+
+describe('validateCompareOptions hostMappings', () => {
+  it('should lowercase hostnames and labels', () => {
+    expect(
+      validateCompareOptions({
+        hostMappings: [
+          { left: 'Staging.Example.com', right: 'www.example.com' },
+          { left: 'api-staging', right: 'api' },
+        ],
+      })
+    ).toEqual({
+      valid: true,
+      options: {
+        hostMappings: [
+          { left: 'staging.example.com', right: 'www.example.com' },
+          { left: 'api-staging', right: 'api' },
+        ],
+      },
+    });
+  });
+
+  it('should reject malformed mappings', () => {
+    expect(validateCompareOptions({ hostMappings: [] }).valid).toBe(false);
+    expect(validateCompareOptions({ hostMappings: {} }).valid).toBe(false);
+    expect(validateCompareOptions({ hostMappings: [{ left: 'a.example.com' }] }).valid).toBe(false);
+    expect(validateCompareOptions({ hostMappings: [{ left: 'https://a.example.com', right: 'b.example.com' }] }).valid).toBe(false);
+    expect(validateCompareOptions({ hostMappings: [{ left: 'a.example.com', right: 'A.example.com' }] }).valid).toBe(false);
+    expect(validateCompareOptions({ hostMappings: [{ left: 'api-staging', right: 'api.example.com' }] }).valid).toBe(false);
+    expect(
+      validateCompareOptions({
+        hostMappings: [
+          { left: 'api-staging', right: 'api' },
+          { left: 'api-staging', right: 'api-prod' },
+        ],
+      }).valid
+    ).toBe(false);
+    expect(
+      validateCompareOptions({
+        hostMappings: Array.from({ length: 11 }, (_, i) => ({ left: `s${i}`, right: `p${i}` })),
+      }).valid
+    ).toBe(false);
+  });
+});
+
+describe('validateCompareOptions retry', () => {
+  it('should accept a retry policy and sort retryOn', () => {
+    expect(
+      validateCompareOptions({
+        retry: { maxAttempts: 3, backoffMs: 500, backoffMultiplier: 1.5, retryOn: ['timeout', 'connection_reset', 'timeout'] },
+      })
+    ).toEqual({
+      valid: true,
+      options: {
+        retry: { maxAttempts: 3, backoffMs: 500, backoffMultiplier: 1.5, retryOn: ['connection_reset', 'timeout'] },
+      },
+    });
+  });
+
+  it('should reject out-of-range values and non-transient codes', () => {
+    expect(validateCompareOptions({ retry: 3 }).valid).toBe(false);
+    expect(validateCompareOptions({ retry: {} }).valid).toBe(false);
+    expect(validateCompareOptions({ retry: { maxAttempts: 6 } }).valid).toBe(false);
+    expect(validateCompareOptions({ retry: { maxAttempts: 2, backoffMs: 10000 } }).valid).toBe(false);
+    expect(validateCompareOptions({ retry: { maxAttempts: 2, backoffMultiplier: 0.5 } }).valid).toBe(false);
+    expect(validateCompareOptions({ retry: { maxAttempts: 2, retryOn: [] } }).valid).toBe(false);
+    expect(validateCompareOptions({ retry: { maxAttempts: 2, retryOn: ['redirect_loop'] } })).toEqual({
+      valid: false,
+      reason: 'Error code is not retryable: redirect_loop',
+    });
+  });
+});
+
+describe('validateHarDocument', () => {
+  const entry = {
+    startedDateTime: '2026-01-01T00:00:00.000Z',
+    time: 42,
+    request: { method: 'GET', url: 'https://example.com/' },
+    response: { status: 200, headers: [] },
+  };
+
+  it('should accept a minimal HAR', () => {
+    const har = { log: { version: '1.2', entries: [entry] } };
+    expect(validateHarDocument(har)).toEqual({ valid: true, har });
+  });
+
+  it('should reject non-HAR values', () => {
+    expect(validateHarDocument(null).valid).toBe(false);
+    expect(validateHarDocument('har').valid).toBe(false);
+    expect(validateHarDocument({ entries: [entry] }).valid).toBe(false);
+  });
+
+  it('should reject empty or oversized entry lists', () => {
+    expect(validateHarDocument({ log: { entries: [] } }).valid).toBe(false);
+    expect(validateHarDocument({ log: { entries: Array.from({ length: 5001 }, () => entry) } }).valid).toBe(false);
+  });
+
+  it('should reject malformed entries with their index', () => {
+    const result = validateHarDocument({
+      log: { entries: [entry, { ...entry, response: { status: '200' } }] },
+    });
+    expect(result).toEqual({ valid: false, reason: 'HAR entry 1 is malformed' });
+    expect(validateHarDocument({ log: { entries: [{ ...entry, request: { url: 'https://example.com/' } }] } }).valid).toBe(
+      false
+    );
+    expect(validateHarDocument({ log: { entries: [{ ...entry, response: { status: 200, headers: {} } }] } }).valid).toBe(
+      false
+    );
+  });
+
+  it('should reject malformed headers and network errors', () => {
+    const malformed = (overrides: Record<string, unknown>) =>
+      validateHarDocument({ log: { entries: [{ ...entry, ...overrides }] } });
+
+    expect(malformed({ response: { status: 200, headers: [{ name: 1, value: 'x' }] } }).valid).toBe(false);
+    expect(malformed({ response: { status: 200, headers: [null] } }).valid).toBe(false);
+    expect(malformed({ response: { status: 200, headers: [{ name: 'vary' }] } }).valid).toBe(false);
+    expect(malformed({ request: { ...entry.request, headers: [{ name: 'accept', value: 1 }] } }).valid).toBe(false);
+    expect(malformed({ request: { ...entry.request, headers: 'accept' } }).valid).toBe(false);
+    expect(malformed({ response: { status: 0 }, _error: 42 }).valid).toBe(false);
+    expect(malformed({ response: { status: 0 }, _error: 'net::ERR_NAME_NOT_RESOLVED' }).valid).toBe(true);
+  });
+});
@@ -1,8 +1,16 @@
 import type { Env } from "../env";
-import type { CompareError } from "@shared/api";
-import type { CfContextSnapshot } from "@shared/signal";
+import type { CompareError, CompareCredentialRefs, CompareOptions } from "@shared/api";
+import type { CfContextSnapshot, ProbeSide, SignalEnvelope } from "@shared/signal";
+import type { HarDocument } from "@shared/har";
 import { computePairKeySHA256 } from "../utils/pairKey";
-import { validateProbeUrl } from "./validate";
+import { validateProbeUrl, validateCompareOptions, validateHarDocument } from "./validate";
+import { credentialAllowsUrl, isValidCredentialName, resolveCredential } from "../providers/credentials";
+import { HarImportProvider, defaultHarUrl } from "../providers/harImport";
+
+/**
+ * Upper bound on a HAR comparison request body (two HAR files).
+ */
+const MAX_HAR_REQUEST_BYTES = 20 * 1024 * 1024;
 
 /** Build CORS headers using env.ALLOWED_ORIGIN (falls back to "*" for local dev). */
 function getCorsHeaders(env: Env): Record<string, string> {
@@ -78,6 +86,11 @@ export async function router(request: Request, env: Env): Promise<Response> {
     return handlePostCompare(request, env);
   }
 
+  // POST /api/compare/har - Start a comparison from HAR captures
+  if (request.method === "POST" && url.pathname === "/api/compare/har") {
+    return handlePostHarCompare(request, env);
+  }
+
   // GET /api/compare/:comparisonId - Poll comparison status
   if (request.method === "GET" && url.pathname.match(/^\/api\/compare\/[^/]+$/)) {
     const comparisonId = url.pathname.split("/")[3];
@@ -100,11 +113,11 @@ export async function router(request: Request, env: Env): Promise<Response> {
 /**
  * POST /api/compare - Start comparison workflow.
  *
- * Request: CompareRequest { leftUrl, rightUrl, leftLabel?, rightLabel? }
+ * Request: CompareRequest { leftUrl, rightUrl, leftLabel?, rightLabel?, options?, credentials? }
  * Response: { comparisonId: string } (status 202 Accepted)
  *
  * Steps:
- * 1. Validate URLs (format, scheme, IP ranges)
+ * 1. Validate URLs (format, scheme, IP ranges), request options, and credential references
  * 2. Compute pairKey (SHA-256 hash of sorted URLs)
  * 3. Generate comparisonId = ${pairKeyPrefix}-${uuid} (stable routing)
  * 4. Start Workflow with stable inputs (including optional labels)
@@ -118,6 +131,8 @@ async function handlePostCompare(request: Request, env: Env): Promise<Response>
       rightUrl?: string;
       leftLabel?: string;
       rightLabel?: string;
+      options?: unknown;
+      credentials?: unknown;
     };
     const { leftUrl, rightUrl, leftLabel, rightLabel } = body;
     console.log(`[Worker] Parsed URLs: left="${leftUrl}", right="${rightUrl}"`);
@@ -157,6 +172,30 @@ async function handlePostCompare(request: Request, env: Env): Promise<Response>
       );
     }
 
+    // Validate request options (method, headers, body, timeout, redirect limit)
+    const optionsValidation = validateCompareOptions(body.options);
+    if (!optionsValidation.valid) {
+      console.log(`[Worker] ERROR: Invalid options: ${optionsValidation.reason}`);
+      return errorResponse(
+        env,
+        { code: "invalid_request", message: `Invalid options: ${optionsValidation.reason}` },
+        400
+      );
+    }
+    const options = optionsValidation.options;
+
+    // Validate credential references (names only; values stay in Worker secrets)
+    const credentialsValidation = validateCredentialRefs(body.credentials, env, { left: leftUrl, right: rightUrl });
+    if (!credentialsValidation.valid) {
+      console.log(`[Worker] ERROR: Invalid credentials: ${credentialsValidation.reason}`);
+      return errorResponse(
+        env,
+        { code: "invalid_request", message: `Invalid credentials: ${credentialsValidation.reason}` },
+        400
+      );
+    }
+    const credentials = credentialsValidation.credentials;
+
     // Compute pairKey using SHA-256
     console.log(`[Worker] Computing pairKey...`);
     const pairKey = await computePairKeySHA256(leftUrl, rightUrl);
@@ -188,6 +227,8 @@ async function handlePostCompare(request: Request, env: Env): Promise<Response>
         rightLabel,
         pairKey: pairKeyPrefix,
         runnerContext,
+        options,
+        credentials,
       },
     });
 
@@ -207,6 +248,172 @@ async function handlePostCompare(request: Request, env: Env): Promise<Response>
   }
 }
 
+/**
+ * Validate one side of a HAR comparison.
+ * A HAR side resolves its URL (default: first entry) and must contain an entry for it;
+ * a live side must pass the usual SSRF checks.
+ */
+function validateHarCompareSide(
+  side: ProbeSide,
+  value: unknown
+):
+  | { valid: true; url: string; har?: HarDocument }
+  | { valid: false; code: CompareError["code"]; reason: string } {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { valid: false, code: "invalid_request", reason: `${side} must be an object` };
+  }
+  const raw = value as { har?: unknown; url?: unknown };
+
+  if (raw.url !== undefined && typeof raw.url !== "string") {
+    return { valid: false, code: "invalid_request", reason: `${side}.url must be a string` };
+  }
+
+  if (raw.har === undefined) {
+    if (!raw.url) {
+      return { valid: false, code: "invalid_request", reason: `${side} needs a har or a url` };
+    }
+    const validation = validateProbeUrl(raw.url);
+    if (!validation.valid) {
+      return {
+        valid: false,
+        code: classifyValidationError(validation.reason),
+        reason: `Invalid ${side}.url: ${validation.reason}`,
+      };
+    }
+    return { valid: true, url: raw.url };
+  }
+
+  const harValidation = validateHarDocument(raw.har);
+  if (!harValidation.valid) {
+    return { valid: false, code: "invalid_request", reason: `Invalid ${side}.har: ${harValidation.reason}` };
+  }
+  const har = harValidation.har;
+
+  const entryUrl = raw.url ?? defaultHarUrl(har);
+  if (!entryUrl || !har.log.entries.some((entry) => entry.request.url === entryUrl)) {
+    return { valid: false, code: "invalid_request", reason: `${side}.har has no entry for ${entryUrl}` };
+  }
+  try {
+    if (!["http:", "https:"].includes(new URL(entryUrl).protocol)) throw new Error();
+  } catch {
+    return { valid: false, code: "invalid_url", reason: `${side}.har entry URL must be http(s)` };
+  }
+
+  return { valid: true, url: entryUrl, har };
+}
+
+/**
+ * POST /api/compare/har - Start a comparison from HAR captures.
+ *
+ * Request: HarCompareRequest { left, right, leftLabel?, rightLabel?, options? }
+ *   where each side is { har, url? } (imported) or { url } (probed live)
+ * Response: { comparisonId: string } (status 202 Accepted), polled via GET /api/compare/:id
+ *
+ * Steps:
+ * 1. Validate sides (at least one HAR), HAR structure, live URLs and options
+ * 2. Build envelopes for HAR sides here (HarImportProvider); only envelopes enter the Workflow
+ * 3. Start the normal Workflow with those envelopes as input.imported
+ *    (diff, classify, explain and storage are unchanged)
+ */
+async function handlePostHarCompare(request: Request, env: Env): Promise<Response> {
+  try {
+    console.log(`[Worker] POST /api/compare/har received`);
+
+    const declaredLength = Number(request.headers.get("content-length") ?? "0");
+    if (declaredLength > MAX_HAR_REQUEST_BYTES) {
+      return errorResponse(
+        env,
+        { code: "har_too_large", message: `Request body exceeds ${MAX_HAR_REQUEST_BYTES} bytes` },
+        413
+      );
+    }
+    const text = await request.text();
+    if (new TextEncoder().encode(text).byteLength > MAX_HAR_REQUEST_BYTES) {
+      return errorResponse(
+        env,
+        { code: "har_too_large", message: `Request body exceeds ${MAX_HAR_REQUEST_BYTES} bytes` },
+        413
+      );
+    }
+
+    let body: { left?: unknown; right?: unknown; leftLabel?: string; rightLabel?: string; options?: unknown };
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return errorResponse(env, { code: "invalid_request", message: "Request body must be JSON" }, 400);
+    }
+
+    const left = validateHarCompareSide("left", body.left);
+    if (!left.valid) {
+      return errorResponse(env, { code: left.code, message: left.reason }, 400);
+    }
+    const right = validateHarCompareSide("right", body.right);
+    if (!right.valid) {
+      return errorResponse(env, { code: right.code, message: right.reason }, 400);
+    }
+    if (!left.har && !right.har) {
+      return errorResponse(
+        env,
+        { code: "invalid_request", message: "At least one side must be a HAR (use /api/compare for two URLs)" },
+        400
+      );
+    }
+
+    const optionsValidation = validateCompareOptions(body.options);
+    if (!optionsValidation.valid) {
+      return errorResponse(
+        env,
+        { code: "invalid_request", message: `Invalid options: ${optionsValidation.reason}` },
+        400
+      );
+    }
+    const options: CompareOptions | undefined = optionsValidation.options;
+    if ((options?.samples ?? 1) > 1 || options?.variants) {
+      return errorResponse(
+        env,
+        { code: "invalid_request", message: "options.samples and options.variants require two live URLs" },
+        400
+      );
+    }
+
+    // HAR sides carry no runner context: the capture came from a browser, not this Worker
+    const imported: Partial<Record<ProbeSide, SignalEnvelope>> = {};
+    if (left.har) imported.left = await new HarImportProvider(left.har).probe(left.url, undefined, options);
+    if (right.har) imported.right = await new HarImportProvider(right.har).probe(right.url, undefined, options);
+
+    const pairKey = await computePairKeySHA256(left.url, right.url);
+    const pairKeyPrefix = pairKey.substring(0, 40);
+    const comparisonId = `${pairKeyPrefix}-${crypto.randomUUID()}`;
+    const runnerContext = extractRunnerContext(request);
+
+    await env.COMPARE_WORKFLOW.create({
+      id: comparisonId,
+      params: {
+        comparisonId,
+        leftUrl: left.url,
+        rightUrl: right.url,
+        leftLabel: body.leftLabel,
+        rightLabel: body.rightLabel,
+        pairKey: pairKeyPrefix,
+        runnerContext,
+        options,
+        imported,
+      },
+    });
+
+    console.log(`[Worker] Started HAR workflow ${comparisonId} for ${left.url} <-> ${right.url}`);
+
+    return jsonResponse(env, { comparisonId }, { status: 202 });
+  } catch (err) {
+    console.error(`[Worker] CAUGHT ERROR:`, err);
+    return errorResponse(
+      env,
+      { code: "internal_error", message: `Failed to start HAR comparison: ${String(err)}` },
+      500
+    );
+  }
+}
+
 /**
  * GET /api/demo/staging — Simulates a clean staging environment.
  *
@@ -262,6 +469,45 @@ async function handleDemoProduction(): Promise<Response> {
   );
 }
 
+/**
+ * Validate per-side credential references and check each resolves to a configured secret
+ * bound to that side's URL origin. Missing and unbound names fail with the same reason,
+ * so callers cannot probe which credential names exist.
+ * Only names are returned; resolved secret values are discarded here.
+ */
+function validateCredentialRefs(
+  credentials: unknown,
+  env: Env,
+  urls: { left: string; right: string }
+): { valid: true; credentials?: CompareCredentialRefs } | { valid: false; reason: string } {
+  if (credentials === undefined || credentials === null) {
+    return { valid: true };
+  }
+
+  if (typeof credentials !== "object" || Array.isArray(credentials)) {
+    return { valid: false, reason: "credentials must be an object" };
+  }
+
+  const raw = credentials as Record<string, unknown>;
+  const refs: CompareCredentialRefs = {};
+
+  for (const side of ["left", "right"] as const) {
+    const name = raw[side];
+    if (name === undefined) continue;
+
+    if (!isValidCredentialName(name)) {
+      return { valid: false, reason: `${side} credential name must match [A-Za-z0-9_]{1,64}` };
+    }
+    const credential = resolveCredential(env, name);
+    if (!credential || !credentialAllowsUrl(credential, urls[side])) {
+      return { valid: false, reason: `${side} credential is not available for ${side}Url` };
+    }
+    refs[side] = name;
+  }
+
+  return { valid: true, credentials: refs };
+}
+
 /**
  * Map validation failure reasons to CompareErrorCode.
  */
@@ -1,3 +1,9 @@
+import type { CompareOptions, NegotiationHeader, NegotiationVariant } from "@shared/api";
+import type { HostMapping, UrlNormalizationRules } from "@shared/diff";
+import type { CorsPreflightOptions, HeaderCaptureOptions, ProbeErrorCode, RetryPolicy } from "@shared/signal";
+import type { HarDocument, HarEntry } from "@shared/har";
+import { BLOCKED_CAPTURE_HEADERS, HEADER_NAME_PATTERN } from "../analysis/constants";
+
 /**
  * URL validation for SSRF protection and input validation.
  * Per CLAUDE.md section 5.2.
@@ -267,3 +273,604 @@ function parseIpv4(hostname: string): [number, number, number, number] | null {
 
   return octets as [number, number, number, number];
 }
+
+/**
+ * Bounds and blocklist for per-comparison request options.
+ */
+const ALLOWED_METHODS = ["GET", "HEAD", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"] as const;
+const MIN_TIMEOUT_MS = 1000;
+const MAX_TIMEOUT_MS = 30000;
+const MAX_REDIRECTS_LIMIT = 20;
+const MAX_REQUEST_HEADERS = 20;
+const MAX_REQUEST_BODY_BYTES = 64 * 1024;
+const MAX_TIMING_SAMPLES = 10;
+const MAX_NEGOTIATION_VARIANTS = 5;
+const MAX_NEGOTIATION_VALUE_LENGTH = 256;
+const NEGOTIATION_HEADERS = ["accept", "accept-encoding", "accept-language"] as const;
+const MAX_CAPTURE_HEADER_NAMES = 20;
+const MAX_CAPTURE_HEADER_PREFIXES = 5;
+const MIN_CAPTURE_PREFIX_LENGTH = 2;
+const MAX_IGNORED_URL_PARAMS = 20;
+const MAX_URL_PARAM_NAME_LENGTH = 100;
+const MAX_HOST_MAPPINGS = 10;
+const MAX_RETRY_ATTEMPTS = 5;
+const MAX_RETRY_BACKOFF_MS = 5000;
+const MAX_RETRY_BACKOFF_MULTIPLIER = 4;
+const RETRYABLE_ERROR_CODES: ProbeErrorCode[] = [
+  "connection_refused",
+  "connection_reset",
+  "dns_error",
+  "fetch_error",
+  "timeout",
+  "tls_error",
+];
+const URL_NORMALIZATION_FLAGS = ["sortParams", "collapseSlashes", "removeDefaultPort", "ignoreTrailingSlash"] as const;
+
+/**
+ * Request headers that may not be set via options.
+ * - Credentials would be persisted in the envelope (request snapshot)
+ * - Hop-by-hop / connection-level headers are controlled by the runtime
+ */
+const BLOCKED_REQUEST_HEADERS = new Set([
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "host",
+  "content-length",
+  "connection",
+  "transfer-encoding",
+]);
+
+/**
+ * Validate CORS preflight options.
+ * requestMethod defaults to the main request method (or GET); requestHeaders are lowercased,
+ * deduplicated and sorted.
+ */
+function validatePreflightOptions(
+  preflight: unknown,
+  method: CompareOptions["method"]
+): { valid: true; preflight: CorsPreflightOptions } | { valid: false; reason: string } {
+  if (typeof preflight !== "object" || preflight === null || Array.isArray(preflight)) {
+    return { valid: false, reason: "options.preflight must be an object" };
+  }
+
+  const raw = preflight as Record<string, unknown>;
+
+  if (typeof raw.origin !== "string") {
+    return { valid: false, reason: "options.preflight.origin must be a string" };
+  }
+  let origin: URL;
+  try {
+    origin = new URL(raw.origin);
+  } catch {
+    return { valid: false, reason: "options.preflight.origin must be an http(s) origin" };
+  }
+  if (!["http:", "https:"].includes(origin.protocol) || origin.origin !== raw.origin) {
+    return { valid: false, reason: "options.preflight.origin must be an http(s) origin" };
+  }
+
+  let requestMethod: string = method ?? "GET";
+  if (raw.requestMethod !== undefined) {
+    if (typeof raw.requestMethod !== "string" || !/^[A-Za-z]{1,20}$/.test(raw.requestMethod)) {
+      return { valid: false, reason: "options.preflight.requestMethod must be a method token" };
+    }
+    requestMethod = raw.requestMethod.toUpperCase();
+  }
+
+  const result: CorsPreflightOptions = { origin: raw.origin, requestMethod };
+
+  if (raw.requestHeaders !== undefined) {
+    if (!Array.isArray(raw.requestHeaders) || raw.requestHeaders.length > MAX_REQUEST_HEADERS) {
+      return {
+        valid: false,
+        reason: `options.preflight.requestHeaders must be an array of at most ${MAX_REQUEST_HEADERS} names`,
+      };
+    }
+    const names = new Set<string>();
+    for (const name of raw.requestHeaders) {
+      if (typeof name !== "string" || !HEADER_NAME_PATTERN.test(name.toLowerCase())) {
+        return { valid: false, reason: `Invalid preflight header name: ${String(name)}` };
+      }
+      names.add(name.toLowerCase());
+    }
+    result.requestHeaders = Array.from(names).sort();
+  }
+
+  return { valid: true, preflight: result };
+}
+
+/**
+ * Validate the content negotiation matrix.
+ * Variant names are unique (letters, digits, "_" and "-"); header names are lowercased.
+ */
+function validateNegotiationVariants(
+  variants: unknown
+): { valid: true; variants: NegotiationVariant[] } | { valid: false; reason: string } {
+  if (!Array.isArray(variants) || variants.length === 0 || variants.length > MAX_NEGOTIATION_VARIANTS) {
+    return {
+      valid: false,
+      reason: `options.variants must be an array of 1 to ${MAX_NEGOTIATION_VARIANTS} variants`,
+    };
+  }
+
+  const names = new Set<string>();
+  const result: NegotiationVariant[] = [];
+
+  for (const variant of variants) {
+    if (typeof variant !== "object" || variant === null || Array.isArray(variant)) {
+      return { valid: false, reason: "Each variant must be an object" };
+    }
+    const raw = variant as Record<string, unknown>;
+
+    if (typeof raw.name !== "string" || !/^[A-Za-z0-9_-]{1,32}$/.test(raw.name)) {
+      return { valid: false, reason: "Variant name must be 1-32 letters, digits, '_' or '-'" };
+    }
+    if (names.has(raw.name)) {
+      return { valid: false, reason: `Duplicate variant name: ${raw.name}` };
+    }
+    names.add(raw.name);
+
+    if (typeof raw.headers !== "object" || raw.headers === null || Array.isArray(raw.headers)) {
+      return { valid: false, reason: `Variant ${raw.name}: headers must be an object` };
+    }
+    const headers: NegotiationVariant["headers"] = {};
+    for (const [name, value] of Object.entries(raw.headers as Record<string, unknown>)) {
+      const lowerName = name.toLowerCase() as NegotiationHeader;
+      if (!NEGOTIATION_HEADERS.includes(lowerName)) {
+        return { valid: false, reason: `Variant ${raw.name}: header is not negotiable: ${lowerName}` };
+      }
+      if (typeof value !== "string" || value.length > MAX_NEGOTIATION_VALUE_LENGTH) {
+        return {
+          valid: false,
+          reason: `Variant ${raw.name}: ${lowerName} must be a string of at most ${MAX_NEGOTIATION_VALUE_LENGTH} characters`,
+        };
+      }
+      headers[lowerName] = value;
+    }
+    if (Object.keys(headers).length === 0) {
+      return { valid: false, reason: `Variant ${raw.name}: at least one header is required` };
+    }
+
+    result.push({ name: raw.name, headers });
+  }
+
+  return { valid: true, variants: result };
+}
+
+/**
+ * Validate the custom header capture option.
+ * Names and prefixes are lowercased, deduplicated and sorted; blocked names are rejected
+ * (blocked names matched by a prefix are skipped at capture time).
+ */
+function validateCaptureHeaders(
+  capture: unknown
+): { valid: true; captureHeaders: HeaderCaptureOptions } | { valid: false; reason: string } {
+  if (typeof capture !== "object" || capture === null || Array.isArray(capture)) {
+    return { valid: false, reason: "options.captureHeaders must be an object" };
+  }
+  const raw = capture as Record<string, unknown>;
+  const result: HeaderCaptureOptions = {};
+
+  for (const field of ["names", "prefixes"] as const) {
+    const value = raw[field];
+    if (value === undefined) continue;
+
+    const max = field === "names" ? MAX_CAPTURE_HEADER_NAMES : MAX_CAPTURE_HEADER_PREFIXES;
+    if (!Array.isArray(value) || value.length > max) {
+      return { valid: false, reason: `options.captureHeaders.${field} must be an array of at most ${max} entries` };
+    }
+
+    const entries = new Set<string>();
+    for (const entry of value) {
+      const lower = typeof entry === "string" ? entry.toLowerCase() : "";
+      if (!HEADER_NAME_PATTERN.test(lower)) {
+        return { valid: false, reason: `Invalid header name in options.captureHeaders.${field}: ${String(entry)}` };
+      }
+      if (field === "names" && BLOCKED_CAPTURE_HEADERS.has(lower)) {
+        return { valid: false, reason: `Header cannot be captured: ${lower}` };
+      }
+      if (field === "prefixes" && lower.length < MIN_CAPTURE_PREFIX_LENGTH) {
+        return {
+          valid: false,
+          reason: `options.captureHeaders.prefixes entries must be at least ${MIN_CAPTURE_PREFIX_LENGTH} characters`,
+        };
+      }
+      entries.add(lower);
+    }
+    if (entries.size > 0) {
+      result[field] = Array.from(entries).sort();
+    }
+  }
+
+  if (!result.names && !result.prefixes) {
+    return { valid: false, reason: "options.captureHeaders needs names or prefixes" };
+  }
+  return { valid: true, captureHeaders: result };
+}
+
+/**
+ * Validate URL normalization rules.
+ * ignoreParams entries are deduplicated and sorted; "*" is allowed only as a trailing prefix wildcard.
+ */
+function validateUrlNormalization(
+  rules: unknown
+): { valid: true; urlNormalization: UrlNormalizationRules } | { valid: false; reason: string } {
+  if (typeof rules !== "object" || rules === null || Array.isArray(rules)) {
+    return { valid: false, reason: "options.urlNormalization must be an object" };
+  }
+  const raw = rules as Record<string, unknown>;
+  const result: UrlNormalizationRules = {};
+
+  if (raw.ignoreParams !== undefined) {
+    if (!Array.isArray(raw.ignoreParams) || raw.ignoreParams.length > MAX_IGNORED_URL_PARAMS) {
+      return {
+        valid: false,
+        reason: `options.urlNormalization.ignoreParams must be an array of at most ${MAX_IGNORED_URL_PARAMS} entries`,
+      };
+    }
+    const names = new Set<string>();
+    for (const entry of raw.ignoreParams) {
+      if (
+        typeof entry !== "string" ||
+        entry.length > MAX_URL_PARAM_NAME_LENGTH ||
+        !/^[^\s&=#*]+\*?$/.test(entry)
+      ) {
+        return { valid: false, reason: `Invalid parameter name in options.urlNormalization.ignoreParams: ${String(entry)}` };
+      }
+      names.add(entry);
+    }
+    if (names.size > 0) {
+      result.ignoreParams = Array.from(names).sort();
+    }
+  }
+
+  for (const flag of URL_NORMALIZATION_FLAGS) {
+    const value = raw[flag];
+    if (value === undefined) continue;
+    if (typeof value !== "boolean") {
+      return { valid: false, reason: `options.urlNormalization.${flag} must be a boolean` };
+    }
+    if (value) result[flag] = true;
+  }
+
+  if (!result.ignoreParams && !URL_NORMALIZATION_FLAGS.some((flag) => result[flag])) {
+    return { valid: false, reason: "options.urlNormalization needs at least one rule" };
+  }
+  return { valid: true, urlNormalization: result };
+}
+
+/**
+ * Validate host mappings. Hosts are lowercased; both sides of a mapping must be full hostnames
+ * or both single labels, and each left host may be mapped only once.
+ */
+function validateHostMappings(
+  mappings: unknown
+): { valid: true; hostMappings: HostMapping[] } | { valid: false; reason: string } {
+  if (!Array.isArray(mappings) || mappings.length === 0 || mappings.length > MAX_HOST_MAPPINGS) {
+    return { valid: false, reason: `options.hostMappings must be an array of 1 to ${MAX_HOST_MAPPINGS} mappings` };
+  }
+
+  const result: HostMapping[] = [];
+  const seen = new Set<string>();
+  for (const mapping of mappings) {
+    const raw = (typeof mapping === "object" && mapping !== null ? mapping : {}) as Record<string, unknown>;
+    const left = typeof raw.left === "string" ? raw.left.toLowerCase() : "";
+    const right = typeof raw.right === "string" ? raw.right.toLowerCase() : "";
+    const isHost = (value: string) => /^[a-z0-9-]+(\.[a-z0-9-]+)*$/.test(value);
+
+    if (!isHost(left) || !isHost(right)) {
+      return { valid: false, reason: "options.hostMappings entries need left and right hostnames" };
+    }
+    if (left === right) {
+      return { valid: false, reason: `Host mapping maps a host to itself: ${left}` };
+    }
+    if (left.includes(".") !== right.includes(".")) {
+      return { valid: false, reason: `Host mapping must pair two hostnames or two labels: ${left} ≈ ${right}` };
+    }
+    if (seen.has(left)) {
+      return { valid: false, reason: `Host is mapped more than once: ${left}` };
+    }
+    seen.add(left);
+    result.push({ left, right });
+  }
+  return { valid: true, hostMappings: result };
+}
+
+/**
+ * Validate a retry policy. retryOn is deduplicated and sorted; only transient network codes may be retried.
+ */
+function validateRetryPolicy(
+  retry: unknown
+): { valid: true; retry: RetryPolicy } | { valid: false; reason: string } {
+  if (typeof retry !== "object" || retry === null || Array.isArray(retry)) {
+    return { valid: false, reason: "options.retry must be an object" };
+  }
+  const raw = retry as Record<string, unknown>;
+
+  const isInteger = (value: unknown, min: number, max: number) =>
+    typeof value === "number" && Number.isInteger(value) && value >= min && value <= max;
+
+  if (!isInteger(raw.maxAttempts, 1, MAX_RETRY_ATTEMPTS)) {
+    return { valid: false, reason: `options.retry.maxAttempts must be an integer between 1 and ${MAX_RETRY_ATTEMPTS}` };
+  }
+  const result: RetryPolicy = { maxAttempts: raw.maxAttempts as number };
+
+  if (raw.backoffMs !== undefined) {
+    if (!isInteger(raw.backoffMs, 0, MAX_RETRY_BACKOFF_MS)) {
+      return { valid: false, reason: `options.retry.backoffMs must be an integer between 0 and ${MAX_RETRY_BACKOFF_MS}` };
+    }
+    result.backoffMs = raw.backoffMs as number;
+  }
+
+  if (raw.backoffMultiplier !== undefined) {
+    const multiplier = raw.backoffMultiplier;
+    if (typeof multiplier !== "number" || !(multiplier >= 1 && multiplier <= MAX_RETRY_BACKOFF_MULTIPLIER)) {
+      return {
+        valid: false,
+        reason: `options.retry.backoffMultiplier must be a number between 1 and ${MAX_RETRY_BACKOFF_MULTIPLIER}`,
+      };
+    }
+    result.backoffMultiplier = multiplier;
+  }
+
+  if (raw.retryOn !== undefined) {
+    if (!Array.isArray(raw.retryOn) || raw.retryOn.length === 0) {
+      return { valid: false, reason: "options.retry.retryOn must be a non-empty array of error codes" };
+    }
+    for (const code of raw.retryOn) {
+      if (!RETRYABLE_ERROR_CODES.includes(code as ProbeErrorCode)) {
+        return { valid: false, reason: `Error code is not retryable: ${String(code)}` };
+      }
+    }
+    result.retryOn = Array.from(new Set(raw.retryOn as ProbeErrorCode[])).sort();
+  }
+
+  return { valid: true, retry: result };
+}
+
+/**
+ * Validate per-comparison request options (CompareOptions).
+ *
+ * REJECTION CRITERIA:
+ * - Not an object
+ * - Unknown method
+ * - Headers not a string→string map, too many headers, invalid names, blocked names
+ * - Body not a string, body with GET/HEAD, body over 64KB
+ * - timeoutMs outside [1000, 30000] or non-integer
+ * - maxRedirects outside [0, 20] or non-integer
+ * - samples outside [1, 10] or non-integer
+ * - preflight without an http(s) origin, invalid request method or header names
+ * - variants not an array of up to 5 uniquely named accept / accept-encoding / accept-language sets
+ * - captureHeaders without names/prefixes, invalid names, blocked names (authorization, cookie, ...),
+ *   more than 20 names or 5 prefixes, prefixes under 2 characters
+ * - urlNormalization without an active rule, non-boolean flags, more than 20 ignoreParams,
+ *   ignoreParams entries with whitespace, "&", "=", "#" or a non-trailing "*"
+ * - hostMappings not an array of 1 to 10 { left, right } hostname (or label) pairs,
+ *   identity mappings, hostname paired with a label, a left host mapped twice
+ * - retry.maxAttempts outside [1, 5], backoffMs outside [0, 5000], backoffMultiplier outside [1, 4],
+ *   retryOn empty or naming a non-transient code (e.g., ssrf_blocked, redirect_loop)
+ *
+ * @param options - Raw options value from the request body (may be undefined)
+ * @returns { valid: true, options } or { valid: false, reason: string }
+ */
+export function validateCompareOptions(
+  options: unknown
+): { valid: true; options?: CompareOptions } | { valid: false; reason: string } {
+  if (options === undefined || options === null) {
+    return { valid: true };
+  }
+
+  if (typeof options !== "object" || Array.isArray(options)) {
+    return { valid: false, reason: "options must be an object" };
+  }
+
+  const raw = options as Record<string, unknown>;
+  const result: CompareOptions = {};
+
+  if (raw.method !== undefined) {
+    const method = typeof raw.method === "string" ? raw.method.toUpperCase() : raw.method;
+    if (!ALLOWED_METHODS.includes(method as (typeof ALLOWED_METHODS)[number])) {
+      return { valid: false, reason: `Unsupported method: ${String(raw.method)}` };
+    }
+    result.method = method as CompareOptions["method"];
+  }
+
+  if (raw.headers !== undefined) {
+    if (typeof raw.headers !== "object" || raw.headers === null || Array.isArray(raw.headers)) {
+      return { valid: false, reason: "options.headers must be an object" };
+    }
+    const entries = Object.entries(raw.headers as Record<string, unknown>);
+    if (entries.length > MAX_REQUEST_HEADERS) {
+      return { valid: false, reason: `Too many request headers (max ${MAX_REQUEST_HEADERS})` };
+    }
+    const headers: Record<string, string> = {};
+    for (const [name, value] of entries) {
+      const lowerName = name.toLowerCase();
+      if (!HEADER_NAME_PATTERN.test(lowerName)) {
+        return { valid: false, reason: `Invalid header name: ${name}` };
+      }
+      if (BLOCKED_REQUEST_HEADERS.has(lowerName)) {
+        return { valid: false, reason: `Header is not allowed: ${lowerName}` };
+      }
+      if (typeof value !== "string") {
+        return { valid: false, reason: `Header value must be a string: ${lowerName}` };
+      }
+      headers[lowerName] = value;
+    }
+    result.headers = headers;
+  }
+
+  if (raw.body !== undefined) {
+    if (typeof raw.body !== "string") {
+      return { valid: false, reason: "options.body must be a string" };
+    }
+    if (result.method === undefined || result.method === "GET" || result.method === "HEAD") {
+      return { valid: false, reason: "options.body requires a method other than GET/HEAD" };
+    }
+    if (new TextEncoder().encode(raw.body).byteLength > MAX_REQUEST_BODY_BYTES) {
+      return { valid: false, reason: `options.body exceeds ${MAX_REQUEST_BODY_BYTES} bytes` };
+    }
+    result.body = raw.body;
+  }
+
+  if (raw.timeoutMs !== undefined) {
+    if (
+      typeof raw.timeoutMs !== "number" ||
+      !Number.isInteger(raw.timeoutMs) ||
+      raw.timeoutMs < MIN_TIMEOUT_MS ||
+      raw.timeoutMs > MAX_TIMEOUT_MS
+    ) {
+      return {
+        valid: false,
+        reason: `options.timeoutMs must be an integer between ${MIN_TIMEOUT_MS} and ${MAX_TIMEOUT_MS}`,
+      };
+    }
+    result.timeoutMs = raw.timeoutMs;
+  }
+
+  if (raw.maxRedirects !== undefined) {
+    if (
+      typeof raw.maxRedirects !== "number" ||
+      !Number.isInteger(raw.maxRedirects) ||
+      raw.maxRedirects < 0 ||
+      raw.maxRedirects > MAX_REDIRECTS_LIMIT
+    ) {
+      return {
+        valid: false,
+        reason: `options.maxRedirects must be an integer between 0 and ${MAX_REDIRECTS_LIMIT}`,
+      };
+    }
+    result.maxRedirects = raw.maxRedirects;
+  }
+
+  if (raw.preflight !== undefined) {
+    const preflight = validatePreflightOptions(raw.preflight, result.method);
+    if (!preflight.valid) {
+      return preflight;
+    }
+    result.preflight = preflight.preflight;
+  }
+
+  if (raw.captureHeaders !== undefined) {
+    const capture = validateCaptureHeaders(raw.captureHeaders);
+    if (!capture.valid) {
+      return capture;
+    }
+    result.captureHeaders = capture.captureHeaders;
+  }
+
+  if (raw.variants !== undefined) {
+    const variants = validateNegotiationVariants(raw.variants);
+    if (!variants.valid) {
+      return variants;
+    }
+    result.variants = variants.variants;
+  }
+
+  if (raw.samples !== undefined) {
+    if (
+      typeof raw.samples !== "number" ||
+      !Number.isInteger(raw.samples) ||
+      raw.samples < 1 ||
+      raw.samples > MAX_TIMING_SAMPLES
+    ) {
+      return {
+        valid: false,
+        reason: `options.samples must be an integer between 1 and ${MAX_TIMING_SAMPLES}`,
+      };
+    }
+    result.samples = raw.samples;
+  }
+
+  if (raw.urlNormalization !== undefined) {
+    const normalization = validateUrlNormalization(raw.urlNormalization);
+    if (!normalization.valid) {
+      return normalization;
+    }
+    result.urlNormalization = normalization.urlNormalization;
+  }
+
+  if (raw.hostMappings !== undefined) {
+    const hostMappings = validateHostMappings(raw.hostMappings);
+    if (!hostMappings.valid) {
+      return hostMappings;
+    }
+    result.hostMappings = hostMappings.hostMappings;
+  }
+
+  if (raw.retry !== undefined) {
+    const retry = validateRetryPolicy(raw.retry);
+    if (!retry.valid) {
+      return retry;
+    }
+    result.retry = retry.retry;
+  }
+
+  return { valid: true, options: result };
+}
+
+const MAX_HAR_ENTRIES = 5000;
+
+/**
+ * Check an optional HAR headers list: an array of { name: string, value: string }.
+ */
+function isHarHeaderList(headers: unknown): boolean {
+  if (headers === undefined) return true;
+  return (
+    Array.isArray(headers) &&
+    headers.every(
+      (header) =>
+        typeof header === "object" &&
+        header !== null &&
+        typeof header.name === "string" &&
+        typeof header.value === "string"
+    )
+  );
+}
+
+/**
+ * Validate the structure of a HAR document (the subset the HAR import provider reads).
+ *
+ * REJECTION CRITERIA:
+ * - Not an object with log.entries
+ * - No entries, or more than 5000
+ * - An entry without startedDateTime, numeric time, request.url/method or numeric response.status
+ * - Request or response headers that are not an array of { name: string, value: string }
+ * - A non-string _error
+ *
+ * @param har - Raw HAR value from the request body
+ * @returns { valid: true, har } or { valid: false, reason: string }
+ */
+export function validateHarDocument(
+  har: unknown
+): { valid: true; har: HarDocument } | { valid: false; reason: string } {
+  const log = (har as { log?: { entries?: unknown } } | null)?.log;
+  if (typeof har !== "object" || har === null || typeof log !== "object" || log === null) {
+    return { valid: false, reason: "HAR must be an object with a log" };
+  }
+
+  const entries = log.entries;
+  if (!Array.isArray(entries) || entries.length === 0 || entries.length > MAX_HAR_ENTRIES) {
+    return { valid: false, reason: `HAR log.entries must be an array of 1 to ${MAX_HAR_ENTRIES} entries` };
+  }
+
+  for (const [index, entry] of entries.entries()) {
+    const e = entry as Partial<HarEntry> | null;
+    if (
+      typeof e !== "object" ||
+      e === null ||
+      typeof e.startedDateTime !== "string" ||
+      typeof e.time !== "number" ||
+      typeof e.request?.url !== "string" ||
+      typeof e.request?.method !== "string" ||
+      typeof e.response?.status !== "number" ||
+      !isHarHeaderList(e.request.headers) ||
+      !isHarHeaderList(e.response.headers) ||
+      (e._error !== undefined && typeof e._error !== "string")
+    ) {
+      return { valid: false, reason: `HAR entry ${index} is malformed` };
+    }
+  }
+
+  return { valid: true, har: har as HarDocument };
+}
@@ -17,4 +17,8 @@ export interface Env {
 
   // CORS origin lock. Set in wrangler.toml [vars]. Falls back to "*" for local dev.
   ALLOWED_ORIGIN?: string;
+
+  // Probe credentials (Worker secrets), referenced by name from CompareRequest.credentials.
+  // Set via: wrangler secret put PROBE_CREDENTIAL_<NAME>  (see src/providers/credentials.ts)
+  [key: `PROBE_CREDENTIAL_${string}`]: string | undefined;
 }
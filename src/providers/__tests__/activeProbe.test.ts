@@ -1,4 +1,7 @@
-import { ActiveProbeProvider } from "../activeProbe";
+import type { DnsResolution } from "@shared/signal";
+import { ActiveProbeProvider, classifyFetchError, liveTransport } from "../activeProbe";
+import type { DnsResolver } from "../dns";
+import { DohResolver } from "../dns";
 
 describe("ActiveProbeProvider", () => {
   let provider: ActiveProbeProvider;
@@ -143,6 +146,70 @@ describe("ActiveProbeProvider", () => {
   // CRITIQUE C: request.cf Fallback Tests (4+ tests)
   // ============================================
 
+  describe("SSRF Validation on Redirect Hops", () => {
+    test.each([
+      "http://127.0.0.1/admin",
+      "http://localhost:8080/",
+      "http://10.0.0.5/",
+      "http://169.254.169.254/latest/meta-data/",
+      "http://2130706433/",
+      "http://[::1]/",
+      "file:///etc/passwd",
+    ])("blocks a redirect to %s without fetching it", async (target) => {
+      const fetchSpy = jest.spyOn(globalThis, "fetch" as any).mockResolvedValueOnce(
+        new Response(null, { status: 302, headers: { location: target } })
+      );
+
+      const envelope = await provider.probe("https://example.com");
+
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      expect(envelope.result.ok).toBe(false);
+      if ("error" in envelope.result) {
+        expect(envelope.result.error.code).toBe("ssrf_blocked");
+      }
+
+      jest.restoreAllMocks();
+    });
+
+    test("carries the chain up to and including the blocked hop", async () => {
+      jest.spyOn(globalThis, "fetch" as any)
+        .mockResolvedValueOnce(
+          new Response(null, { status: 301, headers: { location: "https://www.example.com/" } })
+        )
+        .mockResolvedValueOnce(
+          new Response(null, { status: 302, headers: { location: "http://192.168.1.1/" } })
+        );
+
+      const envelope = await provider.probe("https://example.com");
+
+      if ("error" in envelope.result) {
+        expect(envelope.result.error.details).toMatchObject({ blockedUrl: "http://192.168.1.1/", hop: 2 });
+        expect(envelope.result.redirects?.map((hop) => hop.toUrl)).toEqual([
+          "https://www.example.com/",
+          "http://192.168.1.1/",
+        ]);
+      } else {
+        throw new Error("expected ssrf_blocked failure");
+      }
+
+      jest.restoreAllMocks();
+    });
+
+    test("allows redirects to public hosts", async () => {
+      jest.spyOn(globalThis, "fetch" as any)
+        .mockResolvedValueOnce(
+          new Response(null, { status: 301, headers: { location: "https://www.example.com/" } })
+        )
+        .mockResolvedValueOnce(new Response("OK", { status: 200 }));
+
+      const envelope = await provider.probe("https://example.com");
+
+      expect(envelope.result.ok).toBe(true);
+
+      jest.restoreAllMocks();
+    });
+  });
+
   describe("request.cf Fallback - Critique C", () => {
     test("provides safe defaults when cf is undefined", async () => {
       jest.spyOn(globalThis, "fetch" as any).mockResolvedValue(
@@ -280,6 +347,78 @@ describe("ActiveProbeProvider", () => {
       jest.restoreAllMocks();
     });
 
+    test("captures security headers in their own group", async () => {
+      jest.spyOn(globalThis, "fetch" as any).mockResolvedValue(
+        new Response("OK", {
+          status: 200,
+          headers: {
+            "x-frame-options": "DENY",
+            "strict-transport-security": "max-age=31536000",
+            "content-type": "text/html",
+          },
+        })
+      );
+
+      const envelope = await provider.probe("http://example.com");
+
+      if (envelope.result.ok) {
+        const security = envelope.result.response.headers.security!;
+        expect(Object.keys(security)).toEqual(["strict-transport-security", "x-frame-options"]);
+        expect(envelope.result.response.headers.core).not.toHaveProperty("x-frame-options");
+      }
+
+      jest.restoreAllMocks();
+    });
+
+    test("omits security group when no security headers are present", async () => {
+      jest.spyOn(globalThis, "fetch" as any).mockResolvedValue(
+        new Response("OK", { status: 200, headers: { "content-type": "text/html" } })
+      );
+
+      const envelope = await provider.probe("http://example.com");
+
+      if (envelope.result.ok) {
+        expect(envelope.result.response.headers.security).toBeUndefined();
+      }
+
+      jest.restoreAllMocks();
+    });
+
+    test("captures Set-Cookie attributes without values", async () => {
+      const headers = new Headers({ "content-type": "text/html" });
+      headers.append("set-cookie", "sid=s3cr3t; Path=/; Secure; HttpOnly; SameSite=Lax");
+      jest.spyOn(globalThis, "fetch" as any).mockResolvedValue(new Response("OK", { status: 200, headers }));
+
+      const envelope = await provider.probe("http://example.com");
+
+      if (envelope.result.ok) {
+        expect(envelope.result.response.headers.cookies).toEqual([
+          { name: "sid", path: "/", secure: true, httpOnly: true, sameSite: "lax", expires: false, partitioned: false },
+        ]);
+      }
+      expect(JSON.stringify(envelope)).not.toContain("s3cr3t");
+
+      jest.restoreAllMocks();
+    });
+
+    test("captures Server-Timing metrics", async () => {
+      const headers = new Headers({ "content-type": "text/html" });
+      headers.append("server-timing", 'db;dur=53.2;desc="Primary DB"');
+      headers.append("server-timing", "cache;desc=HIT");
+      jest.spyOn(globalThis, "fetch" as any).mockResolvedValue(new Response("OK", { status: 200, headers }));
+
+      const envelope = await provider.probe("http://example.com");
+
+      if (envelope.result.ok) {
+        expect(envelope.result.response.headers.serverTiming).toEqual([
+          { name: "cache", desc: "HIT" },
+          { name: "db", dur: 53.2, desc: "Primary DB" },
+        ]);
+      }
+
+      jest.restoreAllMocks();
+    });
+
     test("all keys are alphabetically sorted", async () => {
       jest.spyOn(globalThis, "fetch" as any).mockResolvedValue(
         new Response("OK", {
@@ -350,6 +489,20 @@ describe("ActiveProbeProvider", () => {
       jest.restoreAllMocks();
     });
 
+    test("clears the abort timer once the probe finishes", async () => {
+      jest.spyOn(globalThis, "fetch" as any).mockResolvedValue(new Response("OK", { status: 200 }));
+      const clearSpy = jest.spyOn(globalThis, "clearTimeout");
+      const setSpy = jest.spyOn(globalThis, "setTimeout");
+
+      await provider.probe("http://example.com");
+
+      const abortTimer = setSpy.mock.results[0]?.value;
+      expect(abortTimer).toBeDefined();
+      expect(clearSpy).toHaveBeenCalledWith(abortTimer);
+
+      jest.restoreAllMocks();
+    });
+
     test("early-exit during redirect chain when time budget exhausted", async () => {
       let callCount = 0;
 
@@ -424,7 +577,7 @@ describe("ActiveProbeProvider", () => {
 
       expect(envelope.result.ok).toBe(false);
       if (!envelope.result.ok && "error" in envelope.result) {
-        expect(envelope.result.error.code).toBe("fetch_error");
+        expect(envelope.result.error.code).toBe("redirect_loop");
         expect(envelope.result.error.message).toContain("loop");
       }
 
@@ -443,7 +596,7 @@ describe("ActiveProbeProvider", () => {
 
       expect(envelope.result.ok).toBe(false);
       if (!envelope.result.ok && "error" in envelope.result) {
-        expect(envelope.result.error.code).toBe("fetch_error");
+        expect(envelope.result.error.code).toBe("redirect_missing_location");
         expect(envelope.result.error.message).toContain("Location");
       }
 
@@ -480,13 +633,28 @@ describe("ActiveProbeProvider", () => {
       jest.restoreAllMocks();
     });
 
-    test("maps generic fetch errors to fetch_error code", async () => {
+    test("maps connection refusals to connection_refused code", async () => {
       jest.spyOn(globalThis, "fetch" as any).mockRejectedValue(
         new Error("Connection refused")
       );
 
       const envelope = await provider.probe("http://example.com");
 
+      expect(envelope.result.ok).toBe(false);
+      if (!envelope.result.ok && "error" in envelope.result) {
+        expect(envelope.result.error.code).toBe("connection_refused");
+      }
+
+      jest.restoreAllMocks();
+    });
+
+    test("maps generic fetch errors to fetch_error code", async () => {
+      jest.spyOn(globalThis, "fetch" as any).mockRejectedValue(
+        new Error("fetch failed")
+      );
+
+      const envelope = await provider.probe("http://example.com");
+
       expect(envelope.result.ok).toBe(false);
       if (!envelope.result.ok && "error" in envelope.result) {
         expect(envelope.result.error.code).toBe("fetch_error");
@@ -691,17 +859,887 @@ describe("ActiveProbeProvider", () => {
   });
 
   // ============================================
-  // Error Handling Tests
+  // Body Capture Tests (hash, length, truncation)
   // ============================================
 
-  describe("Error Handling", () => {
-    test("SSRF error includes validation details", async () => {
-      const envelope = await provider.probe("http://127.0.0.1");
+  describe("Body Capture", () => {
+    test("records SHA-256 hex digest and byte length of final body", async () => {
+      jest.spyOn(globalThis, "fetch" as any).mockResolvedValue(
+        new Response("hello", {
+          status: 200,
+          headers: { "content-type": "text/plain" },
+        })
+      );
 
-      if (!envelope.result.ok && "error" in envelope.result) {
-        expect(envelope.result.error.details).toBeDefined();
-        expect(envelope.result.error.details?.hostname).toBeDefined();
+      const envelope = await provider.probe("http://example.com");
+
+      if ("response" in envelope.result) {
+        expect(envelope.result.response.contentLength).toBe(5);
+        expect(envelope.result.response.bodyHash).toBe(
+          "2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824"
+        );
+        expect(envelope.result.response.bodyTruncated).toBeUndefined();
+      } else {
+        fail("Expected response field");
+      }
+
+      jest.restoreAllMocks();
+    });
+
+    test("hashes empty bodies deterministically", async () => {
+      jest.spyOn(globalThis, "fetch" as any).mockResolvedValue(
+        new Response(null, { status: 204 })
+      );
+
+      const envelope = await provider.probe("http://example.com");
+
+      if ("response" in envelope.result) {
+        expect(envelope.result.response.contentLength).toBe(0);
+        expect(envelope.result.response.bodyHash).toBe(
+          "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855"
+        );
+      } else {
+        fail("Expected response field");
+      }
+
+      jest.restoreAllMocks();
+    });
+
+    test("captures body of final response after redirects", async () => {
+      jest.spyOn(globalThis, "fetch" as any)
+        .mockResolvedValueOnce(
+          new Response("moved", {
+            status: 301,
+            headers: { location: "http://example.com/final" },
+          })
+        )
+        .mockResolvedValueOnce(new Response("final body", { status: 200 }));
+
+      const envelope = await provider.probe("http://example.com");
+
+      if ("response" in envelope.result) {
+        expect(envelope.result.response.contentLength).toBe("final body".length);
+      } else {
+        fail("Expected response field");
+      }
+
+      jest.restoreAllMocks();
+    });
+
+    test("truncates bodies larger than the size cap", async () => {
+      const big = new Uint8Array(1024 * 1024 + 10).fill(97);
+      jest.spyOn(globalThis, "fetch" as any).mockResolvedValue(
+        new Response(big, { status: 200 })
+      );
+
+      const envelope = await provider.probe("http://example.com");
+
+      if ("response" in envelope.result) {
+        expect(envelope.result.response.contentLength).toBe(1024 * 1024);
+        expect(envelope.result.response.bodyTruncated).toBe(true);
+        expect(envelope.result.response.bodyHash).toMatch(/^[0-9a-f]{64}$/);
+      } else {
+        fail("Expected response field");
+      }
+
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe("JSON Body Fingerprint", () => {
+    test("fingerprints JSON bodies without capturing values", async () => {
+      jest.spyOn(globalThis, "fetch" as any).mockResolvedValue(
+        new Response(JSON.stringify({ user: { id: 7, email: "a@example.com" }, roles: ["admin"] }), {
+          status: 200,
+          headers: { "content-type": "application/json; charset=utf-8" },
+        })
+      );
+
+      const envelope = await provider.probe("http://example.com");
+
+      if ("response" in envelope.result) {
+        const json = envelope.result.response.bodyFingerprint?.json;
+        expect(json?.paths).toEqual({
+          $: "object",
+          "$.roles": "array",
+          "$.roles[]": "string",
+          "$.user": "object",
+          "$.user.email": "string",
+          "$.user.id": "number",
+        });
+        expect(json?.arrayLengths).toEqual({ "$.roles": 1 });
+        expect(JSON.stringify(envelope)).not.toContain("a@example.com");
+      } else {
+        fail("Expected response field");
+      }
+
+      jest.restoreAllMocks();
+    });
+
+    test("skips non-JSON content types and invalid JSON", async () => {
+      jest.spyOn(globalThis, "fetch" as any)
+        .mockResolvedValueOnce(
+          new Response('{"a":1}', { status: 200, headers: { "content-type": "text/plain" } })
+        )
+        .mockResolvedValueOnce(
+          new Response("{oops", { status: 200, headers: { "content-type": "application/json" } })
+        );
+
+      const plain = await provider.probe("http://example.com");
+      const invalid = await provider.probe("http://example.com");
+
+      for (const envelope of [plain, invalid]) {
+        if ("response" in envelope.result) {
+          expect(envelope.result.response.bodyFingerprint).toBeUndefined();
+        } else {
+          fail("Expected response field");
+        }
+      }
+
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe("HTML Build Fingerprint", () => {
+    test("fingerprints HTML bodies against the final URL", async () => {
+      jest.spyOn(globalThis, "fetch" as any).mockResolvedValue(
+        new Response('<title>Home</title><script src="/app.123.js"></script>', {
+          status: 200,
+          headers: { "content-type": "text/html; charset=utf-8" },
+        })
+      );
+
+      const envelope = await provider.probe("http://example.com");
+
+      if ("response" in envelope.result) {
+        const html = envelope.result.response.bodyFingerprint?.html;
+        expect(html?.title).toBe("Home");
+        expect(html?.scripts).toEqual(["/app.123.js"]);
+      } else {
+        fail("Expected response field");
       }
+
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe("Platform Headers", () => {
+    test("captures target platform markers on the envelope", async () => {
+      jest.spyOn(globalThis, "fetch" as any).mockResolvedValue(
+        new Response("OK", {
+          status: 200,
+          headers: { server: "cloudflare", "cf-ray": "8a1b2c3d4e5f6789-SJC", "cf-cache-status": "DYNAMIC" },
+        })
+      );
+
+      const envelope = await provider.probe("http://example.com");
+
+      expect(envelope.platform).toEqual({ server: "cloudflare", edgeColo: "SJC", cacheStatus: "DYNAMIC" });
+
+      jest.restoreAllMocks();
+    });
+
+    test("omits platform when no marker headers are present", async () => {
+      jest.spyOn(globalThis, "fetch" as any).mockResolvedValue(
+        new Response("OK", { status: 200, headers: { "content-type": "text/plain" } })
+      );
+
+      const envelope = await provider.probe("http://example.com");
+
+      expect(envelope.platform).toBeUndefined();
+
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe("Custom Header Capture", () => {
+    test("captures requested names and prefixes into the custom group", async () => {
+      jest.spyOn(globalThis, "fetch" as any).mockResolvedValue(
+        new Response("OK", {
+          status: 200,
+          headers: {
+            "content-type": "text/plain",
+            "X-API-Version": "2024-06",
+            "x-feature-checkout": "on",
+            "x-feature-search": "off",
+            "x-region": "eu-west",
+            "x-request-id": "abc",
+          },
+        })
+      );
+
+      const envelope = await provider.probe("http://example.com", undefined, {
+        captureHeaders: { names: ["x-api-version", "x-region"], prefixes: ["x-feature-"] },
+      });
+
+      expect(envelope.request?.captureHeaders).toEqual({
+        names: ["x-api-version", "x-region"],
+        prefixes: ["x-feature-"],
+      });
+      if (!("response" in envelope.result)) throw new Error("expected response");
+      const custom = envelope.result.response.headers.custom;
+      expect(custom).toEqual({
+        "x-api-version": "2024-06",
+        "x-feature-checkout": "on",
+        "x-feature-search": "off",
+        "x-region": "eu-west",
+      });
+      expect(Object.keys(custom!)).toEqual(Object.keys(custom!).sort());
+
+      jest.restoreAllMocks();
+    });
+
+    test("never captures blocked headers, even by prefix", async () => {
+      const headers = new Headers({ "x-api-key": "secret", "x-api-version": "1" });
+      headers.append("set-cookie", "sid=secret");
+      jest.spyOn(globalThis, "fetch" as any).mockResolvedValue(new Response("OK", { status: 200, headers }));
+
+      const envelope = await provider.probe("http://example.com", undefined, {
+        captureHeaders: { prefixes: ["x-api-", "set-"] },
+      });
+
+      if (!("response" in envelope.result)) throw new Error("expected response");
+      expect(envelope.result.response.headers.custom).toEqual({ "x-api-version": "1" });
+      expect(JSON.stringify(envelope)).not.toContain("secret");
+
+      jest.restoreAllMocks();
+    });
+
+    test("omits the custom group without a capture option", async () => {
+      jest.spyOn(globalThis, "fetch" as any).mockResolvedValue(
+        new Response("OK", { status: 200, headers: { "x-region": "eu-west" } })
+      );
+
+      const envelope = await provider.probe("http://example.com");
+
+      if (!("response" in envelope.result)) throw new Error("expected response");
+      expect(envelope.result.response.headers.custom).toBeUndefined();
+
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe("Redaction", () => {
+    test("masks secrets in the redirect chain and lists the redacted fields", async () => {
+      jest.spyOn(globalThis, "fetch" as any)
+        .mockResolvedValueOnce(
+          new Response(null, {
+            status: 302,
+            headers: { location: "https://example.com/callback?code=abc123&lang=en" },
+          })
+        )
+        .mockResolvedValueOnce(new Response("OK", { status: 200, headers: { "content-type": "text/plain" } }));
+
+      const envelope = await provider.probe("https://example.com/login");
+
+      expect(envelope.result.redirects?.[0].toUrl).toBe("https://example.com/callback?code=[REDACTED]&lang=en");
+      expect(envelope.result.redirects?.[0].headers?.core.location).toBe(
+        "https://example.com/callback?code=[REDACTED]&lang=en"
+      );
+      if ("response" in envelope.result) {
+        expect(envelope.result.response.finalUrl).toBe("https://example.com/callback?code=[REDACTED]&lang=en");
+      }
+      expect(envelope.redactions?.map((r) => r.field)).toEqual([
+        "result.redirects[0].headers.core.location",
+        "result.redirects[0].toUrl",
+        "result.response.finalUrl",
+      ]);
+
+      jest.restoreAllMocks();
+    });
+
+    test("logs only redacted values", async () => {
+      jest.spyOn(globalThis, "fetch" as any)
+        .mockResolvedValueOnce(
+          new Response(null, { status: 302, headers: { location: "https://example.com/cb?code=abc123" } })
+        )
+        .mockResolvedValueOnce(new Response("OK", { status: 200 }));
+      const logSpy = jest.spyOn(console, "log").mockImplementation(() => undefined);
+
+      await provider.probe("https://example.com/login?token=s3cr3t");
+
+      const logged = logSpy.mock.calls.map((args) => args.join(" ")).join("\n");
+      expect(logged).toContain("[ActiveProbe] URL:");
+      expect(logged).not.toContain("s3cr3t");
+      expect(logged).not.toContain("abc123");
+
+      jest.restoreAllMocks();
+    });
+
+    test("leaves envelopes without secrets unmarked", async () => {
+      jest.spyOn(globalThis, "fetch" as any).mockResolvedValue(
+        new Response("OK", { status: 200, headers: { "content-type": "text/plain" } })
+      );
+
+      const envelope = await provider.probe("https://example.com/?page=2");
+
+      expect(envelope.redactions).toBeUndefined();
+
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe("DNS Capture", () => {
+    const resolverFor = (records: Record<string, Omit<DnsResolution, "host">>): DnsResolver & { resolve: jest.Mock } => ({
+      resolve: jest.fn(async (host: string) => ({ host, ...(records[host] ?? { error: "NXDOMAIN" }) })),
+    });
+
+    test("records the requested and final host resolutions", async () => {
+      const resolver = resolverFor({
+        "example.com": { a: ["203.0.113.1"] },
+        "www.example.com": { cname: ["edge.example.net"], a: ["203.0.113.9"] },
+      });
+      jest.spyOn(globalThis, "fetch" as any)
+        .mockResolvedValueOnce(new Response(null, { status: 301, headers: { location: "https://www.example.com/" } }))
+        .mockResolvedValueOnce(new Response("OK", { status: 200, headers: { "content-type": "text/plain" } }));
+
+      const envelope = await new ActiveProbeProvider(liveTransport, resolver).probe("https://example.com/");
+
+      expect(envelope.dns).toEqual({
+        requested: { host: "example.com", a: ["203.0.113.1"] },
+        final: { host: "www.example.com", cname: ["edge.example.net"], a: ["203.0.113.9"] },
+      });
+      expect(resolver.resolve).toHaveBeenCalledTimes(2);
+
+      jest.restoreAllMocks();
+    });
+
+    test("blocks a hostname that resolves to a private address without fetching", async () => {
+      const fetchSpy = jest.spyOn(globalThis, "fetch" as any);
+      const resolver = resolverFor({ "internal.example.com": { a: ["10.0.0.5", "203.0.113.1"] } });
+
+      const envelope = await new ActiveProbeProvider(liveTransport, resolver).probe("https://internal.example.com/");
+
+      expect(fetchSpy).not.toHaveBeenCalled();
+      expect(envelope.result.ok).toBe(false);
+      if ("error" in envelope.result) {
+        expect(envelope.result.error.code).toBe("ssrf_blocked");
+        expect(envelope.result.error.details).toMatchObject({ ip: "10.0.0.5" });
+      }
+      expect(envelope.dns).toEqual({ requested: { host: "internal.example.com", a: ["10.0.0.5", "203.0.113.1"] } });
+
+      jest.restoreAllMocks();
+    });
+
+    test("blocks a redirect hop whose host resolves to loopback", async () => {
+      const fetchSpy = jest.spyOn(globalThis, "fetch" as any).mockResolvedValueOnce(
+        new Response(null, { status: 302, headers: { location: "https://rebind.example.com/" } })
+      );
+      const resolver = resolverFor({
+        "example.com": { a: ["203.0.113.1"] },
+        "rebind.example.com": { aaaa: ["::1"] },
+      });
+
+      const envelope = await new ActiveProbeProvider(liveTransport, resolver).probe("https://example.com/");
+
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      if ("error" in envelope.result) {
+        expect(envelope.result.error.code).toBe("ssrf_blocked");
+        expect(envelope.result.error.details).toMatchObject({ blockedUrl: "https://rebind.example.com/", ip: "::1" });
+      }
+
+      jest.restoreAllMocks();
+    });
+
+    test("fails with dns_error without fetching when the DoH lookup rejects", async () => {
+      const fetchSpy = jest.spyOn(globalThis, "fetch" as any);
+      const resolver = new DohResolver("https://doh.example/dns-query", () => Promise.reject(new Error("network down")));
+
+      const envelope = await new ActiveProbeProvider(liveTransport, resolver).probe("https://internal.example.com/");
+
+      expect(fetchSpy).not.toHaveBeenCalled();
+      expect("error" in envelope.result && envelope.result.error).toMatchObject({
+        code: "dns_error",
+        details: { hostname: "internal.example.com", resolverError: "resolver_error" },
+      });
+
+      jest.restoreAllMocks();
+    });
+
+    test("fails a redirect hop whose host cannot be resolved", async () => {
+      const fetchSpy = jest.spyOn(globalThis, "fetch" as any).mockResolvedValueOnce(
+        new Response(null, { status: 302, headers: { location: "https://unverified.example.com/" } })
+      );
+      const resolver = resolverFor({
+        "example.com": { a: ["203.0.113.1"] },
+        "unverified.example.com": { error: "timeout" },
+      });
+
+      const envelope = await new ActiveProbeProvider(liveTransport, resolver).probe("https://example.com/");
+
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      expect("error" in envelope.result && envelope.result.error).toMatchObject({
+        code: "dns_error",
+        details: { blockedUrl: "https://unverified.example.com/", resolverError: "timeout" },
+      });
+
+      jest.restoreAllMocks();
+    });
+
+    test("does not resolve IP literal hosts", async () => {
+      jest.spyOn(globalThis, "fetch" as any).mockResolvedValue(new Response("OK", { status: 200 }));
+      const resolver = resolverFor({});
+
+      const envelope = await new ActiveProbeProvider(liveTransport, resolver).probe("http://8.8.8.8/");
+
+      expect(resolver.resolve).not.toHaveBeenCalled();
+      expect(envelope.dns).toBeUndefined();
+
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe("Retry Policy", () => {
+    let clock: number;
+    let sleep: jest.Mock;
+    let fetchMock: jest.Mock;
+    let retryProvider: ActiveProbeProvider;
+
+    beforeEach(() => {
+      clock = Date.parse("2026-03-01T12:00:00.000Z");
+      sleep = jest.fn(async (ms: number) => {
+        clock += ms;
+      });
+      fetchMock = jest.fn();
+      retryProvider = new ActiveProbeProvider({ fetch: fetchMock, now: () => clock, sleep });
+    });
+
+    const reset = () => Object.assign(new TypeError("fetch failed"), { cause: { code: "ECONNRESET" } });
+
+    test("retries retryable failures with backoff and records every attempt", async () => {
+      fetchMock
+        .mockRejectedValueOnce(reset())
+        .mockRejectedValueOnce(reset())
+        .mockResolvedValueOnce(new Response("OK", { status: 200 }));
+
+      const envelope = await retryProvider.probe("https://example.com/", undefined, {
+        retry: { maxAttempts: 3, backoffMs: 100 },
+      });
+
+      expect(envelope.result.ok).toBe(true);
+      expect(sleep.mock.calls).toEqual([[100], [200]]);
+      expect(envelope.capturedAt).toBe("2026-03-01T12:00:00.000Z");
+      expect(envelope.attempts).toEqual([
+        { capturedAt: "2026-03-01T12:00:00.000Z", ok: false, errorCode: "connection_reset", durationMs: 0 },
+        { capturedAt: "2026-03-01T12:00:00.100Z", ok: false, errorCode: "connection_reset", durationMs: 0 },
+        { capturedAt: "2026-03-01T12:00:00.300Z", ok: true, status: 200, durationMs: 0 },
+      ]);
+      expect(envelope.request?.retry).toEqual({
+        maxAttempts: 3,
+        backoffMs: 100,
+        backoffMultiplier: 2,
+        retryOn: ["connection_refused", "connection_reset", "fetch_error", "timeout"],
+      });
+    });
+
+    test("stops at maxAttempts and keeps the last failure", async () => {
+      fetchMock.mockRejectedValue(new Error("Connection refused"));
+
+      const envelope = await retryProvider.probe("https://example.com/", undefined, {
+        retry: { maxAttempts: 2, backoffMs: 0 },
+      });
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect("error" in envelope.result && envelope.result.error.code).toBe("connection_refused");
+      expect(envelope.attempts?.map((attempt) => attempt.errorCode)).toEqual(["connection_refused", "connection_refused"]);
+    });
+
+    test("stops retrying once the backoff would exceed the request timeout", async () => {
+      fetchMock.mockRejectedValue(reset());
+
+      const envelope = await retryProvider.probe("https://example.com/", undefined, {
+        timeoutMs: 1000,
+        retry: { maxAttempts: 5, backoffMs: 300, backoffMultiplier: 2 },
+      });
+
+      expect(sleep.mock.calls).toEqual([[300], [600]]);
+      expect(envelope.attempts).toHaveLength(3);
+      expect("error" in envelope.result && envelope.result.error.code).toBe("connection_reset");
+    });
+
+    test("does not retry HTTP error responses or codes outside retryOn", async () => {
+      fetchMock.mockResolvedValueOnce(new Response("Unavailable", { status: 503 }));
+      const httpError = await retryProvider.probe("https://example.com/", undefined, { retry: { maxAttempts: 3 } });
+      expect(httpError.attempts).toEqual([
+        { capturedAt: "2026-03-01T12:00:00.000Z", ok: false, status: 503, durationMs: 0 },
+      ]);
+
+      fetchMock.mockRejectedValueOnce(reset());
+      const notRetried = await retryProvider.probe("https://example.com/", undefined, {
+        retry: { maxAttempts: 3, retryOn: ["timeout"] },
+      });
+      expect(notRetried.attempts).toHaveLength(1);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(sleep).not.toHaveBeenCalled();
+    });
+
+    test("records no attempts without a retry policy", async () => {
+      fetchMock.mockResolvedValueOnce(new Response("OK", { status: 200 }));
+
+      const envelope = await retryProvider.probe("https://example.com/", undefined, { retry: { maxAttempts: 1 } });
+
+      expect(envelope.attempts).toBeUndefined();
+      expect(envelope.request?.retry).toBeUndefined();
+    });
+  });
+
+  // ============================================
+  // Request Options Tests
+  // ============================================
+
+  describe("Request Options", () => {
+    test("defaults to GET with no extra headers and records the request", async () => {
+      const fetchSpy = jest.spyOn(globalThis, "fetch" as any).mockResolvedValue(
+        new Response("OK", { status: 200 })
+      );
+
+      const envelope = await provider.probe("http://example.com");
+
+      expect(fetchSpy.mock.calls[0][1]).toMatchObject({ method: "GET", headers: {} });
+      expect(envelope.request).toEqual({
+        method: "GET",
+        headers: {},
+        body: undefined,
+        timeoutMs: 9000,
+        maxRedirects: 10,
+      });
+
+      jest.restoreAllMocks();
+    });
+
+    test("sends method, lowercased headers and body", async () => {
+      const fetchSpy = jest.spyOn(globalThis, "fetch" as any).mockResolvedValue(
+        new Response("OK", { status: 200 })
+      );
+
+      const envelope = await provider.probe("http://example.com", undefined, {
+        method: "POST",
+        headers: { Accept: "application/json" },
+        body: '{"q":1}',
+        timeoutMs: 5000,
+      });
+
+      expect(fetchSpy.mock.calls[0][1]).toMatchObject({
+        method: "POST",
+        headers: { accept: "application/json" },
+        body: '{"q":1}',
+      });
+      expect(envelope.request?.method).toBe("POST");
+      expect(envelope.request?.timeoutMs).toBe(5000);
+
+      jest.restoreAllMocks();
+    });
+
+    test("switches POST to GET and drops body after 303", async () => {
+      const fetchSpy = jest.spyOn(globalThis, "fetch" as any)
+        .mockResolvedValueOnce(
+          new Response(null, { status: 303, headers: { location: "http://example.com/done" } })
+        )
+        .mockResolvedValueOnce(new Response("OK", { status: 200 }));
+
+      await provider.probe("http://example.com", undefined, { method: "POST", body: "x" });
+
+      expect(fetchSpy.mock.calls[1][1]).toMatchObject({ method: "GET", body: undefined });
+
+      jest.restoreAllMocks();
+    });
+
+    test("preserves method and body across 307", async () => {
+      const fetchSpy = jest.spyOn(globalThis, "fetch" as any)
+        .mockResolvedValueOnce(
+          new Response(null, { status: 307, headers: { location: "http://example.com/v2" } })
+        )
+        .mockResolvedValueOnce(new Response("OK", { status: 200 }));
+
+      await provider.probe("http://example.com", undefined, { method: "PUT", body: "x" });
+
+      expect(fetchSpy.mock.calls[1][1]).toMatchObject({ method: "PUT", body: "x" });
+
+      jest.restoreAllMocks();
+    });
+
+    test("enforces maxRedirects", async () => {
+      jest.spyOn(globalThis, "fetch" as any)
+        .mockResolvedValueOnce(
+          new Response(null, { status: 301, headers: { location: "http://example.com/a" } })
+        )
+        .mockResolvedValueOnce(
+          new Response(null, { status: 301, headers: { location: "http://example.com/b" } })
+        );
+
+      const envelope = await provider.probe("http://example.com", undefined, { maxRedirects: 1 });
+
+      expect(envelope.result.ok).toBe(false);
+      if (!envelope.result.ok && "error" in envelope.result) {
+        expect(envelope.result.error.code).toBe("too_many_redirects");
+        expect(envelope.result.error.message).toContain("Too many redirects (>1)");
+      } else {
+        fail("Expected ProbeNetworkFailure");
+      }
+
+      jest.restoreAllMocks();
+    });
+
+    test("records request on SSRF-blocked envelopes", async () => {
+      const envelope = await provider.probe("http://localhost", undefined, { method: "HEAD" });
+
+      expect(envelope.request?.method).toBe("HEAD");
+    });
+  });
+
+  // ============================================
+  // Credential Injection Tests
+  // ============================================
+
+  describe("Redirect Hop Capture", () => {
+    test("records curated headers and duration for each hop", async () => {
+      const redirectHeaders = new Headers({
+        location: "https://example.com/",
+        "strict-transport-security": "max-age=600",
+        "x-internal": "ignored",
+      });
+      redirectHeaders.append("set-cookie", "hop=1; Secure");
+      jest.spyOn(globalThis, "fetch" as any)
+        .mockResolvedValueOnce(new Response(null, { status: 301, headers: redirectHeaders }))
+        .mockResolvedValueOnce(new Response("OK", { status: 200 }));
+
+      const envelope = await provider.probe("http://example.com");
+
+      if (envelope.result.ok) {
+        const hop = envelope.result.redirects![0];
+        expect(hop.headers).toEqual({
+          core: { location: "https://example.com/" },
+          accessControl: undefined,
+          security: { "strict-transport-security": "max-age=600" },
+          cookies: [{ name: "hop", secure: true, httpOnly: false, expires: false, partitioned: false }],
+        });
+        expect(typeof hop.durationMs).toBe("number");
+      }
+
+      jest.restoreAllMocks();
+    });
+
+    test("records time to headers per hop and the final request phases", async () => {
+      let clock = 0;
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          clock += 40; // body download
+          controller.enqueue(new TextEncoder().encode("OK"));
+          controller.close();
+        },
+      }, { highWaterMark: 0 });
+      const fetchMock = jest.fn(async (url: string) => {
+        if (url === "http://example.com") {
+          clock += 30; // hop waits 30ms for headers
+          return new Response(null, { status: 301, headers: { location: "https://example.com/" } });
+        }
+        clock += 120; // final request waits 120ms for headers
+        return new Response(body, { status: 200 });
+      });
+
+      const envelope = await new ActiveProbeProvider({ fetch: fetchMock, now: () => clock }).probe("http://example.com");
+
+      if (!envelope.result.ok) throw new Error("expected success");
+      expect(envelope.result.redirects?.[0].ttfbMs).toBe(30);
+      expect(envelope.result.phases).toEqual({ redirectMs: 30, ttfbMs: 120, bodyMs: 40 });
+      expect(envelope.result.durationMs).toBe(190);
+    });
+  });
+
+  describe("CORS Preflight", () => {
+    const preflight = {
+      origin: "https://app.example.com",
+      requestMethod: "PUT",
+      requestHeaders: ["content-type", "x-trace-id"],
+    };
+
+    test("sends an OPTIONS request with preflight headers and records the result", async () => {
+      const fetchSpy = jest.spyOn(globalThis, "fetch" as any)
+        .mockResolvedValueOnce(new Response("OK", { status: 200 }))
+        .mockResolvedValueOnce(
+          new Response(null, {
+            status: 204,
+            headers: {
+              "access-control-allow-origin": "https://app.example.com",
+              "access-control-allow-methods": "GET, PUT",
+              "vary": "Origin",
+              "x-other": "ignored",
+            },
+          })
+        );
+
+      const envelope = await provider.probe("https://example.com", undefined, { preflight });
+
+      expect(fetchSpy.mock.calls[1][1]).toMatchObject({
+        method: "OPTIONS",
+        redirect: "manual",
+        headers: {
+          origin: "https://app.example.com",
+          "access-control-request-method": "PUT",
+          "access-control-request-headers": "content-type,x-trace-id",
+        },
+      });
+      expect(envelope.request?.preflight).toEqual(preflight);
+      expect(envelope.preflight).toMatchObject({
+        status: 204,
+        headers: {
+          "access-control-allow-methods": "GET, PUT",
+          "access-control-allow-origin": "https://app.example.com",
+          "vary": "Origin",
+        },
+      });
+
+      jest.restoreAllMocks();
+    });
+
+    test("never sends credentials on the preflight", async () => {
+      const credential = { name: "staging", origins: ["https://example.com"], type: "bearer" as const, token: "s3cret-token" };
+      const fetchSpy = jest.spyOn(globalThis, "fetch" as any)
+        .mockResolvedValueOnce(new Response("OK", { status: 200 }))
+        .mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+      await provider.probe("https://example.com", undefined, { preflight }, credential);
+
+      expect((fetchSpy.mock.calls[1][1] as RequestInit).headers).not.toHaveProperty("authorization");
+
+      jest.restoreAllMocks();
+    });
+
+    test("records a preflight network failure as an error", async () => {
+      jest.spyOn(globalThis, "fetch" as any)
+        .mockResolvedValueOnce(new Response("OK", { status: 200 }))
+        .mockRejectedValueOnce(new Error("fetch failed"));
+
+      const envelope = await provider.probe("https://example.com", undefined, { preflight });
+
+      expect(envelope.result.ok).toBe(true);
+      expect(envelope.preflight).toMatchObject({ error: { code: "fetch_error" } });
+
+      jest.restoreAllMocks();
+    });
+
+    test("keeps a slow preflight out of the main probe's duration and phases", async () => {
+      let clock = 0;
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          clock += 40; // body download
+          controller.enqueue(new TextEncoder().encode("OK"));
+          controller.close();
+        },
+      }, { highWaterMark: 0 });
+      const fetchMock = jest.fn(async (_url: string, init?: RequestInit) => {
+        if (init?.method === "OPTIONS") {
+          clock += 5000; // slow preflight
+          return new Response(null, { status: 204 });
+        }
+        clock += 100;
+        return new Response(body, { status: 200 });
+      });
+
+      const envelope = await new ActiveProbeProvider({ fetch: fetchMock, now: () => clock }).probe(
+        "https://example.com/",
+        undefined,
+        { preflight }
+      );
+
+      if (!envelope.result.ok) throw new Error("expected success");
+      expect(envelope.result.durationMs).toBe(140);
+      expect(envelope.result.phases).toEqual({ redirectMs: 0, ttfbMs: 100, bodyMs: 40 });
+      expect(envelope.preflight).toMatchObject({ status: 204, durationMs: 5000 });
+    });
+
+    test("omits preflight when not requested", async () => {
+      const fetchSpy = jest.spyOn(globalThis, "fetch" as any).mockResolvedValue(
+        new Response("OK", { status: 200 })
+      );
+
+      const envelope = await provider.probe("https://example.com");
+
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      expect(envelope.preflight).toBeUndefined();
+
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe("Credential Injection", () => {
+    const credential = { name: "staging", origins: ["https://example.com"], type: "bearer" as const, token: "s3cret-token" };
+
+    test("injects credential headers at fetch time", async () => {
+      const fetchSpy = jest.spyOn(globalThis, "fetch" as any).mockResolvedValue(
+        new Response("OK", { status: 200 })
+      );
+
+      await provider.probe("https://example.com", undefined, undefined, credential);
+
+      expect(fetchSpy.mock.calls[0][1]).toMatchObject({
+        headers: { authorization: "Bearer s3cret-token" },
+      });
+
+      jest.restoreAllMocks();
+    });
+
+    test("records only the credential reference name in the envelope", async () => {
+      jest.spyOn(globalThis, "fetch" as any).mockResolvedValue(
+        new Response("OK", { status: 200 })
+      );
+
+      const envelope = await provider.probe("https://example.com", undefined, undefined, credential);
+
+      expect(envelope.request?.credentialRef).toBe("staging");
+      expect(JSON.stringify(envelope)).not.toContain("s3cret-token");
+
+      jest.restoreAllMocks();
+    });
+
+    test("does not send credentials to an origin the credential is not bound to", async () => {
+      const fetchSpy = jest.spyOn(globalThis, "fetch" as any).mockResolvedValue(
+        new Response("OK", { status: 200 })
+      );
+
+      await provider.probe("https://attacker.example.net/", undefined, undefined, credential);
+
+      expect((fetchSpy.mock.calls[0][1] as RequestInit).headers).not.toHaveProperty("authorization");
+
+      jest.restoreAllMocks();
+    });
+
+    test("does not forward credentials on cross-origin redirects", async () => {
+      const fetchSpy = jest.spyOn(globalThis, "fetch" as any)
+        .mockResolvedValueOnce(
+          new Response(null, { status: 302, headers: { location: "https://other.example.net/" } })
+        )
+        .mockResolvedValueOnce(new Response("OK", { status: 200 }));
+
+      await provider.probe("https://example.com", undefined, undefined, credential);
+
+      expect((fetchSpy.mock.calls[1][1] as RequestInit).headers).not.toHaveProperty("authorization");
+
+      jest.restoreAllMocks();
+    });
+  });
+
+  // ============================================
+  // Error Handling Tests
+  // ============================================
+
+  describe("Error Handling", () => {
+    test("SSRF error includes validation details", async () => {
+      const envelope = await provider.probe("http://127.0.0.1");
+
+      if (!envelope.result.ok && "error" in envelope.result) {
+        expect(envelope.result.error.details).toBeDefined();
+        expect(envelope.result.error.details?.hostname).toBeDefined();
+      }
+    });
+
+    test.each([
+      [Object.assign(new TypeError("fetch failed"), { cause: { code: "ECONNREFUSED" } }), "connection_refused"],
+      [Object.assign(new TypeError("fetch failed"), { cause: { code: "ECONNRESET" } }), "connection_reset"],
+      [Object.assign(new TypeError("fetch failed"), { cause: { code: "CERT_HAS_EXPIRED" } }), "tls_error"],
+      [Object.assign(new Error("The operation was aborted"), { name: "AbortError" }), "timeout"],
+    ])("classifies fetch errors by name or cause code (%#)", (error, code) => {
+      expect(classifyFetchError(error)).toBe(code);
     });
   });
 
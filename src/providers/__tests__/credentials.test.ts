@@ -0,0 +1,126 @@
+import type { Env } from "../../env";
+import {
+  isValidCredentialName,
+  credentialSecretName,
+  resolveCredential,
+  credentialHeaders,
+  credentialAllowsUrl,
+} from "../credentials";
+
+function envWith(secrets: Record<string, string>): Env {
+  return secrets as unknown as Env;
+}
+
+describe("credentials", () => {
+  describe("isValidCredentialName", () => {
+    it("accepts letters, digits and underscores", () => {
+      expect(isValidCredentialName("staging_api_2")).toBe(true);
+    });
+
+    it("rejects empty, punctuation and non-string names", () => {
+      expect(isValidCredentialName("")).toBe(false);
+      expect(isValidCredentialName("staging-api")).toBe(false);
+      expect(isValidCredentialName("../x")).toBe(false);
+      expect(isValidCredentialName(42)).toBe(false);
+    });
+  });
+
+  describe("credentialSecretName", () => {
+    it("maps names to uppercase secret bindings", () => {
+      expect(credentialSecretName("staging_api")).toBe("PROBE_CREDENTIAL_STAGING_API");
+    });
+  });
+
+  describe("resolveCredential", () => {
+    it("resolves bearer credentials", () => {
+      const env = envWith({
+        PROBE_CREDENTIAL_PROD: '{"type":"bearer","token":"t0k","origins":["https://www.example.com"]}',
+      });
+      expect(resolveCredential(env, "prod")).toEqual({
+        name: "prod",
+        origins: ["https://www.example.com"],
+        type: "bearer",
+        token: "t0k",
+      });
+    });
+
+    it("resolves basic credentials", () => {
+      const env = envWith({
+        PROBE_CREDENTIAL_STAGING: '{"type":"basic","username":"u","password":"p","origins":["https://staging.example.com"]}',
+      });
+      expect(resolveCredential(env, "staging")).toEqual({
+        name: "staging",
+        origins: ["https://staging.example.com"],
+        type: "basic",
+        username: "u",
+        password: "p",
+      });
+    });
+
+    it("resolves custom header credentials with lowercased header name", () => {
+      const env = envWith({
+        PROBE_CREDENTIAL_KEY: '{"type":"header","header":"X-Api-Key","value":"k","origins":["https://api.example.com"]}',
+      });
+      expect(resolveCredential(env, "key")).toEqual({
+        name: "key",
+        origins: ["https://api.example.com"],
+        type: "header",
+        header: "x-api-key",
+        value: "k",
+      });
+    });
+
+    it("returns undefined for missing, malformed or unsafe secrets", () => {
+      const env = envWith({
+        PROBE_CREDENTIAL_BAD_JSON: "not json",
+        PROBE_CREDENTIAL_BAD_TYPE: '{"type":"digest","token":"x"}',
+        PROBE_CREDENTIAL_HOST: '{"type":"header","header":"host","value":"evil","origins":["https://a.example.com"]}',
+      });
+      expect(resolveCredential(env, "missing")).toBeUndefined();
+      expect(resolveCredential(env, "bad_json")).toBeUndefined();
+      expect(resolveCredential(env, "bad_type")).toBeUndefined();
+      expect(resolveCredential(env, "host")).toBeUndefined();
+    });
+
+    it("normalizes origins and rejects secrets without a valid origin list", () => {
+      const env = envWith({
+        PROBE_CREDENTIAL_OK: '{"type":"bearer","token":"t","origins":["https://b.example.com/path","https://a.example.com"]}',
+        PROBE_CREDENTIAL_NONE: '{"type":"bearer","token":"t"}',
+        PROBE_CREDENTIAL_EMPTY: '{"type":"bearer","token":"t","origins":[]}',
+        PROBE_CREDENTIAL_FTP: '{"type":"bearer","token":"t","origins":["ftp://a.example.com"]}',
+      });
+      expect(resolveCredential(env, "ok")?.origins).toEqual(["https://a.example.com", "https://b.example.com"]);
+      expect(resolveCredential(env, "none")).toBeUndefined();
+      expect(resolveCredential(env, "empty")).toBeUndefined();
+      expect(resolveCredential(env, "ftp")).toBeUndefined();
+    });
+  });
+
+  describe("credentialAllowsUrl", () => {
+    const credential = { name: "a", origins: ["https://staging.example.com"], type: "bearer" as const, token: "t" };
+
+    it("allows URLs on a bound origin only", () => {
+      expect(credentialAllowsUrl(credential, "https://staging.example.com/api?x=1")).toBe(true);
+      expect(credentialAllowsUrl(credential, "http://staging.example.com/")).toBe(false);
+      expect(credentialAllowsUrl(credential, "https://staging.example.com.evil.net/")).toBe(false);
+      expect(credentialAllowsUrl(credential, "not a url")).toBe(false);
+    });
+  });
+
+  describe("credentialHeaders", () => {
+    it("builds Authorization headers for bearer and basic", () => {
+      expect(credentialHeaders({ name: "a", origins: [], type: "bearer", token: "t" })).toEqual({
+        authorization: "Bearer t",
+      });
+      expect(credentialHeaders({ name: "b", origins: [], type: "basic", username: "u", password: "p" })).toEqual({
+        authorization: `Basic ${btoa("u:p")}`,
+      });
+    });
+
+    it("builds custom header credentials", () => {
+      expect(credentialHeaders({ name: "c", origins: [], type: "header", header: "x-api-key", value: "k" })).toEqual({
+        "x-api-key": "k",
+      });
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { DohResolver } from "../dns";
+
+type Answer = { name: string; type: number; data: string };
+
+function dohResponse(status: number, answers?: Answer[]): Response {
+  return new Response(JSON.stringify({ Status: status, Answer: answers }), {
+    status: 200,
+    headers: { "content-type": "application/dns-json" },
+  });
+}
+
+describe("DohResolver", () => {
+  it("records the CNAME chain and sorted A/AAAA sets", async () => {
+    const fetchFn = jest.fn(async (url: string) =>
+      url.endsWith("type=A")
+        ? dohResponse(0, [
+            { name: "www.example.com.", type: 5, data: "www.example.com.cdn.example.net." },
+            { name: "www.example.com.cdn.example.net.", type: 5, data: "Edge.Example.net." },
+            { name: "edge.example.net.", type: 1, data: "203.0.113.9" },
+            { name: "edge.example.net.", type: 1, data: "203.0.113.10" },
+          ])
+        : dohResponse(0, [
+            { name: "www.example.com.", type: 5, data: "www.example.com.cdn.example.net." },
+            { name: "edge.example.net.", type: 28, data: "2001:DB8::1" },
+          ])
+    );
+
+    const resolution = await new DohResolver("https://dns.test/dns-query", fetchFn).resolve("WWW.example.com");
+
+    expect(fetchFn).toHaveBeenCalledWith(
+      "https://dns.test/dns-query?name=www.example.com&type=A",
+      expect.objectContaining({ headers: { accept: "application/dns-json" } })
+    );
+    expect(resolution).toEqual({
+      host: "www.example.com",
+      cname: ["www.example.com.cdn.example.net", "edge.example.net"],
+      a: ["203.0.113.10", "203.0.113.9"],
+      aaaa: ["2001:db8::1"],
+    });
+  });
+
+  it("omits empty record sets", async () => {
+    const fetchFn = async (url: string) =>
+      url.endsWith("type=A") ? dohResponse(0, [{ name: "a.example.com.", type: 1, data: "203.0.113.1" }]) : dohResponse(0);
+
+    expect(await new DohResolver(undefined, fetchFn).resolve("a.example.com")).toEqual({
+      host: "a.example.com",
+      a: ["203.0.113.1"],
+    });
+  });
+
+  it("reports resolver failures instead of throwing", async () => {
+    expect(await new DohResolver(undefined, async () => dohResponse(3)).resolve("missing.example.com")).toEqual({
+      host: "missing.example.com",
+      error: "NXDOMAIN",
+    });
+    expect(
+      await new DohResolver(undefined, async () => new Response("", { status: 502 })).resolve("a.example.com")
+    ).toEqual({ host: "a.example.com", error: "resolver_error" });
+    expect(
+      await new DohResolver(undefined, async () => {
+        throw new Error("connection reset");
+      }).resolve("a.example.com")
+    ).toEqual({ host: "a.example.com", error: "resolver_error" });
+  });
+});
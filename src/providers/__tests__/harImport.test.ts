@@ -0,0 +1,153 @@
+import type { HarDocument, HarEntry } from "@shared/har";
+import { HarImportProvider, defaultHarUrl } from "../harImport";
+
+function entry(url: string, status: number, overrides: Partial<HarEntry> = {}): HarEntry {
+  return {
+    startedDateTime: "2026-03-01T12:00:00.000Z",
+    time: 100,
+    request: { method: "GET", url, headers: [{ name: "cookie", value: "session=secret" }] },
+    response: { status, headers: [] },
+    ...overrides,
+  };
+}
+
+function har(...entries: HarEntry[]): HarDocument {
+  return { log: { version: "1.2", entries } };
+}
+
+describe("HarImportProvider", () => {
+  it("defaults to the first entry URL", () => {
+    expect(defaultHarUrl(har(entry("https://example.com/", 200)))).toBe("https://example.com/");
+    expect(defaultHarUrl(har())).toBeUndefined();
+  });
+
+  it("builds a success envelope from the matching entry", async () => {
+    const body = '{"id":1,"name":"a"}';
+    const envelope = await new HarImportProvider(
+      har(
+        entry("https://example.com/api", 200, {
+          startedDateTime: "2026-03-01T12:00:05.000Z",
+          time: 87.6,
+          response: {
+            status: 200,
+            headers: [
+              { name: ":status", value: "200" },
+              { name: "Content-Type", value: "application/json" },
+              { name: "Server", value: "nginx" },
+              { name: "Set-Cookie", value: "sid=abc; Secure" },
+              { name: "X-Request-Id", value: "r-1" },
+            ],
+            content: { size: body.length, mimeType: "application/json", text: body },
+          },
+        })
+      )
+    ).probe("https://example.com/api");
+
+    expect(envelope.capturedAt).toBe("2026-03-01T12:00:05.000Z");
+    expect(envelope.source).toEqual({ kind: "har", entryIndex: 0 });
+    expect(envelope.cf).toBeUndefined();
+    expect(envelope.platform).toEqual({ server: "nginx" });
+    expect(envelope.result.ok).toBe(true);
+    if (!envelope.result.ok) throw new Error("expected success");
+
+    const { response } = envelope.result;
+    expect(envelope.result.durationMs).toBe(88);
+    expect(response.status).toBe(200);
+    expect(response.finalUrl).toBe("https://example.com/api");
+    expect(response.headers.core["content-type"]).toBe("application/json");
+    expect(JSON.stringify(response.headers)).not.toContain("r-1");
+    expect(JSON.stringify(envelope)).not.toContain("session=secret");
+    expect(response.contentLength).toBe(body.length);
+    expect(response.bodyHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(response.bodyFingerprint?.json?.paths).toEqual({ $: "object", "$.id": "number", "$.name": "string" });
+  });
+
+  it("hashes base64 bodies like their decoded text", async () => {
+    const text = "hello";
+    const [plain, encoded] = await Promise.all([
+      new HarImportProvider(
+        har(entry("https://example.com/", 200, { response: { status: 200, content: { text } } }))
+      ).probe("https://example.com/"),
+      new HarImportProvider(
+        har(
+          entry("https://example.com/", 200, {
+            response: { status: 200, content: { text: btoa(text), encoding: "base64" } },
+          })
+        )
+      ).probe("https://example.com/"),
+    ]);
+    if (!plain.result.ok || !encoded.result.ok) throw new Error("expected success");
+    expect(encoded.result.response.bodyHash).toBe(plain.result.response.bodyHash);
+  });
+
+  it("follows redirects through later entries", async () => {
+    const envelope = await new HarImportProvider(
+      har(
+        entry("https://example.com/old", 301, {
+          time: 20,
+          response: { status: 301, headers: [{ name: "Location", value: "/new" }] },
+        }),
+        entry("https://cdn.example.com/asset.js", 200),
+        entry("https://example.com/new", 200, { time: 30 })
+      )
+    ).probe("https://example.com/old");
+
+    expect(envelope.result.ok).toBe(true);
+    if (!envelope.result.ok) throw new Error("expected success");
+    expect(envelope.result.response.finalUrl).toBe("https://example.com/new");
+    expect(envelope.result.redirects).toEqual([
+      expect.objectContaining({
+        fromUrl: "https://example.com/old",
+        toUrl: "https://example.com/new",
+        status: 301,
+        durationMs: 20,
+      }),
+    ]);
+    expect(envelope.result.durationMs).toBe(50);
+  });
+
+  it("ends the chain at a 3xx entry whose target was not captured", async () => {
+    const envelope = await new HarImportProvider(
+      har(entry("https://example.com/old", 302, { response: { status: 302, redirectURL: "https://example.com/gone" } }))
+    ).probe("https://example.com/old");
+
+    expect(envelope.result.ok).toBe(true);
+    if (!envelope.result.ok) throw new Error("expected success");
+    expect(envelope.result.response.status).toBe(302);
+    expect(envelope.result.redirects).toBeUndefined();
+  });
+
+  it("reports non-2xx/3xx final responses as response errors", async () => {
+    const envelope = await new HarImportProvider(har(entry("https://example.com/", 503))).probe(
+      "https://example.com/"
+    );
+    expect(envelope.result.ok).toBe(false);
+    expect("response" in envelope.result && envelope.result.response.status).toBe(503);
+  });
+
+  it.each([
+    ["net::ERR_NAME_NOT_RESOLVED", "dns_error"],
+    ["net::ERR_TIMED_OUT", "timeout"],
+    ["net::ERR_CERT_AUTHORITY_INVALID", "tls_error"],
+    ["net::ERR_CONNECTION_REFUSED", "connection_refused"],
+    ["net::ERR_CONNECTION_RESET", "connection_reset"],
+    ["net::ERR_TOO_MANY_REDIRECTS", "too_many_redirects"],
+  ])("maps browser error %s to %s", async (error, code) => {
+    const envelope = await new HarImportProvider(
+      har(entry("https://example.com/", 0, { _error: error }))
+    ).probe("https://example.com/");
+
+    expect(envelope.result.ok).toBe(false);
+    expect("error" in envelope.result && envelope.result.error.code).toBe(code);
+  });
+
+  it("fails when the HAR has no entry for the URL", async () => {
+    const envelope = await new HarImportProvider(har(entry("https://example.com/", 200))).probe(
+      "https://other.example.com/"
+    );
+
+    expect(envelope.source).toEqual({ kind: "har" });
+    expect(envelope.result.ok).toBe(false);
+    expect("error" in envelope.result && envelope.result.error.code).toBe("invalid_url");
+  });
+});
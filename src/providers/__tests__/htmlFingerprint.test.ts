@@ -0,0 +1,80 @@
+import { fingerprintHtml, isHtmlContentType } from "../htmlFingerprint";
+
+const PAGE = `<!doctype html>
+<html data-build-id="2024.06.01-abc">
+<head>
+  <title>
+    Shop &middot; Home
+  </title>
+  <meta name="generator" content="Next.js 14.2.3">
+  <meta property="version" content='1.42.0'>
+  <meta name="csrf-token" content="t0k3n">
+  <link rel="stylesheet" href="/_next/static/css/app.1a2b.css">
+  <link rel="preload" href="/fonts/inter.woff2">
+  <script src="/_next/static/chunks/main-3c4d.js" defer></script>
+  <script src="https://cdn.example.net/analytics.js"></script>
+  <script src="https://staging.example.com/_next/static/chunks/app-5e6f.js"></script>
+  <script id="__NEXT_DATA__" type="application/json">{"props":{},"buildId":"K8sd9aZ"}</script>
+</head>
+</html>`;
+
+describe("htmlFingerprint", () => {
+  describe("isHtmlContentType", () => {
+    it.each([
+      ["text/html; charset=utf-8", true],
+      ["application/xhtml+xml", true],
+      ["application/json", false],
+      [undefined, false],
+    ])("%s → %s", (contentType, expected) => {
+      expect(isHtmlContentType(contentType)).toBe(expected);
+    });
+  });
+
+  describe("fingerprintHtml", () => {
+    it("extracts title, version meta, assets and build ids", () => {
+      expect(fingerprintHtml(PAGE, "https://staging.example.com/")).toEqual({
+        title: "Shop &middot; Home",
+        meta: { generator: "Next.js 14.2.3", version: "1.42.0" },
+        scripts: [
+          "/_next/static/chunks/app-5e6f.js",
+          "/_next/static/chunks/main-3c4d.js",
+          "https://cdn.example.net/analytics.js",
+        ],
+        stylesheets: ["/_next/static/css/app.1a2b.css"],
+        buildIds: { buildId: "K8sd9aZ", "data-build-id": "2024.06.01-abc" },
+        truncated: undefined,
+      });
+    });
+
+    it("ignores non-version meta tags", () => {
+      expect(JSON.stringify(fingerprintHtml(PAGE, "https://staging.example.com/"))).not.toContain("t0k3n");
+    });
+
+    it("resolves relative asset URLs against the page URL", () => {
+      const html = '<script src="js/app.js"></script><link rel="Stylesheet Preload" href="../a.css">';
+      const fingerprint = fingerprintHtml(html, "https://example.com/shop/index.html");
+
+      expect(fingerprint.scripts).toEqual(["/shop/js/app.js"]);
+      expect(fingerprint.stylesheets).toEqual(["/a.css"]);
+    });
+
+    it("caps the number of assets", () => {
+      const html = Array.from({ length: 150 }, (_, i) => `<script src="/s${i}.js"></script>`).join("");
+      const fingerprint = fingerprintHtml(html, "https://example.com/");
+
+      expect(fingerprint.scripts).toHaveLength(100);
+      expect(fingerprint.truncated).toBe(true);
+    });
+
+    it("returns an empty fingerprint for pages without markers", () => {
+      expect(fingerprintHtml("<p>hello</p>", "https://example.com/")).toEqual({
+        title: undefined,
+        meta: {},
+        scripts: [],
+        stylesheets: [],
+        buildIds: {},
+        truncated: undefined,
+      });
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { fingerprintJson, fingerprintJsonBody, isJsonContentType } from "../jsonFingerprint";
+
+describe("jsonFingerprint", () => {
+  describe("isJsonContentType", () => {
+    it.each([
+      ["application/json", true],
+      ["application/json; charset=utf-8", true],
+      ["application/problem+json", true],
+      ["text/html", false],
+      [undefined, false],
+    ])("%s → %s", (contentType, expected) => {
+      expect(isJsonContentType(contentType)).toBe(expected);
+    });
+  });
+
+  describe("fingerprintJson", () => {
+    it("records paths, types and top-level array lengths without values", () => {
+      const fingerprint = fingerprintJson({
+        id: 42,
+        name: "secret-name",
+        tags: ["a", "b"],
+        "content-type": null,
+      });
+
+      expect(fingerprint).toEqual({
+        paths: {
+          $: "object",
+          '$["content-type"]': "null",
+          "$.id": "number",
+          "$.name": "string",
+          "$.tags": "array",
+          "$.tags[]": "string",
+        },
+        arrayLengths: { "$.tags": 2 },
+        truncated: undefined,
+      });
+      expect(JSON.stringify(fingerprint)).not.toContain("secret-name");
+    });
+
+    it("merges array element shapes and unions differing types", () => {
+      const fingerprint = fingerprintJson({
+        items: [{ id: 1, note: null }, { id: 2, note: "x", rows: [1, 2, 3] }],
+      });
+
+      expect(fingerprint.paths["$.items[]"]).toBe("object");
+      expect(fingerprint.paths["$.items[].note"]).toBe("null|string");
+      expect(fingerprint.paths["$.items[].rows[]"]).toBe("number");
+      expect(fingerprint.arrayLengths).toEqual({ "$.items": 2 });
+    });
+
+    it("marks the fingerprint truncated when the path limit is hit", () => {
+      const wide: Record<string, number> = {};
+      for (let i = 0; i < 600; i++) wide[`k${i}`] = i;
+
+      const fingerprint = fingerprintJson(wide);
+
+      expect(fingerprint.truncated).toBe(true);
+      expect(Object.keys(fingerprint.paths).length).toBe(500);
+    });
+
+    it("marks the fingerprint truncated when nesting is too deep", () => {
+      let deep: unknown = 1;
+      for (let i = 0; i < 40; i++) deep = [deep];
+
+      expect(fingerprintJson(deep).truncated).toBe(true);
+    });
+  });
+
+  describe("fingerprintJsonBody", () => {
+    it("parses UTF-8 bytes", () => {
+      const bytes = new TextEncoder().encode('{"ok":true}');
+      expect(fingerprintJsonBody(bytes)?.paths).toEqual({ $: "object", "$.ok": "boolean" });
+    });
+
+    it("returns undefined for invalid JSON", () => {
+      expect(fingerprintJsonBody(new TextEncoder().encode("{not json"))).toBeUndefined();
+    });
+  });
+});
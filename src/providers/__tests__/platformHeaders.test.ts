@@ -0,0 +1,52 @@
+import { cfRayColo, extractPlatformSnapshot } from "../platformHeaders";
+
+describe("platformHeaders", () => {
+  describe("cfRayColo", () => {
+    it.each([
+      ["8a1b2c3d4e5f6789-SJC", "SJC"],
+      ["8a1b2c3d4e5f6789-lhr", "LHR"],
+      ["8a1b2c3d4e5f6789", undefined],
+      [undefined, undefined],
+    ])("%s → %s", (cfRay, expected) => {
+      expect(cfRayColo(cfRay)).toBe(expected);
+    });
+  });
+
+  describe("extractPlatformSnapshot", () => {
+    it("captures allowlisted platform headers and drops the ray ID", () => {
+      const snapshot = extractPlatformSnapshot(
+        new Headers({
+          server: "cloudflare",
+          via: "1.1 varnish",
+          "x-powered-by": "Express",
+          "cf-ray": "8a1b2c3d4e5f6789-AMS",
+          "cf-cache-status": "HIT",
+          age: "120",
+          "x-cache": "Hit from cloudfront",
+          "alt-svc": 'h3=":443"; ma=86400',
+          "x-request-id": "abc",
+        })
+      );
+
+      expect(snapshot).toEqual({
+        server: "cloudflare",
+        via: "1.1 varnish",
+        poweredBy: "Express",
+        edgeColo: "AMS",
+        cacheStatus: "HIT",
+        age: 120,
+        xCache: "Hit from cloudfront",
+        altSvc: 'h3=":443"; ma=86400',
+      });
+      expect(JSON.stringify(snapshot)).not.toContain("8a1b2c3d4e5f6789");
+    });
+
+    it("ignores non-numeric age values", () => {
+      expect(extractPlatformSnapshot(new Headers({ server: "nginx", age: "soon" }))).toEqual({ server: "nginx" });
+    });
+
+    it("returns undefined when no platform header is present", () => {
+      expect(extractPlatformSnapshot(new Headers({ "content-type": "text/html" }))).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import type { ProbeTransport } from "../activeProbe";
+import { MAX_BODY_BYTES } from "../activeProbe";
+import type { ProbeCassette } from "../recordReplay";
+import { RecordingProbeProvider, ReplayProbeProvider } from "../recordReplay";
+
+/**
+ * Fake upstream: serves canned responses and advances a fake clock by a fixed step per fetch.
+ */
+function fakeUpstream(
+  handler: (url: string, init: RequestInit) => Response | Promise<Response>,
+  stepMs = 25
+): ProbeTransport {
+  let clockMs = Date.parse("2026-05-12T09:30:00.000Z");
+  return {
+    fetch: async (url, init) => {
+      clockMs += stepMs;
+      return handler(url, init);
+    },
+    now: () => clockMs,
+  };
+}
+
+function redirectingUpstream(): ProbeTransport {
+  return fakeUpstream((url) => {
+    if (url === "https://example.com/old") {
+      return new Response(null, { status: 301, headers: { location: "/new" } });
+    }
+    const headers = new Headers({ "content-type": "application/json", server: "nginx" });
+    headers.append("set-cookie", "a=1; Secure");
+    headers.append("set-cookie", "b=2; HttpOnly");
+    return new Response('{"id":1}', { status: 200, headers });
+  });
+}
+
+describe("RecordingProbeProvider", () => {
+  it("records each exchange in call order without request headers", async () => {
+    const recorder = new RecordingProbeProvider(redirectingUpstream());
+    const envelope = await recorder.probe("https://example.com/old", undefined, {
+      headers: { accept: "application/json" },
+    });
+    expect(envelope.result.ok).toBe(true);
+
+    const cassette = recorder.cassette();
+    expect(cassette.version).toBe(1);
+    expect(cassette.recordedAt).toBe("2026-05-12T09:30:00.000Z");
+    expect(cassette.interactions.map((i) => [i.request.method, i.request.url, i.response?.status])).toEqual([
+      ["GET", "https://example.com/old", 301],
+      ["GET", "https://example.com/new", 200],
+    ]);
+    expect(cassette.interactions[1].response?.headers).toEqual(
+      expect.arrayContaining([
+        ["set-cookie", "a=1; Secure"],
+        ["set-cookie", "b=2; HttpOnly"],
+      ])
+    );
+    expect(atob(cassette.interactions[1].response!.body)).toBe('{"id":1}');
+    expect(cassette.interactions[1].durationMs).toBe(25);
+    expect(Object.keys(cassette.interactions[0].request)).toEqual(["method", "url"]);
+  });
+
+  it("records fetch errors", async () => {
+    const recorder = new RecordingProbeProvider(
+      fakeUpstream(() => {
+        throw new Error("getaddrinfo ENOTFOUND example.com");
+      })
+    );
+    const envelope = await recorder.probe("https://example.com/");
+
+    expect("error" in envelope.result && envelope.result.error.code).toBe("dns_error");
+    expect(recorder.cassette().interactions[0].error).toContain("ENOTFOUND");
+  });
+});
+
+describe("ReplayProbeProvider", () => {
+  it("reproduces the recorded envelope exactly", async () => {
+    const recorder = new RecordingProbeProvider(redirectingUpstream());
+    const recorded = await recorder.probe("https://example.com/old");
+    const cassette = JSON.parse(JSON.stringify(recorder.cassette())) as ProbeCassette;
+
+    const first = await new ReplayProbeProvider(cassette).probe("https://example.com/old");
+    const second = await new ReplayProbeProvider(cassette).probe("https://example.com/old");
+
+    expect(first).toEqual(recorded);
+    expect(JSON.stringify(second)).toBe(JSON.stringify(first));
+    if (!first.result.ok) throw new Error("expected success");
+    expect(first.result.response.headers.cookies?.map((c) => c.name)).toEqual(["a", "b"]);
+    expect(first.result.response.bodyFingerprint?.json?.paths).toEqual({ $: "object", "$.id": "number" });
+  });
+
+  it("replays timings on a virtual clock", async () => {
+    const cassette: ProbeCassette = {
+      version: 1,
+      recordedAt: "2026-05-12T09:30:00.000Z",
+      interactions: [
+        {
+          request: { method: "GET", url: "https://example.com/" },
+          response: { status: 200, headers: [["content-type", "text/plain"]], body: btoa("ok") },
+          startedAt: "2026-05-12T09:30:01.000Z",
+          durationMs: 1234,
+        },
+      ],
+    };
+    const envelope = await new ReplayProbeProvider(cassette).probe("https://example.com/");
+
+    expect(envelope.capturedAt).toBe("2026-05-12T09:30:01.000Z");
+    expect(envelope.result.durationMs).toBe(1234);
+  });
+
+  it("arms no real-time timers", async () => {
+    const cassette: ProbeCassette = {
+      version: 1,
+      recordedAt: "2026-05-12T09:30:00.000Z",
+      interactions: [
+        {
+          request: { method: "GET", url: "https://example.com/" },
+          response: { status: 200, headers: [], body: btoa("ok") },
+          startedAt: "2026-05-12T09:30:00.000Z",
+          durationMs: 10,
+        },
+      ],
+    };
+    const setTimeoutSpy = jest.spyOn(globalThis, "setTimeout");
+
+    await new ReplayProbeProvider(cassette).probe("https://example.com/", undefined, { timeoutMs: 30000 });
+
+    expect(setTimeoutSpy).not.toHaveBeenCalled();
+    setTimeoutSpy.mockRestore();
+  });
+
+  it("serves repeated requests from successive interactions", async () => {
+    const interaction = (status: number) => ({
+      request: { method: "GET", url: "https://example.com/" },
+      response: { status, headers: [], body: "" },
+      startedAt: "2026-05-12T09:30:00.000Z",
+      durationMs: 10,
+    });
+    const provider = new ReplayProbeProvider({
+      version: 1,
+      recordedAt: "2026-05-12T09:30:00.000Z",
+      interactions: [interaction(200), interaction(503)],
+    });
+
+    const statuses = [];
+    for (let i = 0; i < 3; i++) {
+      const envelope = await provider.probe("https://example.com/");
+      statuses.push("response" in envelope.result ? envelope.result.response.status : envelope.result.error.code);
+    }
+    expect(statuses).toEqual([200, 503, "fetch_error"]);
+  });
+
+  it("replays recorded errors and truncated bodies", async () => {
+    const big = "x".repeat(MAX_BODY_BYTES + 1);
+    const provider = new ReplayProbeProvider({
+      version: 1,
+      recordedAt: "2026-05-12T09:30:00.000Z",
+      interactions: [
+        {
+          request: { method: "GET", url: "https://down.example.com/" },
+          error: "TypeError: fetch failed: certificate has expired",
+          startedAt: "2026-05-12T09:30:00.000Z",
+          durationMs: 40,
+        },
+        {
+          request: { method: "GET", url: "https://big.example.com/" },
+          response: { status: 200, headers: [], body: btoa(big) },
+          startedAt: "2026-05-12T09:30:00.000Z",
+          durationMs: 40,
+        },
+      ],
+    });
+
+    const down = await provider.probe("https://down.example.com/");
+    expect("error" in down.result && down.result.error.code).toBe("tls_error");
+
+    const bigEnvelope = await provider.probe("https://big.example.com/");
+    if (!bigEnvelope.result.ok) throw new Error("expected success");
+    expect(bigEnvelope.result.response.bodyTruncated).toBe(true);
+    expect(bigEnvelope.result.response.contentLength).toBe(MAX_BODY_BYTES);
+  });
+
+  it("fails an unrecorded request as fetch_error without network access", async () => {
+    const fetchSpy = jest.spyOn(globalThis, "fetch" as any);
+    const envelope = await new ReplayProbeProvider({
+      version: 1,
+      recordedAt: "2026-05-12T09:30:00.000Z",
+      interactions: [],
+    }).probe("https://example.com/");
+
+    expect("error" in envelope.result && envelope.result.error.code).toBe("fetch_error");
+    expect(fetchSpy).not.toHaveBeenCalled();
+
+    jest.restoreAllMocks();
+  });
+
+  it("rejects unknown cassette versions", () => {
+    expect(
+      () => new ReplayProbeProvider({ version: 2, recordedAt: "", interactions: [] } as unknown as ProbeCassette)
+    ).toThrow("Unsupported cassette version 2");
+  });
+});
@@ -0,0 +1,29 @@
+import { parseServerTiming } from "../serverTiming";
+
+describe("parseServerTiming", () => {
+  it("parses metrics with durations and descriptions, sorted by name", () => {
+    expect(parseServerTiming('db;dur=53.2;desc="Primary DB", cache;desc=HIT, app;dur=120')).toEqual([
+      { name: "app", dur: 120 },
+      { name: "cache", desc: "HIT" },
+      { name: "db", dur: 53.2, desc: "Primary DB" },
+    ]);
+  });
+
+  it("does not split on delimiters inside quoted descriptions", () => {
+    expect(parseServerTiming('edge;desc="a, b; \\"c\\"";dur=4')).toEqual([
+      { name: "edge", dur: 4, desc: 'a, b; "c"' },
+    ]);
+  });
+
+  it("keeps the first metric and parameter per name and drops invalid values", () => {
+    expect(parseServerTiming("db;DUR=5;dur=9, db;dur=7, total;dur=abc, bad name;dur=1")).toEqual([
+      { name: "db", dur: 5 },
+      { name: "total" },
+    ]);
+  });
+
+  it("returns undefined when the header is absent or has no valid metric", () => {
+    expect(parseServerTiming(null)).toBeUndefined();
+    expect(parseServerTiming(" , ;dur=3")).toBeUndefined();
+  });
+});
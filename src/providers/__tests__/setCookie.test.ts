@@ -0,0 +1,64 @@
+import { parseSetCookie, parseSetCookieHeaders } from "../setCookie";
+
+describe("setCookie", () => {
+  describe("parseSetCookie", () => {
+    it("parses attributes and drops the value", () => {
+      const record = parseSetCookie(
+        "sid=s3cr3t; Domain=.Example.com; Path=/app; Secure; HttpOnly; SameSite=Strict; Max-Age=3600"
+      );
+      expect(record).toEqual({
+        name: "sid",
+        domain: "example.com",
+        path: "/app",
+        secure: true,
+        httpOnly: true,
+        sameSite: "strict",
+        maxAge: 3600,
+        expires: false,
+        partitioned: false,
+      });
+      expect(JSON.stringify(record)).not.toContain("s3cr3t");
+    });
+
+    it("records Expires as presence only", () => {
+      const record = parseSetCookie("theme=dark; Expires=Wed, 21 Oct 2026 07:28:00 GMT");
+      expect(record?.expires).toBe(true);
+      expect(JSON.stringify(record)).not.toContain("2026");
+    });
+
+    it("uses defaults when attributes are absent", () => {
+      expect(parseSetCookie("a=b")).toEqual({
+        name: "a",
+        secure: false,
+        httpOnly: false,
+        expires: false,
+        partitioned: false,
+      });
+    });
+
+    it("ignores invalid SameSite and Max-Age values", () => {
+      const record = parseSetCookie("a=b; SameSite=Sometimes; Max-Age=soon");
+      expect(record?.sameSite).toBeUndefined();
+      expect(record?.maxAge).toBeUndefined();
+    });
+
+    it("returns undefined without a cookie name", () => {
+      expect(parseSetCookie("=value; Secure")).toBeUndefined();
+    });
+  });
+
+  describe("parseSetCookieHeaders", () => {
+    it("returns records sorted by name", () => {
+      const headers = new Headers();
+      headers.append("set-cookie", "zeta=1; Secure");
+      headers.append("set-cookie", "alpha=2; HttpOnly");
+
+      const records = parseSetCookieHeaders(headers);
+      expect(records?.map((r) => r.name)).toEqual(["alpha", "zeta"]);
+    });
+
+    it("returns undefined when no cookies are set", () => {
+      expect(parseSetCookieHeaders(new Headers({ "content-type": "text/html" }))).toBeUndefined();
+    });
+  });
+});
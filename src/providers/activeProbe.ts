@@ -4,15 +4,105 @@ import type {
   ProbeSuccess,
   ProbeResponseError,
   ProbeNetworkFailure,
+  ProbeError,
   ProbeErrorCode,
   RedirectHop,
   ResponseMetadata,
   CoreResponseHeaders,
   AccessControlHeaders,
+  SecurityHeaderKey,
+  SecurityResponseHeaders,
+  CustomResponseHeaders,
+  HeaderCaptureOptions,
+  ResponseHeadersSnapshot,
+  BodyFingerprint,
+  ProbeRequestOptions,
+  ProbeRequestSnapshot,
+  ProbeAttempt,
+  RetryPolicy,
+  TimingPhases,
+  CorsPreflightOptions,
+  CorsPreflightResult,
+  DnsResolution,
+  DnsSnapshot,
 } from "@shared/signal";
 import { SIGNAL_SCHEMA_VERSION } from "@shared/signal";
 import type { ProviderRunnerContext } from "./types";
 import { ISignalProvider } from "./types";
+import type { ProbeCredential } from "./credentials";
+import { credentialAllowsUrl, credentialHeaders } from "./credentials";
+import { parseSetCookieHeaders } from "./setCookie";
+import { parseServerTiming } from "./serverTiming";
+import { extractPlatformSnapshot } from "./platformHeaders";
+import { redactEnvelope, redactUrl } from "./redaction";
+import type { DnsResolver } from "./dns";
+import { DohResolver } from "./dns";
+import { fingerprintJsonBody, isJsonContentType } from "./jsonFingerprint";
+import { fingerprintHtmlBody, isHtmlContentType } from "./htmlFingerprint";
+import { validateProbeUrl } from "../api/validate";
+import { isCustomCaptureHeader } from "../analysis/headerDiff";
+import { HEADER_WHITELIST, SECURITY_HEADER_WHITELIST } from "../analysis/constants";
+
+/**
+ * Request defaults when the caller supplies no options.
+ */
+const DEFAULT_TIMEOUT_MS = 9000;
+const DEFAULT_MAX_REDIRECTS = 10;
+
+/**
+ * Retry defaults (applied only when the caller sets a retry policy).
+ * Codes that are transient by nature; invalid_url, ssrf_blocked and redirect errors never recover on retry.
+ * Total backoff per probe is capped at the request timeout: retries run inside one workflow step,
+ * so a retry whose delay would exceed the remaining budget is not attempted.
+ */
+const DEFAULT_RETRY_BACKOFF_MS = 250;
+const DEFAULT_RETRY_BACKOFF_MULTIPLIER = 2;
+export const DEFAULT_RETRYABLE_ERROR_CODES: ProbeErrorCode[] = [
+  "connection_refused",
+  "connection_reset",
+  "fetch_error",
+  "timeout",
+];
+
+/**
+ * Maximum number of body bytes read and hashed per probe.
+ * Larger bodies are truncated (bodyTruncated=true) to bound memory and time.
+ */
+export const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Network access and clock used by a probe.
+ * Live probes use global fetch and the wall clock; record/replay providers substitute both
+ * (see recordReplay.ts), so everything above the transport runs unchanged.
+ */
+export type ProbeTransport = {
+  fetch: (url: string, init: RequestInit) => Promise<Response>;
+  now: () => number;
+
+  /**
+   * Wait between retry attempts (absent = retry immediately, e.g. replay).
+   */
+  sleep?: (ms: number) => Promise<void>;
+
+  /**
+   * Arm the request timeout: call abort after ms; returns a function that disarms it.
+   * Absent = requests are never aborted by time (e.g., replay serves recorded responses instantly).
+   */
+  abortAfter?: (ms: number, abort: () => void) => () => void;
+};
+
+/**
+ * Default transport. fetch is looked up per call so test spies on globalThis.fetch apply.
+ */
+export const liveTransport: ProbeTransport = {
+  fetch: (url, init) => fetch(url, init),
+  now: () => Date.now(),
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+  abortAfter: (ms, abort) => {
+    const timer = setTimeout(abort, ms);
+    return () => clearTimeout(timer);
+  },
+};
 
 /**
  * SSRF Validation Result
@@ -32,16 +122,24 @@ class DurationTracker {
   private readonly startTime: number;
   private readonly abortTimeoutMs: number;
   private readonly controller: AbortController;
+  private readonly now: () => number;
+  private readonly disarm: () => void;
 
-  constructor(timeoutMs: number = 9000) {
-    this.startTime = Date.now();
+  constructor(timeoutMs: number = 9000, transport: Pick<ProbeTransport, "now" | "abortAfter"> = liveTransport) {
+    this.now = transport.now;
+    this.startTime = transport.now();
     this.abortTimeoutMs = timeoutMs;
     this.controller = new AbortController();
 
     // Set timeout to abort fetch operations
-    setTimeout(() => {
-      this.controller.abort();
-    }, this.abortTimeoutMs);
+    this.disarm = transport.abortAfter?.(this.abortTimeoutMs, () => this.controller.abort()) ?? (() => {});
+  }
+
+  /**
+   * Stop the abort timer once the probe has finished (a live timer would outlive the probe)
+   */
+  dispose(): void {
+    this.disarm();
   }
 
   /**
@@ -55,7 +153,7 @@ class DurationTracker {
    * Get remaining time in milliseconds
    */
   getRemainingMs(): number {
-    const elapsed = Date.now() - this.startTime;
+    const elapsed = this.now() - this.startTime;
     const remaining = this.abortTimeoutMs - elapsed;
     return Math.max(0, remaining);
   }
@@ -71,8 +169,38 @@ class DurationTracker {
    * Get total elapsed time
    */
   getElapsedMs(): number {
-    return Date.now() - this.startTime;
+    return this.now() - this.startTime;
+  }
+}
+
+/**
+ * CIDR ranges a probe must never reach (Layer 3).
+ */
+const BLOCKED_IPV4_RANGES: Array<{ addr: string; prefix: number; name: string }> = [
+  { addr: "10.0.0.0", prefix: 8, name: "10.0.0.0/8" },
+  { addr: "172.16.0.0", prefix: 12, name: "172.16.0.0/12" },
+  { addr: "192.168.0.0", prefix: 16, name: "192.168.0.0/16" },
+  { addr: "127.0.0.0", prefix: 8, name: "127.0.0.0/8" },
+  { addr: "169.254.0.0", prefix: 16, name: "169.254.0.0/16" },
+];
+
+const BLOCKED_IPV6_RANGES: Array<{ addr: string; prefix: number; name: string }> = [
+  { addr: "::1", prefix: 128, name: "::1/128" },
+  { addr: "fe80::", prefix: 10, name: "fe80::/10" },
+];
+
+/**
+ * Blocked CIDR range containing an address.
+ *
+ * @returns Range name (e.g., "10.0.0.0/8"), or undefined if the address is allowed
+ */
+function blockedRange(ip: ipaddr.IPv4 | ipaddr.IPv6): string | undefined {
+  if (ip.kind() === "ipv4") {
+    const ipv4 = ip as ipaddr.IPv4;
+    return BLOCKED_IPV4_RANGES.find(({ addr, prefix }) => ipv4.match(ipaddr.IPv4.parse(addr), prefix))?.name;
   }
+  const ipv6 = ip as ipaddr.IPv6;
+  return BLOCKED_IPV6_RANGES.find(({ addr, prefix }) => ipv6.match(ipaddr.IPv6.parse(addr), prefix))?.name;
 }
 
 /**
@@ -116,46 +244,13 @@ function validateUrlSafety(url: string): SSRFValidationResult & { isInvalidUrl?:
       const hostForParsing = hostname.replace(/^\[(.+)\]$/, "$1");
       const ip = ipaddr.process(hostForParsing);
 
-      // Check IPv4 ranges
-      if (ip.kind() === "ipv4") {
-        const ipv4 = ip as ipaddr.IPv4;
-
-        // Blocked IPv4 ranges
-        const blockedIPv4Ranges: Array<{ addr: string; prefix: number; name: string }> = [
-          { addr: "10.0.0.0", prefix: 8, name: "10.0.0.0/8" },
-          { addr: "172.16.0.0", prefix: 12, name: "172.16.0.0/12" },
-          { addr: "192.168.0.0", prefix: 16, name: "192.168.0.0/16" },
-          { addr: "127.0.0.0", prefix: 8, name: "127.0.0.0/8" },
-          { addr: "169.254.0.0", prefix: 16, name: "169.254.0.0/16" },
-        ];
-
-        for (const { addr, prefix, name } of blockedIPv4Ranges) {
-          if (ipv4.match(ipaddr.IPv4.parse(addr), prefix)) {
-            return {
-              safe: false,
-              reason: "blocked_cidr_range",
-              details: { hostname, ip: ipv4.toString(), range: name },
-            };
-          }
-        }
-      } else if (ip.kind() === "ipv6") {
-        const ipv6 = ip as ipaddr.IPv6;
-
-        // Blocked IPv6 ranges
-        const blockedIPv6Ranges: Array<{ addr: string; prefix: number; name: string }> = [
-          { addr: "::1", prefix: 128, name: "::1/128" },
-          { addr: "fe80::", prefix: 10, name: "fe80::/10" },
-        ];
-
-        for (const { addr, prefix, name } of blockedIPv6Ranges) {
-          if (ipv6.match(ipaddr.IPv6.parse(addr), prefix)) {
-            return {
-              safe: false,
-              reason: "blocked_cidr_range",
-              details: { hostname, ip: ipv6.toString(), range: name },
-            };
-          }
-        }
+      const range = blockedRange(ip);
+      if (range) {
+        return {
+          safe: false,
+          reason: "blocked_cidr_range",
+          details: { hostname, ip: ip.toString(), range },
+        };
       }
     } catch {
       // If ipaddr.process() fails, it's likely not an IP, so allow hostname
@@ -173,6 +268,132 @@ function validateUrlSafety(url: string): SSRFValidationResult & { isInvalidUrl?:
   }
 }
 
+/**
+ * Validate a redirect target before it is fetched.
+ * Applies both the provider's CIDR checks and the API-level checks (validateProbeUrl),
+ * so a hop is held to the same rules as a user-supplied URL.
+ */
+function validateHopUrl(url: string): { safe: true } | { safe: false; reason: string } {
+  const safety = validateUrlSafety(url);
+  if (!safety.safe) {
+    return { safe: false, reason: safety.reason ?? "blocked" };
+  }
+
+  const validation = validateProbeUrl(url);
+  if (!validation.valid) {
+    return { safe: false, reason: validation.reason };
+  }
+
+  return { safe: true };
+}
+
+/**
+ * Why a host's resolved addresses could not be cleared for fetching.
+ */
+type AddressCheckFailure =
+  | { code: "ssrf_blocked"; ip: string; reason: string }
+  | { code: "dns_error"; resolverError: string };
+
+/**
+ * Build the probe error for a failed address check.
+ *
+ * @param prefix - Message prefix naming the checked URL, e.g. "URL validation failed"
+ * @param details - Details shared by both failure kinds (e.g., the hostname)
+ */
+function addressCheckError(
+  failure: AddressCheckFailure,
+  prefix: string,
+  details: Record<string, unknown>
+): ProbeError {
+  return failure.code === "ssrf_blocked"
+    ? {
+        code: "ssrf_blocked",
+        message: `${prefix}: resolves to ${failure.ip}`,
+        details: { ...details, ip: failure.ip, reason: failure.reason },
+      }
+    : {
+        code: "dns_error",
+        message: `${prefix}: addresses could not be verified (${failure.resolverError})`,
+        details: { ...details, resolverError: failure.resolverError },
+      };
+}
+
+/**
+ * Per-probe DNS lookups: each host is resolved once, and the results feed both
+ * the SSRF checks (resolved addresses) and envelope.dns.
+ * IP literal hosts are not resolved.
+ */
+class ProbeDns {
+  private readonly resolutions = new Map<string, DnsResolution>();
+
+  constructor(private readonly resolver: DnsResolver) {}
+
+  /**
+   * Resolve a URL's host (cached per probe).
+   *
+   * @returns Resolution, or undefined for IP literal or unparseable hosts
+   */
+  async resolve(url: string): Promise<DnsResolution | undefined> {
+    const host = hostOf(url);
+    if (!host || ipaddr.isValid(host.replace(/^\[(.+)\]$/, "$1"))) return undefined;
+
+    let resolution = this.resolutions.get(host);
+    if (!resolution) {
+      resolution = await this.resolver.resolve(host);
+      this.resolutions.set(host, resolution);
+    }
+    return resolution;
+  }
+
+  /**
+   * Resolve a URL's host and check every resolved address like an IP literal URL host,
+   * so a public hostname pointing at a private address is blocked.
+   * A failed lookup cannot be verified, so it fails the check instead of letting the fetch through.
+   *
+   * @returns First blocked address or the resolver error, or undefined if all addresses are allowed
+   */
+  async checkAddresses(url: string): Promise<AddressCheckFailure | undefined> {
+    const resolution = await this.resolve(url);
+    if (resolution?.error) return { code: "dns_error", resolverError: resolution.error };
+    for (const address of [...(resolution?.a ?? []), ...(resolution?.aaaa ?? [])]) {
+      let ip: ipaddr.IPv4 | ipaddr.IPv6;
+      try {
+        ip = ipaddr.process(address);
+      } catch {
+        continue; // Not an address (malformed answer)
+      }
+      const range = blockedRange(ip);
+      if (range) return { code: "ssrf_blocked", ip: ip.toString(), reason: `blocked_cidr_range ${range}` };
+      const literal = ip.kind() === "ipv6" ? `[${ip.toString()}]` : ip.toString();
+      const validation = validateProbeUrl(`http://${literal}/`);
+      if (!validation.valid) return { code: "ssrf_blocked", ip: ip.toString(), reason: validation.reason };
+    }
+    return undefined;
+  }
+
+  /**
+   * Build envelope.dns from the lookups made so far.
+   * final is included only when the final host differs from the requested host.
+   */
+  snapshot(requestedUrl: string, finalUrl?: string): DnsSnapshot | undefined {
+    const requestedHost = hostOf(requestedUrl);
+    const requested = requestedHost ? this.resolutions.get(requestedHost) : undefined;
+    if (!requested) return undefined;
+
+    const finalHost = finalUrl ? hostOf(finalUrl) : undefined;
+    const final = finalHost && finalHost !== requestedHost ? this.resolutions.get(finalHost) : undefined;
+    return final ? { requested, final } : { requested };
+  }
+}
+
+function hostOf(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.toLowerCase() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Extract runner context from request.cf
  * Critique C: Safe fallbacks for local development
@@ -208,24 +429,168 @@ function resolveUrl(base: string, relative: string): string {
 }
 
 /**
- * Classify fetch errors into deterministic error codes
+ * Resolve caller-supplied request options into the effective request snapshot.
+ * Header keys are lowercased and sorted for deterministic JSON output.
+ * Bodies are dropped for GET/HEAD (fetch rejects them).
  */
-function classifyFetchError(error: unknown): ProbeErrorCode {
-  const message = String(error).toLowerCase();
+function resolveRequestOptions(
+  options?: ProbeRequestOptions,
+  credential?: ProbeCredential
+): ProbeRequestSnapshot {
+  const method = options?.method ?? "GET";
+
+  const lowered: Record<string, string> = {};
+  for (const [key, value] of Object.entries(options?.headers ?? {})) {
+    lowered[key.toLowerCase()] = value;
+  }
 
-  if (message.includes("abort") || message.includes("timeout")) {
-    return "timeout";
+  const headers: Record<string, string> = {};
+  for (const key of Object.keys(lowered).sort()) {
+    headers[key] = lowered[key];
   }
-  if (message.includes("enotfound") || message.includes("dns")) {
-    return "dns_error";
+
+  const allowsBody = method !== "GET" && method !== "HEAD";
+
+  return {
+    method,
+    headers,
+    body: allowsBody ? options?.body : undefined,
+    timeoutMs: options?.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    maxRedirects: options?.maxRedirects ?? DEFAULT_MAX_REDIRECTS,
+    preflight: options?.preflight,
+    captureHeaders: options?.captureHeaders,
+    retry: resolveRetryPolicy(options?.retry),
+    credentialRef: credential?.name,
+  };
+}
+
+/**
+ * Resolve retry defaults. A policy allowing a single attempt is treated as no policy.
+ */
+function resolveRetryPolicy(retry?: RetryPolicy): Required<RetryPolicy> | undefined {
+  if (!retry || retry.maxAttempts <= 1) return undefined;
+  return {
+    maxAttempts: retry.maxAttempts,
+    backoffMs: retry.backoffMs ?? DEFAULT_RETRY_BACKOFF_MS,
+    backoffMultiplier: retry.backoffMultiplier ?? DEFAULT_RETRY_BACKOFF_MULTIPLIER,
+    retryOn: retry.retryOn ?? DEFAULT_RETRYABLE_ERROR_CODES,
+  };
+}
+
+/**
+ * Summarize one attempt for SignalEnvelope.attempts.
+ */
+function attemptOf(envelope: SignalEnvelope): ProbeAttempt {
+  const result = envelope.result;
+  return {
+    capturedAt: envelope.capturedAt,
+    ok: result.ok,
+    status: "response" in result ? result.response.status : undefined,
+    errorCode: "error" in result ? result.error.code : undefined,
+    durationMs: result.durationMs,
+  };
+}
+
+/**
+ * Build request headers for one hop.
+ * Credentials are attached only while the hop stays on the initial URL's origin,
+ * so a redirect to another origin never receives them (matches browser behavior),
+ * and only if that origin is one the credential is bound to.
+ */
+function hopHeaders(
+  request: ProbeRequestSnapshot,
+  hopUrl: string,
+  initialUrl: string,
+  credential?: ProbeCredential
+): Record<string, string> {
+  if (!credential) return request.headers;
+
+  try {
+    if (new URL(hopUrl).origin !== new URL(initialUrl).origin) {
+      return request.headers;
+    }
+  } catch {
+    return request.headers;
   }
-  if (message.includes("certificate") || message.includes("tls")) {
-    return "tls_error";
+
+  if (!credentialAllowsUrl(credential, hopUrl)) return request.headers;
+
+  return { ...request.headers, ...credentialHeaders(credential) };
+}
+
+/**
+ * Method/body for the next hop after a redirect (matches browser fetch semantics):
+ * - 303: switch to GET (except HEAD), drop body
+ * - 301/302: POST switches to GET, drop body
+ * - 307/308: preserve method and body
+ */
+function nextHopRequest(
+  status: number,
+  method: ProbeRequestSnapshot["method"],
+  body: string | undefined
+): { method: ProbeRequestSnapshot["method"]; body: string | undefined } {
+  if ((status === 303 && method !== "HEAD") || ((status === 301 || status === 302) && method === "POST")) {
+    return { method: "GET", body: undefined };
   }
-  if (message.includes("ssrf")) {
-    return "ssrf_blocked";
+  return { method, body };
+}
+
+/**
+ * System error codes (err.code, or err.cause.code as wrapped by undici) by probe error code.
+ */
+const SYSTEM_ERROR_CODES: Record<string, ProbeErrorCode> = {
+  ECONNREFUSED: "connection_refused",
+  ECONNRESET: "connection_reset",
+  EPIPE: "connection_reset",
+  UND_ERR_SOCKET: "connection_reset",
+  ENOTFOUND: "dns_error",
+  EAI_AGAIN: "dns_error",
+  ETIMEDOUT: "timeout",
+  UND_ERR_CONNECT_TIMEOUT: "timeout",
+};
+
+/**
+ * Message fragments for runtimes that only surface a message (e.g., Workers fetch).
+ * Checked in order; first match wins.
+ */
+const MESSAGE_PATTERNS: Array<[string, ProbeErrorCode]> = [
+  ["abort", "timeout"],
+  ["timeout", "timeout"],
+  ["timed out", "timeout"],
+  ["connection refused", "connection_refused"],
+  ["connection reset", "connection_reset"],
+  ["enotfound", "dns_error"],
+  ["dns", "dns_error"],
+  ["certificate", "tls_error"],
+  ["tls", "tls_error"],
+  ["ssl", "tls_error"],
+  ["ssrf", "ssrf_blocked"],
+];
+
+/**
+ * Classify fetch errors into deterministic error codes.
+ *
+ * Structured fields are checked first (error name, then system error code along the cause chain);
+ * message matching is the fallback.
+ */
+export function classifyFetchError(error: unknown): ProbeErrorCode {
+  let current: unknown = error;
+  for (let depth = 0; depth < 3 && current && typeof current === "object"; depth++) {
+    const { name, code, cause } = current as { name?: unknown; code?: unknown; cause?: unknown };
+    if (name === "AbortError" || name === "TimeoutError") {
+      return "timeout";
+    }
+    if (typeof code === "string") {
+      if (SYSTEM_ERROR_CODES[code]) return SYSTEM_ERROR_CODES[code];
+      if (code.startsWith("CERT_") || code.startsWith("ERR_TLS") || code.includes("SSL")) return "tls_error";
+    }
+    current = cause;
   }
 
+  const message = String(error).toLowerCase();
+  for (const [fragment, code] of MESSAGE_PATTERNS) {
+    if (message.includes(fragment)) return code;
+  }
   return "fetch_error";
 }
 
@@ -239,35 +604,34 @@ function classifyFetchError(error: unknown): ProbeErrorCode {
  * This ensures that status drift (e.g., 200 vs 404) is correctly captured
  * in outcomeChanged and severity classification.
  */
-function classifyStatusOutcome(status: number): boolean {
+export function classifyStatusOutcome(status: number): boolean {
   return status < 400;
 }
 
 /**
  * Filter and normalize response headers
  * Critique D: Sorted keys for deterministic JSON output
+ * Custom headers (capture option) fill a separate group; blocked names are never captured.
  */
-function filterHeaders(headers: Headers): { core: CoreResponseHeaders; accessControl?: AccessControlHeaders } {
+export function filterHeaders(headers: Headers, capture?: HeaderCaptureOptions): ResponseHeadersSnapshot {
   const coreHeaders: Record<string, string> = {};
   const accessControlHeaders: Record<string, string> = {};
-
-  // Whitelisted core headers (lowercase)
-  const coreWhitelist = [
-    "cache-control",
-    "content-type",
-    "vary",
-    "www-authenticate",
-    "location",
-  ];
+  const securityHeaders: Record<string, string> = {};
+  const customHeaders: Record<string, string> = {};
 
   // Iterate through headers using forEach (Headers iterator)
   headers.forEach((value, key) => {
     const lowerKey = key.toLowerCase();
 
-    if (coreWhitelist.includes(lowerKey)) {
+    // Whitelisted core headers; security headers are grouped separately
+    if (HEADER_WHITELIST.has(lowerKey as any)) {
       coreHeaders[lowerKey] = value;
     } else if (lowerKey.startsWith("access-control-")) {
       accessControlHeaders[lowerKey] = value;
+    } else if (SECURITY_HEADER_WHITELIST.has(lowerKey as any)) {
+      securityHeaders[lowerKey] = value;
+    } else if (isCustomCaptureHeader(lowerKey, capture)) {
+      customHeaders[lowerKey] = value;
     }
   });
 
@@ -283,29 +647,162 @@ function filterHeaders(headers: Headers): { core: CoreResponseHeaders; accessCon
     sortedAccessControlHeaders[key] = accessControlHeaders[key];
   }
 
+  // Sort security headers keys
+  const sortedSecurityHeaders: SecurityResponseHeaders = {};
+  for (const key of Object.keys(securityHeaders).sort()) {
+    sortedSecurityHeaders[key as SecurityHeaderKey] = securityHeaders[key];
+  }
+
+  // Sort custom headers keys
+  const sortedCustomHeaders: CustomResponseHeaders = {};
+  for (const key of Object.keys(customHeaders).sort()) {
+    sortedCustomHeaders[key] = customHeaders[key];
+  }
+
   return {
     core: sortedCoreHeaders,
     accessControl: Object.keys(sortedAccessControlHeaders).length > 0 ? sortedAccessControlHeaders : undefined,
+    security: Object.keys(sortedSecurityHeaders).length > 0 ? sortedSecurityHeaders : undefined,
+    custom: Object.keys(sortedCustomHeaders).length > 0 ? sortedCustomHeaders : undefined,
+    cookies: parseSetCookieHeaders(headers),
+    serverTiming: parseServerTiming(headers.get("server-timing")),
   };
 }
 
 /**
- * Follow redirects manually (up to 10 hops)
+ * Captured body digest
+ */
+type BodyDigest = {
+  contentLength: number;
+  bodyHash: string;
+  truncated: boolean;
+  bytes: Uint8Array;
+};
+
+/**
+ * Stream the response body up to maxBytes and compute a SHA-256 hex digest.
+ * Critique B: Stops early when the time budget is exhausted (marked as truncated)
+ *
+ * Never throws; stream errors (e.g., abort mid-body) also yield a truncated digest
+ * over whatever bytes were received.
+ */
+async function readBodyDigest(
+  response: Response,
+  tracker: DurationTracker,
+  maxBytes: number = MAX_BODY_BYTES
+): Promise<BodyDigest> {
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  let truncated = false;
+
+  if (response.body) {
+    const reader = response.body.getReader();
+    try {
+      while (true) {
+        if (!tracker.shouldContinue()) {
+          truncated = true;
+          break;
+        }
+
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        const remaining = maxBytes - received;
+        if (value.byteLength > remaining) {
+          chunks.push(value.subarray(0, remaining));
+          received += remaining;
+          truncated = true;
+          break;
+        }
+
+        chunks.push(value);
+        received += value.byteLength;
+      }
+    } catch {
+      truncated = true;
+    } finally {
+      if (truncated) {
+        reader.cancel().catch(() => undefined);
+      }
+    }
+  }
+
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+
+  const bodyHash = await sha256Hex(bytes);
+
+  return { contentLength: received, bodyHash, truncated, bytes };
+}
+
+/**
+ * SHA-256 digest of body bytes, hex-encoded.
+ */
+export async function sha256Hex(bytes: BufferSource): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(hashBuffer))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Structural fingerprint of a complete body (JSON or HTML), by content type.
+ *
+ * @param contentType - Response content-type
+ * @param bytes - Complete body bytes (never a truncated prefix: it is rarely parseable)
+ * @param finalUrl - Final response URL (resolves relative HTML asset URLs)
+ * @returns BodyFingerprint, or undefined for other content types or invalid JSON
+ */
+export function fingerprintBody(
+  contentType: string | undefined,
+  bytes: Uint8Array,
+  finalUrl: string
+): BodyFingerprint | undefined {
+  if (isJsonContentType(contentType)) {
+    const json = fingerprintJsonBody(bytes);
+    return json ? { json } : undefined;
+  }
+  if (isHtmlContentType(contentType)) {
+    return { html: fingerprintHtmlBody(bytes, finalUrl) };
+  }
+  return undefined;
+}
+
+/**
+ * Follow redirects manually (up to request.maxRedirects hops)
  * Critique B: Timeout budgeting with early-exit checks
  */
 async function followRedirects(
   initialUrl: string,
-  tracker: DurationTracker
+  tracker: DurationTracker,
+  request: ProbeRequestSnapshot,
+  transport: ProbeTransport,
+  credential?: ProbeCredential,
+  dns?: ProbeDns
 ): Promise<
-  | { finalUrl: string; redirects: RedirectHop[]; status: number; headers: Headers }
+  | {
+      finalUrl: string;
+      redirects: RedirectHop[];
+      status: number;
+      headers: Headers;
+      response: Response;
+      requestStartMs: number; // final request sent (elapsed ms)
+      headersAtMs: number; // final response headers received (elapsed ms)
+    }
   | ProbeNetworkFailure
 > {
   const redirects: RedirectHop[] = [];
   const visited = new Set<string>();
   let currentUrl = initialUrl;
-  let maxHops = 10;
+  let method = request.method;
+  let body = request.body;
+  let maxHops = request.maxRedirects;
 
-  while (maxHops > 0) {
+  while (maxHops >= 0) {
     // Check remaining time budget (Critique B)
     if (!tracker.shouldContinue()) {
       return {
@@ -320,10 +817,15 @@ async function followRedirects(
     }
 
     try {
-      const response = await fetch(currentUrl, {
+      const hopStartMs = tracker.getElapsedMs();
+      const response = await transport.fetch(currentUrl, {
+        method,
+        headers: hopHeaders(request, currentUrl, initialUrl, credential),
+        body,
         redirect: "manual",
         signal: tracker.signal,
       });
+      const headersAtMs = tracker.getElapsedMs();
 
       const status = response.status;
 
@@ -335,7 +837,7 @@ async function followRedirects(
           return {
             ok: false,
             error: {
-              code: "fetch_error" as ProbeErrorCode,
+              code: "redirect_missing_location" as ProbeErrorCode,
               message: `Redirect status ${status} without Location header`,
               details: { fromUrl: currentUrl, status },
             },
@@ -349,7 +851,7 @@ async function followRedirects(
           return {
             ok: false,
             error: {
-              code: "fetch_error" as ProbeErrorCode,
+              code: "redirect_loop" as ProbeErrorCode,
               message: "Redirect loop detected",
               details: { loopUrl: nextUrl, chainLength: redirects.length },
             },
@@ -361,10 +863,43 @@ async function followRedirects(
           fromUrl: currentUrl,
           toUrl: nextUrl,
           status,
+          headers: filterHeaders(response.headers, request.captureHeaders),
+          durationMs: tracker.getElapsedMs() - hopStartMs,
+          ttfbMs: headersAtMs - hopStartMs,
         });
 
+        // SSRF: every hop target gets the same checks as the initial URL (Critique A)
+        const hopValidation = validateHopUrl(nextUrl);
+        if (!hopValidation.safe) {
+          return {
+            ok: false,
+            error: {
+              code: "ssrf_blocked" as ProbeErrorCode,
+              message: `Redirect target blocked: ${hopValidation.reason}`,
+              details: { blockedUrl: nextUrl, hop: redirects.length, reason: hopValidation.reason },
+            },
+            redirects,
+            durationMs: tracker.getElapsedMs(),
+          };
+        }
+
+        // SSRF: the hop's resolved addresses get the same checks (lookup time counts toward the probe)
+        const addressFailure = dns ? await dns.checkAddresses(nextUrl) : undefined;
+        if (addressFailure) {
+          return {
+            ok: false,
+            error: addressCheckError(addressFailure, "Redirect target blocked", {
+              blockedUrl: nextUrl,
+              hop: redirects.length,
+            }),
+            redirects,
+            durationMs: tracker.getElapsedMs(),
+          };
+        }
+
         visited.add(currentUrl);
         currentUrl = nextUrl;
+        ({ method, body } = nextHopRequest(status, method, body));
         maxHops--;
         continue;
       }
@@ -375,6 +910,9 @@ async function followRedirects(
         redirects: redirects.length > 0 ? redirects : [],
         status,
         headers: response.headers,
+        response,
+        requestStartMs: hopStartMs,
+        headersAtMs,
       };
     } catch (err) {
       const code = classifyFetchError(err);
@@ -394,8 +932,8 @@ async function followRedirects(
   return {
     ok: false,
     error: {
-      code: "fetch_error" as ProbeErrorCode,
-      message: "Too many redirects (>10)",
+      code: "too_many_redirects" as ProbeErrorCode,
+      message: `Too many redirects (>${request.maxRedirects})`,
       details: { chainLength: redirects.length },
     },
     durationMs: tracker.getElapsedMs(),
@@ -403,12 +941,136 @@ async function followRedirects(
 }
 
 /**
- * ActiveProbeProvider: Orchestrates SSRF validation, redirect following, and header filtering
+ * Send a CORS preflight (OPTIONS) request, as a browser would before a non-simple request.
+ * - No credentials and no custom headers (browsers send neither on preflight)
+ * - Redirects are not followed (a redirected preflight fails CORS)
+ * - Own timeout budget, so the main probe's budget is unaffected
+ */
+async function runPreflight(
+  url: string,
+  preflight: CorsPreflightOptions,
+  timeoutMs: number,
+  transport: ProbeTransport
+): Promise<CorsPreflightResult> {
+  const startTime = transport.now();
+  const controller = new AbortController();
+  const disarm = transport.abortAfter?.(timeoutMs, () => controller.abort());
+
+  const headers: Record<string, string> = {
+    origin: preflight.origin,
+    "access-control-request-method": preflight.requestMethod,
+  };
+  if (preflight.requestHeaders && preflight.requestHeaders.length > 0) {
+    headers["access-control-request-headers"] = preflight.requestHeaders.join(",");
+  }
+
+  try {
+    const response = await transport.fetch(url, {
+      method: "OPTIONS",
+      headers,
+      redirect: "manual",
+      signal: controller.signal,
+    });
+
+    const captured: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      const lowerKey = key.toLowerCase();
+      if (lowerKey.startsWith("access-control-") || lowerKey === "vary") {
+        captured[lowerKey] = value;
+      }
+    });
+
+    const sorted: AccessControlHeaders = {};
+    for (const key of Object.keys(captured).sort()) {
+      sorted[key] = captured[key];
+    }
+
+    response.body?.cancel().catch(() => undefined);
+
+    return { status: response.status, headers: sorted, durationMs: transport.now() - startTime };
+  } catch (err) {
+    const code = classifyFetchError(err);
+    return {
+      error: { code, message: `${code}: ${String(err)}`, details: { url } },
+      durationMs: transport.now() - startTime,
+    };
+  } finally {
+    disarm?.();
+  }
+}
+
+/**
+ * Log a capture summary. Takes the redacted envelope, so secrets never reach Worker logs.
+ */
+function logCapture(envelope: SignalEnvelope): SignalEnvelope {
+  if (!("response" in envelope.result)) return envelope;
+
+  const { status, finalUrl, headers, contentLength, bodyTruncated } = envelope.result.response;
+  console.log(`[ActiveProbe] URL: ${redactUrl(envelope.requestedUrl).value} -> ${finalUrl}`);
+  console.log(`[ActiveProbe] Status: ${status}`);
+  console.log(`[ActiveProbe] Headers captured - core:`, JSON.stringify(headers.core));
+  console.log(`[ActiveProbe] Headers captured - accessControl:`, JSON.stringify(headers.accessControl));
+  console.log(`[ActiveProbe] Body captured - ${contentLength} bytes, truncated=${bodyTruncated ?? false}`);
+  return envelope;
+}
+
+/**
+ * ActiveProbeProvider: Orchestrates SSRF validation, redirect following, header filtering, and body hashing
  */
 export class ActiveProbeProvider implements ISignalProvider {
-  async probe(url: string, context?: ProviderRunnerContext): Promise<SignalEnvelope> {
-    const capturedAt = new Date().toISOString();
-    const tracker = new DurationTracker(9000);
+  /**
+   * @param transport - Network access and clock (record/replay substitute their own)
+   * @param resolver - DNS resolver for envelope.dns and resolved-address SSRF checks (none = no DNS capture)
+   */
+  constructor(
+    private readonly transport: ProbeTransport = liveTransport,
+    private readonly resolver?: DnsResolver
+  ) {}
+
+  /**
+   * Probe, then mask secrets in captured values before the envelope leaves the provider.
+   */
+  async probe(
+    url: string,
+    context?: ProviderRunnerContext,
+    options?: ProbeRequestOptions,
+    credential?: ProbeCredential
+  ): Promise<SignalEnvelope> {
+    let envelope = await this.capture(url, context, options, credential);
+    const retry = envelope.request?.retry;
+    if (!retry) {
+      return logCapture(redactEnvelope(envelope));
+    }
+
+    // Retry network-level failures with a retryable code; every attempt is recorded
+    const capturedAt = envelope.capturedAt;
+    const attempts = [attemptOf(envelope)];
+    let backoffBudgetMs = envelope.request!.timeoutMs;
+    while (
+      attempts.length < retry.maxAttempts &&
+      "error" in envelope.result &&
+      retry.retryOn.includes(envelope.result.error.code)
+    ) {
+      const delayMs = retry.backoffMs * retry.backoffMultiplier ** (attempts.length - 1);
+      if (delayMs > backoffBudgetMs) break;
+      backoffBudgetMs -= delayMs;
+      await this.transport.sleep?.(delayMs);
+      envelope = await this.capture(url, context, options, credential);
+      attempts.push(attemptOf(envelope));
+    }
+
+    return logCapture(redactEnvelope({ ...envelope, capturedAt, attempts }));
+  }
+
+  private async capture(
+    url: string,
+    context?: ProviderRunnerContext,
+    options?: ProbeRequestOptions,
+    credential?: ProbeCredential
+  ): Promise<SignalEnvelope> {
+    const capturedAt = new Date(this.transport.now()).toISOString();
+    const request = resolveRequestOptions(options, credential);
+    const dns = this.resolver ? new ProbeDns(this.resolver) : undefined;
 
     // Extract runner context with fallbacks (Critique C)
     const runnerContext = context || extractRunnerContext();
@@ -426,6 +1088,7 @@ export class ActiveProbeProvider implements ISignalProvider {
         requestedUrl: url,
         capturedAt,
         cf: runnerContext,
+        request,
         result: {
           ok: false,
           error: {
@@ -433,16 +1096,16 @@ export class ActiveProbeProvider implements ISignalProvider {
             message: `URL validation failed: ${validation.reason}`,
             details: validation.details,
           },
-          durationMs: tracker.getElapsedMs(),
+          durationMs: 0,
         },
       };
     }
 
-    // Follow redirects and get final response
-    const redirectResult = await followRedirects(url, tracker);
-
-    // Handle probe failure
-    if ("ok" in redirectResult) {
+    // Resolve the requested host before the timing budget starts, so lookups do not count as latency;
+    // a hostname resolving to a blocked address is rejected like an IP literal, and one that cannot be resolved
+    // is rejected as dns_error (its addresses cannot be checked)
+    const addressFailure = dns ? await dns.checkAddresses(url) : undefined;
+    if (addressFailure) {
       return {
         schemaVersion: SIGNAL_SCHEMA_VERSION,
         comparisonId: "unknown",
@@ -451,60 +1114,112 @@ export class ActiveProbeProvider implements ISignalProvider {
         requestedUrl: url,
         capturedAt,
         cf: runnerContext,
-        result: redirectResult,
+        request,
+        result: {
+          ok: false,
+          error: addressCheckError(addressFailure, "URL validation failed", { hostname: hostOf(url) }),
+          durationMs: 0,
+        },
+        dns: dns?.snapshot(url),
       };
     }
 
-    // Build response metadata from successful redirect result
-    const { finalUrl, redirects, status, headers } = redirectResult as {
-      finalUrl: string;
-      redirects: RedirectHop[];
-      status: number;
-      headers: Headers;
-    };
+    const tracker = new DurationTracker(request.timeoutMs, this.transport);
+    try {
+      // Follow redirects and get final response
+      const redirectResult = await followRedirects(url, tracker, request, this.transport, credential, dns);
 
-    const headerSnapshot = filterHeaders(headers);
+      // CORS preflight (optional, independent of the main request outcome). Sent only once the
+      // main request is fully timed, so its round trip never counts against the probe's budget.
+      const capturePreflight = () =>
+        request.preflight
+          ? runPreflight(url, request.preflight, request.timeoutMs, this.transport)
+          : Promise.resolve(undefined);
 
-    console.log(`[ActiveProbe] URL: ${url}`);
-    console.log(`[ActiveProbe] Status: ${status}`);
-    console.log(`[ActiveProbe] Headers captured - core:`, JSON.stringify(headerSnapshot.core));
-    console.log(`[ActiveProbe] Headers captured - accessControl:`, JSON.stringify(headerSnapshot.accessControl));
+      // Handle probe failure
+      if ("ok" in redirectResult) {
+        return {
+          schemaVersion: SIGNAL_SCHEMA_VERSION,
+          comparisonId: "unknown",
+          probeId: "unknown",
+          side: "left",
+          requestedUrl: url,
+          capturedAt,
+          cf: runnerContext,
+          request,
+          result: redirectResult,
+          preflight: await capturePreflight(),
+          dns: dns?.snapshot(url),
+        };
+      }
 
-    const response: ResponseMetadata = {
-      status,
-      finalUrl,
-      headers: headerSnapshot,
-    };
+      // Build response metadata from successful redirect result
+      const { finalUrl, redirects, status, headers, response: finalResponse, requestStartMs, headersAtMs } =
+        redirectResult;
 
-    // Classify response status: 2xx/3xx = success, 4xx/5xx = error response
-    const isSuccessStatus = classifyStatusOutcome(status);
+      const headerSnapshot = filterHeaders(headers, request.captureHeaders);
+      const body = await readBodyDigest(finalResponse, tracker);
+      const phases: TimingPhases = {
+        redirectMs: requestStartMs,
+        ttfbMs: headersAtMs - requestStartMs,
+        bodyMs: tracker.getElapsedMs() - headersAtMs,
+      };
 
-    const result: ProbeSuccess | ProbeResponseError = isSuccessStatus
-      ? {
-          ok: true,
-          response,
-          redirects: redirects.length > 0 ? redirects : undefined,
-          durationMs: tracker.getElapsedMs(),
-        }
-      : {
-          ok: false,
-          response,
-          redirects: redirects.length > 0 ? redirects : undefined,
-          durationMs: tracker.getElapsedMs(),
-        };
+      const response: ResponseMetadata = {
+        status,
+        finalUrl,
+        headers: headerSnapshot,
+        contentLength: body.contentLength,
+        bodyHash: body.bodyHash,
+        bodyTruncated: body.truncated ? true : undefined,
+        bodyFingerprint: body.truncated
+          ? undefined
+          : fingerprintBody(headerSnapshot.core["content-type"], body.bytes, finalUrl),
+      };
 
-    return {
-      schemaVersion: SIGNAL_SCHEMA_VERSION,
-      comparisonId: "unknown",
-      probeId: "unknown",
-      side: "left",
-      requestedUrl: url,
-      capturedAt,
-      cf: runnerContext,
-      result,
-    };
+      // Classify response status: 2xx/3xx = success, 4xx/5xx = error response
+      const isSuccessStatus = classifyStatusOutcome(status);
+
+      const result: ProbeSuccess | ProbeResponseError = isSuccessStatus
+        ? {
+            ok: true,
+            response,
+            redirects: redirects.length > 0 ? redirects : undefined,
+            durationMs: tracker.getElapsedMs(),
+            phases,
+          }
+        : {
+            ok: false,
+            response,
+            redirects: redirects.length > 0 ? redirects : undefined,
+            durationMs: tracker.getElapsedMs(),
+            phases,
+          };
+
+      const preflight = await capturePreflight();
+
+      // Final host resolution after timing stops (cached if a redirect hop already resolved it)
+      await dns?.resolve(finalUrl);
+
+      return {
+        schemaVersion: SIGNAL_SCHEMA_VERSION,
+        comparisonId: "unknown",
+        probeId: "unknown",
+        side: "left",
+        requestedUrl: url,
+        capturedAt,
+        cf: runnerContext,
+        platform: extractPlatformSnapshot(headers),
+        request,
+        result,
+        preflight,
+        dns: dns?.snapshot(url, finalUrl),
+      };
+    } finally {
+      tracker.dispose();
+    }
   }
 }
 
-// Export singleton instance
-export const activeProbeProvider = new ActiveProbeProvider();
+// Export singleton instance (live transport, DNS over HTTPS)
+export const activeProbeProvider = new ActiveProbeProvider(liveTransport, new DohResolver());
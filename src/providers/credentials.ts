@@ -0,0 +1,164 @@
+/**
+ * Probe Credentials
+ *
+ * Responsibility: Resolve named credential references to secret values and
+ * turn them into request headers at fetch time.
+ *
+ * Design:
+ * 1. CompareRequest carries credential NAMES only (per side)
+ * 2. Secret values live in Worker secrets: PROBE_CREDENTIAL_<NAME>
+ *    Value is JSON, one of:
+ *    - {"type":"bearer","token":"..."}
+ *    - {"type":"basic","username":"...","password":"..."}
+ *    - {"type":"header","header":"x-api-key","value":"..."}
+ *    Every secret also names the origins it may be sent to:
+ *    "origins":["https://staging.example.com"]; a secret without origins does not resolve
+ * 3. A credential is attached only to URLs on one of its origins (checked at request
+ *    validation and again per redirect hop), so a caller cannot send it to a host they control
+ * 4. Resolved credentials are held in memory only; they are never written to
+ *    SignalEnvelope, probe rows, Workflow params/step outputs, logs, or the LLM prompt.
+ *    The envelope records the reference name (request.credentialRef) for reproducibility.
+ */
+
+import type { Env } from "../env";
+
+/**
+ * A resolved credential. In-memory only; never persist or log.
+ */
+export type ProbeCredential = { name: string; origins: string[] } & (
+  | { type: "bearer"; token: string }
+  | { type: "basic"; username: string; password: string }
+  | { type: "header"; header: string; value: string }
+);
+
+/**
+ * Credential reference names: letters, digits, underscore (maps to a secret name).
+ */
+const CREDENTIAL_NAME_PATTERN = /^[A-Za-z0-9_]{1,64}$/;
+
+/**
+ * Maximum origins one credential may be bound to.
+ */
+const MAX_CREDENTIAL_ORIGINS = 20;
+
+/**
+ * Header names a "header" credential may not target.
+ * These are controlled by the runtime or carry unrelated semantics.
+ */
+const BLOCKED_CREDENTIAL_HEADERS = new Set([
+  "host",
+  "content-length",
+  "connection",
+  "transfer-encoding",
+]);
+
+/**
+ * Check a credential reference name is well-formed.
+ */
+export function isValidCredentialName(name: unknown): name is string {
+  return typeof name === "string" && CREDENTIAL_NAME_PATTERN.test(name);
+}
+
+/**
+ * Map a credential reference name to its Worker secret binding name.
+ * Example: "staging_api" → "PROBE_CREDENTIAL_STAGING_API"
+ */
+export function credentialSecretName(name: string): `PROBE_CREDENTIAL_${string}` {
+  return `PROBE_CREDENTIAL_${name.toUpperCase()}`;
+}
+
+/**
+ * Normalize a secret's origin list (http/https origins only).
+ *
+ * @returns Sorted unique origins, or undefined if the list is missing, empty or invalid
+ */
+function parseOrigins(value: unknown): string[] | undefined {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_CREDENTIAL_ORIGINS) return undefined;
+
+  const origins = new Set<string>();
+  for (const entry of value) {
+    if (typeof entry !== "string") return undefined;
+    try {
+      const url = new URL(entry);
+      if (url.protocol !== "http:" && url.protocol !== "https:") return undefined;
+      origins.add(url.origin);
+    } catch {
+      return undefined;
+    }
+  }
+  return Array.from(origins).sort();
+}
+
+/**
+ * Check a URL is on one of a credential's origins.
+ */
+export function credentialAllowsUrl(credential: ProbeCredential, url: string): boolean {
+  try {
+    return credential.origins.includes(new URL(url).origin);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve a credential reference from Worker secrets.
+ *
+ * @param env - Worker env (secrets are exposed as string bindings)
+ * @param name - Credential reference name from CompareRequest
+ * @returns ProbeCredential, or undefined if the name is invalid, missing, or malformed
+ *          (including a missing or invalid origins list)
+ */
+export function resolveCredential(env: Env, name: string): ProbeCredential | undefined {
+  if (!isValidCredentialName(name)) return undefined;
+
+  const raw = env[credentialSecretName(name)];
+  if (typeof raw !== "string" || raw.length === 0) return undefined;
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(raw) as Record<string, unknown>;
+  } catch {
+    return undefined;
+  }
+
+  const origins = parseOrigins(parsed.origins);
+  if (!origins) return undefined;
+
+  if (parsed.type === "bearer" && typeof parsed.token === "string") {
+    return { name, origins, type: "bearer", token: parsed.token };
+  }
+
+  if (
+    parsed.type === "basic" &&
+    typeof parsed.username === "string" &&
+    typeof parsed.password === "string"
+  ) {
+    return { name, origins, type: "basic", username: parsed.username, password: parsed.password };
+  }
+
+  if (
+    parsed.type === "header" &&
+    typeof parsed.header === "string" &&
+    typeof parsed.value === "string" &&
+    /^[a-z0-9-]+$/i.test(parsed.header) &&
+    !BLOCKED_CREDENTIAL_HEADERS.has(parsed.header.toLowerCase())
+  ) {
+    return { name, origins, type: "header", header: parsed.header.toLowerCase(), value: parsed.value };
+  }
+
+  return undefined;
+}
+
+/**
+ * Build the request headers that carry a credential.
+ */
+export function credentialHeaders(credential: ProbeCredential): Record<string, string> {
+  switch (credential.type) {
+    case "bearer":
+      return { authorization: `Bearer ${credential.token}` };
+    case "basic":
+      return { authorization: `Basic ${btoa(`${credential.username}:${credential.password}`)}` };
+    case "header":
+      return { [credential.header]: credential.value };
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * DNS Resolution
+ *
+ * Responsibility: Resolve probe hosts (CNAME chain, A and AAAA sets) so DNS differences between
+ * environments can be compared, and so resolved addresses can be SSRF-checked before fetching.
+ *
+ * Design:
+ * 1. DnsResolver is the extension point: ActiveProbeProvider takes one (or none); tests pass a stand-in
+ * 2. DohResolver queries a DNS-over-HTTPS JSON endpoint (application/dns-json): A and AAAA in parallel,
+ *    CNAME chain taken from the answer section in resolution order
+ * 3. Never throws: resolver failures are reported in DnsResolution.error
+ * 4. Output is deterministic: names lowercased without trailing dots, address sets sorted and deduplicated
+ */
+
+import type { DnsResolution } from "@shared/signal";
+
+/**
+ * Cloudflare's public DoH endpoint (JSON API).
+ */
+export const DEFAULT_DOH_ENDPOINT = "https://cloudflare-dns.com/dns-query";
+
+/**
+ * Per-query timeout; DNS lookups have their own budget, separate from the probe timeout.
+ */
+const DEFAULT_DNS_TIMEOUT_MS = 3000;
+
+/**
+ * DNS record type numbers used in DoH JSON answers.
+ */
+const RECORD_TYPES = { A: 1, CNAME: 5, AAAA: 28 } as const;
+
+/**
+ * DNS RCODE names by number (RFC 1035 / RFC 6895).
+ */
+const RCODE_NAMES: Record<number, string> = {
+  1: "FORMERR",
+  2: "SERVFAIL",
+  3: "NXDOMAIN",
+  4: "NOTIMP",
+  5: "REFUSED",
+};
+
+/**
+ * Resolves a hostname to its CNAME chain and address sets.
+ */
+export interface DnsResolver {
+  /**
+   * @param host - Hostname (not an IP literal)
+   * @returns Resolution; failures are reported in error, never thrown
+   */
+  resolve(host: string): Promise<DnsResolution>;
+}
+
+type DohAnswer = { name: string; type: number; data: string };
+type DohResponse = { Status: number; Answer?: DohAnswer[] };
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/\.$/, "");
+}
+
+function sortedUnique(values: string[]): string[] | undefined {
+  return values.length > 0 ? Array.from(new Set(values)).sort() : undefined;
+}
+
+/**
+ * DohResolver: DNS-over-HTTPS resolver (JSON API).
+ */
+export class DohResolver implements DnsResolver {
+  constructor(
+    private readonly endpoint: string = DEFAULT_DOH_ENDPOINT,
+    private readonly fetchFn: (url: string, init: RequestInit) => Promise<Response> = (url, init) => fetch(url, init),
+    private readonly timeoutMs: number = DEFAULT_DNS_TIMEOUT_MS
+  ) {}
+
+  async resolve(host: string): Promise<DnsResolution> {
+    const name = normalizeName(host);
+    const [a, aaaa] = await Promise.all([this.query(name, "A"), this.query(name, "AAAA")]);
+
+    const failed = "error" in a ? a : "error" in aaaa ? aaaa : undefined;
+    if (failed && "error" in failed) {
+      return { host: name, error: failed.error };
+    }
+
+    const answersA = (a as DohResponse).Answer ?? [];
+    const answersAaaa = (aaaa as DohResponse).Answer ?? [];
+    const cnameSource = answersA.some((answer) => answer.type === RECORD_TYPES.CNAME) ? answersA : answersAaaa;
+    const cname = cnameSource
+      .filter((answer) => answer.type === RECORD_TYPES.CNAME)
+      .map((answer) => normalizeName(answer.data));
+
+    const resolution: DnsResolution = { host: name };
+    if (cname.length > 0) resolution.cname = cname;
+    const addressesA = sortedUnique(
+      answersA.filter((answer) => answer.type === RECORD_TYPES.A).map((answer) => answer.data)
+    );
+    const addressesAaaa = sortedUnique(
+      answersAaaa.filter((answer) => answer.type === RECORD_TYPES.AAAA).map((answer) => answer.data.toLowerCase())
+    );
+    if (addressesA) resolution.a = addressesA;
+    if (addressesAaaa) resolution.aaaa = addressesAaaa;
+    return resolution;
+  }
+
+  /**
+   * One DoH query. NOERROR with no answers is not an error (e.g., no AAAA records).
+   */
+  private async query(name: string, type: "A" | "AAAA"): Promise<DohResponse | { error: string }> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const url = `${this.endpoint}?name=${encodeURIComponent(name)}&type=${type}`;
+      const response = await this.fetchFn(url, {
+        headers: { accept: "application/dns-json" },
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        return { error: "resolver_error" };
+      }
+      const body = (await response.json()) as DohResponse;
+      if (body.Status !== 0) {
+        return { error: RCODE_NAMES[body.Status] ?? `RCODE_${body.Status}` };
+      }
+      return body;
+    } catch (err) {
+      return { error: controller.signal.aborted ? "timeout" : "resolver_error" };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * HAR Import Provider
+ *
+ * Responsibility: Build a SignalEnvelope from a browser HAR capture instead of probing live,
+ * so incident captures can be compared without re-probing the systems involved.
+ *
+ * Design:
+ * 1. probe(url) starts at the first entry whose request URL equals url
+ * 2. 3xx entries are followed through later entries for the resolved Location (the redirect chain);
+ *    a chain whose next entry is missing (e.g., served from browser cache) ends at the 3xx entry
+ * 3. Headers go through the same allowlist as live probes (filterHeaders); request headers,
+ *    cookie values and bodies are never copied into the envelope
+ * 4. Bodies (content.text) are hashed and fingerprinted like live bodies, capped at MAX_BODY_BYTES
+ * 5. durationMs is the sum of entry.time across the chain; capturedAt is the first entry's start
+ * 6. Captured values are redacted like live probes (redaction.ts)
+ * 7. Request options and credentials are ignored (the capture already happened),
+ *    except captureHeaders, which selects custom headers from the recorded responses
+ */
+
+import type { HarDocument, HarEntry, HarHeader } from "@shared/har";
+import type {
+  ProbeErrorCode,
+  ProbeNetworkFailure,
+  ProbeRequestOptions,
+  ProbeResponseError,
+  ProbeResult,
+  ProbeSuccess,
+  RedirectHop,
+  ResponseMetadata,
+  SignalEnvelope,
+} from "@shared/signal";
+import { SIGNAL_SCHEMA_VERSION } from "@shared/signal";
+import type { ProviderRunnerContext } from "./types";
+import { ISignalProvider } from "./types";
+import {
+  MAX_BODY_BYTES,
+  classifyFetchError,
+  classifyStatusOutcome,
+  filterHeaders,
+  fingerprintBody,
+  sha256Hex,
+} from "./activeProbe";
+import { extractPlatformSnapshot } from "./platformHeaders";
+import { redactEnvelope } from "./redaction";
+
+/**
+ * Upper bound on followed redirects (matches the request option limit).
+ */
+const MAX_HAR_REDIRECTS = 20;
+
+/**
+ * Default URL to import from a HAR: the first entry (normally the page navigation).
+ *
+ * @returns Request URL, or undefined if the HAR has no entries
+ */
+export function defaultHarUrl(har: HarDocument): string | undefined {
+  return har.log.entries[0]?.request.url;
+}
+
+/**
+ * Build a Headers object from HAR headers.
+ * HTTP/2 pseudo-headers (":status") and names/values rejected by Headers are skipped.
+ */
+function harHeaders(list: HarHeader[] = []): Headers {
+  const headers = new Headers();
+  for (const { name, value } of list) {
+    if (name.startsWith(":")) continue;
+    try {
+      headers.append(name, value);
+    } catch {
+      // Invalid header name or value in the capture; not representable
+    }
+  }
+  return headers;
+}
+
+/**
+ * Map a browser network error (status 0 entry) to a ProbeErrorCode.
+ */
+function harErrorCode(error?: string): ProbeErrorCode {
+  const upper = (error ?? "").toUpperCase();
+  if (upper.includes("NAME_NOT_RESOLVED")) return "dns_error";
+  if (upper.includes("TIMED_OUT")) return "timeout";
+  if (upper.includes("CERT") || upper.includes("SSL")) return "tls_error";
+  if (upper.includes("CONNECTION_REFUSED")) return "connection_refused";
+  if (upper.includes("CONNECTION_RESET")) return "connection_reset";
+  if (upper.includes("TOO_MANY_REDIRECTS")) return "too_many_redirects";
+  return classifyFetchError(error ?? "");
+}
+
+/**
+ * Decode HAR body text to bytes (base64 or UTF-8).
+ *
+ * @returns Bytes, or undefined if the exporter omitted the body or it is not decodable
+ */
+function harBodyBytes(entry: HarEntry): Uint8Array<ArrayBuffer> | undefined {
+  const content = entry.response.content;
+  if (content?.text === undefined) return undefined;
+
+  if (content.encoding === "base64") {
+    try {
+      const binary = atob(content.text);
+      const bytes = new Uint8Array(binary.length);
+      for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+      return bytes;
+    } catch {
+      return undefined;
+    }
+  }
+  // Copy into an ArrayBuffer-backed view (encode() is typed over ArrayBufferLike)
+  return new Uint8Array(new TextEncoder().encode(content.text));
+}
+
+function redirectLocation(entry: HarEntry): string | undefined {
+  const location =
+    entry.response.redirectURL ||
+    entry.response.headers?.find((h) => h.name.toLowerCase() === "location")?.value;
+  if (!location) return undefined;
+  try {
+    return new URL(location, entry.request.url).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+function entryDurationMs(entry: HarEntry): number {
+  return Number.isFinite(entry.time) && entry.time > 0 ? entry.time : 0;
+}
+
+/**
+ * HarImportProvider: Serves SignalEnvelopes from one HAR document.
+ */
+export class HarImportProvider implements ISignalProvider {
+  constructor(private readonly har: HarDocument) {}
+
+  /**
+   * Build the envelope, then mask secrets in captured values (same redaction as live probes).
+   */
+  async probe(url: string, context?: ProviderRunnerContext, options?: ProbeRequestOptions): Promise<SignalEnvelope> {
+    return redactEnvelope(await this.capture(url, context, options));
+  }
+
+  private async capture(
+    url: string,
+    context?: ProviderRunnerContext,
+    options?: ProbeRequestOptions
+  ): Promise<SignalEnvelope> {
+    const entries = this.har.log.entries;
+    const capture = options?.captureHeaders;
+    const startIndex = entries.findIndex((entry) => entry.request.url === url);
+
+    if (startIndex < 0) {
+      return this.envelope(url, new Date(0).toISOString(), context, -1, {
+        ok: false,
+        error: { code: "invalid_url", message: `No HAR entry for ${url}` },
+      });
+    }
+
+    const redirects: RedirectHop[] = [];
+    let index = startIndex;
+    let totalMs = 0;
+
+    while (true) {
+      const entry = entries[index];
+      totalMs += entryDurationMs(entry);
+
+      if (entry.response.status === 0) {
+        const failure: ProbeNetworkFailure = {
+          ok: false,
+          error: {
+            code: harErrorCode(entry._error),
+            message: entry._error ? `Browser network error: ${entry._error}` : "No response recorded",
+          },
+          redirects: redirects.length > 0 ? redirects : undefined,
+          durationMs: Math.round(totalMs),
+        };
+        return this.envelope(url, entries[startIndex].startedDateTime, context, startIndex, failure);
+      }
+
+      const isRedirect = entry.response.status >= 300 && entry.response.status < 400;
+      const location = isRedirect ? redirectLocation(entry) : undefined;
+      const nextIndex = location
+        ? entries.findIndex((candidate, i) => i > index && candidate.request.url === location)
+        : -1;
+
+      if (location && nextIndex >= 0 && redirects.length < MAX_HAR_REDIRECTS) {
+        redirects.push({
+          fromUrl: entry.request.url,
+          toUrl: location,
+          status: entry.response.status,
+          headers: filterHeaders(harHeaders(entry.response.headers), capture),
+          durationMs: Math.round(entryDurationMs(entry)),
+        });
+        index = nextIndex;
+        continue;
+      }
+
+      const headers = harHeaders(entry.response.headers);
+      const headerSnapshot = filterHeaders(headers, capture);
+      const bytes = harBodyBytes(entry);
+      const truncated = bytes !== undefined && bytes.byteLength > MAX_BODY_BYTES;
+      const captured = truncated ? bytes.slice(0, MAX_BODY_BYTES) : bytes;
+      const size = entry.response.content?.size;
+
+      const response: ResponseMetadata = {
+        status: entry.response.status,
+        finalUrl: entry.request.url,
+        headers: headerSnapshot,
+        contentLength: captured ? captured.byteLength : size !== undefined && size >= 0 ? size : undefined,
+        bodyHash: captured ? await sha256Hex(captured) : undefined,
+        bodyTruncated: truncated ? true : undefined,
+        bodyFingerprint:
+          captured && !truncated
+            ? fingerprintBody(headerSnapshot.core["content-type"], captured, entry.request.url)
+            : undefined,
+      };
+
+      const fields = {
+        response,
+        redirects: redirects.length > 0 ? redirects : undefined,
+        durationMs: Math.round(totalMs),
+      };
+      const result: ProbeSuccess | ProbeResponseError = classifyStatusOutcome(response.status)
+        ? { ok: true, ...fields }
+        : { ok: false, ...fields };
+
+      return {
+        ...this.envelope(url, entries[startIndex].startedDateTime, context, startIndex, result),
+        platform: extractPlatformSnapshot(headers),
+      };
+    }
+  }
+
+  private envelope(
+    url: string,
+    capturedAt: string,
+    context: ProviderRunnerContext | undefined,
+    entryIndex: number,
+    result: ProbeResult
+  ): SignalEnvelope {
+    return {
+      schemaVersion: SIGNAL_SCHEMA_VERSION,
+      comparisonId: "unknown",
+      probeId: "unknown",
+      side: "left",
+      requestedUrl: url,
+      capturedAt,
+      cf: context,
+      result,
+      source: entryIndex >= 0 ? { kind: "har", entryIndex } : { kind: "har" },
+    };
+  }
+}
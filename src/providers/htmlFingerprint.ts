@@ -0,0 +1,157 @@
+/**
+ * HTML Build Fingerprint
+ *
+ * Responsibility: Extract deploy-identifying markers from an HTML page so two environments
+ * can be checked for serving the same build (independent of per-request tokens or timestamps).
+ *
+ * Design:
+ * 1. Lightweight tag scan (no DOM): <title>, <meta>, <script src>, <link rel=stylesheet>
+ * 2. Meta tags: only version-like names (generator, version, build, release, ...) by name or property
+ * 3. Asset URLs: resolved against the page URL; same-origin assets keep path+query only
+ *    (so staging and production hosts compare equal), cross-origin assets keep the full URL
+ * 4. Inline build IDs: framework markers (Next.js/Nuxt "buildId", Gatsby compilation hash)
+ *    and data-build-id / data-build / data-release attributes
+ * 5. Bounded: at most MAX_ASSETS assets; string values capped at MAX_VALUE_LENGTH
+ */
+
+import type { HtmlFingerprint } from "@shared/signal";
+
+const MAX_ASSETS = 100;
+const MAX_VALUE_LENGTH = 200;
+
+const META_VERSION_NAMES = new Set([
+  "app-version",
+  "build",
+  "build-id",
+  "build-version",
+  "generator",
+  "release",
+  "version",
+]);
+
+const BUILD_ID_ATTRIBUTE_PATTERN = /\s(data-build|data-build-id|data-release)\s*=\s*["']([^"']{1,200})["']/gi;
+
+const INLINE_BUILD_ID_PATTERNS: Array<[string, RegExp]> = [
+  ["buildId", /["']?\bbuildId["']?\s*:\s*["']([^"'\s]{1,200})["']/],
+  ["webpackCompilationHash", /___webpackCompilationHash\s*=\s*["']([^"'\s]{1,200})["']/],
+];
+
+const TAG_PATTERN = /<(script|link|meta)\b([^>]*)>/gi;
+const ATTRIBUTE_PATTERN = /([^\s=\/"'>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+const TITLE_PATTERN = /<title\b[^>]*>([\s\S]*?)<\/title>/i;
+
+/**
+ * HTML content types: text/html and application/xhtml+xml.
+ */
+export function isHtmlContentType(contentType?: string): boolean {
+  if (!contentType) return false;
+  const mime = contentType.split(";")[0].trim().toLowerCase();
+  return mime === "text/html" || mime === "application/xhtml+xml";
+}
+
+function clip(value: string): string {
+  return value.replace(/\s+/g, " ").trim().slice(0, MAX_VALUE_LENGTH);
+}
+
+/**
+ * Parse tag attributes into a lowercase-keyed map (first occurrence wins).
+ */
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    const name = match[1].toLowerCase();
+    if (!(name in attributes)) {
+      attributes[name] = match[2] ?? match[3] ?? match[4] ?? "";
+    }
+  }
+  return attributes;
+}
+
+/**
+ * Normalize an asset URL relative to the page.
+ * Same-origin → path+query; cross-origin → full URL; unparseable → trimmed raw value.
+ */
+function normalizeAssetUrl(raw: string, pageUrl: string): string {
+  try {
+    const page = new URL(pageUrl);
+    const asset = new URL(raw.trim(), page);
+    const path = `${asset.pathname}${asset.search}`;
+    return asset.origin === page.origin ? path : `${asset.origin}${path}`;
+  } catch {
+    return clip(raw);
+  }
+}
+
+/**
+ * Extract the build fingerprint of an HTML document.
+ *
+ * @param html - HTML text
+ * @param pageUrl - Final URL of the page (for resolving relative asset URLs)
+ * @returns HtmlFingerprint (assets de-duplicated and sorted, keys sorted)
+ */
+export function fingerprintHtml(html: string, pageUrl: string): HtmlFingerprint {
+  const scripts = new Set<string>();
+  const stylesheets = new Set<string>();
+  const meta: Record<string, string> = {};
+  const buildIds: Record<string, string> = {};
+  let truncated = false;
+
+  const addAsset = (target: Set<string>, raw: string) => {
+    if (scripts.size + stylesheets.size >= MAX_ASSETS) {
+      truncated = true;
+      return;
+    }
+    target.add(normalizeAssetUrl(raw, pageUrl));
+  };
+
+  for (const match of html.matchAll(TAG_PATTERN)) {
+    const tag = match[1].toLowerCase();
+    const attributes = parseAttributes(match[2]);
+
+    if (tag === "script" && attributes.src) {
+      addAsset(scripts, attributes.src);
+    } else if (tag === "link" && attributes.href) {
+      const rel = (attributes.rel ?? "").toLowerCase().split(/\s+/);
+      if (rel.includes("stylesheet")) addAsset(stylesheets, attributes.href);
+    } else if (tag === "meta") {
+      const name = (attributes.name ?? attributes.property ?? "").toLowerCase();
+      if (META_VERSION_NAMES.has(name) && attributes.content !== undefined && !(name in meta)) {
+        meta[name] = clip(attributes.content);
+      }
+    }
+  }
+
+  // Build-id attributes may sit on any element (typically <html> or <body>)
+  for (const match of html.matchAll(BUILD_ID_ATTRIBUTE_PATTERN)) {
+    const attribute = match[1].toLowerCase();
+    if (!(attribute in buildIds)) buildIds[attribute] = clip(match[2]);
+  }
+
+  for (const [name, pattern] of INLINE_BUILD_ID_PATTERNS) {
+    const match = html.match(pattern);
+    if (match) buildIds[name] = match[1];
+  }
+
+  const titleMatch = html.match(TITLE_PATTERN);
+  const sortKeys = (record: Record<string, string>) =>
+    Object.fromEntries(Object.keys(record).sort().map((key) => [key, record[key]]));
+
+  return {
+    title: titleMatch ? clip(titleMatch[1]) : undefined,
+    meta: sortKeys(meta),
+    scripts: Array.from(scripts).sort(),
+    stylesheets: Array.from(stylesheets).sort(),
+    buildIds: sortKeys(buildIds),
+    truncated: truncated ? true : undefined,
+  };
+}
+
+/**
+ * Fingerprint a captured HTML body.
+ *
+ * @param bytes - Captured body bytes
+ * @param pageUrl - Final URL of the page
+ */
+export function fingerprintHtmlBody(bytes: Uint8Array, pageUrl: string): HtmlFingerprint {
+  return fingerprintHtml(new TextDecoder().decode(bytes), pageUrl);
+}
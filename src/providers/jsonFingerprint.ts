@@ -0,0 +1,117 @@
+/**
+ * JSON Structural Fingerprint
+ *
+ * Responsibility: Reduce a JSON body to a value-free shape (key paths, value types, array lengths).
+ *
+ * Design:
+ * 1. Paths use "$" for the root, ".key" for identifier keys, '["key"]' otherwise,
+ *    and "[]" for array elements (all elements share one path)
+ * 2. A path seen with several types records them sorted and "|"-joined (e.g., "null|string")
+ * 3. Array lengths are recorded only for arrays outside other arrays (their path has no "[]")
+ * 4. Bounded: stops at MAX_PATHS distinct paths, MAX_NODES visited values or MAX_DEPTH nesting
+ *    (truncated=true)
+ * 5. No string, number or boolean values are ever recorded
+ */
+
+import type { JsonFingerprint } from "@shared/signal";
+
+const MAX_PATHS = 500;
+const MAX_NODES = 20000;
+const MAX_DEPTH = 32;
+
+const IDENTIFIER_KEY = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * JSON-ish content types: application/json and any +json suffix.
+ */
+export function isJsonContentType(contentType?: string): boolean {
+  if (!contentType) return false;
+  const mime = contentType.split(";")[0].trim().toLowerCase();
+  return mime === "application/json" || mime.endsWith("+json");
+}
+
+function jsonType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function childPath(path: string, key: string): string {
+  return IDENTIFIER_KEY.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Build the structural fingerprint of a parsed JSON value.
+ *
+ * Example:
+ * - { "id": 1, "tags": ["a", "b"] }
+ *   → paths { "$": "object", "$.id": "number", "$.tags": "array", "$.tags[]": "string" },
+ *     arrayLengths { "$.tags": 2 }
+ *
+ * @param value - Parsed JSON
+ * @returns JsonFingerprint (keys sorted)
+ */
+export function fingerprintJson(value: unknown): JsonFingerprint {
+  const types = new Map<string, Set<string>>();
+  const arrayLengths: Record<string, number> = {};
+  let nodes = 0;
+  let truncated = false;
+
+  const visit = (node: unknown, path: string, depth: number, inArray: boolean): void => {
+    if (truncated) return;
+    if (nodes >= MAX_NODES || depth > MAX_DEPTH || (!types.has(path) && types.size >= MAX_PATHS)) {
+      truncated = true;
+      return;
+    }
+    nodes++;
+
+    const type = jsonType(node);
+    if (!types.has(path)) types.set(path, new Set());
+    types.get(path)!.add(type);
+
+    if (Array.isArray(node)) {
+      if (!inArray) arrayLengths[path] = node.length;
+      for (const element of node) {
+        visit(element, `${path}[]`, depth + 1, true);
+      }
+    } else if (type === "object") {
+      for (const [key, child] of Object.entries(node as Record<string, unknown>)) {
+        visit(child, childPath(path, key), depth + 1, inArray);
+      }
+    }
+  };
+
+  visit(value, "$", 0, false);
+
+  const paths: Record<string, string> = {};
+  for (const path of Array.from(types.keys()).sort()) {
+    paths[path] = Array.from(types.get(path)!).sort().join("|");
+  }
+
+  const sortedLengths: Record<string, number> = {};
+  for (const path of Object.keys(arrayLengths).sort()) {
+    sortedLengths[path] = arrayLengths[path];
+  }
+
+  return {
+    paths,
+    arrayLengths: sortedLengths,
+    truncated: truncated ? true : undefined,
+  };
+}
+
+/**
+ * Fingerprint a captured JSON body.
+ *
+ * @param bytes - Captured body bytes (must be the complete body)
+ * @returns JsonFingerprint, or undefined if the body is not valid JSON
+ */
+export function fingerprintJsonBody(bytes: Uint8Array): JsonFingerprint | undefined {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    return undefined;
+  }
+  return fingerprintJson(parsed);
+}
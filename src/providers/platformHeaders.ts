@@ -0,0 +1,59 @@
+/**
+ * Platform Header Extraction
+ *
+ * Responsibility: Capture target-side infrastructure markers (origin stack, CDN, edge location)
+ * from a response, as opposed to CfContextSnapshot which describes the runner itself.
+ *
+ * Design:
+ * 1. Fixed allowlist: server, via, x-powered-by, cf-ray, cf-cache-status, age, x-cache, alt-svc
+ * 2. cf-ray keeps only its colo suffix ("8a1b2c3d4e5f-SJC" → "SJC"); the ray ID is unique per request
+ * 3. Values are trimmed and capped at MAX_VALUE_LENGTH; age is parsed as whole seconds
+ */
+
+import type { PlatformSnapshot } from "@shared/signal";
+
+const MAX_VALUE_LENGTH = 200;
+
+function headerValue(headers: Headers, name: string): string | undefined {
+  const value = headers.get(name)?.trim();
+  return value ? value.slice(0, MAX_VALUE_LENGTH) : undefined;
+}
+
+/**
+ * Extract the colo (IATA-style code) from a cf-ray value.
+ *
+ * @param cfRay - Raw cf-ray header (e.g., "8a1b2c3d4e5f6789-SJC")
+ * @returns Uppercase colo, or undefined if the value has no suffix
+ */
+export function cfRayColo(cfRay?: string): string | undefined {
+  const match = cfRay?.trim().match(/-([A-Za-z]{3,4})$/);
+  return match ? match[1].toUpperCase() : undefined;
+}
+
+/**
+ * Extract the platform snapshot from response headers.
+ *
+ * @param headers - Final response headers
+ * @returns PlatformSnapshot, or undefined if no platform header is present
+ */
+export function extractPlatformSnapshot(headers: Headers): PlatformSnapshot | undefined {
+  const age = headerValue(headers, "age");
+  const parsedAge = age !== undefined && /^\d+$/.test(age) ? Number(age) : undefined;
+
+  const snapshot: PlatformSnapshot = {
+    server: headerValue(headers, "server"),
+    via: headerValue(headers, "via"),
+    poweredBy: headerValue(headers, "x-powered-by"),
+    edgeColo: cfRayColo(headers.get("cf-ray") ?? undefined),
+    cacheStatus: headerValue(headers, "cf-cache-status"),
+    age: parsedAge,
+    xCache: headerValue(headers, "x-cache"),
+    altSvc: headerValue(headers, "alt-svc"),
+  };
+
+  const present = Object.fromEntries(
+    Object.entries(snapshot).filter(([, value]) => value !== undefined)
+  ) as PlatformSnapshot;
+
+  return Object.keys(present).length > 0 ? present : undefined;
+}
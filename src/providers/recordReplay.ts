@@ -0,0 +1,274 @@
+/**
+ * Record/Replay Probe Providers
+ *
+ * Responsibility: Capture the raw HTTP exchanges of live probes into a cassette, and serve
+ * a cassette back through the normal probe pipeline, so a drift report can be reproduced
+ * offline (e.g., as a CompareEnvironments regression test).
+ *
+ * Design:
+ * 1. Both providers wrap ActiveProbeProvider with a substitute ProbeTransport; SSRF checks,
+ *    redirect handling, header curation and body hashing are the live code paths
+ * 2. Recording stores each fetch in call order: method, URL, status, raw response headers
+ *    (repeated headers such as set-cookie kept), body bytes (base64) and elapsed time.
+ *    Request headers are not stored (they may carry credentials)
+ * 3. Bodies are recorded up to MAX_BODY_BYTES + 1 bytes, enough to replay truncation
+ * 4. Replay serves the first unused interaction matching method + URL, byte-for-byte;
+ *    an unmatched request fails like a network error (fetch_error)
+ * 5. Replay runs on a virtual clock per probe: it starts at the first matching interaction's
+ *    recorded start and advances by each interaction's recorded duration, so capturedAt and
+ *    every durationMs are reproduced exactly (same cassette → identical JSON); retry backoff
+ *    advances the virtual clock instead of waiting, and no real-time abort timer is armed
+ *    (recorded timeouts replay as the recorded errors)
+ */
+
+import type { ProbeRequestOptions, SignalEnvelope } from "@shared/signal";
+import type { ProviderRunnerContext } from "./types";
+import { ISignalProvider } from "./types";
+import type { ProbeCredential } from "./credentials";
+import type { ProbeTransport } from "./activeProbe";
+import { ActiveProbeProvider, MAX_BODY_BYTES, liveTransport } from "./activeProbe";
+
+export const CASSETTE_VERSION = 1;
+
+/**
+ * Statuses whose Response must have a null body.
+ */
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/**
+ * One recorded fetch: either a response or the error the fetch threw.
+ */
+export type CassetteInteraction = {
+  request: {
+    method: string;
+    url: string;
+  };
+  response?: {
+    status: number;
+    statusText?: string;
+    headers: Array<[string, string]>; // in received order; repeated names kept
+    body: string; // base64
+  };
+  error?: string; // String(err) of the rejected fetch
+  startedAt: string; // ISO 8601
+  durationMs: number; // fetch start → body fully received
+};
+
+/**
+ * Recorded exchanges of one or more probes (e.g., both sides of a comparison).
+ */
+export type ProbeCassette = {
+  version: typeof CASSETTE_VERSION;
+  recordedAt: string; // ISO 8601
+  interactions: CassetteInteraction[];
+};
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+}
+
+function decodeBase64(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * Read a body up to maxBytes. Stream errors end the read with the bytes received so far.
+ */
+async function readCappedBody(response: Response, maxBytes: number): Promise<Uint8Array<ArrayBuffer>> {
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  if (response.body) {
+    const reader = response.body.getReader();
+    try {
+      while (received < maxBytes) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        const chunk = value.byteLength > maxBytes - received ? value.subarray(0, maxBytes - received) : value;
+        chunks.push(chunk);
+        received += chunk.byteLength;
+      }
+    } catch {
+      // Keep the partial body
+    } finally {
+      reader.cancel().catch(() => undefined);
+    }
+  }
+
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+/**
+ * Raw response headers as ordered pairs, with each set-cookie kept separate.
+ */
+function headerPairs(headers: Headers): Array<[string, string]> {
+  const pairs: Array<[string, string]> = [];
+  headers.forEach((value, name) => {
+    if (name.toLowerCase() !== "set-cookie") pairs.push([name, value]);
+  });
+  const h = headers as Headers & { getSetCookie?: () => string[] };
+  const setCookies = typeof h.getSetCookie === "function" ? h.getSetCookie() : [];
+  for (const value of setCookies) pairs.push(["set-cookie", value]);
+  return pairs;
+}
+
+/**
+ * RecordingProbeProvider: Probes live and records every exchange into a cassette.
+ *
+ * @example
+ * ```typescript
+ * const recorder = new RecordingProbeProvider();
+ * await recorder.probe("https://staging.example.com/");
+ * await recorder.probe("https://example.com/");
+ * writeFileSync("drift.cassette.json", JSON.stringify(recorder.cassette(), null, 2));
+ * ```
+ */
+export class RecordingProbeProvider implements ISignalProvider {
+  private readonly interactions: CassetteInteraction[] = [];
+  private readonly recordedAt: string;
+  private readonly provider: ActiveProbeProvider;
+
+  constructor(private readonly upstream: ProbeTransport = liveTransport) {
+    this.recordedAt = new Date(upstream.now()).toISOString();
+    this.provider = new ActiveProbeProvider({
+      fetch: (url, init) => this.recordFetch(url, init),
+      now: upstream.now,
+      sleep: upstream.sleep,
+      abortAfter: upstream.abortAfter,
+    });
+  }
+
+  probe(
+    url: string,
+    context?: ProviderRunnerContext,
+    options?: ProbeRequestOptions,
+    credential?: ProbeCredential
+  ): Promise<SignalEnvelope> {
+    return this.provider.probe(url, context, options, credential);
+  }
+
+  /**
+   * Snapshot of everything recorded so far.
+   */
+  cassette(): ProbeCassette {
+    return {
+      version: CASSETTE_VERSION,
+      recordedAt: this.recordedAt,
+      interactions: [...this.interactions],
+    };
+  }
+
+  private async recordFetch(url: string, init: RequestInit): Promise<Response> {
+    const startMs = this.upstream.now();
+    const request = { method: init.method ?? "GET", url };
+
+    let response: Response;
+    try {
+      response = await this.upstream.fetch(url, init);
+    } catch (err) {
+      this.interactions.push({
+        request,
+        error: String(err),
+        startedAt: new Date(startMs).toISOString(),
+        durationMs: this.upstream.now() - startMs,
+      });
+      throw err;
+    }
+
+    const body = await readCappedBody(response, MAX_BODY_BYTES + 1);
+    const headers = headerPairs(response.headers);
+    this.interactions.push({
+      request,
+      response: {
+        status: response.status,
+        statusText: response.statusText || undefined,
+        headers,
+        body: encodeBase64(body),
+      },
+      startedAt: new Date(startMs).toISOString(),
+      durationMs: this.upstream.now() - startMs,
+    });
+
+    // Hand the probe an equivalent response (the original body is consumed)
+    return new Response(NULL_BODY_STATUSES.has(response.status) ? null : body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: new Headers(headers),
+    });
+  }
+}
+
+/**
+ * ReplayProbeProvider: Serves a cassette through the normal probe pipeline, without network access.
+ */
+export class ReplayProbeProvider implements ISignalProvider {
+  private readonly used = new Set<number>();
+
+  constructor(private readonly cassette: ProbeCassette) {
+    if (cassette.version !== CASSETTE_VERSION) {
+      throw new Error(`Unsupported cassette version ${String(cassette.version)}`);
+    }
+  }
+
+  probe(
+    url: string,
+    context?: ProviderRunnerContext,
+    options?: ProbeRequestOptions,
+    credential?: ProbeCredential
+  ): Promise<SignalEnvelope> {
+    const method = options?.method ?? "GET";
+    const first = this.cassette.interactions.find(
+      (interaction, index) =>
+        !this.used.has(index) && interaction.request.method === method && interaction.request.url === url
+    );
+
+    let clockMs = Date.parse(first?.startedAt ?? this.cassette.recordedAt);
+    const transport: ProbeTransport = {
+      fetch: async (fetchUrl, init) => {
+        const interaction = this.take(init.method ?? "GET", fetchUrl);
+        clockMs += interaction.durationMs;
+        if (interaction.error !== undefined) throw new Error(interaction.error);
+        return toResponse(interaction);
+      },
+      now: () => clockMs,
+      sleep: async (ms) => {
+        clockMs += ms;
+      },
+    };
+
+    return new ActiveProbeProvider(transport).probe(url, context, options, credential);
+  }
+
+  private take(method: string, url: string): CassetteInteraction {
+    const index = this.cassette.interactions.findIndex(
+      (interaction, i) => !this.used.has(i) && interaction.request.method === method && interaction.request.url === url
+    );
+    if (index < 0) {
+      throw new Error(`No recorded interaction for ${method} ${url}`);
+    }
+    this.used.add(index);
+    return this.cassette.interactions[index];
+  }
+}
+
+function toResponse(interaction: CassetteInteraction): Response {
+  const recorded = interaction.response!;
+  const headers = new Headers();
+  for (const [name, value] of recorded.headers) headers.append(name, value);
+  return new Response(NULL_BODY_STATUSES.has(recorded.status) ? null : decodeBase64(recorded.body), {
+    status: recorded.status,
+    statusText: recorded.statusText,
+    headers,
+  });
+}
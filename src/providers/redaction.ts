@@ -0,0 +1,334 @@
+/**
+ * Captured Value Redaction
+ *
+ * Responsibility: Mask secrets in captured values (URLs, auth challenges, custom headers, asset URLs)
+ * before an envelope leaves a provider, so they never reach probe rows, CompareResult, the UI or the LLM.
+ *
+ * Design:
+ * 1. URLs: the host is never touched; userinfo passwords, sensitive query/fragment parameters
+ *    (by name) and JWT or high-entropy path segments / parameter values are masked
+ * 2. Free text (www-authenticate, custom headers, Server-Timing descriptions, error messages):
+ *    embedded http(s) URLs are masked as URLs, then JWT-shaped and high-entropy tokens are masked
+ * 3. High-entropy: ≥ 24 characters of [A-Za-z0-9+=_~-], both letters and digits,
+ *    Shannon entropy above 4 bits/char (hex digests and UUIDs cannot exceed it, so asset hashes survive)
+ * 4. A masked value (or masked URL part) becomes REDACTED_VALUE, so a fresh token on each side
+ *    compares equal instead of showing up as drift
+ * 5. Every masked field is listed in envelope.redactions (field path + reasons), sorted by field
+ */
+
+import type {
+  HtmlFingerprint,
+  RedactionReason,
+  RedactionRecord,
+  RedirectHop,
+  ResponseHeadersSnapshot,
+  ResponseMetadata,
+  SignalEnvelope,
+} from "@shared/signal";
+import { REDACTED_VALUE } from "@shared/signal";
+
+/**
+ * Query/fragment parameter names whose values are always masked (compared lowercase).
+ */
+const SENSITIVE_PARAMS = new Set([
+  "access_token",
+  "api_key",
+  "apikey",
+  "auth",
+  "client_secret",
+  "code",
+  "id_token",
+  "jwt",
+  "key",
+  "password",
+  "refresh_token",
+  "session",
+  "session_id",
+  "sessionid",
+  "sid",
+  "sig",
+  "signature",
+  "state",
+  "ticket",
+  "token",
+  "x-amz-credential",
+  "x-amz-security-token",
+  "x-amz-signature",
+  "x-goog-credential",
+  "x-goog-signature",
+]);
+
+/**
+ * Parameter name suffixes treated as sensitive (e.g., "csrf_token", "upload-signature").
+ */
+const SENSITIVE_PARAM_SUFFIX = /[_-](token|secret|signature|password)$/;
+
+const JWT_PATTERN = /eyJ[A-Za-z0-9_-]{4,}\.eyJ[A-Za-z0-9_-]{4,}\.[A-Za-z0-9_-]*/g;
+const TOKEN_CANDIDATE_PATTERN = /[A-Za-z0-9+=_~-]{24,}/g;
+const EMBEDDED_URL_PATTERN = /(https?:\/\/[^\s"'<>]+)/i; // capturing: split() keeps URLs at odd indexes
+const MIN_TOKEN_ENTROPY_BITS = 4;
+
+/**
+ * Shannon entropy of a string in bits per character.
+ */
+function entropyBits(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+  let bits = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+function isHighEntropyToken(value: string): boolean {
+  return /[A-Za-z]/.test(value) && /\d/.test(value) && entropyBits(value) > MIN_TOKEN_ENTROPY_BITS;
+}
+
+function isSensitiveParam(name: string): boolean {
+  let decoded = name;
+  try {
+    decoded = decodeURIComponent(name);
+  } catch {
+    // Keep the raw name
+  }
+  const lower = decoded.toLowerCase();
+  return SENSITIVE_PARAMS.has(lower) || SENSITIVE_PARAM_SUFFIX.test(lower);
+}
+
+/**
+ * Mask JWT-shaped and high-entropy tokens inside free text.
+ */
+function maskTokens(text: string, reasons: Set<RedactionReason>): string {
+  return text
+    .replace(JWT_PATTERN, () => {
+      reasons.add("jwt");
+      return REDACTED_VALUE;
+    })
+    .replace(TOKEN_CANDIDATE_PATTERN, (match) => {
+      if (!isHighEntropyToken(match)) return match;
+      reasons.add("high-entropy");
+      return REDACTED_VALUE;
+    });
+}
+
+/**
+ * Mask a "k=v&k2=v2" parameter list (query string or fragment).
+ */
+function maskParams(params: string, reasons: Set<RedactionReason>): string {
+  return params
+    .split("&")
+    .map((pair) => {
+      const eq = pair.indexOf("=");
+      if (eq < 0) return maskTokens(pair, reasons);
+      const name = pair.slice(0, eq);
+      const value = pair.slice(eq + 1);
+      if (value !== "" && isSensitiveParam(name)) {
+        reasons.add("query-param");
+        return `${name}=${REDACTED_VALUE}`;
+      }
+      return `${name}=${maskTokens(value, reasons)}`;
+    })
+    .join("&");
+}
+
+/**
+ * Mask secrets in an absolute or relative URL. The scheme and host are kept as-is.
+ *
+ * @returns Masked URL and the reasons for any masking (empty if unchanged)
+ */
+export function redactUrl(url: string): { value: string; reasons: RedactionReason[] } {
+  const reasons = new Set<RedactionReason>();
+
+  const hashIndex = url.indexOf("#");
+  const beforeHash = hashIndex >= 0 ? url.slice(0, hashIndex) : url;
+  const fragment = hashIndex >= 0 ? url.slice(hashIndex + 1) : undefined;
+  const queryIndex = beforeHash.indexOf("?");
+  let base = queryIndex >= 0 ? beforeHash.slice(0, queryIndex) : beforeHash;
+  const query = queryIndex >= 0 ? beforeHash.slice(queryIndex + 1) : undefined;
+
+  // Split off scheme://authority so only the path is token-scanned
+  const authorityMatch = base.match(/^([a-z][a-z0-9+.-]*:\/\/)([^/]*)/i);
+  let prefix = "";
+  if (authorityMatch) {
+    let authority = authorityMatch[2];
+    const at = authority.lastIndexOf("@");
+    if (at >= 0 && authority.slice(0, at).includes(":")) {
+      reasons.add("userinfo");
+      authority = `${authority.slice(0, authority.indexOf(":"))}:${REDACTED_VALUE}${authority.slice(at)}`;
+    }
+    prefix = authorityMatch[1] + authority;
+    base = base.slice(authorityMatch[0].length);
+  }
+
+  const path = base
+    .split("/")
+    .map((segment) => maskTokens(segment, reasons))
+    .join("/");
+
+  let value = prefix + path;
+  if (query !== undefined) value += `?${maskParams(query, reasons)}`;
+  if (fragment !== undefined) {
+    value += `#${fragment.includes("=") ? maskParams(fragment, reasons) : maskTokens(fragment, reasons)}`;
+  }
+
+  return { value, reasons: Array.from(reasons).sort() };
+}
+
+/**
+ * Mask URLs and JWT-shaped or high-entropy tokens in free text (header values, error messages).
+ *
+ * @returns Masked value and the reasons for any masking (empty if unchanged)
+ */
+export function redactText(text: string): { value: string; reasons: RedactionReason[] } {
+  const reasons = new Set<RedactionReason>();
+  const value = text
+    .split(EMBEDDED_URL_PATTERN)
+    .map((part, i) => {
+      if (i % 2 === 0) return maskTokens(part, reasons);
+      const url = redactUrl(part);
+      url.reasons.forEach((reason) => reasons.add(reason));
+      return url.value;
+    })
+    .join("");
+  return { value, reasons: Array.from(reasons).sort() };
+}
+
+/**
+ * Collects masked fields while an envelope is rebuilt.
+ */
+class Redactor {
+  readonly records: RedactionRecord[] = [];
+
+  url(field: string, value: string): string;
+  url(field: string, value: string | undefined): string | undefined;
+  url(field: string, value: string | undefined): string | undefined {
+    return value === undefined ? undefined : this.apply(field, redactUrl(value));
+  }
+
+  text(field: string, value: string | undefined): string | undefined {
+    return value === undefined ? undefined : this.apply(field, redactText(value));
+  }
+
+  headers(field: string, headers: ResponseHeadersSnapshot): ResponseHeadersSnapshot;
+  headers(field: string, headers: ResponseHeadersSnapshot | undefined): ResponseHeadersSnapshot | undefined;
+  headers(field: string, headers: ResponseHeadersSnapshot | undefined): ResponseHeadersSnapshot | undefined {
+    if (!headers) return undefined;
+
+    const core = { ...headers.core };
+    if (core.location !== undefined) core.location = this.url(`${field}.core.location`, core.location);
+    if (core["www-authenticate"] !== undefined) {
+      core["www-authenticate"] = this.text(`${field}.core.www-authenticate`, core["www-authenticate"]);
+    }
+
+    let custom = headers.custom;
+    if (custom) {
+      custom = Object.fromEntries(
+        Object.entries(custom).map(([name, value]) => [name, this.text(`${field}.custom.${name}`, value)!])
+      );
+    }
+
+    const serverTiming = headers.serverTiming?.map((metric, i) =>
+      metric.desc === undefined
+        ? metric
+        : { ...metric, desc: this.text(`${field}.serverTiming[${i}].desc`, metric.desc) }
+    );
+
+    return { ...headers, core, custom, serverTiming };
+  }
+
+  private apply(field: string, redacted: { value: string; reasons: RedactionReason[] }): string {
+    if (redacted.reasons.length > 0) {
+      this.records.push({ field, reasons: redacted.reasons });
+    }
+    return redacted.value;
+  }
+}
+
+function redactHtmlAssets(redactor: Redactor, field: string, html: HtmlFingerprint): HtmlFingerprint {
+  const list = (name: "scripts" | "stylesheets") => {
+    const reasons = new Set<RedactionReason>();
+    const urls = html[name].map((url) => {
+      const redacted = redactUrl(url);
+      redacted.reasons.forEach((reason) => reasons.add(reason));
+      return redacted.value;
+    });
+    if (reasons.size > 0) {
+      redactor.records.push({ field: `${field}.${name}`, reasons: Array.from(reasons).sort() });
+    }
+    return Array.from(new Set(urls)).sort();
+  };
+  return { ...html, scripts: list("scripts"), stylesheets: list("stylesheets") };
+}
+
+function redactResponse(redactor: Redactor, response: ResponseMetadata): ResponseMetadata {
+  const field = "result.response";
+  const html = response.bodyFingerprint?.html;
+  return {
+    ...response,
+    finalUrl: redactor.url(`${field}.finalUrl`, response.finalUrl),
+    headers: redactor.headers(`${field}.headers`, response.headers),
+    bodyFingerprint:
+      response.bodyFingerprint && html
+        ? { ...response.bodyFingerprint, html: redactHtmlAssets(redactor, `${field}.bodyFingerprint.html`, html) }
+        : response.bodyFingerprint,
+  };
+}
+
+function redactHops(redactor: Redactor, hops: RedirectHop[] | undefined): RedirectHop[] | undefined {
+  return hops?.map((hop, i) => ({
+    ...hop,
+    fromUrl: redactor.url(`result.redirects[${i}].fromUrl`, hop.fromUrl),
+    toUrl: redactor.url(`result.redirects[${i}].toUrl`, hop.toUrl),
+    headers: redactor.headers(`result.redirects[${i}].headers`, hop.headers),
+  }));
+}
+
+/**
+ * Mask secrets in every captured value of an envelope.
+ * requestedUrl (caller input) and request options are left as-is.
+ *
+ * @param envelope - Envelope as built by a provider
+ * @returns New envelope with masked values and redactions set (if anything was masked)
+ */
+export function redactEnvelope(envelope: SignalEnvelope): SignalEnvelope {
+  const redactor = new Redactor();
+  const result = envelope.result;
+
+  let redactedResult: SignalEnvelope["result"];
+  if ("response" in result) {
+    redactedResult = {
+      ...result,
+      response: redactResponse(redactor, result.response),
+      redirects: redactHops(redactor, result.redirects),
+    };
+  } else {
+    const details = result.error.details
+      ? Object.fromEntries(
+          Object.entries(result.error.details).map(([key, value]) => [
+            key,
+            typeof value === "string" && /^https?:\/\//i.test(value)
+              ? redactor.url(`result.error.details.${key}`, value)
+              : value,
+          ])
+        )
+      : undefined;
+    const message = redactor.text("result.error.message", result.error.message)!;
+    redactedResult = {
+      ...result,
+      error: details ? { ...result.error, message, details } : { ...result.error, message },
+      redirects: redactHops(redactor, result.redirects),
+    };
+  }
+
+  if (redactor.records.length === 0) {
+    return envelope;
+  }
+
+  return {
+    ...envelope,
+    result: redactedResult,
+    redactions: redactor.records.sort((a, b) => (a.field < b.field ? -1 : a.field > b.field ? 1 : 0)),
+  };
+}
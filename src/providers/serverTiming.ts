@@ -0,0 +1,104 @@
+/**
+ * Server-Timing Parsing
+ *
+ * Responsibility: Turn a raw Server-Timing header into named metrics (duration, description).
+ *
+ * Design:
+ * 1. Grammar per the W3C Server Timing spec: comma-separated metrics, each `name;dur=12.5;desc="..."`;
+ *    commas and semicolons inside quoted strings do not split
+ * 2. Parameter names are case-insensitive; the first dur/desc wins, unknown parameters are ignored
+ * 3. Metrics without a valid token name are dropped; a non-numeric dur is dropped (metric kept)
+ * 4. The first metric per name wins; output is sorted by name and capped for deterministic, small JSON
+ */
+
+import type { ServerTimingMetric } from "@shared/signal";
+
+const MAX_SERVER_TIMING_METRICS = 20;
+const MAX_DESCRIPTION_LENGTH = 200;
+
+/**
+ * Split on a delimiter outside double-quoted strings (backslash escapes honored inside quotes).
+ */
+function splitOutsideQuotes(value: string, delimiter: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (inQuotes && char === "\\" && i + 1 < value.length) {
+      current += char + value[++i];
+      continue;
+    }
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === delimiter && !inQuotes) {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Unquote a parameter value (token or quoted-string).
+ */
+function unquote(value: string): string {
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    return value.slice(1, -1).replace(/\\(.)/g, "$1");
+  }
+  return value;
+}
+
+/**
+ * Parse one metric.
+ *
+ * Example:
+ * - 'db;dur=53.2;desc="Primary DB"' → { name: "db", dur: 53.2, desc: "Primary DB" }
+ *
+ * @returns Metric, or undefined if the name is not a valid token
+ */
+function parseMetric(entry: string): ServerTimingMetric | undefined {
+  const [rawName, ...params] = splitOutsideQuotes(entry, ";");
+  const name = rawName.trim();
+  if (!/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(name)) return undefined;
+
+  const metric: ServerTimingMetric = { name };
+  for (const param of params) {
+    const eq = param.indexOf("=");
+    if (eq < 0) continue;
+    const key = param.slice(0, eq).trim().toLowerCase();
+    const value = unquote(param.slice(eq + 1).trim());
+
+    if (key === "dur" && metric.dur === undefined) {
+      const dur = Number(value);
+      if (value !== "" && Number.isFinite(dur) && dur >= 0) metric.dur = dur;
+    } else if (key === "desc" && metric.desc === undefined && value !== "") {
+      metric.desc = value.slice(0, MAX_DESCRIPTION_LENGTH);
+    }
+  }
+  return metric;
+}
+
+/**
+ * Parse a Server-Timing header value (repeated headers arrive comma-joined).
+ *
+ * @param header - Raw header value (null if absent)
+ * @returns Metrics sorted by name, or undefined if the header is absent or has no valid metric
+ */
+export function parseServerTiming(header: string | null): ServerTimingMetric[] | undefined {
+  if (!header) return undefined;
+
+  const byName = new Map<string, ServerTimingMetric>();
+  for (const entry of splitOutsideQuotes(header, ",")) {
+    const metric = parseMetric(entry);
+    if (metric && !byName.has(metric.name)) byName.set(metric.name, metric);
+  }
+
+  const metrics = Array.from(byName.values())
+    .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+    .slice(0, MAX_SERVER_TIMING_METRICS);
+  return metrics.length > 0 ? metrics : undefined;
+}
@@ -0,0 +1,111 @@
+/**
+ * Set-Cookie Parsing
+ *
+ * Responsibility: Turn raw Set-Cookie header values into value-free SetCookieRecords.
+ *
+ * Design:
+ * 1. The cookie value is discarded at parse time; only the name is kept
+ * 2. Attribute names are case-insensitive; unknown attributes are ignored
+ * 3. Expires is recorded as presence only (its absolute date changes on every request)
+ * 4. Output is sorted by name for deterministic JSON
+ */
+
+import type { SetCookieRecord } from "@shared/signal";
+
+/**
+ * Parse one Set-Cookie header value.
+ *
+ * Example:
+ * - "sid=abc; Path=/; Secure; HttpOnly; SameSite=Lax"
+ *   → { name: "sid", path: "/", secure: true, httpOnly: true, sameSite: "lax", expires: false, partitioned: false }
+ *
+ * @param header - Raw Set-Cookie header value
+ * @returns SetCookieRecord, or undefined if no cookie name can be found
+ */
+export function parseSetCookie(header: string): SetCookieRecord | undefined {
+  const [pair, ...attributes] = header.split(";");
+  const eq = pair.indexOf("=");
+  const name = (eq >= 0 ? pair.slice(0, eq) : pair).trim();
+  if (!name) return undefined;
+
+  const record: SetCookieRecord = {
+    name,
+    secure: false,
+    httpOnly: false,
+    expires: false,
+    partitioned: false,
+  };
+
+  for (const attribute of attributes) {
+    const attrEq = attribute.indexOf("=");
+    const key = (attrEq >= 0 ? attribute.slice(0, attrEq) : attribute).trim().toLowerCase();
+    const value = attrEq >= 0 ? attribute.slice(attrEq + 1).trim() : "";
+
+    switch (key) {
+      case "domain":
+        if (value) record.domain = value.replace(/^\./, "").toLowerCase();
+        break;
+      case "path":
+        if (value) record.path = value;
+        break;
+      case "secure":
+        record.secure = true;
+        break;
+      case "httponly":
+        record.httpOnly = true;
+        break;
+      case "samesite": {
+        const sameSite = value.toLowerCase();
+        if (sameSite === "strict" || sameSite === "lax" || sameSite === "none") {
+          record.sameSite = sameSite;
+        }
+        break;
+      }
+      case "max-age": {
+        const maxAge = Number(value);
+        if (value !== "" && Number.isInteger(maxAge)) record.maxAge = maxAge;
+        break;
+      }
+      case "expires":
+        record.expires = true;
+        break;
+      case "partitioned":
+        record.partitioned = true;
+        break;
+    }
+  }
+
+  return record;
+}
+
+/**
+ * Read every Set-Cookie header separately (they must not be comma-joined).
+ * Standard runtimes expose getSetCookie(); the Workers runtime also exposes getAll("set-cookie").
+ */
+function setCookieValues(headers: Headers): string[] {
+  const h = headers as Headers & {
+    getSetCookie?: () => string[];
+    getAll?: (name: string) => string[];
+  };
+  if (typeof h.getSetCookie === "function") return h.getSetCookie();
+  if (typeof h.getAll === "function") return h.getAll("set-cookie");
+  const joined = headers.get("set-cookie");
+  return joined ? [joined] : [];
+}
+
+/**
+ * Parse all Set-Cookie headers of a response.
+ *
+ * @param headers - Response headers
+ * @returns Records sorted by name (then domain, path), or undefined if none were set
+ */
+export function parseSetCookieHeaders(headers: Headers): SetCookieRecord[] | undefined {
+  const records = setCookieValues(headers)
+    .map(parseSetCookie)
+    .filter((record): record is SetCookieRecord => record !== undefined);
+
+  if (records.length === 0) return undefined;
+
+  const sortKey = (r: SetCookieRecord) => `${r.name}\u0000${r.domain ?? ""}\u0000${r.path ?? ""}`;
+  return records.sort((a, b) => (sortKey(a) < sortKey(b) ? -1 : sortKey(a) > sortKey(b) ? 1 : 0));
+}
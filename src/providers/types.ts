@@ -1,4 +1,5 @@
-import type { SignalEnvelope, CfContextSnapshot } from "@shared/signal";
+import type { SignalEnvelope, CfContextSnapshot, ProbeRequestOptions } from "@shared/signal";
+import type { ProbeCredential } from "./credentials";
 
 /**
  * Runner context extracted from Cloudflare request.cf
@@ -9,7 +10,7 @@ export type ProviderRunnerContext = CfContextSnapshot;
 /**
  * Interface for signal providers.
  * All providers must:
- * - Accept a target URL and optional runner context
+ * - Accept a target URL, optional runner context, optional request options, and optional credential
  * - Return a Promise<SignalEnvelope>
  * - Never throw exceptions (always return a probe result, success or failure)
  * - Produce deterministic output (same input → identical JSON)
@@ -20,6 +21,8 @@ export interface ISignalProvider {
    *
    * @param url - The target URL to probe (http/https only)
    * @param context - Optional runner context from request.cf
+   * @param options - Optional request options (method, headers, body, timeout, redirect limit)
+   * @param credential - Optional resolved credential, injected at fetch time only
    * @returns Promise resolving to a SignalEnvelope (success, HTTP error, or network failure)
    *
    * @example
@@ -54,7 +57,14 @@ export interface ISignalProvider {
    * - Always returns a valid SignalEnvelope
    * - comparisonId and probeId set by caller before persistence
    * - side set by caller before persistence
-   * - Output is deterministic (same URL + context = identical JSON)
+   * - Effective request options recorded in envelope.request
+   * - Credential values never appear in the envelope (only request.credentialRef)
+   * - Output is deterministic (same URL + context + options = identical JSON)
    */
-  probe(url: string, context?: ProviderRunnerContext): Promise<SignalEnvelope>;
+  probe(
+    url: string,
+    context?: ProviderRunnerContext,
+    options?: ProbeRequestOptions,
+    credential?: ProbeCredential
+  ): Promise<SignalEnvelope>;
 }
@@ -0,0 +1,127 @@
+/**
+ * Regression: reproduce a recorded drift report end to end through CompareEnvironments, offline.
+ *
+ * The cassette (fixtures/cache-drift.cassette.json) holds both sides of a comparison:
+ * staging is served by nginx with a public cache policy; production redirects to www,
+ * is served by Cloudflare with no-store, and ships a different app bundle.
+ */
+
+import type { WorkflowEvent, WorkflowStep, WorkflowStepConfig } from "cloudflare:workers";
+import type { CompareResult } from "@shared/api";
+import type { Env } from "../../env";
+import type { ProbeCassette } from "../../providers/recordReplay";
+import { ReplayProbeProvider } from "../../providers/recordReplay";
+import { CompareEnvironments } from "../compareEnvironments";
+import type { CompareEnvironmentsInput } from "../compareEnvironments";
+import cassette from "./fixtures/cache-drift.cassette.json";
+
+jest.mock(
+  "cloudflare:workers",
+  () => ({
+    WorkflowEntrypoint: class {
+      constructor(
+        protected ctx: unknown,
+        protected env: unknown
+      ) {}
+    },
+  }),
+  { virtual: true }
+);
+
+jest.mock("../../llm/explain", () => ({
+  explainDiff: jest.fn(async () => ({ summary: "replayed", ranked_causes: [], actions: [] })),
+}));
+
+function fakeEnv() {
+  const calls: Array<{ method: string; args: unknown[] }> = [];
+  const stub = new Proxy(
+    {},
+    {
+      get: (_target, method: string) => async (...args: unknown[]) => {
+        calls.push({ method, args });
+        if (method === "createComparison") return { status: "running" };
+        if (method === "getComparisonsForHistory") return [];
+        return undefined;
+      },
+    }
+  );
+  // Only the bindings the workflow touches
+  const env = { ENVPAIR_DO: { idFromName: () => "do-id", get: () => stub }, AI: {} } as unknown as Env;
+  return { env, calls };
+}
+
+const ctx: ExecutionContext = {
+  waitUntil: () => undefined,
+  passThroughOnException: () => undefined,
+  props: undefined,
+};
+
+function runStep<T>(_name: string, configOrFn: WorkflowStepConfig | (() => Promise<T>), fn?: () => Promise<T>) {
+  return typeof configOrFn === "function" ? configOrFn() : fn!();
+}
+
+const step: WorkflowStep = {
+  do: runStep,
+  sleep: async () => undefined,
+  sleepUntil: async () => undefined,
+  waitForEvent: async () => {
+    throw new Error("waitForEvent is not used by CompareEnvironments");
+  },
+};
+
+const event: WorkflowEvent<CompareEnvironmentsInput> = {
+  payload: {
+    comparisonId: "replay-1",
+    leftUrl: "https://staging.shop.example.com/",
+    rightUrl: "https://shop.example.com/",
+    leftLabel: "staging",
+    rightLabel: "production",
+    pairKey: "replay-pair",
+    runnerContext: { colo: "FRA", country: "DE" },
+  },
+  timestamp: new Date("2026-05-12T09:30:00.000Z"),
+  instanceId: "replay-1",
+};
+
+async function runReplay(): Promise<Required<CompareResult>> {
+  class ReplayCompare extends CompareEnvironments {
+    protected readonly provider = new ReplayProbeProvider(cassette as ProbeCassette);
+  }
+  const { env, calls } = fakeEnv();
+  const workflow = new ReplayCompare(ctx, env);
+
+  const outcome = await workflow.run(event, step);
+  expect(outcome).toEqual({ comparisonId: "replay-1", status: "completed" });
+
+  const saved = calls.find((call) => call.method === "saveResult");
+  return saved!.args[1] as Required<CompareResult>;
+}
+
+describe("CompareEnvironments replay", () => {
+  it("reproduces the recorded drift findings", async () => {
+    const result = await runReplay();
+
+    expect(result.left.capturedAt).toBe("2026-05-12T09:30:00.012Z");
+    expect(result.right.capturedAt).toBe("2026-05-12T09:30:00.013Z");
+    expect(result.left.result.durationMs).toBe(84);
+    expect(result.right.result.durationMs).toBe(133);
+
+    const codes = result.diff.findings.map((finding) => finding.code).sort();
+    expect(codes).toEqual(
+      expect.arrayContaining([
+        "BUILD_FINGERPRINT_DRIFT",
+        "CACHE_HEADER_DRIFT",
+        "COOKIE_ATTRIBUTE_DRIFT",
+        "FINAL_URL_MISMATCH",
+        "PLATFORM_DRIFT",
+        "REDIRECT_CHAIN_CHANGED",
+      ])
+    );
+    expect(result.diff.timing?.startSkewMs).toBe(1);
+  });
+
+  it("is deterministic across runs", async () => {
+    const [first, second] = [await runReplay(), await runReplay()];
+    expect(JSON.stringify(second.diff)).toBe(JSON.stringify(first.diff));
+  });
+});
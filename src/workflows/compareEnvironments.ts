@@ -21,11 +21,13 @@
  * Execution steps (in order):
  * 1. Validate inputs and compute pairKey
  * 2. DO: createComparison → comparisonId, status = running
- * 3. Probe left URL → SignalEnvelope
- * 4. DO: saveProbe(comparisonId, "left", envelope)
- * 5. Probe right URL → SignalEnvelope
- * 6. DO: saveProbe(comparisonId, "right", envelope)
+ * 3-4. Probe left and right URLs concurrently → SignalEnvelopes (synchronized start);
+ *      an imported side (input.imported, e.g. from a HAR) uses its envelope instead
+ * 5. Timing samples (optional, options.samples > 1): rounds probing both sides concurrently
+ * 6. DO: saveProbe(comparisonId, "left"/"right", envelope), both sides concurrently
  * 7. Compute deterministic EnvDiff
+ * 7b. Negotiation variants (optional, options.variants): probe both sides per variant → EnvDiff per variant,
+ *     then fold the aggregate Vary finding into the base diff
  * 8. Load history (optional)
  * 9. Call Workers AI with diff, history → LLM explanation JSON
  * 10. Validate LLM output
@@ -35,12 +37,18 @@
 
 import { WorkflowEntrypoint } from "cloudflare:workers";
 import type { WorkflowEvent, WorkflowStep } from "cloudflare:workers";
-import type { CfContextSnapshot, FrozenSignalEnvelope } from "@shared/signal";
-import type { CompareError, CompareResult } from "@shared/api";
+import type { CfContextSnapshot, FrozenSignalEnvelope, ProbeSide, SignalEnvelope } from "@shared/signal";
+import type { CompareError, CompareOptions, CompareCredentialRefs, CompareResult, VariantComparison } from "@shared/api";
 import type { LlmExplanation } from "@shared/llm";
 import type { Env } from "../env";
 import { activeProbeProvider } from "../providers/activeProbe";
+import type { ISignalProvider } from "../providers/types";
+import { credentialAllowsUrl, resolveCredential } from "../providers/credentials";
+import type { ProbeCredential } from "../providers/credentials";
 import { computeDiff } from "../analysis/diff";
+import type { DiffOptions } from "../analysis/diff";
+import { summarizeTimingSamples } from "../analysis/timingUtils";
+import { applyVaryFindings, negotiationHeaders } from "../analysis/negotiationUtils";
 import { explainDiff } from "../llm/explain";
 
 export interface CompareEnvironmentsInput {
@@ -51,6 +59,14 @@ export interface CompareEnvironmentsInput {
   rightLabel?: string;
   pairKey: string;
   runnerContext: CfContextSnapshot;
+  options?: CompareOptions;
+  credentials?: CompareCredentialRefs;
+
+  /**
+   * Pre-built envelopes per side (e.g., HAR imports); an imported side is not probed live.
+   * Timing samples and negotiation variants are skipped when any side is imported.
+   */
+  imported?: Partial<Record<ProbeSide, SignalEnvelope>>;
 }
 
 /**
@@ -60,6 +76,12 @@ export interface CompareEnvironmentsInput {
  * Called via: env.COMPARE_WORKFLOW.create({ id, payload: input })
  */
 export class CompareEnvironments extends WorkflowEntrypoint<Env, CompareEnvironmentsInput> {
+  /**
+   * Provider for every live probe (base, timing samples, variants).
+   * Regression tests substitute a ReplayProbeProvider to run a recorded cassette offline.
+   */
+  protected readonly provider: ISignalProvider = activeProbeProvider;
+
   /**
    * Main workflow entrypoint.
    *
@@ -78,7 +100,9 @@ export class CompareEnvironments extends WorkflowEntrypoint<Env, CompareEnvironm
     console.log(`[Workflow::run] Input received:`, JSON.stringify(input));
     console.log(`[Workflow::run] Input keys:`, Object.keys(input));
 
-    const { comparisonId, leftUrl, rightUrl, leftLabel, rightLabel, pairKey, runnerContext } = input;
+    const { comparisonId, leftUrl, rightUrl, leftLabel, rightLabel, pairKey, runnerContext, options, credentials, imported } =
+      input;
+    const hasImportedSide = Boolean(imported?.left || imported?.right);
     console.log(`[Workflow::run] Destructured - comparisonId=${comparisonId}, pairKey=${pairKey}`);
 
     try {
@@ -89,6 +113,17 @@ export class CompareEnvironments extends WorkflowEntrypoint<Env, CompareEnvironm
         throw new Error("Missing required parameters");
       }
 
+      // Resolve credential references from Worker secrets (in memory only).
+      // Params carry names; values never enter step outputs or the envelope.
+      const leftCredential = credentials?.left ? resolveCredential(env, credentials.left) : undefined;
+      const rightCredential = credentials?.right ? resolveCredential(env, credentials.right) : undefined;
+      if (
+        (credentials?.left && (!leftCredential || !credentialAllowsUrl(leftCredential, leftUrl))) ||
+        (credentials?.right && (!rightCredential || !credentialAllowsUrl(rightCredential, rightUrl)))
+      ) {
+        throw new Error("Credential reference could not be resolved");
+      }
+
       console.log(`[Workflow] All inputs valid`);
       console.log(`[Workflow] Starting comparison ${comparisonId} for ${leftUrl} <-> ${rightUrl}`);
 
@@ -103,99 +138,189 @@ export class CompareEnvironments extends WorkflowEntrypoint<Env, CompareEnvironm
 
       console.log(`[Workflow] Comparison ${comparisonId} created, status=${createResult.status}`);
 
-      // ===== STEP 3: Probe Left URL =====
-
-      let leftEnvelope: FrozenSignalEnvelope;
-      try {
-        leftEnvelope = await step.do("probeLeft", async () => {
-          const result = await activeProbeProvider.probe(leftUrl, runnerContext);
+      // ===== STEPS 3-4: Probe Left and Right URLs (Concurrently) =====
+      // Both steps start together so the sides are measured at the same moment:
+      // sequential probes skew TIMING_DRIFT and can straddle a rolling deploy.
+      // Each side stays its own step, so a retry re-runs only that side.
+      // options.retry retries transient failures inside the probe instead (each attempt recorded on the envelope).
+      // capturedAt records each probe's start; EnvDiff.timing.startSkewMs exposes the gap.
+
+      const probeSide = (side: ProbeSide, url: string, credential?: ProbeCredential) =>
+        step.do(side === "left" ? "probeLeft" : "probeRight", async () => {
+          const importedEnvelope = imported?.[side];
+          if (importedEnvelope) return importedEnvelope as any;
+          const result = await this.provider.probe(url, runnerContext, options, credential);
           return result as any;
         });
-        if (!leftEnvelope) {
-          throw new Error("probeLeft returned empty result");
+
+      const [leftOutcome, rightOutcome] = await Promise.allSettled([
+        probeSide("left", leftUrl, leftCredential),
+        probeSide("right", rightUrl, rightCredential),
+      ]);
+
+      // Settle sides in order (left first) so failure handling stays deterministic
+      const settleProbe = async (
+        side: ProbeSide,
+        outcome: PromiseSettledResult<FrozenSignalEnvelope>
+      ): Promise<FrozenSignalEnvelope> => {
+        const label = side === "left" ? "Left" : "Right";
+        if (outcome.status === "rejected" || !outcome.value) {
+          const err = outcome.status === "rejected" ? outcome.reason : new Error(`probe${label} returned empty result`);
+          // Fail comparison on probe error
+          const probeError: CompareError = {
+            code: "fetch_error",
+            message: `${label} probe failed: ${String(err)}`,
+          };
+          await step.do(`fail${label}`, async () => {
+            const doId = env.ENVPAIR_DO.idFromName(pairKey);
+            const stub = env.ENVPAIR_DO.get(doId);
+            return (stub as any).failComparison(comparisonId, probeError);
+          });
+          throw err;
         }
-      } catch (err) {
-        // Fail comparison on probe error
-        const probeError: CompareError = {
-          code: "fetch_error",
-          message: `Left probe failed: ${String(err)}`,
-        };
-        await step.do("failLeft", async () => {
-          const doId = env.ENVPAIR_DO.idFromName(pairKey);
-          const stub = env.ENVPAIR_DO.get(doId);
-          return (stub as any).failComparison(comparisonId, probeError);
-        });
-        throw err;
-      }
 
-      // Enrich left envelope with workflow context before storage
-      // (Provider doesn't know comparisonId, so enrichment happens here)
-      leftEnvelope = {
-        ...(leftEnvelope as any),
-        comparisonId,
-        probeId: `${comparisonId}:left`,
-        side: "left" as const,
+        // Enrich envelope with workflow context before storage
+        // (Provider doesn't know comparisonId, so enrichment happens here)
+        return {
+          ...(outcome.value as any),
+          comparisonId,
+          probeId: `${comparisonId}:${side}`,
+          side,
+        };
       };
 
-      // ===== STEP 4: Save Left Probe =====
-      // ✅ IDEMPOTENT: probe ID = ${comparisonId}:left (same every time)
+      let leftEnvelope = await settleProbe("left", leftOutcome);
+      let rightEnvelope = await settleProbe("right", rightOutcome);
+
+      // ===== STEP 5: Timing Samples (Optional, Interleaved) =====
+      // Round i probes both sides concurrently so they see the same conditions.
+      // Each round is its own step: a retry re-runs only that round.
+
+      const sampleCount = options?.samples ?? 1;
+      if (
+        sampleCount > 1 &&
+        !hasImportedSide &&
+        "response" in leftEnvelope.result &&
+        "response" in rightEnvelope.result
+      ) {
+        const leftSamples: number[] = [leftEnvelope.result.durationMs];
+        const rightSamples: number[] = [rightEnvelope.result.durationMs];
+        let leftFailed = 0;
+        let rightFailed = 0;
+
+        // Samples time the main request only; the preflight is captured once above
+        const sampleOptions = { ...options, preflight: undefined };
+
+        for (let round = 1; round < sampleCount; round++) {
+          const sample = await step.do(`timingSample_${round}`, async () => {
+            const [left, right] = await Promise.all([
+              this.provider.probe(leftUrl, runnerContext, sampleOptions, leftCredential),
+              this.provider.probe(rightUrl, runnerContext, sampleOptions, rightCredential),
+            ]);
+            return {
+              left: "response" in left.result ? left.result.durationMs : null,
+              right: "response" in right.result ? right.result.durationMs : null,
+            };
+          });
 
-      await step.do("saveLeftProbe", async () => {
-        const doId = env.ENVPAIR_DO.idFromName(pairKey);
-        const stub = env.ENVPAIR_DO.get(doId);
-        return (stub as any).saveProbe(comparisonId, "left", leftEnvelope);
-      });
+          if (sample.left === null) leftFailed++;
+          else leftSamples.push(sample.left);
+          if (sample.right === null) rightFailed++;
+          else rightSamples.push(sample.right);
+        }
 
-      // ===== STEP 5: Probe Right URL =====
+        leftEnvelope = { ...(leftEnvelope as any), timing: summarizeTimingSamples(leftSamples, leftFailed) };
+        rightEnvelope = { ...(rightEnvelope as any), timing: summarizeTimingSamples(rightSamples, rightFailed) };
 
-      let rightEnvelope: FrozenSignalEnvelope;
-      try {
-        rightEnvelope = await step.do("probeRight", async () => {
-          const result = await activeProbeProvider.probe(rightUrl, runnerContext);
-          return result as any;
-        });
-        if (!rightEnvelope) {
-          throw new Error("probeRight returned empty result");
-        }
-      } catch (err) {
-        // Fail comparison on probe error
-        const probeError: CompareError = {
-          code: "fetch_error",
-          message: `Right probe failed: ${String(err)}`,
-        };
-        await step.do("failRight", async () => {
-          const doId = env.ENVPAIR_DO.idFromName(pairKey);
-          const stub = env.ENVPAIR_DO.get(doId);
-          return (stub as any).failComparison(comparisonId, probeError);
-        });
-        throw err;
+        console.log(`[Workflow] Timing samples collected: ${sampleCount} rounds`);
       }
 
-      // Enrich right envelope with workflow context before storage
-      // (Provider doesn't know comparisonId, so enrichment happens here)
-      rightEnvelope = {
-        ...(rightEnvelope as any),
-        comparisonId,
-        probeId: `${comparisonId}:right`,
-        side: "right" as const,
-      };
-
-      // ===== STEP 6: Save Right Probe (idempotent) =====
+      // ===== STEP 6: Save Probes (idempotent, concurrent) =====
+      // ✅ IDEMPOTENT: probe ID = ${comparisonId}:${side} (same every time),
+      // so a retried save upserts regardless of which side finished first
 
-      await step.do("saveRightProbe", async () => {
-        const doId = env.ENVPAIR_DO.idFromName(pairKey);
-        const stub = env.ENVPAIR_DO.get(doId);
-        return (stub as any).saveProbe(comparisonId, "right", rightEnvelope);
-      });
+      await Promise.all([
+        step.do("saveLeftProbe", async () => {
+          const doId = env.ENVPAIR_DO.idFromName(pairKey);
+          const stub = env.ENVPAIR_DO.get(doId);
+          return (stub as any).saveProbe(comparisonId, "left", leftEnvelope);
+        }),
+        step.do("saveRightProbe", async () => {
+          const doId = env.ENVPAIR_DO.idFromName(pairKey);
+          const stub = env.ENVPAIR_DO.get(doId);
+          return (stub as any).saveProbe(comparisonId, "right", rightEnvelope);
+        }),
+      ]);
 
       // ===== STEP 7: Compute Diff (Deterministic, Local) =====
 
-      const diff = computeDiff(leftEnvelope, rightEnvelope);
+      const diffOptions: DiffOptions = {
+        urlNormalization: options?.urlNormalization,
+        hostMappings: options?.hostMappings,
+      };
+      let diff = computeDiff(leftEnvelope, rightEnvelope, diffOptions);
 
       console.log(
         `[Workflow] Diff computed for ${comparisonId}: ${diff.findings.length} findings`
       );
 
+      // ===== STEP 7b: Negotiation Variants (Optional) =====
+      // One step per variant; variant probes live in the result only (not in the probes table).
+
+      const variants: VariantComparison[] = [];
+      for (const variant of hasImportedSide ? [] : options?.variants ?? []) {
+        const variantOptions = {
+          ...options,
+          headers: { ...options?.headers, ...variant.headers },
+          preflight: undefined,
+        };
+
+        const probes = await step.do(`variant_${variant.name}`, async () => {
+          const [left, right] = await Promise.all([
+            this.provider.probe(leftUrl, runnerContext, variantOptions, leftCredential),
+            this.provider.probe(rightUrl, runnerContext, variantOptions, rightCredential),
+          ]);
+          return { left: left as any, right: right as any };
+        });
+
+        const variantLeft: FrozenSignalEnvelope = {
+          ...probes.left,
+          comparisonId,
+          probeId: `${comparisonId}:left:${variant.name}`,
+          side: "left" as const,
+        };
+        const variantRight: FrozenSignalEnvelope = {
+          ...probes.right,
+          comparisonId,
+          probeId: `${comparisonId}:right:${variant.name}`,
+          side: "right" as const,
+        };
+
+        variants.push({
+          name: variant.name,
+          headers: variant.headers,
+          left: variantLeft,
+          right: variantRight,
+          diff: computeDiff(variantLeft, variantRight, diffOptions),
+        });
+      }
+
+      if (variants.length > 0) {
+        const baseHeaders = negotiationHeaders(options?.headers);
+        diff = applyVaryFindings(
+          diff,
+          [
+            { headers: baseHeaders, envelope: leftEnvelope },
+            ...variants.map((v) => ({ headers: negotiationHeaders(options?.headers, v), envelope: v.left })),
+          ],
+          [
+            { headers: baseHeaders, envelope: rightEnvelope },
+            ...variants.map((v) => ({ headers: negotiationHeaders(options?.headers, v), envelope: v.right })),
+          ]
+        );
+        console.log(`[Workflow] ${variants.length} negotiation variants compared`);
+      }
+
       // ===== STEP 8: Load History (Truly Optional, For LLM Context) =====
 
       const history = await step.do("loadHistory", async () => {
@@ -277,6 +402,7 @@ export class CompareEnvironments extends WorkflowEntrypoint<Env, CompareEnvironm
         right: rightEnvelope as any,
         diff,
         explanation: explanation as LlmExplanation,
+        variants: variants.length > 0 ? variants : undefined,
       };
 
       await step.do("saveResult", async () => {